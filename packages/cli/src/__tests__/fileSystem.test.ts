@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import { existsSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { MemoryFileSystem } from '../helpers/fileSystem.js';
+import { TanStackInstaller } from '../installers/tanstack.js';
+import type { ProjectOptions } from '../installers/types.js';
+
+describe('MemoryFileSystem', () => {
+  it('should read back written files and report missing ones', async () => {
+    const fileSystem = new MemoryFileSystem();
+
+    await fileSystem.writeFile('/project/src/index.ts', 'export {}');
+
+    expect(await fileSystem.readFile('/project/src/index.ts')).toBe('export {}');
+    expect(await fileSystem.pathExists('/project/src')).toBe(true);
+    expect(await fileSystem.pathExists('/project/missing.ts')).toBe(false);
+    await expect(fileSystem.readFile('/project/missing.ts')).rejects.toThrow('ENOENT');
+  });
+
+  it('should list files relative to the root path', async () => {
+    const fileSystem = new MemoryFileSystem();
+
+    await fileSystem.writeFile('/project/b.ts', '');
+    await fileSystem.writeFile('/project/a/c.ts', '');
+
+    expect(fileSystem.listFiles('/project')).toEqual(['a/c.ts', 'b.ts']);
+  });
+
+  it('should diff new files against an empty original', async () => {
+    const fileSystem = new MemoryFileSystem();
+
+    await fileSystem.writeFile('/project/.env.local', 'SECRET=1\n');
+    const diffs = fileSystem.createDiffs('/project');
+
+    expect(diffs).toHaveLength(1);
+    expect(diffs[0]).toContain('+++ b/.env.local');
+    expect(diffs[0]).toContain('+SECRET=1');
+  });
+});
+
+describe('Dry run scaffolding', () => {
+  it('should run every installer step in memory without touching disk', async () => {
+    const targetPath = join(tmpdir(), `z3-dry-run-${Date.now()}`);
+    const fileSystem = new MemoryFileSystem();
+    const installer = new TanStackInstaller(targetPath, 'dry-run-app', fileSystem);
+
+    const options: ProjectOptions = {
+      projectName: 'dry-run-app',
+      framework: 'tanstack',
+      emailPasswordAuth: true,
+      oauthProviders: ['google'],
+      initGit: false,
+      installDependencies: false,
+    };
+
+    await installer.initProject(options);
+
+    expect(existsSync(targetPath)).toBe(false);
+    expect(fileSystem.listFiles(targetPath)).toContain('convex/auth/index.ts');
+
+    const authContent = await fileSystem.readFile(join(targetPath, 'convex/auth/index.ts'));
+    expect(authContent).toContain('clientId: process.env.GOOGLE_CLIENT_ID!');
+
+    const diffedFiles = fileSystem
+      .createDiffs(targetPath)
+      .map(diff => diff.match(/\+\+\+ b\/(\S+)/)?.[1]);
+    expect(diffedFiles).toEqual([
+      '.env.example',
+      '.env.local',
+      'convex/_generated/api.d.ts',
+      'convex/auth/index.ts',
+      'convex/auth/plugins/index.ts',
+      'convex/schema.ts',
+      'package.json',
+      'README.md',
+      'src/db/constants/index.ts',
+      'src/env.ts',
+      'src/lib/auth/client.ts',
+      'src/providers.tsx',
+      'src/routeTree.gen.ts',
+      'src/styles.css',
+    ]);
+  });
+});
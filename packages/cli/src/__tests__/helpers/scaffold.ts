@@ -0,0 +1,95 @@
+/**
+ * Shared fixture for installer tests
+ *
+ * Scaffolds a project into a MemoryFileSystem and returns an installer bound
+ * to it, plus helpers to read, write and evaluate files relative to the project root.
+ */
+
+import { tmpdir } from 'os';
+import { join, posix } from 'path';
+import ts from 'typescript';
+import { MemoryFileSystem } from '../../helpers/fileSystem.js';
+import { createInstaller } from '../../installers/index.js';
+import type { Framework, ProjectOptions } from '../../installers/types.js';
+
+/**
+ * Scaffolds a project into memory and returns an installer bound to it
+ * Options default to an email & password project without OAuth providers
+ */
+export async function scaffoldInMemory(
+  framework: Framework,
+  options: Partial<Omit<ProjectOptions, 'framework'>> = {}
+) {
+  const projectName = options.projectName ?? 'test-app';
+  const targetPath = join(tmpdir(), `z3-${projectName}-${framework}`);
+  const fileSystem = new MemoryFileSystem();
+  const installer = createInstaller(framework, targetPath, projectName, fileSystem);
+
+  await installer.initProject({
+    emailPasswordAuth: true,
+    oauthProviders: [],
+    initGit: false,
+    installDependencies: false,
+    ...options,
+    projectName,
+    framework,
+  });
+
+  const read = (relativePath: string) => fileSystem.readFile(join(targetPath, relativePath));
+  const write = (relativePath: string, content: string) =>
+    fileSystem.writeFile(join(targetPath, relativePath), content);
+  const exists = (relativePath: string) => fileSystem.pathExists(join(targetPath, relativePath));
+  const load = (relativePath: string) => loadProjectModule(read, exists, relativePath);
+  return { installer, fileSystem, targetPath, read, write, exists, load };
+}
+
+/**
+ * Evaluates a generated TypeScript module and the project modules it imports
+ * Resolves `~/` to src/ like the templates' tsconfig paths; type-only imports
+ * are dropped by the transpiler, so only runtime dependencies must exist.
+ */
+async function loadProjectModule(
+  read: (relativePath: string) => Promise<string>,
+  exists: (relativePath: string) => Promise<boolean>,
+  relativePath: string
+): Promise<Record<string, unknown>> {
+  const sources = new Map<string, string>();
+  const resolved = new Map<string, string>();
+
+  const resolve = async (from: string, specifier: string) => {
+    const base = specifier.startsWith('~/')
+      ? posix.join('src', specifier.slice(2))
+      : posix.join(posix.dirname(from), specifier);
+    for (const candidate of [`${base}.ts`, `${base}.tsx`, `${base}/index.ts`]) {
+      if (await exists(candidate)) return candidate;
+    }
+    throw new Error(`Cannot resolve '${specifier}' from ${from}`);
+  };
+
+  const transpile = async (path: string) => {
+    if (sources.has(path)) return;
+    const { outputText } = ts.transpileModule(await read(path), {
+      compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2022 },
+    });
+    sources.set(path, outputText);
+    for (const [, specifier] of outputText.matchAll(/require\("([^"]+)"\)/g)) {
+      const dependency = await resolve(path, specifier);
+      resolved.set(`${path}:${specifier}`, dependency);
+      await transpile(dependency);
+    }
+  };
+
+  const modules = new Map<string, Record<string, unknown>>();
+  const evaluate = (path: string): Record<string, unknown> => {
+    const cached = modules.get(path);
+    if (cached) return cached;
+    const exports: Record<string, unknown> = {};
+    modules.set(path, exports);
+    const require = (specifier: string) => evaluate(resolved.get(`${path}:${specifier}`)!);
+    new Function('exports', 'require', sources.get(path)!)(exports, require);
+    return exports;
+  };
+
+  await transpile(relativePath);
+  return evaluate(relativePath);
+}
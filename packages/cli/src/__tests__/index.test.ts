@@ -12,7 +12,6 @@ vi.mock('../utils/validation.js', () => ({
 }));
 
 vi.mock('../helpers/fileOperations.js', () => ({
-  createProjectDirectory: vi.fn(),
   getTargetDirectory: vi.fn(),
 }));
 
@@ -114,40 +113,40 @@ describe('CLI Flow Integration', () => {
     });
   });
 
-  describe('Directory creation', () => {
-    it('should create directory and display success message for named project', async () => {
-      vi.mocked(fileOperations.createProjectDirectory).mockResolvedValue('/path/to/cwd/my-app');
+  describe('Target directory', () => {
+    it('should resolve the target directory for a named project', () => {
+      vi.mocked(fileOperations.getTargetDirectory).mockReturnValue('/path/to/cwd/my-app');
 
-      const createdPath = await fileOperations.createProjectDirectory('my-app', '/path/to/cwd');
+      const targetPath = fileOperations.getTargetDirectory('my-app', '/path/to/cwd');
 
-      expect(createdPath).toBe('/path/to/cwd/my-app');
-      expect(fileOperations.createProjectDirectory).toHaveBeenCalledWith('my-app', '/path/to/cwd');
+      expect(targetPath).toBe('/path/to/cwd/my-app');
+      expect(fileOperations.getTargetDirectory).toHaveBeenCalledWith('my-app', '/path/to/cwd');
     });
 
-    it('should return cwd without creating directory for dot notation', async () => {
-      vi.mocked(fileOperations.createProjectDirectory).mockResolvedValue('/path/to/cwd');
+    it('should return cwd for dot notation', () => {
+      vi.mocked(fileOperations.getTargetDirectory).mockReturnValue('/path/to/cwd');
 
-      const createdPath = await fileOperations.createProjectDirectory('.', '/path/to/cwd');
+      const targetPath = fileOperations.getTargetDirectory('.', '/path/to/cwd');
 
-      expect(createdPath).toBe('/path/to/cwd');
+      expect(targetPath).toBe('/path/to/cwd');
     });
 
-    it('should call displaySuccessMessage after successful directory creation', async () => {
-      vi.mocked(fileOperations.createProjectDirectory).mockResolvedValue('/path/to/cwd/my-app');
+    it('should call displaySuccessMessage with the target directory', () => {
+      vi.mocked(fileOperations.getTargetDirectory).mockReturnValue('/path/to/cwd/my-app');
 
-      const createdPath = await fileOperations.createProjectDirectory('my-app', '/path/to/cwd');
+      const targetPath = fileOperations.getTargetDirectory('my-app', '/path/to/cwd');
 
-      messages.displaySuccessMessage('my-app', createdPath, false);
+      messages.displaySuccessMessage('my-app', targetPath, false);
 
       expect(messages.displaySuccessMessage).toHaveBeenCalledWith('my-app', '/path/to/cwd/my-app', false);
     });
 
-    it('should call displaySuccessMessage with isCurrentDir=true for dot notation', async () => {
-      vi.mocked(fileOperations.createProjectDirectory).mockResolvedValue('/path/to/cwd');
+    it('should call displaySuccessMessage with isCurrentDir=true for dot notation', () => {
+      vi.mocked(fileOperations.getTargetDirectory).mockReturnValue('/path/to/cwd');
 
-      const createdPath = await fileOperations.createProjectDirectory('.', '/path/to/cwd');
+      const targetPath = fileOperations.getTargetDirectory('.', '/path/to/cwd');
 
-      messages.displaySuccessMessage('my-project', createdPath, true);
+      messages.displaySuccessMessage('my-project', targetPath, true);
 
       expect(messages.displaySuccessMessage).toHaveBeenCalledWith('my-project', '/path/to/cwd', true);
     });
@@ -162,14 +161,6 @@ describe('CLI Flow Integration', () => {
       expect(targetDir).toBe('/path/to/cwd/@org/my-app');
     });
 
-    it('should create nested directories for scoped packages', async () => {
-      vi.mocked(fileOperations.createProjectDirectory).mockResolvedValue('/path/to/cwd/@org/my-app');
-
-      const createdPath = await fileOperations.createProjectDirectory('@org/my-app', '/path/to/cwd');
-
-      expect(createdPath).toBe('/path/to/cwd/@org/my-app');
-    });
-
     it('should validate scoped package names', () => {
       vi.mocked(validation.validateProjectName).mockReturnValue({ valid: true, errors: [] });
 
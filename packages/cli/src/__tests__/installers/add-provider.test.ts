@@ -0,0 +1,139 @@
+/**
+ * Integration Tests for Adding OAuth Providers to Existing Projects
+ *
+ * Verifies that addOAuthProvider edits generated (placeholder-free) files:
+ * - Every provider list gains the new provider
+ * - Running the command twice leaves files unchanged
+ * - Missing blocks are created and unparseable files are refused
+ */
+
+import { describe, it, expect } from 'vitest';
+import { addSocialProvider, addUIProvider, addReadmeSection } from '../../installers/code-edits.js';
+import { generateSocialProviderEntry } from '../../installers/string-utils.js';
+import { scaffoldInMemory } from '../helpers/scaffold.js';
+import type { Framework } from '../../installers/types.js';
+
+describe('addOAuthProvider', () => {
+  it.each<Framework>(['tanstack', 'nextjs'])(
+    'should add a provider to every generated file (%s)',
+    async (framework) => {
+      const { installer, read } = await scaffoldInMemory(framework, { oauthProviders: ['google'] });
+      const files = installer.projectFiles;
+
+      const changedFiles = await installer.addOAuthProvider('github');
+
+      expect(changedFiles).toEqual([
+        files.authConfig,
+        files.authUIConfig,
+        files.envConfig,
+        files.envExample,
+        files.readme,
+        files.envLocal,
+      ]);
+      expect(await read(files.authConfig)).toContain('clientId: process.env.GITHUB_CLIENT_ID!');
+      expect(await read(files.authUIConfig)).toContain('providers: ["google", "github"]');
+      expect(await read(files.envConfig)).toContain('GITHUB_CLIENT_SECRET: z.string().optional()');
+      expect(await read(files.envConfig)).toContain(
+        'GITHUB_CLIENT_SECRET: process.env.GITHUB_CLIENT_SECRET'
+      );
+      expect(await read(files.envExample)).toContain('GITHUB_CLIENT_ID=');
+      expect(await read(files.envLocal)).toMatch(/GOOGLE_CLIENT_SECRET=\n# .+\nGITHUB_CLIENT_ID=\n/);
+      expect(await read(files.readme)).toContain('## GitHub OAuth Setup');
+    }
+  );
+
+  it('should be idempotent', async () => {
+    const { installer } = await scaffoldInMemory('tanstack', { oauthProviders: ['google'] });
+
+    await installer.addOAuthProvider('discord');
+
+    expect(await installer.addOAuthProvider('discord')).toEqual([]);
+    expect(await installer.addOAuthProvider('google')).toEqual([]);
+  });
+
+  it('should insert env entries in sorted order for Next.js', async () => {
+    const { installer, read } = await scaffoldInMemory('nextjs', { oauthProviders: ['google'] });
+
+    await installer.addOAuthProvider('apple');
+
+    expect(await read(installer.projectFiles.envConfig)).toContain(
+      '    APPLE_CLIENT_SECRET: z.string().optional(),\n    BETTER_AUTH_SECRET: z.string(),'
+    );
+  });
+
+  it('should create the provider blocks in a project scaffolded without OAuth', async () => {
+    const { installer, read } = await scaffoldInMemory('nextjs', { oauthProviders: [] });
+    const files = installer.projectFiles;
+
+    await installer.addOAuthProvider('google');
+
+    const authConfig = await read(files.authConfig);
+    expect(authConfig).toMatch(/socialProviders: \{\n\s+google: \{/);
+    expect(await read(files.authUIConfig)).toContain('providers: ["google"]');
+    expect(await read(files.envLocal)).toMatch(/# OAuth Provider Credentials\n# -+\n# .+\nGOOGLE_CLIENT_ID=\n/);
+  });
+
+  it('should leave every file unchanged when one file cannot be parsed', async () => {
+    const { installer, read, write } = await scaffoldInMemory('tanstack', { oauthProviders: ['google'] });
+
+    await write(installer.projectFiles.envConfig, 'export const env = createEnv({ server: {\n');
+    const authConfig = await read('convex/auth/index.ts');
+
+    await expect(installer.addOAuthProvider('github')).rejects.toThrow(
+      'Could not safely update src/env.ts: Source has syntax errors'
+    );
+    expect(await read('convex/auth/index.ts')).toBe(authConfig);
+  });
+});
+
+describe('Code edits', () => {
+  it('should insert providers in sorted order matching the existing comma style', () => {
+    const source = [
+      'betterAuth({',
+      '  socialProviders: {',
+      '    google: {',
+      '      clientId: process.env.GOOGLE_CLIENT_ID!,',
+      '    },',
+      '  },',
+      '})',
+    ].join('\n');
+
+    const result = addSocialProvider(source, generateSocialProviderEntry('github'));
+
+    expect(result).toContain('  socialProviders: {\n    github: {\n      clientId: process.env.GITHUB_CLIENT_ID!,');
+    expect(result).toContain('      scope: ["user:email"],\n    },\n    google: {');
+  });
+
+  it('should ignore provider names that only appear in comments or strings', () => {
+    const source = [
+      'betterAuth({',
+      '  socialProviders: {',
+      '    // github: { disabled }',
+      '    google: { clientId: "github:" },',
+      '    "apple": {},',
+      '  },',
+      '})',
+    ].join('\n');
+
+    expect(addSocialProvider(source, generateSocialProviderEntry('google'))).toBe(source);
+    expect(addSocialProvider(source, generateSocialProviderEntry('apple'))).toBe(source);
+    expect(addSocialProvider(source, generateSocialProviderEntry('github'))).not.toBe(source);
+  });
+
+  it('should keep single quotes in a prettier-formatted providers list', () => {
+    const source = `<AuthUIProvider\n  credentials={true}\n  social={{ providers: ['google'] }}\n/>`;
+
+    expect(addUIProvider(source, 'github')).toContain("social={{ providers: ['google', 'github'] }}");
+  });
+
+  it('should insert provider sections before the next README section', () => {
+    const source = '# OAuth Provider Setup\n\n## Google OAuth Setup\n\nSteps\n\n## Customizing Authentication\n';
+
+    const result = addReadmeSection(source, 'GitHub OAuth Setup', '## GitHub OAuth Setup\n\nSteps');
+
+    expect(result).toBe(
+      '# OAuth Provider Setup\n\n## Google OAuth Setup\n\nSteps\n\n---\n\n' +
+        '## GitHub OAuth Setup\n\nSteps\n\n## Customizing Authentication\n'
+    );
+  });
+});
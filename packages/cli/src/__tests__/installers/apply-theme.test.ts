@@ -0,0 +1,146 @@
+/**
+ * Integration Tests for Applying and Exporting Themes in Existing Projects
+ *
+ * Verifies that applyTheme edits generated (placeholder-free) stylesheets:
+ * - Existing :root/.dark blocks are replaced in place
+ * - Light-only themes get a derived .dark block
+ * - Applying the same theme twice leaves files unchanged
+ * - Theme fonts are imported and added to package.json
+ * - exportTheme round-trips the current theme
+ */
+
+import { describe, it, expect } from 'vitest';
+import { scaffoldInMemory } from '../helpers/scaffold.js';
+import { deriveDarkTheme } from '../../utils/theme-dark-palette.js';
+import { normalizeThemeCSS } from '../../utils/tweakcn-converter.js';
+import type { Framework } from '../../installers/types.js';
+
+const BRAND_THEME = `
+:root {
+  --background: #ffffff;
+  --primary: #ff0000;
+  --radius: 1rem;
+}
+
+.dark {
+  --background: #000000;
+  --primary: #ff0000;
+}
+`;
+
+describe('applyTheme', () => {
+  it.each<Framework>(['tanstack', 'nextjs'])(
+    'should replace the existing theme blocks in place (%s)',
+    async (framework) => {
+      const { installer, read } = await scaffoldInMemory(framework);
+      const before = await read(installer.projectFiles.themeCSS);
+
+      const { changedFiles } = await installer.applyTheme(BRAND_THEME);
+      const after = await read(installer.projectFiles.themeCSS);
+
+      expect(changedFiles).toEqual([installer.projectFiles.themeCSS]);
+      expect(after).toContain('--primary: oklch(62.8% 0.258 29.23);');
+      expect(after).toContain('--radius: 1rem;');
+      expect(after.match(/:root\s*\{/g)).toHaveLength(1);
+      expect(after.match(/\n\.dark\s*\{/g)).toHaveLength(1);
+      // Everything outside the theme blocks is untouched
+      expect(after.slice(0, after.indexOf(':root'))).toBe(before.slice(0, before.indexOf(':root')));
+      expect(after).toContain('@layer base');
+    }
+  );
+
+  it('should replace the old .dark block with a derived one when the new theme is light-only', async () => {
+    const { installer, read } = await scaffoldInMemory('tanstack');
+    const lightTheme = ':root { --background: #fafafa; }';
+
+    await installer.applyTheme(lightTheme);
+    const stylesheet = await read(installer.projectFiles.themeCSS);
+
+    expect(stylesheet.match(/\n\.dark\s*\{/g)).toHaveLength(1);
+    expect(stylesheet).toContain(deriveDarkTheme(normalizeThemeCSS(lightTheme).css));
+  });
+
+  it('should be idempotent', async () => {
+    const { installer, read } = await scaffoldInMemory('nextjs');
+
+    await installer.applyTheme(BRAND_THEME);
+    const once = await read(installer.projectFiles.themeCSS);
+    const { changedFiles } = await installer.applyTheme(BRAND_THEME);
+
+    expect(changedFiles).toEqual([]);
+    expect(await read(installer.projectFiles.themeCSS)).toBe(once);
+  });
+
+  it('should report variables the theme does not define', async () => {
+    const { installer } = await scaffoldInMemory('tanstack');
+
+    const { missingVariables } = await installer.applyTheme(BRAND_THEME);
+
+    expect(missingVariables).toContain('--foreground');
+    expect(missingVariables).toContain('--sidebar');
+    expect(missingVariables).not.toContain('--radius');
+  });
+
+  it.each<Framework>(['tanstack', 'nextjs'])(
+    'should install and wire fonts declared by the theme (%s)',
+    async (framework) => {
+      const { installer, read } = await scaffoldInMemory(framework);
+
+      const { changedFiles } = await installer.applyTheme(
+        ':root { --background: #fff; --font-sans: Outfit, sans-serif; --font-serif: Georgia, serif; }'
+      );
+      const stylesheet = await read(installer.projectFiles.themeCSS);
+      const { dependencies } = JSON.parse(await read('package.json'));
+
+      expect(changedFiles).toEqual([installer.projectFiles.themeCSS, 'package.json']);
+      expect(stylesheet).toMatch(/@import ['"]@fontsource-variable\/outfit['"];/);
+      expect(stylesheet).toContain("--font-sans: 'Outfit Variable', sans-serif;");
+      expect(stylesheet).toContain('--font-serif: Georgia, serif;');
+      expect(stylesheet).not.toContain('@fontsource-variable/inter');
+      expect(dependencies['@fontsource-variable/outfit']).toBeDefined();
+      expect(dependencies['@fontsource-variable/inter']).toBeUndefined();
+    }
+  );
+
+  it('should refuse a theme without variables and leave the stylesheet unchanged', async () => {
+    const { installer, read } = await scaffoldInMemory('tanstack');
+    const before = await read(installer.projectFiles.themeCSS);
+
+    await expect(installer.applyTheme('body { color: red; }')).rejects.toThrow(
+      /Could not safely update src\/styles\.css/
+    );
+    expect(await read(installer.projectFiles.themeCSS)).toBe(before);
+  });
+});
+
+describe('exportTheme', () => {
+  it.each<Framework>(['tanstack', 'nextjs'])(
+    'should export the theme that was applied (%s)',
+    async (framework) => {
+      const { installer } = await scaffoldInMemory(framework);
+      await installer.applyTheme(BRAND_THEME);
+
+      const exported = await installer.exportTheme();
+
+      expect(exported).toBe(
+        ':root {\n' +
+          '  --background: oklch(100% 0.000 0);\n' +
+          '  --primary: oklch(62.8% 0.258 29.23);\n' +
+          '  --radius: 1rem;\n' +
+          '}\n\n' +
+          '.dark {\n' +
+          '  --background: oklch(0% 0.000 0);\n' +
+          '  --primary: oklch(62.8% 0.258 29.23);\n' +
+          '}\n'
+      );
+    }
+  );
+
+  it('should export a theme that applies back without changes', async () => {
+    const { installer } = await scaffoldInMemory('tanstack');
+
+    const { changedFiles } = await installer.applyTheme(await installer.exportTheme());
+
+    expect(changedFiles).toEqual([]);
+  });
+});
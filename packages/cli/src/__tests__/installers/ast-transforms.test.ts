@@ -0,0 +1,193 @@
+/**
+ * Unit Tests for AST-Based Source Transforms
+ *
+ * Verifies that transforms locate code through the AST and keep the source's layout:
+ * - Properties are added to objects (sorted or appended) and missing objects are created
+ * - Array elements, imports and JSX props are added idempotently
+ * - Installers fall back to placeholders when a template still contains them
+ */
+
+import { describe, it, expect } from 'vitest';
+import { join } from 'path';
+import { MemoryFileSystem } from '../../helpers/fileSystem.js';
+import { TanStackInstaller } from '../../installers/tanstack.js';
+import {
+  parseSource,
+  addObjectProperties,
+  removeObjectProperty,
+  addArrayElements,
+  addImport,
+  setJsxAttribute,
+} from '../../installers/ast-transforms.js';
+
+const authConfig = [
+  'export const createAuth = () => {',
+  '  return betterAuth({',
+  '    account: {',
+  '      modelName: TABLE_SLUG_ACCOUNTS',
+  '    },',
+  '    // Plugins are registered in ./plugins',
+  '    plugins: createPlugins(),',
+  '    secret: process.env.BETTER_AUTH_SECRET',
+  '  })',
+  '}',
+].join('\n');
+
+describe('AST transforms', () => {
+  it('should reject sources with syntax errors', () => {
+    expect(() => parseSource('betterAuth({ account: {')).toThrow('Source has syntax errors');
+  });
+
+  it('should insert properties in sorted position above leading comments', () => {
+    const result = addObjectProperties(
+      authConfig,
+      { call: 'betterAuth' },
+      ['emailAndPassword: {\n  enabled: true\n}'],
+      'sorted'
+    );
+
+    expect(result).toContain(
+      '    },\n    emailAndPassword: {\n      enabled: true\n    },\n    // Plugins are registered'
+    );
+  });
+
+  it('should append without adding a trailing comma to lists that have none', () => {
+    const result = addObjectProperties(authConfig, { call: 'betterAuth' }, ['trustedOrigins: []']);
+
+    expect(result).toContain('    secret: process.env.BETTER_AUTH_SECRET,\n    trustedOrigins: []\n  })');
+  });
+
+  it('should create missing objects along the path and skip existing properties', () => {
+    const locator = { call: 'betterAuth', path: ['socialProviders'] };
+    const once = addObjectProperties(authConfig, locator, ['google: {}'], 'sorted');
+    const twice = addObjectProperties(once, locator, ['google: {}'], 'sorted');
+
+    expect(once).toContain('    secret: process.env.BETTER_AUTH_SECRET,\n    socialProviders: {\n      google: {},\n    }\n  })');
+    expect(twice).toBe(once);
+  });
+
+  it('should remove a property and the object left empty', () => {
+    const locator = { call: 'betterAuth', path: ['socialProviders'] };
+    const withProvider = addObjectProperties(authConfig, locator, ['google: {}'], 'sorted');
+
+    expect(removeObjectProperty(withProvider, locator, 'google', { removeEmpty: true })).toBe(authConfig);
+  });
+
+  it('should push array elements inline and match the quote style', () => {
+    const source = "<AuthUIProvider social={{ providers: ['google'] }} />";
+    const locator = { jsxElement: 'AuthUIProvider', attribute: 'social', path: ['providers'] };
+
+    const result = addArrayElements(source, locator, ['"github"', '"google"']);
+
+    expect(result).toBe("<AuthUIProvider social={{ providers: ['google', 'github'] }} />");
+  });
+
+  it('should descend into computed keys and defineTable() call chains', () => {
+    const schema = [
+      'export default defineSchema({',
+      '  [TABLE_SLUG_USERS]: defineTable({',
+      '    roles: v.array(v.string()), // our multi-role field',
+      '  })',
+      '    .index("by_email", ["email"]),',
+      '})',
+    ].join('\n');
+
+    const result = addObjectProperties(
+      schema,
+      { call: 'defineSchema', path: ['TABLE_SLUG_USERS'] },
+      ['banned: v.optional(v.boolean())']
+    );
+
+    expect(result).toContain(
+      '    roles: v.array(v.string()), // our multi-role field\n    banned: v.optional(v.boolean()),\n  })'
+    );
+    expect(addObjectProperties(schema, { call: 'defineSchema' }, ['[TABLE_SLUG_USERS]: defineTable({})'])).toBe(schema);
+  });
+
+  it('should locate array literals behind as const', () => {
+    const source = 'export const brandThemes = ["default"] as const\n';
+
+    const result = addArrayElements(source, { variable: 'brandThemes' }, ['"rose"']);
+
+    expect(result).toBe('export const brandThemes = ["default", "rose"] as const\n');
+  });
+
+  it('should merge named imports into an existing import', () => {
+    const source = 'import { admin } from "better-auth/plugins"\n\nexport const plugins = [admin()]\n';
+
+    const result = addImport(source, 'better-auth/plugins', ['admin', 'twoFactor']);
+
+    expect(result).toBe(
+      'import { admin, twoFactor } from "better-auth/plugins"\n\nexport const plugins = [admin()]\n'
+    );
+  });
+
+  it('should add new imports after the last import in the file style', () => {
+    const source = "import { a } from 'a';\nimport { b } from 'b';\n\nexport {};\n";
+
+    expect(addImport(source, 'c', ['c'])).toBe(
+      "import { a } from 'a';\nimport { b } from 'b';\nimport { c } from 'c';\n\nexport {};\n"
+    );
+    expect(addImport('"use client"\n\nexport {}\n', 'c', ['c'])).toBe(
+      '"use client"\n\nimport { c } from "c"\n\nexport {}\n'
+    );
+  });
+
+  it('should add package and alias imports ahead of relative imports', () => {
+    const source = 'import { a } from "a"\nimport { b } from "~/b"\n\nimport { c } from "./c"\n\nexport {}\n';
+
+    expect(addImport(source, '@convex/d', ['d'])).toBe(
+      'import { a } from "a"\nimport { b } from "~/b"\nimport { d } from "@convex/d"\n\nimport { c } from "./c"\n\nexport {}\n'
+    );
+    expect(addImport(source, '../e', ['e'])).toBe(
+      'import { a } from "a"\nimport { b } from "~/b"\n\nimport { c } from "./c"\nimport { e } from "../e"\n\nexport {}\n'
+    );
+    expect(addImport('import { c } from "./c"\n\nexport {}\n', 'd', ['d'])).toBe(
+      'import { d } from "d"\n\nimport { c } from "./c"\n\nexport {}\n'
+    );
+  });
+
+  it('should set JSX attributes in sorted position or replace them', () => {
+    const source = [
+      '<AuthUIProvider',
+      '  authClient={authClient}',
+      '  navigate={router.push}',
+      '/>',
+    ].join('\n');
+
+    const added = setJsxAttribute(source, 'AuthUIProvider', 'credentials={true}');
+    const replaced = setJsxAttribute(added, 'AuthUIProvider', 'credentials={false}');
+
+    expect(added).toContain('  authClient={authClient}\n  credentials={true}\n  navigate={router.push}');
+    expect(replaced).toContain('  credentials={false}\n');
+    expect(replaced).not.toContain('credentials={true}');
+  });
+});
+
+describe('Placeholder fallback', () => {
+  it('should replace placeholders when a template still contains them', async () => {
+    const targetPath = '/project';
+    const fileSystem = new MemoryFileSystem();
+    const installer = new TanStackInstaller(targetPath, 'legacy-app', fileSystem);
+    await fileSystem.writeFile(
+      join(targetPath, 'src/env.ts'),
+      [
+        'export const env = createEnv({',
+        '  server: {',
+        '    // {{OAUTH_ENV_SERVER_SCHEMA}}',
+        '  },',
+        '  runtimeEnv: {',
+        '    // {{OAUTH_ENV_RUNTIME_MAPPING}}',
+        '  },',
+        '})',
+      ].join('\n')
+    );
+
+    await installer.updateEnvTs(['google']);
+    const content = await fileSystem.readFile(join(targetPath, 'src/env.ts'));
+
+    expect(content).not.toContain('{{');
+    expect(content).toContain('    GOOGLE_CLIENT_ID: z.string().optional(),');
+    expect(content).toContain('    GOOGLE_CLIENT_ID: process.env.GOOGLE_CLIENT_ID,');
+  });
+});
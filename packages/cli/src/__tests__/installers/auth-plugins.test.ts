@@ -0,0 +1,290 @@
+/**
+ * Integration Tests for Better Auth Plugin Selection
+ *
+ * Verifies that plugins from the registry are wired into generated projects:
+ * - Server and client plugins are registered with their imports
+ * - Convex tables, fields and table slug constants are added
+ * - better-auth-ui provider props for the plugin's settings
+ * - Passwordless sign-in plugins with the convex/email transport
+ * - Dependencies, README notes and an empty selection
+ * - Adding the same plugins again changes nothing
+ */
+
+import { describe, it, expect } from 'vitest';
+import { getDefaultAuthPluginIds } from '../../installers/index.js';
+import { scaffoldInMemory } from '../helpers/scaffold.js';
+import type { Framework, ProjectOptions } from '../../installers/types.js';
+
+/**
+ * Project options selecting the given auth plugins
+ * Password reset is turned off so the email transport only comes from the plugins
+ */
+function withPlugins(authPlugins?: string[]): Partial<ProjectOptions> {
+  return { authPlugins, emailPasswordOptions: { allowPasswordReset: false } };
+}
+
+describe('Auth plugins', () => {
+  it('should select admin and API keys by default', () => {
+    expect(getDefaultAuthPluginIds()).toEqual(['admin', 'api-key']);
+  });
+
+  it.each<Framework>(['tanstack', 'nextjs'])(
+    'should wire the default plugins into every generated file (%s)',
+    async (framework) => {
+      const { installer, read } = await scaffoldInMemory(framework, withPlugins());
+      const files = installer.projectFiles;
+
+      const plugins = await read(files.authPlugins);
+      expect(plugins).toContain('import { admin } from "better-auth/plugins"');
+      expect(plugins).toContain('import { apiKey } from "@better-auth/api-key"');
+      expect(plugins).toMatch(/\[\n {2}admin\(\{\n {4}adminRoles: \[USER_ROLES\.admin\],[\s\S]*\}\),\n {2}apiKey\(\),\n/);
+      expect(plugins.trimEnd()).toMatch(/convex\(\{ authConfig \}\),\n\]$/);
+
+      const client = await read(files.authClient);
+      expect(client).toContain('import { adminClient } from "better-auth/client/plugins"');
+      expect(client).toContain('apiKeyClient()');
+
+      const schema = await read(files.convexSchema);
+      expect(schema).toContain('banned: v.optional(v.boolean()),');
+      expect(schema).toContain('impersonatedBy: v.optional(v.id(TABLE_SLUG_USERS)),');
+      expect(schema).toContain('  }),\n\n  [TABLE_SLUG_API_KEYS]: defineTable({\n    configId: v.string(),');
+      expect(schema).toMatch(/import \{[^}]*TABLE_SLUG_API_KEYS[^}]*\} from "~\/db\/constants"/);
+
+      expect(await read(files.dbConstants)).toContain(
+        'export const TABLE_SLUG_JWKS = "jwks" as const;\nexport const TABLE_SLUG_API_KEYS = "apikey" as const;'
+      );
+      expect(JSON.parse(await read('package.json')).dependencies['@better-auth/api-key']).toBe('~1.5.0');
+      expect(await read(files.readme)).toMatch(/## Auth Features\n\n### Admin\n[\s\S]*### API Keys\n[\s\S]*## Project Structure/);
+    }
+  );
+
+  it('should leave optional plugins out of the project when none are selected', async () => {
+    const { installer, read, exists } = await scaffoldInMemory('nextjs', withPlugins([]));
+    const files = installer.projectFiles;
+
+    expect(await exists('src/app/(frontend)/organization/[pathname]/page.tsx')).toBe(false);
+    expect(await exists('src/auth/organization-permissions.ts')).toBe(false);
+    expect(await read(files.dbConstants)).not.toContain('./organization');
+
+    expect(await read(files.authPlugins)).not.toContain('admin');
+    expect(await read(files.authClient)).not.toContain('apiKeyClient');
+    expect(await read(files.convexSchema)).not.toContain('TABLE_SLUG_API_KEYS');
+    expect(await read(files.readme)).not.toContain('## Auth Features');
+    expect(JSON.parse(await read('package.json')).dependencies).not.toHaveProperty('@better-auth/api-key');
+  });
+
+  it('should add a plugin to an existing project and be idempotent', async () => {
+    const { installer, read } = await scaffoldInMemory('tanstack', withPlugins(['admin']));
+
+    const changedFiles = await installer.addAuthPlugins(['api-key']);
+
+    expect(changedFiles).toEqual([
+      installer.projectFiles.authPlugins,
+      installer.projectFiles.authClient,
+      installer.projectFiles.convexSchema,
+      installer.projectFiles.dbConstants,
+      'package.json',
+      installer.projectFiles.readme,
+    ]);
+    expect(await read(installer.projectFiles.authClient)).toContain('plugins: [apiKeyClient(), adminClient()]');
+    expect(await installer.addAuthPlugins(['admin', 'api-key'])).toEqual([]);
+  });
+
+  it.each<Framework>(['tanstack', 'nextjs'])(
+    'should turn on two-factor authentication in the account security settings (%s)',
+    async (framework) => {
+      const { installer, read } = await scaffoldInMemory(framework, withPlugins(['two-factor']));
+      const files = installer.projectFiles;
+
+      expect(await read(files.authPlugins)).toContain('import { twoFactor } from "better-auth/plugins"');
+      expect(await read(files.authClient)).toContain('twoFactorClient()');
+      expect(await read(files.authUIConfig)).toContain('twoFactor={["totp"]}');
+
+      const schema = await read(files.convexSchema);
+      expect(schema).toContain('  [TABLE_SLUG_TWO_FACTORS]: defineTable({\n    secret: v.string(),');
+      expect(schema.match(/twoFactorEnabled:/g)).toHaveLength(1);
+      expect(await read(files.dbConstants)).toContain('export const TABLE_SLUG_TWO_FACTORS = "twoFactor" as const;');
+    }
+  );
+
+  it.each<[Framework, string, string]>([
+    ['tanstack', 'src/routes/organization/$organizationView.tsx', 'src/lib/auth/organization-permissions.ts'],
+    ['nextjs', 'src/app/(frontend)/organization/[pathname]/page.tsx', 'src/auth/organization-permissions.ts'],
+  ])(
+    'should add organizations with their tables, routes and UI (%s)',
+    async (framework, route, permissions) => {
+      const { installer, read } = await scaffoldInMemory(framework, withPlugins(['organization']));
+      const files = installer.projectFiles;
+
+      expect(await read(files.authPlugins)).toContain('organization(),');
+      expect(await read(files.authClient)).toContain('organizationClient()');
+      expect(await read(files.authUIConfig)).toContain('organization={true}');
+
+      const schema = await read(files.convexSchema);
+      expect(schema).toContain('activeOrganizationId: v.optional(v.union(v.null(), v.string())),');
+      expect(schema.indexOf('[TABLE_SLUG_ORGANIZATIONS]: defineTable({')).toBeLessThan(
+        schema.indexOf('[TABLE_SLUG_MEMBERS]: defineTable({')
+      );
+      expect(schema).toContain('organizationId: v.id(TABLE_SLUG_ORGANIZATIONS),');
+      expect(schema).toMatch(/import \{[^}]*TABLE_SLUG_INVITATIONS[^}]*\} from "~\/db\/constants"/);
+
+      const constants = await read(files.dbConstants);
+      expect(constants).toContain('export const TABLE_SLUG_ORGANIZATIONS = "organization" as const;');
+      expect(constants).toContain('export const TABLE_SLUG_MEMBERS = "member" as const;');
+      expect(constants).toContain('export const TABLE_SLUG_INVITATIONS = "invitation" as const;');
+      expect(constants).toContain('export * from "./auth"\nexport * from "./organization"\n');
+      expect(await read('src/db/constants/organization.ts')).toContain('export const ORGANIZATION_ROLES = {');
+
+      expect(await read(route)).toMatch(/<Organization\w+ pathname=\{/);
+      expect(await read(permissions)).toContain('export function hasOrganizationPermission<');
+      expect(await read(permissions)).toContain('if (hasPermission({ action, data, resource, user } as Parameters<typeof hasPermission>[0])) { return true }');
+    }
+  );
+
+  it.each<[Framework, string]>([
+    ['tanstack', 'src/lib/auth/organization-permissions.ts'],
+    ['nextjs', 'src/auth/organization-permissions.ts'],
+  ])('should grant organization permissions by organization role (%s)', async (framework, permissions) => {
+    const { load } = await scaffoldInMemory(framework, withPlugins(['organization']));
+    const { hasOrganizationPermission } = (await load(permissions)) as {
+      hasOrganizationPermission: (check: Record<string, unknown>) => boolean;
+    };
+    const user = { _id: 'user-1', roles: ['user'] };
+    const invitation = { organizationId: 'org-1' };
+    const canInvite = (role: string, organizationId = 'org-1') =>
+      hasOrganizationPermission({
+        action: 'create',
+        data: invitation,
+        member: { organizationId, role, userId: user._id },
+        resource: 'invitation',
+        user,
+      });
+
+    expect(canInvite('owner')).toBe(true);
+    expect(canInvite('member,admin')).toBe(true);
+    expect(canInvite('member')).toBe(false);
+    expect(canInvite('admin', 'org-2')).toBe(false);
+    expect(
+      hasOrganizationPermission({
+        action: 'delete',
+        data: { _id: 'org-1' },
+        member: { organizationId: 'org-1', role: 'admin', userId: user._id },
+        resource: 'organization',
+        user,
+      })
+    ).toBe(false);
+  });
+
+  it('should register the organization route in the TanStack route tree', async () => {
+    const { installer, read } = await scaffoldInMemory('tanstack', withPlugins(['organization']));
+    const routeTree = await read('src/routeTree.gen.ts');
+
+    expect(installer.projectFiles.routeTree).toBe('src/routeTree.gen.ts');
+    expect(routeTree).toContain(
+      "import { Route as OrganizationOrganizationViewRouteImport } from './routes/organization/$organizationView'"
+    );
+    expect(routeTree).toContain(
+      "const OrganizationOrganizationViewRoute = OrganizationOrganizationViewRouteImport.update({\n  id: '/organization/$organizationView',"
+    );
+    expect(routeTree.match(/'\/organization\/\$organizationView': typeof OrganizationOrganizationViewRoute\n/g)).toHaveLength(3);
+    expect(routeTree.match(/ {4}\| '\/organization\/\$organizationView'\n/g)).toHaveLength(3);
+    expect(routeTree).toContain('  OrganizationOrganizationViewRoute: typeof OrganizationOrganizationViewRoute\n}');
+    expect(routeTree).toContain('      preLoaderRoute: typeof OrganizationOrganizationViewRouteImport\n');
+    expect(routeTree).toContain('  OrganizationOrganizationViewRoute: OrganizationOrganizationViewRoute,\n}');
+    expect(await installer.addAuthPlugins(['organization'])).toEqual([]);
+  });
+
+  it.each<Framework>(['tanstack', 'nextjs'])(
+    'should add passkeys with a relying party derived from SITE_URL (%s)',
+    async (framework) => {
+      const { installer, read } = await scaffoldInMemory(framework, withPlugins(['passkey']));
+      const files = installer.projectFiles;
+
+      const plugins = await read(files.authPlugins);
+      expect(plugins).toContain('import { passkey } from "@better-auth/passkey"');
+      expect(plugins).toContain('rpID: new URL(process.env.SITE_URL!).hostname,');
+      expect(plugins).toContain('origin: new URL(process.env.SITE_URL!).origin,');
+      expect(await read(files.authClient)).toContain('import { passkeyClient } from "@better-auth/passkey/client"');
+      expect(await read(files.authUIConfig)).toContain('passkey={true}');
+      expect(await read(files.convexSchema)).toContain('  [TABLE_SLUG_PASSKEYS]: defineTable({\n    name: v.optional(v.string()),');
+      expect(await read(files.dbConstants)).toContain('export const TABLE_SLUG_PASSKEYS = "passkey" as const;');
+      expect(JSON.parse(await read('package.json')).dependencies['@better-auth/passkey']).toBe('~1.5.0');
+    }
+  );
+
+  it.each<Framework>(['tanstack', 'nextjs'])(
+    'should add passwordless sign-in with the email transport (%s)',
+    async (framework) => {
+      const { installer, read } = await scaffoldInMemory(framework, withPlugins(['magic-link', 'email-otp']));
+      const files = installer.projectFiles;
+
+      const plugins = await read(files.authPlugins);
+      expect(plugins).toContain('export const createPlugins = (ctx: GenericActionCtx<DataModel>) => [');
+      expect(plugins).toContain('import type { GenericActionCtx } from "convex/server"');
+      expect(plugins).toContain('import { sendEmail } from "@convex/email"');
+      expect(plugins).toContain('text: `Use this link to sign in:\\n\\n${url}`,');
+      expect(plugins).toContain('text: `Your verification code is ${otp}`,');
+      expect(await read(files.authConfig)).toContain('plugins: createPlugins(ctx),');
+      expect(await read(files.authClient)).toContain('emailOTPClient()');
+
+      const uiConfig = await read(files.authUIConfig);
+      expect(uiConfig).toContain('magicLink={true}');
+      expect(uiConfig).toContain('emailOTP={true}');
+
+      expect(await read('convex/email/send.ts')).toContain('export const send = internalAction({');
+      expect(await read('convex/email/smtp.ts')).toContain('nodemailer.createTransport');
+
+      const convexApi = await read(files.convexApi);
+      expect(convexApi).toContain('import type * as email_send from "../email/send.js";');
+      expect(convexApi).toContain('  "dev/mailbox": typeof dev_mailbox;\n  "email/console": typeof email_console;');
+      expect(convexApi).toContain('  "email/types": typeof email_types;\n  http: typeof http;');
+
+      const envExample = await read(files.envExample);
+      expect(envExample.match(/^EMAIL_TRANSPORT=/gm)).toHaveLength(1);
+      expect(envExample).toContain('SMTP_PASSWORD=');
+      expect(envExample).toMatch(/# Email \(set on the Convex deployment: npx convex env set <NAME> <value>\)\n# -+\n# Email transport/);
+      expect(envExample.indexOf('EMAIL_TRANSPORT=')).toBeGreaterThan(envExample.indexOf('# Email ('));
+
+      const packageJson = JSON.parse(await read('package.json'));
+      expect(packageJson.dependencies.nodemailer).toBe('^7.0.0');
+      expect(packageJson.devDependencies['@types/nodemailer']).toBe('^7.0.0');
+    }
+  );
+
+  it('should report copied email files and keep edited ones', async () => {
+    const { installer, read, write } = await scaffoldInMemory('tanstack', withPlugins([]));
+
+    const changedFiles = await installer.addAuthPlugins(['magic-link']);
+
+    expect(changedFiles).toContain(installer.projectFiles.authConfig);
+    expect(changedFiles).toContain('convex/email/index.ts');
+    expect(changedFiles).toContain('convex/email/send.ts');
+    expect(changedFiles).toContain(installer.projectFiles.convexApi);
+
+    await write('convex/email/console.ts', '// custom transport\n');
+    expect(await installer.addAuthPlugins(['magic-link', 'email-otp'])).not.toContain('convex/email/console.ts');
+    expect(await read('convex/email/console.ts')).toBe('// custom transport\n');
+    expect(await installer.addAuthPlugins(['magic-link', 'email-otp'])).toEqual([]);
+  });
+
+  it('should keep an existing twoFactor prop', async () => {
+    const { installer, read, write } = await scaffoldInMemory('nextjs', withPlugins([]));
+    const uiConfig = await read(installer.projectFiles.authUIConfig);
+    await write(
+      installer.projectFiles.authUIConfig,
+      uiConfig.replace('Link={Link}', 'Link={Link}\n      twoFactor={["otp", "totp"]}')
+    );
+
+    await installer.addAuthPlugins(['two-factor']);
+
+    const updated = await read(installer.projectFiles.authUIConfig);
+    expect(updated).toContain('twoFactor={["otp", "totp"]}');
+    expect(updated).not.toContain('twoFactor={["totp"]}');
+  });
+
+  it('should reject unknown plugins', async () => {
+    const { installer } = await scaffoldInMemory('tanstack', withPlugins([]));
+
+    await expect(installer.addAuthPlugins(['sso'])).rejects.toThrow('Unknown auth plugin: sso');
+  });
+});
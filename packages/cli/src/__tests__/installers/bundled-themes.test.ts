@@ -0,0 +1,66 @@
+/**
+ * Tests for the Bundled Theme Gallery
+ *
+ * Verifies that every bundled theme:
+ * - Uses the same OKLCH format and variables as DEFAULT_THEME
+ * - Is applied by the scaffold when selected by name
+ */
+
+import { describe, it, expect } from 'vitest';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { MemoryFileSystem } from '../../helpers/fileSystem.js';
+import { createInstaller } from '../../installers/index.js';
+import { BUNDLED_THEMES, getBundledTheme, getBundledThemeIds } from '../../installers/themes.js';
+import { DEFAULT_THEME } from '../../installers/string-utils.js';
+import { parseThemeVariables } from '../../utils/tweakcn-converter.js';
+
+const OKLCH_VALUE = /^oklch\(\d+(\.\d+)?% \d\.\d{3} \d+(\.\d+)?\)$/;
+
+describe('Bundled themes', () => {
+  it('should start with the default theme', () => {
+    expect(getBundledThemeIds()[0]).toBe('default');
+    expect(getBundledTheme('default')?.css).toBe(DEFAULT_THEME);
+  });
+
+  it.each(Object.values(BUNDLED_THEMES))('should key $id by its own id', (theme) => {
+    expect(BUNDLED_THEMES[theme.id]).toBe(theme);
+    expect(theme.name).toBeTruthy();
+    expect(theme.description).toBeTruthy();
+  });
+
+  it.each(Object.values(BUNDLED_THEMES))(
+    'should define the DEFAULT_THEME variables in OKLCH ($id)',
+    (theme) => {
+      const expected = parseThemeVariables(DEFAULT_THEME);
+      const actual = parseThemeVariables(theme.css);
+
+      expect(actual.hasDark).toBe(true);
+      expect(Object.keys(actual.light)).toEqual(Object.keys(expected.light));
+      expect(Object.keys(actual.dark)).toEqual(Object.keys(expected.dark));
+      Object.entries(actual.dark)
+        .filter(([name]) => name !== 'radius')
+        .forEach(([, value]) => expect(value).toMatch(OKLCH_VALUE));
+    }
+  );
+
+  it('should apply the selected bundled theme when scaffolding', async () => {
+    const targetPath = join(tmpdir(), 'z3-bundled-theme');
+    const fileSystem = new MemoryFileSystem();
+    const installer = createInstaller('tanstack', targetPath, 'bundled-theme-app', fileSystem);
+
+    await installer.initProject({
+      projectName: 'bundled-theme-app',
+      framework: 'tanstack',
+      emailPasswordAuth: true,
+      oauthProviders: [],
+      themeName: 'violet',
+      initGit: false,
+      installDependencies: false,
+    });
+
+    const stylesheet = await fileSystem.readFile(join(targetPath, installer.projectFiles.themeCSS));
+    expect(stylesheet).toContain(BUNDLED_THEMES.violet.css);
+    expect(stylesheet).not.toContain('{{TWEAKCN_THEME}}');
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * Integration Tests for Custom OpenID Connect Providers
+ *
+ * Verifies that a custom provider is wired through Better Auth's genericOAuth plugin:
+ * - Server plugin, client plugin, UI prop, env schema, .env.example and README
+ * - Plugins that must stay last (nextCookies) keep their position
+ * - Adding the same provider again changes nothing
+ */
+
+import { describe, it, expect } from 'vitest';
+import { addGenericOAuthProvider, addGenericOAuthUIProvider } from '../../installers/code-edits.js';
+import {
+  generateGenericOAuthConfigEntry,
+  generateGenericOAuthUIEntry,
+} from '../../installers/string-utils.js';
+import { scaffoldInMemory } from '../helpers/scaffold.js';
+import type { CustomOIDCProvider, Framework } from '../../installers/types.js';
+
+const keycloak: CustomOIDCProvider = {
+  id: 'my-keycloak',
+  name: 'Keycloak',
+  discoveryUrl: 'https://sso.example.com/realms/main/.well-known/openid-configuration',
+};
+
+const options = { oauthProviders: ['google'], customOIDCProvider: keycloak };
+
+describe('Custom OpenID Connect provider', () => {
+  it.each<Framework>(['tanstack', 'nextjs'])(
+    'should configure the genericOAuth plugin in every generated file (%s)',
+    async (framework) => {
+      const { installer, read } = await scaffoldInMemory(framework, options);
+      const files = installer.projectFiles;
+
+      const plugins = await read(files.authPlugins);
+      expect(plugins).toContain('import { admin, genericOAuth } from "better-auth/plugins"');
+      expect(plugins).toContain('discoveryUrl: process.env.MY_KEYCLOAK_DISCOVERY_URL!,');
+      expect(plugins).toContain('providerId: "my-keycloak",');
+
+      const client = await read(files.authClient);
+      expect(client).toContain('import { adminClient, genericOAuthClient } from "better-auth/client/plugins"');
+      expect(client).toContain('genericOAuthClient()');
+
+      expect(await read(files.authUIConfig)).toContain(
+        'providers: [{ name: "Keycloak", provider: "my-keycloak" }]'
+      );
+      expect(await read(files.envConfig)).toContain('MY_KEYCLOAK_CLIENT_SECRET: z.string().optional(),');
+      expect(await read(files.envConfig)).toContain(
+        'MY_KEYCLOAK_DISCOVERY_URL: process.env.MY_KEYCLOAK_DISCOVERY_URL,'
+      );
+      expect(await read(files.envExample)).toContain(`MY_KEYCLOAK_DISCOVERY_URL=${keycloak.discoveryUrl}`);
+      expect(await read(files.readme)).toContain('/api/auth/oauth2/callback/my-keycloak');
+      expect(await read(files.readme)).toContain('## Google OAuth Setup');
+    }
+  );
+
+  it('should keep nextCookies as the last server plugin', async () => {
+    const { installer, read } = await scaffoldInMemory('nextjs', options);
+
+    const plugins = await read(installer.projectFiles.authPlugins);
+
+    expect(plugins.indexOf('genericOAuth({')).toBeLessThan(plugins.indexOf('admin({'));
+    expect(plugins).toMatch(/nextCookies\(\),\n\s+convex\(\{ authConfig \}\),\n\]/);
+  });
+
+  it('should be idempotent', async () => {
+    const { installer } = await scaffoldInMemory('tanstack', options);
+
+    expect(await installer.addCustomOIDCProvider(keycloak)).toEqual([]);
+  });
+});
+
+describe('Generic OAuth code edits', () => {
+  it('should add a second provider to an existing genericOAuth plugin', () => {
+    const authentik = { id: 'authentik', name: 'Authentik', discoveryUrl: 'https://auth.example.com' };
+    const source = 'export const createPlugins = () => [\n  convex({ authConfig }),\n]\n';
+
+    const once = addGenericOAuthProvider(source, keycloak.id, generateGenericOAuthConfigEntry(keycloak));
+    const twice = addGenericOAuthProvider(once, authentik.id, generateGenericOAuthConfigEntry(authentik));
+
+    expect(twice.match(/genericOAuth\(\{/g)).toHaveLength(1);
+    expect(twice).toMatch(/providerId: "my-keycloak",\n\s+\},\n\s+\{\n\s+clientId: process\.env\.AUTHENTIK_CLIENT_ID!/);
+  });
+
+  it('should append to an existing genericOAuth UI prop', () => {
+    const source = '<AuthUIProvider\n  genericOAuth={{ providers: [{ name: "Okta", provider: "okta" }] }}\n/>';
+
+    const result = addGenericOAuthUIProvider(source, keycloak.id, generateGenericOAuthUIEntry(keycloak));
+
+    expect(result).toContain(
+      'providers: [{ name: "Okta", provider: "okta" }, { name: "Keycloak", provider: "my-keycloak" }]'
+    );
+    expect(addGenericOAuthUIProvider(result, keycloak.id, generateGenericOAuthUIEntry(keycloak))).toBe(result);
+  });
+});
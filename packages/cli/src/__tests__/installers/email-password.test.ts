@@ -0,0 +1,116 @@
+/**
+ * Integration Tests for the Email & Password Sub-options
+ *
+ * Verifies that email verification, password reset and the minimum password
+ * length are wired into generated projects:
+ * - Better Auth callbacks that send the React email templates
+ * - The better-auth-ui credentials prop matching the server options
+ * - Email templates, transport, dependencies and README notes
+ * - The console transport by default, and the opt-in development mailbox
+ *   that is only added with the email transport
+ * - Turning every email off and re-running the step
+ */
+
+import { describe, it, expect } from 'vitest';
+import { scaffoldInMemory } from '../helpers/scaffold.js';
+import type { EmailPasswordOptions, Framework, ProjectOptions } from '../../installers/types.js';
+
+/**
+ * Project options with the given email & password sub-options and no auth plugins
+ */
+function withEmailPassword(emailPasswordOptions?: EmailPasswordOptions): Partial<ProjectOptions> {
+  return { emailPasswordOptions, authPlugins: [] };
+}
+
+describe('Email & password sub-options', () => {
+  it.each<Framework>(['tanstack', 'nextjs'])(
+    'should send verification and reset emails from the templates (%s)',
+    async (framework) => {
+      const { installer, read, exists } = await scaffoldInMemory(
+        framework,
+        withEmailPassword({ requireEmailVerification: true, minPasswordLength: 12 })
+      );
+      const files = installer.projectFiles;
+
+      const authConfig = await read(files.authConfig);
+      expect(authConfig).toContain('} from "~/db/constants"\nimport { sendTemplateEmail } from "@convex/email/templates"\n');
+      expect(authConfig).toMatch(
+        /emailAndPassword: \{\n\s+enabled: true,\n\s+minPasswordLength: 12,\n\s+requireEmailVerification: true,\n\s+sendResetPassword: async \(\{ user, url \}\) => \{/
+      );
+      expect(authConfig).toContain('template: "reset-password",');
+      expect(authConfig).toMatch(/emailVerification: \{\n\s+autoSignInAfterVerification: true,\n\s+sendOnSignUp: true,/);
+      expect(authConfig).toContain('template: "verify-email",');
+
+      expect(await read(files.authUIConfig)).toMatch(/credentials=\{\{\n\s+passwordValidation: \{\n\s+minLength: 12\n/);
+
+      expect(await read('convex/email/templates/index.ts')).toContain('export const sendTemplateEmail');
+      expect(await read('convex/email/templates/send.ts')).toContain('export const send = internalAction({');
+      expect(await exists('convex/email/templates/verify-email.tsx')).toBe(true);
+      expect(await exists('convex/email/smtp.ts')).toBe(true);
+      expect(await read(files.convexApi)).toContain('  "email/templates/send": typeof email_templates_send;');
+
+      const packageJson = JSON.parse(await read('package.json'));
+      expect(packageJson.dependencies['@react-email/components']).toBe('^1.0.0');
+      expect(packageJson.dependencies.nodemailer).toBe('^7.0.0');
+      expect((await read(files.envExample)).match(/^EMAIL_TRANSPORT=/gm)).toHaveLength(1);
+      expect(await read(files.readme)).toContain('### Email & Password');
+    }
+  );
+
+  it.each<[Framework, string]>([
+    ['tanstack', 'src/routes/dev/mailbox.tsx'],
+    ['nextjs', 'src/app/(frontend)/dev/mailbox/page.tsx'],
+  ])('should log emails by default and only use the dev mailbox when selected (%s)', async (framework, route) => {
+    const { installer, read } = await scaffoldInMemory(framework, withEmailPassword());
+
+    const send = await read('convex/email/send.ts');
+    expect(send).toContain('=== "mailbox"\n          ? createMailboxTransport(ctx)\n          : consoleTransport');
+    expect(await read('convex/email/mailbox.ts')).toContain('ctx.runMutation(internal.dev.mailbox.store, message)');
+    expect(await read('convex/dev/mailbox.ts')).toContain('export const isMailboxEnabled = () => process.env.EMAIL_TRANSPORT === "mailbox";');
+    expect(await read(installer.projectFiles.convexApi)).toContain('  "email/mailbox": typeof email_mailbox;');
+    expect(await read(installer.projectFiles.convexSchema)).toContain('[TABLE_SLUG_DEV_EMAILS]: defineTable({');
+    expect(await read(installer.projectFiles.dbConstants)).toContain('export const TABLE_SLUG_DEV_EMAILS = "devEmails" as const;');
+    expect(await read('src/components/dev-mailbox.tsx')).toContain('{ emails: Array<DevEmail>; selectedId?: string }');
+    expect(await read(installer.projectFiles.envConfig)).toMatch(/shared: \{\n\s+NODE_ENV:/);
+    expect(await read(route)).toContain('env.NODE_ENV === ');
+  });
+
+  it('should register the dev mailbox route in the TanStack route tree', async () => {
+    const { read } = await scaffoldInMemory('tanstack', withEmailPassword());
+
+    expect(await read('src/routeTree.gen.ts')).toContain(
+      "import { Route as DevMailboxRouteImport } from './routes/dev/mailbox'"
+    );
+    expect(await read('src/routeTree.gen.ts')).toContain('  DevMailboxRoute: DevMailboxRoute,\n}');
+  });
+
+  it('should only send reset emails by default', async () => {
+    const { installer, read } = await scaffoldInMemory('tanstack', withEmailPassword());
+    const authConfig = await read(installer.projectFiles.authConfig);
+
+    expect(authConfig).toContain('sendResetPassword: async ({ user, url }) => {');
+    expect(authConfig).not.toContain('minPasswordLength');
+    expect(authConfig).not.toContain('emailVerification');
+    expect(await read(installer.projectFiles.authUIConfig)).toContain('credentials={true}');
+  });
+
+  it('should hide the forgot password link and skip the email setup without emails', async () => {
+    const { installer, read, exists } = await scaffoldInMemory('nextjs', withEmailPassword({ allowPasswordReset: false }));
+
+    expect(await read(installer.projectFiles.authConfig)).not.toContain('sendTemplateEmail');
+    expect(await read(installer.projectFiles.authUIConfig)).toMatch(/credentials=\{\{\n\s+forgotPassword: false\n/);
+    expect(await exists('convex/email/templates/index.ts')).toBe(false);
+    expect(await exists('convex/dev/mailbox.ts')).toBe(false);
+    expect(await exists('src/app/(frontend)/dev/mailbox/page.tsx')).toBe(false);
+    expect(await read(installer.projectFiles.convexSchema)).not.toContain('TABLE_SLUG_DEV_EMAILS');
+    expect(await read(installer.projectFiles.dbConstants)).not.toContain('TABLE_SLUG_DEV_EMAILS');
+    expect(JSON.parse(await read('package.json')).dependencies).not.toHaveProperty('@react-email/components');
+    expect(await read(installer.projectFiles.readme)).not.toContain('### Email & Password');
+  });
+
+  it('should be idempotent', async () => {
+    const { installer } = await scaffoldInMemory('tanstack', withEmailPassword({ requireEmailVerification: true }));
+
+    expect(await installer.addEmailPasswordFlows({ requireEmailVerification: true })).toEqual([]);
+  });
+});
@@ -12,11 +12,29 @@
  * Full end-to-end tests with template copying require the built distribution.
  */
 
-import { describe, it, expect, vi } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
 import { TanStackInstaller } from '../../installers/tanstack.js';
 import type { ProjectOptions } from '../../installers/types.js';
+import { diskFileSystem } from '../../helpers/fileSystem.js';
+
+// copyBaseFiles is mocked, so the theme step reads an empty template stylesheet
+const emptyTemplateFileSystem = { ...diskFileSystem, readFile: async () => '' };
 
 describe('Task Group 6: Installer Orchestration Integration Tests', () => {
+  // initProject moves the staged files into place, so give each test its own target
+  let projectPath: string;
+
+  beforeEach(() => {
+    projectPath = mkdtempSync(join(tmpdir(), 'z3-orchestration-test-'));
+  });
+
+  afterEach(() => {
+    rmSync(projectPath, { recursive: true, force: true });
+  });
+
   describe('ProjectOptions Object Construction', () => {
     it('should construct ProjectOptions with email/password only', () => {
       const options: ProjectOptions = {
@@ -131,20 +149,24 @@ describe('Task Group 6: Installer Orchestration Integration Tests', () => {
     });
 
     it('should expose correct framework name', () => {
-      const installer = new TanStackInstaller('/tmp/test', 'test');
+      const installer = new TanStackInstaller(projectPath, 'test');
       expect(installer.frameworkName).toBe('tanstack');
     });
   });
 
   describe('Method Orchestration Sequence', () => {
     it('should call updateOAuthConfig when emailPasswordAuth is true and no OAuth', async () => {
-      const installer = new TanStackInstaller('/tmp/test', 'test');
+      const installer = new TanStackInstaller(projectPath, 'test');
       const updateOAuthConfigSpy = vi.spyOn(installer, 'updateOAuthConfig').mockResolvedValue(undefined);
       const copyBaseFilesSpy = vi.spyOn(installer as any, 'copyBaseFiles').mockResolvedValue(undefined);
+      vi.spyOn(installer as any, 'updatePackageJson').mockResolvedValue(undefined);
+      vi.spyOn(installer as any, 'writeEnvLocal').mockResolvedValue(undefined);
       vi.spyOn(installer, 'updateOAuthUIConfig').mockResolvedValue(undefined);
       vi.spyOn(installer, 'updateEnvExample').mockResolvedValue(undefined);
       vi.spyOn(installer, 'updateEnvTs').mockResolvedValue(undefined);
       vi.spyOn(installer, 'updateReadme').mockResolvedValue(undefined);
+      vi.spyOn(installer, 'addAuthPlugins').mockResolvedValue([]);
+      vi.spyOn(installer, 'addEmailPasswordFlows').mockResolvedValue([]);
       const applyTweakCNThemeSpy = vi.spyOn(installer, 'applyTweakCNTheme').mockResolvedValue(undefined);
 
       const options: ProjectOptions = {
@@ -167,13 +189,17 @@ describe('Task Group 6: Installer Orchestration Integration Tests', () => {
     });
 
     it('should call updateOAuthConfig when OAuth providers are selected', async () => {
-      const installer = new TanStackInstaller('/tmp/test', 'test');
+      const installer = new TanStackInstaller(projectPath, 'test');
       const updateOAuthConfigSpy = vi.spyOn(installer, 'updateOAuthConfig').mockResolvedValue(undefined);
       const updateOAuthUIConfigSpy = vi.spyOn(installer, 'updateOAuthUIConfig').mockResolvedValue(undefined);
       const updateEnvExampleSpy = vi.spyOn(installer, 'updateEnvExample').mockResolvedValue(undefined);
       vi.spyOn(installer, 'updateEnvTs').mockResolvedValue(undefined);
       const updateReadmeSpy = vi.spyOn(installer, 'updateReadme').mockResolvedValue(undefined);
+      vi.spyOn(installer, 'addAuthPlugins').mockResolvedValue([]);
+      vi.spyOn(installer, 'addEmailPasswordFlows').mockResolvedValue([]);
       const copyBaseFilesSpy = vi.spyOn(installer as any, 'copyBaseFiles').mockResolvedValue(undefined);
+      vi.spyOn(installer as any, 'updatePackageJson').mockResolvedValue(undefined);
+      vi.spyOn(installer as any, 'writeEnvLocal').mockResolvedValue(undefined);
       const applyTweakCNThemeSpy = vi.spyOn(installer, 'applyTweakCNTheme').mockResolvedValue(undefined);
 
       const options: ProjectOptions = {
@@ -202,13 +228,17 @@ describe('Task Group 6: Installer Orchestration Integration Tests', () => {
     });
 
     it('should call all placeholder-cleanup methods even when no auth configured', async () => {
-      const installer = new TanStackInstaller('/tmp/test', 'test');
+      const installer = new TanStackInstaller(projectPath, 'test');
       const updateOAuthConfigSpy = vi.spyOn(installer, 'updateOAuthConfig').mockResolvedValue(undefined);
       const updateOAuthUIConfigSpy = vi.spyOn(installer, 'updateOAuthUIConfig').mockResolvedValue(undefined);
       vi.spyOn(installer, 'updateEnvExample').mockResolvedValue(undefined);
       vi.spyOn(installer, 'updateEnvTs').mockResolvedValue(undefined);
       vi.spyOn(installer, 'updateReadme').mockResolvedValue(undefined);
+      vi.spyOn(installer, 'addAuthPlugins').mockResolvedValue([]);
+      vi.spyOn(installer, 'addEmailPasswordFlows').mockResolvedValue([]);
       const copyBaseFilesSpy = vi.spyOn(installer as any, 'copyBaseFiles').mockResolvedValue(undefined);
+      vi.spyOn(installer as any, 'updatePackageJson').mockResolvedValue(undefined);
+      vi.spyOn(installer as any, 'writeEnvLocal').mockResolvedValue(undefined);
       const applyTweakCNThemeSpy = vi.spyOn(installer, 'applyTweakCNTheme').mockResolvedValue(undefined);
 
       const options: ProjectOptions = {
@@ -232,13 +262,17 @@ describe('Task Group 6: Installer Orchestration Integration Tests', () => {
     });
 
     it('should call updateEnvExample and updateReadme with all OAuth providers', async () => {
-      const installer = new TanStackInstaller('/tmp/test', 'test');
+      const installer = new TanStackInstaller(projectPath, 'test');
       vi.spyOn(installer as any, 'copyBaseFiles').mockResolvedValue(undefined);
+      vi.spyOn(installer as any, 'updatePackageJson').mockResolvedValue(undefined);
+      vi.spyOn(installer as any, 'writeEnvLocal').mockResolvedValue(undefined);
       vi.spyOn(installer, 'updateOAuthConfig').mockResolvedValue(undefined);
       vi.spyOn(installer, 'updateOAuthUIConfig').mockResolvedValue(undefined);
       const updateEnvExampleSpy = vi.spyOn(installer, 'updateEnvExample').mockResolvedValue(undefined);
       vi.spyOn(installer, 'updateEnvTs').mockResolvedValue(undefined);
       const updateReadmeSpy = vi.spyOn(installer, 'updateReadme').mockResolvedValue(undefined);
+      vi.spyOn(installer, 'addAuthPlugins').mockResolvedValue([]);
+      vi.spyOn(installer, 'addEmailPasswordFlows').mockResolvedValue([]);
       vi.spyOn(installer, 'applyTweakCNTheme').mockResolvedValue(undefined);
 
       const options: ProjectOptions = {
@@ -260,13 +294,17 @@ describe('Task Group 6: Installer Orchestration Integration Tests', () => {
     });
 
     it('should call updateEnvExample and updateReadme with empty array when no OAuth providers', async () => {
-      const installer = new TanStackInstaller('/tmp/test', 'test');
+      const installer = new TanStackInstaller(projectPath, 'test');
       vi.spyOn(installer as any, 'copyBaseFiles').mockResolvedValue(undefined);
+      vi.spyOn(installer as any, 'updatePackageJson').mockResolvedValue(undefined);
+      vi.spyOn(installer as any, 'writeEnvLocal').mockResolvedValue(undefined);
       vi.spyOn(installer, 'updateOAuthConfig').mockResolvedValue(undefined);
       vi.spyOn(installer, 'updateOAuthUIConfig').mockResolvedValue(undefined);
       const updateEnvExampleSpy = vi.spyOn(installer, 'updateEnvExample').mockResolvedValue(undefined);
       vi.spyOn(installer, 'updateEnvTs').mockResolvedValue(undefined);
       const updateReadmeSpy = vi.spyOn(installer, 'updateReadme').mockResolvedValue(undefined);
+      vi.spyOn(installer, 'addAuthPlugins').mockResolvedValue([]);
+      vi.spyOn(installer, 'addEmailPasswordFlows').mockResolvedValue([]);
       vi.spyOn(installer, 'applyTweakCNTheme').mockResolvedValue(undefined);
 
       const options: ProjectOptions = {
@@ -286,13 +324,17 @@ describe('Task Group 6: Installer Orchestration Integration Tests', () => {
     });
 
     it('should apply custom theme when tweakcnTheme is provided', async () => {
-      const installer = new TanStackInstaller('/tmp/test', 'test');
+      const installer = new TanStackInstaller(projectPath, 'test', emptyTemplateFileSystem);
       vi.spyOn(installer as any, 'copyBaseFiles').mockResolvedValue(undefined);
+      vi.spyOn(installer as any, 'updatePackageJson').mockResolvedValue(undefined);
+      vi.spyOn(installer as any, 'writeEnvLocal').mockResolvedValue(undefined);
       vi.spyOn(installer, 'updateOAuthConfig').mockResolvedValue(undefined);
       vi.spyOn(installer, 'updateOAuthUIConfig').mockResolvedValue(undefined);
       vi.spyOn(installer, 'updateEnvExample').mockResolvedValue(undefined);
       vi.spyOn(installer, 'updateEnvTs').mockResolvedValue(undefined);
       vi.spyOn(installer, 'updateReadme').mockResolvedValue(undefined);
+      vi.spyOn(installer, 'addAuthPlugins').mockResolvedValue([]);
+      vi.spyOn(installer, 'addEmailPasswordFlows').mockResolvedValue([]);
       const applyTweakCNThemeSpy = vi.spyOn(installer, 'applyTweakCNTheme').mockResolvedValue(undefined);
 
       const customTheme = '--background: 0 0% 0%;';
@@ -311,19 +353,23 @@ describe('Task Group 6: Installer Orchestration Integration Tests', () => {
 
       await installer.initProject(options);
 
-      // Should call applyTweakCNTheme with custom theme
-      expect(applyTweakCNThemeSpy).toHaveBeenCalledWith(customTheme);
+      // Should call applyTweakCNTheme with the custom theme normalized to OKLCH
+      expect(applyTweakCNThemeSpy).toHaveBeenCalledWith(':root {\n  --background: oklch(0% 0.000 0);\n}');
       expect(applyTweakCNThemeSpy).toHaveBeenCalledTimes(1);
     });
 
     it('should apply default theme when tweakcnTheme is not provided', async () => {
-      const installer = new TanStackInstaller('/tmp/test', 'test');
+      const installer = new TanStackInstaller(projectPath, 'test');
       vi.spyOn(installer as any, 'copyBaseFiles').mockResolvedValue(undefined);
+      vi.spyOn(installer as any, 'updatePackageJson').mockResolvedValue(undefined);
+      vi.spyOn(installer as any, 'writeEnvLocal').mockResolvedValue(undefined);
       vi.spyOn(installer, 'updateOAuthConfig').mockResolvedValue(undefined);
       vi.spyOn(installer, 'updateOAuthUIConfig').mockResolvedValue(undefined);
       vi.spyOn(installer, 'updateEnvExample').mockResolvedValue(undefined);
       vi.spyOn(installer, 'updateEnvTs').mockResolvedValue(undefined);
       vi.spyOn(installer, 'updateReadme').mockResolvedValue(undefined);
+      vi.spyOn(installer, 'addAuthPlugins').mockResolvedValue([]);
+      vi.spyOn(installer, 'addEmailPasswordFlows').mockResolvedValue([]);
       const applyTweakCNThemeSpy = vi.spyOn(installer, 'applyTweakCNTheme').mockResolvedValue(undefined);
 
       const options: ProjectOptions = {
@@ -347,13 +393,17 @@ describe('Task Group 6: Installer Orchestration Integration Tests', () => {
     });
 
     it('should call initGitRepo when initGit is true', async () => {
-      const installer = new TanStackInstaller('/tmp/test', 'test');
+      const installer = new TanStackInstaller(projectPath, 'test');
       vi.spyOn(installer as any, 'copyBaseFiles').mockResolvedValue(undefined);
+      vi.spyOn(installer as any, 'updatePackageJson').mockResolvedValue(undefined);
+      vi.spyOn(installer as any, 'writeEnvLocal').mockResolvedValue(undefined);
       vi.spyOn(installer, 'updateOAuthConfig').mockResolvedValue(undefined);
       vi.spyOn(installer, 'updateOAuthUIConfig').mockResolvedValue(undefined);
       vi.spyOn(installer, 'updateEnvExample').mockResolvedValue(undefined);
       vi.spyOn(installer, 'updateEnvTs').mockResolvedValue(undefined);
       vi.spyOn(installer, 'updateReadme').mockResolvedValue(undefined);
+      vi.spyOn(installer, 'addAuthPlugins').mockResolvedValue([]);
+      vi.spyOn(installer, 'addEmailPasswordFlows').mockResolvedValue([]);
       vi.spyOn(installer, 'applyTweakCNTheme').mockResolvedValue(undefined);
       const initGitRepoSpy = vi.spyOn(installer as any, 'initGitRepo').mockResolvedValue(undefined);
 
@@ -372,13 +422,17 @@ describe('Task Group 6: Installer Orchestration Integration Tests', () => {
     });
 
     it('should NOT call initGitRepo when initGit is false', async () => {
-      const installer = new TanStackInstaller('/tmp/test', 'test');
+      const installer = new TanStackInstaller(projectPath, 'test');
       vi.spyOn(installer as any, 'copyBaseFiles').mockResolvedValue(undefined);
+      vi.spyOn(installer as any, 'updatePackageJson').mockResolvedValue(undefined);
+      vi.spyOn(installer as any, 'writeEnvLocal').mockResolvedValue(undefined);
       vi.spyOn(installer, 'updateOAuthConfig').mockResolvedValue(undefined);
       vi.spyOn(installer, 'updateOAuthUIConfig').mockResolvedValue(undefined);
       vi.spyOn(installer, 'updateEnvExample').mockResolvedValue(undefined);
       vi.spyOn(installer, 'updateEnvTs').mockResolvedValue(undefined);
       vi.spyOn(installer, 'updateReadme').mockResolvedValue(undefined);
+      vi.spyOn(installer, 'addAuthPlugins').mockResolvedValue([]);
+      vi.spyOn(installer, 'addEmailPasswordFlows').mockResolvedValue([]);
       vi.spyOn(installer, 'applyTweakCNTheme').mockResolvedValue(undefined);
       const initGitRepoSpy = vi.spyOn(installer as any, 'initGitRepo').mockResolvedValue(undefined);
 
@@ -397,13 +451,17 @@ describe('Task Group 6: Installer Orchestration Integration Tests', () => {
     });
 
     it('should call installDependencies when installDependencies is true', async () => {
-      const installer = new TanStackInstaller('/tmp/test', 'test');
+      const installer = new TanStackInstaller(projectPath, 'test');
       vi.spyOn(installer as any, 'copyBaseFiles').mockResolvedValue(undefined);
+      vi.spyOn(installer as any, 'updatePackageJson').mockResolvedValue(undefined);
+      vi.spyOn(installer as any, 'writeEnvLocal').mockResolvedValue(undefined);
       vi.spyOn(installer, 'updateOAuthConfig').mockResolvedValue(undefined);
       vi.spyOn(installer, 'updateOAuthUIConfig').mockResolvedValue(undefined);
       vi.spyOn(installer, 'updateEnvExample').mockResolvedValue(undefined);
       vi.spyOn(installer, 'updateEnvTs').mockResolvedValue(undefined);
       vi.spyOn(installer, 'updateReadme').mockResolvedValue(undefined);
+      vi.spyOn(installer, 'addAuthPlugins').mockResolvedValue([]);
+      vi.spyOn(installer, 'addEmailPasswordFlows').mockResolvedValue([]);
       vi.spyOn(installer, 'applyTweakCNTheme').mockResolvedValue(undefined);
       const installDependenciesSpy = vi.spyOn(installer as any, 'installDependencies').mockResolvedValue(undefined);
 
@@ -422,13 +480,17 @@ describe('Task Group 6: Installer Orchestration Integration Tests', () => {
     });
 
     it('should NOT call installDependencies when installDependencies is false', async () => {
-      const installer = new TanStackInstaller('/tmp/test', 'test');
+      const installer = new TanStackInstaller(projectPath, 'test');
       vi.spyOn(installer as any, 'copyBaseFiles').mockResolvedValue(undefined);
+      vi.spyOn(installer as any, 'updatePackageJson').mockResolvedValue(undefined);
+      vi.spyOn(installer as any, 'writeEnvLocal').mockResolvedValue(undefined);
       vi.spyOn(installer, 'updateOAuthConfig').mockResolvedValue(undefined);
       vi.spyOn(installer, 'updateOAuthUIConfig').mockResolvedValue(undefined);
       vi.spyOn(installer, 'updateEnvExample').mockResolvedValue(undefined);
       vi.spyOn(installer, 'updateEnvTs').mockResolvedValue(undefined);
       vi.spyOn(installer, 'updateReadme').mockResolvedValue(undefined);
+      vi.spyOn(installer, 'addAuthPlugins').mockResolvedValue([]);
+      vi.spyOn(installer, 'addEmailPasswordFlows').mockResolvedValue([]);
       vi.spyOn(installer, 'applyTweakCNTheme').mockResolvedValue(undefined);
       const installDependenciesSpy = vi.spyOn(installer as any, 'installDependencies').mockResolvedValue(undefined);
 
@@ -447,7 +509,7 @@ describe('Task Group 6: Installer Orchestration Integration Tests', () => {
     });
 
     it('should execute methods in correct sequence', async () => {
-      const installer = new TanStackInstaller('/tmp/test', 'test');
+      const installer = new TanStackInstaller(projectPath, 'test');
       const callOrder: string[] = [];
 
       vi.spyOn(installer as any, 'copyBaseFiles').mockImplementation(async () => {
@@ -468,6 +530,20 @@ describe('Task Group 6: Installer Orchestration Integration Tests', () => {
       vi.spyOn(installer, 'updateReadme').mockImplementation(async () => {
         callOrder.push('updateReadme');
       });
+      vi.spyOn(installer, 'addAuthPlugins').mockImplementation(async () => {
+        callOrder.push('addAuthPlugins');
+        return [];
+      });
+      vi.spyOn(installer, 'addEmailPasswordFlows').mockImplementation(async () => {
+        callOrder.push('addEmailPasswordFlows');
+        return [];
+      });
+      vi.spyOn(installer as any, 'updatePackageJson').mockImplementation(async () => {
+        callOrder.push('updatePackageJson');
+      });
+      vi.spyOn(installer as any, 'writeEnvLocal').mockImplementation(async () => {
+        callOrder.push('writeEnvLocal');
+      });
       vi.spyOn(installer, 'applyTweakCNTheme').mockImplementation(async () => {
         callOrder.push('applyTweakCNTheme');
       });
@@ -497,6 +573,10 @@ describe('Task Group 6: Installer Orchestration Integration Tests', () => {
         'updateEnvExample',
         'updateEnvTs',
         'updateReadme',
+        'addAuthPlugins',
+        'addEmailPasswordFlows',
+        'updatePackageJson',
+        'writeEnvLocal',
         'applyTweakCNTheme',
         'initGitRepo',
         'installDependencies',
@@ -506,13 +586,17 @@ describe('Task Group 6: Installer Orchestration Integration Tests', () => {
 
   describe('Complete Orchestration Scenarios', () => {
     it('should orchestrate complete flow with all options enabled', async () => {
-      const installer = new TanStackInstaller('/tmp/test', 'test');
+      const installer = new TanStackInstaller(projectPath, 'test', emptyTemplateFileSystem);
       const copyBaseFilesSpy = vi.spyOn(installer as any, 'copyBaseFiles').mockResolvedValue(undefined);
+      vi.spyOn(installer as any, 'updatePackageJson').mockResolvedValue(undefined);
+      vi.spyOn(installer as any, 'writeEnvLocal').mockResolvedValue(undefined);
       const updateOAuthConfigSpy = vi.spyOn(installer, 'updateOAuthConfig').mockResolvedValue(undefined);
       const updateOAuthUIConfigSpy = vi.spyOn(installer, 'updateOAuthUIConfig').mockResolvedValue(undefined);
       const updateEnvExampleSpy = vi.spyOn(installer, 'updateEnvExample').mockResolvedValue(undefined);
       vi.spyOn(installer, 'updateEnvTs').mockResolvedValue(undefined);
       const updateReadmeSpy = vi.spyOn(installer, 'updateReadme').mockResolvedValue(undefined);
+      const addAuthPluginsSpy = vi.spyOn(installer, 'addAuthPlugins').mockResolvedValue([]);
+      const addEmailPasswordFlowsSpy = vi.spyOn(installer, 'addEmailPasswordFlows').mockResolvedValue([]);
       const applyTweakCNThemeSpy = vi.spyOn(installer, 'applyTweakCNTheme').mockResolvedValue(undefined);
       const initGitRepoSpy = vi.spyOn(installer as any, 'initGitRepo').mockResolvedValue(undefined);
       const installDependenciesSpy = vi.spyOn(installer as any, 'installDependencies').mockResolvedValue(undefined);
@@ -538,19 +622,25 @@ describe('Task Group 6: Installer Orchestration Integration Tests', () => {
       expect(updateOAuthUIConfigSpy).toHaveBeenCalledWith(['google', 'github', 'discord'], true);
       expect(updateEnvExampleSpy).toHaveBeenCalledWith(['google', 'github', 'discord']);
       expect(updateReadmeSpy).toHaveBeenCalledWith(['google', 'github', 'discord']);
-      expect(applyTweakCNThemeSpy).toHaveBeenCalledWith('--background: 0 0% 0%;');
+      expect(addAuthPluginsSpy).toHaveBeenCalledWith(['admin', 'api-key']); // Default plugins
+      expect(addEmailPasswordFlowsSpy).toHaveBeenCalledWith(undefined); // Default sub-options
+      expect(applyTweakCNThemeSpy).toHaveBeenCalledWith(':root {\n  --background: oklch(0% 0.000 0);\n}');
       expect(initGitRepoSpy).toHaveBeenCalledTimes(1);
       expect(installDependenciesSpy).toHaveBeenCalledTimes(1);
     });
 
     it('should orchestrate minimal flow with all options disabled', async () => {
-      const installer = new TanStackInstaller('/tmp/test', 'test');
+      const installer = new TanStackInstaller(projectPath, 'test');
       const copyBaseFilesSpy = vi.spyOn(installer as any, 'copyBaseFiles').mockResolvedValue(undefined);
+      vi.spyOn(installer as any, 'updatePackageJson').mockResolvedValue(undefined);
+      vi.spyOn(installer as any, 'writeEnvLocal').mockResolvedValue(undefined);
       const updateOAuthConfigSpy = vi.spyOn(installer, 'updateOAuthConfig').mockResolvedValue(undefined);
       const updateOAuthUIConfigSpy = vi.spyOn(installer, 'updateOAuthUIConfig').mockResolvedValue(undefined);
       const updateEnvExampleSpy = vi.spyOn(installer, 'updateEnvExample').mockResolvedValue(undefined);
       vi.spyOn(installer, 'updateEnvTs').mockResolvedValue(undefined);
       const updateReadmeSpy = vi.spyOn(installer, 'updateReadme').mockResolvedValue(undefined);
+      vi.spyOn(installer, 'addAuthPlugins').mockResolvedValue([]);
+      vi.spyOn(installer, 'addEmailPasswordFlows').mockResolvedValue([]);
       const applyTweakCNThemeSpy = vi.spyOn(installer, 'applyTweakCNTheme').mockResolvedValue(undefined);
       const initGitRepoSpy = vi.spyOn(installer as any, 'initGitRepo').mockResolvedValue(undefined);
       const installDependenciesSpy = vi.spyOn(installer as any, 'installDependencies').mockResolvedValue(undefined);
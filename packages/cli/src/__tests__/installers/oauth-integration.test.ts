@@ -15,6 +15,7 @@ import {
   getProviderIds,
   getPopularProviders,
   getAdditionalProviders,
+  getProviderOptions,
 } from '../../installers/providers.js';
 import {
   generateOAuthConfigBlock,
@@ -22,6 +23,9 @@ import {
   generateReadmeSection,
   generateOAuthUIConfigBlock,
   getProvidersRequiringExtraConfig,
+  generateSocialProviderEntry,
+  generateEnvTsServerSchema,
+  generateEnvTsRuntimeMapping,
 } from '../../installers/string-utils.js';
 
 describe('Task Group 6: OAuth Integration Tests', () => {
@@ -140,6 +144,57 @@ describe('Task Group 6: OAuth Integration Tests', () => {
     });
   });
 
+  describe('Provider Option Generation', () => {
+    it('should pass every env variable to the provider config and env schema', () => {
+      getProviderIds().forEach(providerId => {
+        const provider = getProvider(providerId)!;
+        const entry = generateSocialProviderEntry(providerId);
+        const schema = generateEnvTsServerSchema([providerId]);
+        const mapping = generateEnvTsRuntimeMapping([providerId]);
+
+        provider.env!.forEach(envVar => {
+          expect(entry).toContain(`process.env.${envVar.name}`);
+          expect(schema).toContain(`${envVar.name}: z.`);
+          expect(mapping).toContain(`${envVar.name}: process.env.${envVar.name},`);
+        });
+      });
+    });
+
+    it('should map extra env variables to camel-cased Better Auth options', () => {
+      const entry = generateSocialProviderEntry('cognito');
+
+      expect(entry).toContain('domain: process.env.COGNITO_DOMAIN!,');
+      expect(entry).toContain('region: process.env.COGNITO_REGION!,');
+      expect(entry).toContain('userPoolId: process.env.COGNITO_USER_POOL_ID!,');
+      expect(generateSocialProviderEntry('figma')).toContain('clientKey: process.env.FIGMA_CLIENT_KEY!,');
+      expect(generateSocialProviderEntry('tiktok')).not.toContain('clientId');
+    });
+
+    it('should generate optional and enum options from overrides', () => {
+      const options = getProviderOptions(getProvider('paypal')!);
+
+      expect(options[2]).toEqual({
+        envVar: 'PAYPAL_ENVIRONMENT',
+        option: 'environment',
+        optional: true,
+        values: ['sandbox', 'live'],
+      });
+      expect(generateSocialProviderEntry('paypal')).toContain(
+        'environment: process.env.PAYPAL_ENVIRONMENT as "sandbox" | "live" | undefined,'
+      );
+      expect(generateEnvTsServerSchema(['paypal'])).toContain(
+        'PAYPAL_ENVIRONMENT: z.enum(["sandbox", "live"]).optional(),'
+      );
+      expect(generateEnvTsServerSchema(['microsoft'])).toContain('MICROSOFT_TENANT_ID: z.string().optional(),');
+      expect(generateSocialProviderEntry('microsoft')).toContain('tenantId: process.env.MICROSOFT_TENANT_ID,');
+    });
+
+    it('should emit required scopes', () => {
+      expect(generateSocialProviderEntry('github')).toContain('scope: ["user:email"],');
+      expect(generateSocialProviderEntry('google')).not.toContain('scope');
+    });
+  });
+
   describe('README Section Generation', () => {
     it('should generate README section for a single provider', () => {
       const readme = generateReadmeSection(['google']);
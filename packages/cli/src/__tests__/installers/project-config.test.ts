@@ -0,0 +1,54 @@
+/**
+ * Integration Tests for Generated Project Configuration
+ *
+ * Verifies the files that make a scaffolded project runnable without manual setup:
+ * - package.json carries the project name and sorted scripts
+ * - .env.local holds a generated secret, site URL defaults and provider slots
+ * - .env.local is git-ignored
+ */
+
+import { describe, it, expect } from 'vitest';
+import { scaffoldInMemory } from '../helpers/scaffold.js';
+import type { CustomOIDCProvider, Framework } from '../../installers/types.js';
+
+const okta: CustomOIDCProvider = {
+  id: 'okta-sso',
+  name: 'Okta SSO',
+  discoveryUrl: 'https://acme.okta.com/.well-known/openid-configuration',
+};
+
+describe('Generated project configuration', () => {
+  it.each<Framework>(['tanstack', 'nextjs'])('should personalize package.json (%s)', async (framework) => {
+    const { read } = await scaffoldInMemory(framework, { projectName: 'acme-dashboard' });
+
+    const packageJson = JSON.parse(await read('package.json')) as {
+      name: string;
+      scripts: Record<string, string>;
+    };
+
+    expect(packageJson.name).toBe('acme-dashboard');
+    expect(Object.keys(packageJson)[0]).toBe('name');
+    expect(packageJson.scripts['secret:create']).not.toContain('pbcopy');
+  });
+
+  it('should write .env.local with a generated secret and provider slots', async () => {
+    const { read } = await scaffoldInMemory('tanstack', { oauthProviders: ['google'], customOIDCProvider: okta });
+
+    const envLocal = await read('.env.local');
+
+    expect(envLocal).toMatch(/^BETTER_AUTH_SECRET=[0-9a-f]{64}$/m);
+    expect(envLocal).toContain('SITE_URL=http://localhost:3000\nVITE_SITE_URL=http://localhost:3000');
+    expect(envLocal).toContain('GOOGLE_CLIENT_ID=\n');
+    expect(envLocal).toContain('OKTA_SSO_DISCOVERY_URL=https://acme.okta.com/.well-known/openid-configuration');
+    expect(await read('.gitignore')).toMatch(/^\.env\.\*$/m);
+  });
+
+  it('should use the Next.js public site URL and a fresh secret per project', async () => {
+    const first = await (await scaffoldInMemory('nextjs')).read('.env.local');
+    const second = await (await scaffoldInMemory('nextjs')).read('.env.local');
+
+    expect(first).toContain('NEXT_PUBLIC_SITE_URL=http://localhost:3000');
+    expect(first).not.toContain('OAuth Provider Credentials');
+    expect(first.match(/BETTER_AUTH_SECRET=(\w+)/)?.[1]).not.toBe(second.match(/BETTER_AUTH_SECRET=(\w+)/)?.[1]);
+  });
+});
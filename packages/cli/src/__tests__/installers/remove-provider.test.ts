@@ -0,0 +1,128 @@
+/**
+ * Integration Tests for Removing OAuth Providers from Existing Projects
+ *
+ * Verifies that removeOAuthProvider is the inverse of scaffolding a provider:
+ * - Removing every provider matches a project scaffolded without OAuth
+ * - Removing one provider leaves the others intact
+ * - Edits that can't be parsed safely are refused without changing any file
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  removeSocialProvider,
+  removeUIProvider,
+  removeEnvVariables,
+  removeReadmeSection,
+} from '../../installers/code-edits.js';
+import { scaffoldInMemory } from '../helpers/scaffold.js';
+import type { Framework } from '../../installers/types.js';
+
+describe('removeOAuthProvider', () => {
+  it.each<Framework>(['tanstack', 'nextjs'])(
+    'should remove a provider and keep the others (%s)',
+    async (framework) => {
+      const { installer, read } = await scaffoldInMemory(framework, {
+        oauthProviders: ['google', 'github', 'twitter'],
+      });
+      const files = installer.projectFiles;
+
+      await installer.removeOAuthProvider('twitter');
+
+      const authConfig = await read(files.authConfig);
+      expect(authConfig).not.toContain('twitter');
+      expect(authConfig).toMatch(/google: \{\n\s+clientId: process\.env\.GOOGLE_CLIENT_ID!,\n\s+clientSecret: process\.env\.GOOGLE_CLIENT_SECRET!,\n\s+\},\n\s+\},/);
+      expect(authConfig).toContain('github: {');
+      expect(await read(files.authUIConfig)).toContain('providers: ["google", "github"]');
+      expect(await read(files.envConfig)).not.toContain('TWITTER_CLIENT_ID');
+      expect(await read(files.envExample)).not.toContain('TWITTER');
+      expect(await read(files.envLocal)).not.toContain('TWITTER');
+      expect(await read(files.envLocal)).toContain('GITHUB_CLIENT_ID=');
+      expect(await read(files.readme)).not.toContain('Twitter');
+      expect(await read(files.readme)).toContain('## GitHub OAuth Setup');
+    }
+  );
+
+  it('should match a project scaffolded without the removed provider', async () => {
+    const withProvider = await scaffoldInMemory('tanstack', { oauthProviders: ['google'] });
+    const withoutProvider = await scaffoldInMemory('tanstack', { oauthProviders: [] });
+    const files = withProvider.installer.projectFiles;
+
+    await withProvider.installer.removeOAuthProvider('google');
+
+    for (const file of [files.authConfig, files.authUIConfig, files.envConfig, files.envExample]) {
+      expect(await withProvider.read(file)).toBe(await withoutProvider.read(file));
+    }
+    expect(await withProvider.read(files.readme)).not.toContain('OAuth Provider Setup');
+  });
+
+  it('should report no changes for a provider that is not configured', async () => {
+    const { installer } = await scaffoldInMemory('nextjs', { oauthProviders: ['google'] });
+
+    expect(await installer.removeOAuthProvider('discord')).toEqual([]);
+  });
+
+  it('should refuse edits it cannot parse and leave every file unchanged', async () => {
+    const { installer, read, write } = await scaffoldInMemory('tanstack', {
+      oauthProviders: ['google', 'github'],
+    });
+    const files = installer.projectFiles;
+    const authConfig = await read(files.authConfig);
+    await write(
+      files.authConfig,
+      authConfig.replace('github: {', 'github: { ...sharedGitHubOptions, }, legacy: {')
+    );
+    const uiConfig = await read(files.authUIConfig);
+
+    await expect(installer.removeOAuthProvider('github')).rejects.toThrow(
+      "Could not safely update convex/auth/index.ts: 'github' shares a line with other code"
+    );
+    expect(await read(files.authUIConfig)).toBe(uiConfig);
+  });
+});
+
+describe('Code removals', () => {
+  it('should remove a quoted last entry and drop the previous trailing comma', () => {
+    const source = [
+      'betterAuth({',
+      '  socialProviders: {',
+      '    google: { clientId: "a" },',
+      '    "apple": { clientId: "b" }',
+      '  },',
+      '})',
+    ].join('\n');
+
+    expect(removeSocialProvider(source, 'apple')).toBe(
+      ['betterAuth({', '  socialProviders: {', '    google: { clientId: "a" }', '  },', '})'].join('\n')
+    );
+  });
+
+  it('should keep the social prop when it has other options', () => {
+    const source = `<AuthUIProvider\n  social={{ providers: ['google'], signIn: true }}\n/>`;
+
+    expect(removeUIProvider(source, 'google')).toBe(
+      `<AuthUIProvider\n  social={{ providers: [], signIn: true }}\n/>`
+    );
+  });
+
+  it('should refuse to remove providers from a computed list', () => {
+    const source = `<AuthUIProvider\n  social={{ providers: ["google", ...extraProviders] }}\n/>`;
+
+    expect(() => removeUIProvider(source, 'google')).toThrow('not plain strings');
+  });
+
+  it('should remove env declarations with their description comments', () => {
+    const source = '# Google OAuth Client ID\nGOOGLE_CLIENT_ID=\n# Keep\nOTHER=1\n';
+
+    expect(removeEnvVariables(source, ['GOOGLE_CLIENT_ID'])).toBe('# Keep\nOTHER=1\n');
+  });
+
+  it('should remove the separator with the last provider section', () => {
+    const source =
+      '# OAuth Provider Setup\n\n## Google OAuth Setup\n\nSteps\n\n---\n\n' +
+      '## GitHub OAuth Setup\n\nSteps\n\n## Customizing Authentication\n';
+
+    expect(removeReadmeSection(source, 'GitHub OAuth Setup')).toBe(
+      '# OAuth Provider Setup\n\n## Google OAuth Setup\n\nSteps\n\n## Customizing Authentication\n'
+    );
+  });
+});
@@ -0,0 +1,59 @@
+/**
+ * Integration Tests for Runtime Theme Switching
+ *
+ * Verifies that extra themes are wired into generated projects:
+ * - Each theme is emitted as [data-theme] blocks after the base theme
+ * - The theme provider's brandThemes list includes every theme
+ * - Light-only themes get a derived dark block and re-adding is a no-op
+ */
+
+import { describe, it, expect } from 'vitest';
+import { getBundledTheme } from '../../installers/themes.js';
+import { scaffoldInMemory } from '../helpers/scaffold.js';
+import type { Framework } from '../../installers/types.js';
+
+describe('Runtime themes', () => {
+  it.each<Framework>(['tanstack', 'nextjs'])(
+    'should emit [data-theme] blocks and register them in the theme provider (%s)',
+    async (framework) => {
+      const { installer, read } = await scaffoldInMemory(framework, { themeName: 'rose', extraThemes: ['blue', 'violet'] });
+      const stylesheet = await read(installer.projectFiles.themeCSS);
+      const themeProvider = await read(installer.projectFiles.themeProvider);
+
+      expect(stylesheet).toMatch(/\n\[data-theme="blue"\] \{/);
+      expect(stylesheet).toMatch(/\n\.dark\[data-theme="blue"\] \{/);
+      expect(stylesheet.indexOf('[data-theme="violet"]')).toBeGreaterThan(stylesheet.indexOf('[data-theme="blue"]'));
+      expect(stylesheet.indexOf('[data-theme="blue"]')).toBeGreaterThan(stylesheet.indexOf(':root'));
+      expect(themeProvider).toContain('export const brandThemes = ["default", "blue", "violet"] as const');
+    }
+  );
+
+  it('should leave the theme provider untouched without extra themes', async () => {
+    const { installer, read } = await scaffoldInMemory('tanstack', { themeName: 'rose', extraThemes: [] });
+
+    expect(await read(installer.projectFiles.themeProvider)).toContain(
+      'export const brandThemes = ["default"] as const'
+    );
+    expect(await read(installer.projectFiles.themeCSS)).not.toContain('data-theme');
+  });
+
+  it('should derive a dark block for light-only themes', async () => {
+    const { installer, read } = await scaffoldInMemory('tanstack', { themeName: 'rose', extraThemes: [] });
+
+    const changedFiles = await installer.addRuntimeThemes([
+      { name: 'acme', css: ':root { --background: #ffffff; --primary: #2563eb; }' },
+    ]);
+    const stylesheet = await read(installer.projectFiles.themeCSS);
+
+    expect(changedFiles).toEqual([installer.projectFiles.themeCSS, installer.projectFiles.themeProvider]);
+    expect(stylesheet).toContain('.dark[data-theme="acme"] {\n  --background: oklch(14.5% 0.000 0);');
+  });
+
+  it('should be idempotent', async () => {
+    const { installer } = await scaffoldInMemory('nextjs', { themeName: 'rose', extraThemes: ['green'] });
+
+    const changedFiles = await installer.addRuntimeThemes([{ name: 'green', css: getBundledTheme('green')!.css }]);
+
+    expect(changedFiles).toEqual([]);
+  });
+});
@@ -0,0 +1,110 @@
+/**
+ * Integration Tests for Transactional Scaffolding
+ *
+ * Verifies that initProject stages all files before moving them into place:
+ * - A failing step leaves no target directory behind
+ * - Existing targets (dot notation) only lose files the CLI added
+ * - The failed step is named in the error message
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, existsSync, readdirSync, writeFileSync, readFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { TanStackInstaller } from '../../installers/tanstack.js';
+import { commitStagingDirectory } from '../../helpers/fileOperations.js';
+import type { ProjectOptions } from '../../installers/types.js';
+
+/**
+ * Installer whose typed env step always fails, simulating a missing placeholder
+ */
+class FailingEnvInstaller extends TanStackInstaller {
+  async updateEnvTs(): Promise<void> {
+    throw new Error('Placeholder "// {{OAUTH_ENV_SERVER_SCHEMA}}" not found');
+  }
+}
+
+const options: ProjectOptions = {
+  projectName: 'transactional-app',
+  framework: 'tanstack',
+  emailPasswordAuth: true,
+  oauthProviders: ['google'],
+  initGit: false,
+  installDependencies: false,
+};
+
+describe('Transactional scaffolding', () => {
+  let workspacePath: string;
+
+  beforeEach(() => {
+    workspacePath = mkdtempSync(join(tmpdir(), 'transactional-test-'));
+  });
+
+  afterEach(() => {
+    rmSync(workspacePath, { recursive: true, force: true });
+  });
+
+  it('should create the target directory only after all steps succeed', async () => {
+    const targetPath = join(workspacePath, 'my-app');
+    const installer = new TanStackInstaller(targetPath, 'my-app');
+
+    await installer.initProject(options);
+
+    expect(existsSync(join(targetPath, 'convex/auth/index.ts'))).toBe(true);
+    expect(existsSync(join(targetPath, '.gitignore'))).toBe(true);
+  });
+
+  it('should leave no target directory or staging directory behind when a step fails', async () => {
+    const targetPath = join(workspacePath, 'my-app');
+    const stagingRoot = mkdtempSync(join(tmpdir(), 'transactional-staging-'));
+    const originalTmpdir = process.env.TMPDIR;
+    const installer = new FailingEnvInstaller(targetPath, 'my-app');
+
+    // Point os.tmpdir() at an isolated directory so leftover staging directories are visible
+    process.env.TMPDIR = stagingRoot;
+    try {
+      await expect(installer.initProject(options)).rejects.toThrow(
+        'Updating typed env configuration failed'
+      );
+    } finally {
+      if (originalTmpdir === undefined) {
+        delete process.env.TMPDIR;
+      } else {
+        process.env.TMPDIR = originalTmpdir;
+      }
+    }
+
+    expect(existsSync(targetPath)).toBe(false);
+    expect(readdirSync(stagingRoot)).toEqual([]);
+    rmSync(stagingRoot, { recursive: true, force: true });
+  });
+
+  it('should keep pre-existing files untouched in an existing target on failure', async () => {
+    writeFileSync(join(workspacePath, '.npmrc'), 'auto-install-peers=true\n');
+    const installer = new FailingEnvInstaller(workspacePath, 'my-app');
+
+    await expect(installer.initProject(options)).rejects.toThrow();
+
+    expect(readdirSync(workspacePath)).toEqual(['.npmrc']);
+  });
+
+  it('should not overwrite existing files when committing into an existing target', async () => {
+    writeFileSync(join(workspacePath, '.gitignore'), 'custom\n');
+    const installer = new TanStackInstaller(workspacePath, 'my-app');
+
+    await installer.initProject(options);
+
+    expect(readFileSync(join(workspacePath, '.gitignore'), 'utf-8')).toBe('custom\n');
+    expect(existsSync(join(workspacePath, 'package.json'))).toBe(true);
+  });
+
+  it('should remove the staging directory after committing', async () => {
+    const stagingPath = mkdtempSync(join(tmpdir(), 'create-z3-'));
+    writeFileSync(join(stagingPath, 'README.md'), '# App\n');
+
+    await commitStagingDirectory(stagingPath, join(workspacePath, 'app'));
+
+    expect(existsSync(stagingPath)).toBe(false);
+    expect(readFileSync(join(workspacePath, 'app/README.md'), 'utf-8')).toBe('# App\n');
+  });
+});
@@ -0,0 +1,258 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync, readFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { createPresetSchema, loadPreset, parsePreset, savePreset, PRESET_SCHEMA_URL } from '../utils/preset.js';
+import type { ProjectOptions } from '../installers/types.js';
+
+describe('Project presets', () => {
+  let presetDir: string;
+
+  beforeEach(() => {
+    presetDir = mkdtempSync(join(tmpdir(), 'z3-preset-test-'));
+  });
+
+  afterEach(() => {
+    rmSync(presetDir, { recursive: true, force: true });
+  });
+
+  describe('createPresetSchema', () => {
+    it('should match the published schema file', async () => {
+      // Regenerate with `pnpm test -u` after changing a registry
+      await expect(`${JSON.stringify(createPresetSchema(), null, 2)}\n`).toMatchFileSnapshot(
+        '../../schema/preset.schema.json'
+      );
+    });
+
+    it('should take its enums from the registries', () => {
+      const { properties } = createPresetSchema();
+
+      expect(properties.authPlugins.items.enum).toContain('email-otp');
+      expect(properties.theme.enum[0]).toBe('default');
+      expect(properties.extraThemes.items.enum).not.toContain('default');
+      expect(properties.oauthProviders.items.enum).toContain('github');
+    });
+  });
+
+  describe('parsePreset', () => {
+    it('should map valid preset data onto ProjectPreset', async () => {
+      const result = await parsePreset(
+        {
+          $schema: PRESET_SCHEMA_URL,
+          framework: 'tanstack',
+          emailPasswordAuth: false,
+          oauthProviders: ['google', 'github'],
+          initGit: true,
+        },
+        presetDir
+      );
+
+      expect(result.valid).toBe(true);
+      expect(result.preset).toEqual({
+        framework: 'tanstack',
+        emailPasswordAuth: false,
+        oauthProviders: ['google', 'github'],
+        initGit: true,
+      });
+    });
+
+    it('should report unknown options, invalid values and unknown providers', async () => {
+      const result = await parsePreset(
+        { framework: 'remix', initGit: 'yes', oauthProviders: ['gogle'], extra: 1 },
+        presetDir
+      );
+
+      expect(result.valid).toBe(false);
+      expect(result.errors).toContain("Unknown preset option 'extra'");
+      expect(result.errors).toContain("Preset option 'initGit' must be a boolean");
+      expect(result.errors.some(error => error.includes("Unknown framework 'remix'"))).toBe(true);
+      expect(result.errors.some(error => error.includes("Unknown OAuth provider 'gogle'"))).toBe(true);
+    });
+
+    it('should validate the custom OpenID Connect provider', async () => {
+      const customOIDCProvider = {
+        id: 'keycloak',
+        name: 'Keycloak',
+        discoveryUrl: 'https://sso.example.com/.well-known/openid-configuration',
+      };
+
+      const valid = await parsePreset({ customOIDCProvider }, presetDir);
+      const invalid = await parsePreset({ customOIDCProvider: { ...customOIDCProvider, id: 'github' } }, presetDir);
+      const malformed = await parsePreset({ customOIDCProvider: { id: 'keycloak' } }, presetDir);
+
+      expect(valid.preset.customOIDCProvider).toEqual(customOIDCProvider);
+      expect(invalid.errors[0]).toContain("'github' is a built-in OAuth provider");
+      expect(malformed.errors).toEqual([
+        "Preset option 'customOIDCProvider' must be { id, name, discoveryUrl }",
+      ]);
+    });
+
+    it('should resolve themeFile relative to the preset directory', async () => {
+      writeFileSync(join(presetDir, 'brand.css'), ':root { --background: #ffffff; }');
+
+      const result = await parsePreset({ themeFile: './brand.css' }, presetDir);
+
+      expect(result.valid).toBe(true);
+      expect(result.preset.tweakcnTheme).toEqual({
+        type: 'css',
+        content: ':root { --background: #ffffff; }',
+      });
+    });
+
+    it('should accept a bundled theme and reject combined theme options', async () => {
+      const valid = await parsePreset({ theme: 'rose' }, presetDir);
+      const unknown = await parsePreset({ theme: 'neon' }, presetDir);
+      const combined = await parsePreset({ theme: 'rose', themeFile: './brand.css' }, presetDir);
+
+      expect(valid.preset.themeName).toBe('rose');
+      expect(unknown.errors[0]).toContain("Unknown theme 'neon'");
+      expect(combined.errors).toEqual([
+        "Preset options 'theme' and 'themeFile' cannot be used together",
+      ]);
+    });
+
+    it('should accept extra runtime themes and reject default', async () => {
+      const valid = await parsePreset({ extraThemes: ['blue', 'blue', 'rose'] }, presetDir);
+      const invalid = await parsePreset({ extraThemes: ['default'] }, presetDir);
+
+      expect(valid.preset.extraThemes).toEqual(['blue', 'rose']);
+      expect(invalid.errors[0]).toContain("Theme 'default' can't be an extra theme");
+    });
+
+    it('should accept auth plugins and reject unknown ids', async () => {
+      const valid = await parsePreset({ authPlugins: ['api-key', 'api-key'] }, presetDir);
+      const invalid = await parsePreset({ authPlugins: ['sso'] }, presetDir);
+
+      expect(valid.preset.authPlugins).toEqual(['api-key']);
+      expect(invalid.errors[0]).toContain("Unknown auth plugin 'sso'");
+    });
+
+    it('should accept email & password sub-options and reject invalid ones', async () => {
+      const valid = await parsePreset(
+        { emailPasswordOptions: { requireEmailVerification: true, minPasswordLength: 12 } },
+        presetDir
+      );
+      const invalid = await parsePreset(
+        { emailPasswordOptions: { allowPasswordReset: 'yes', minPasswordLength: 4, sendOnSignUp: true } },
+        presetDir
+      );
+
+      expect(valid.preset.emailPasswordOptions).toEqual({ requireEmailVerification: true, minPasswordLength: 12 });
+      expect(invalid.errors).toEqual([
+        "Unknown preset option 'emailPasswordOptions.sendOnSignUp'",
+        "Preset option 'emailPasswordOptions.allowPasswordReset' must be a boolean",
+        "Invalid minimum password length '4'. Use a whole number from 8 to 128",
+      ]);
+    });
+
+    it('should reject non-object presets', async () => {
+      const result = await parsePreset(['tanstack'], presetDir);
+
+      expect(result.valid).toBe(false);
+      expect(result.errors).toEqual(['Preset must be an object']);
+    });
+  });
+
+  describe('loadPreset', () => {
+    it('should load YAML presets', async () => {
+      const presetPath = join(presetDir, 'z3.config.yaml');
+      writeFileSync(presetPath, 'framework: nextjs\noauthProviders:\n  - discord\n');
+
+      const result = await loadPreset(presetPath);
+
+      expect(result.valid).toBe(true);
+      expect(result.preset).toEqual({ framework: 'nextjs', oauthProviders: ['discord'] });
+    });
+
+    it('should report unreadable or malformed presets', async () => {
+      const presetPath = join(presetDir, 'z3.config.json');
+      writeFileSync(presetPath, '{ not json');
+
+      const result = await loadPreset(presetPath);
+
+      expect(result.valid).toBe(false);
+      expect(result.errors[0]).toContain(`Could not load preset '${presetPath}'`);
+    });
+  });
+
+  describe('savePreset', () => {
+    const options: ProjectOptions = {
+      projectName: 'my-app',
+      framework: 'nextjs',
+      emailPasswordAuth: true,
+      oauthProviders: ['google'],
+      initGit: false,
+      installDependencies: true,
+    };
+
+    it('should write a JSON preset without the project name', async () => {
+      const presetPath = join(presetDir, 'z3.config.json');
+
+      await savePreset(presetPath, options);
+      const saved = JSON.parse(readFileSync(presetPath, 'utf-8'));
+
+      expect(saved.$schema).toBe(PRESET_SCHEMA_URL);
+      expect(saved.projectName).toBeUndefined();
+      expect(saved.framework).toBe('nextjs');
+      expect(saved.oauthProviders).toEqual(['google']);
+    });
+
+    it('should save a bundled theme unless a TweakCN theme overrides it', async () => {
+      const presetPath = join(presetDir, 'z3.config.json');
+
+      await savePreset(presetPath, { ...options, themeName: 'violet' });
+      expect(JSON.parse(readFileSync(presetPath, 'utf-8')).theme).toBe('violet');
+
+      await savePreset(presetPath, {
+        ...options,
+        themeName: 'violet',
+        tweakcnTheme: { type: 'css', content: ':root { --background: #fff; }' },
+      });
+      expect(JSON.parse(readFileSync(presetPath, 'utf-8')).theme).toBeUndefined();
+    });
+
+    it('should only save extra themes when some were selected', async () => {
+      const presetPath = join(presetDir, 'z3.config.json');
+
+      await savePreset(presetPath, { ...options, extraThemes: ['blue'] });
+      expect(JSON.parse(readFileSync(presetPath, 'utf-8')).extraThemes).toEqual(['blue']);
+
+      await savePreset(presetPath, { ...options, extraThemes: [] });
+      expect(JSON.parse(readFileSync(presetPath, 'utf-8')).extraThemes).toBeUndefined();
+    });
+
+    it('should save an empty auth plugin selection', async () => {
+      const presetPath = join(presetDir, 'z3.config.json');
+
+      await savePreset(presetPath, { ...options, authPlugins: [] });
+      expect(JSON.parse(readFileSync(presetPath, 'utf-8')).authPlugins).toEqual([]);
+    });
+
+    it('should only save email & password sub-options with email & password enabled', async () => {
+      const presetPath = join(presetDir, 'z3.config.json');
+      const emailPasswordOptions = { requireEmailVerification: true };
+
+      await savePreset(presetPath, { ...options, emailPasswordOptions });
+      expect(JSON.parse(readFileSync(presetPath, 'utf-8')).emailPasswordOptions).toEqual(emailPasswordOptions);
+
+      await savePreset(presetPath, { ...options, emailPasswordAuth: false, emailPasswordOptions });
+      expect(JSON.parse(readFileSync(presetPath, 'utf-8')).emailPasswordOptions).toBeUndefined();
+    });
+
+    it('should round-trip through loadPreset', async () => {
+      const presetPath = join(presetDir, 'z3.config.yml');
+
+      await savePreset(presetPath, options);
+      const result = await loadPreset(presetPath);
+
+      expect(result.valid).toBe(true);
+      expect(result.preset).toEqual({
+        framework: 'nextjs',
+        emailPasswordAuth: true,
+        oauthProviders: ['google'],
+        initGit: false,
+        installDependencies: true,
+      });
+    });
+  });
+});
@@ -0,0 +1,245 @@
+/**
+ * Smoke Tests for Generated Projects
+ *
+ * Scaffolds each framework with representative provider and feature combinations
+ * and runs the generated project's own TypeScript and ESLint against an offline
+ * package store:
+ * - Every project must pass `tsc --noEmit`, including one with a custom OpenID Connect provider
+ * - ESLint must report no errors in the files the CLI generates or edits; template
+ *   files it copies unchanged are not checked
+ *
+ * Skipped unless Z3_SMOKE_STORE points to a directory holding an installed
+ * `node_modules` per framework (`<store>/tanstack`, `<store>/nextjs`). `pnpm test`
+ * does not set it, so run `pnpm test:smoke` with a store before merging template
+ * or installer changes (see "Smoke Testing Generated Projects" in the README).
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { existsSync, mkdtempSync, readdirSync, readFileSync, realpathSync, rmSync, symlinkSync } from 'fs';
+import { createRequire } from 'module';
+import { tmpdir } from 'os';
+import { dirname, join, relative } from 'path';
+import { fileURLToPath } from 'url';
+import { execa } from 'execa';
+import { createInstaller } from '../../installers/index.js';
+import { getAuthPluginIds, getDefaultAuthPluginIds } from '../../installers/plugins.js';
+import { getPopularProviders, getProviderIds } from '../../installers/providers.js';
+import type { CustomOIDCProvider, Framework, ProjectOptions } from '../../installers/types.js';
+
+const storePath = process.env.Z3_SMOKE_STORE;
+
+/** Base template directory of each framework */
+const TEMPLATE_PATHS: Record<Framework, string> = {
+  tanstack: fileURLToPath(new URL('../../../templates/tanstack-start', import.meta.url)),
+  nextjs: fileURLToPath(new URL('../../../templates/nextjs', import.meta.url)),
+};
+
+/** Type-checking and linting a generated project takes well over vitest's default timeout */
+const SMOKE_TIMEOUT = 10 * 60 * 1000;
+
+const CUSTOM_OIDC_PROVIDER: CustomOIDCProvider = {
+  id: 'my-idp',
+  name: 'My IdP',
+  discoveryUrl: 'https://idp.example.com/.well-known/openid-configuration',
+};
+
+/**
+ * Survey answers that vary between smoke cases
+ */
+type SmokeOptions = Partial<Omit<ProjectOptions, 'projectName' | 'framework' | 'initGit' | 'installDependencies'>>;
+
+/** Each case is scaffolded on top of the default project: email & password with the default plugins */
+const SMOKE_CASES: Array<[string, SmokeOptions]> = [
+  ['popular providers', { oauthProviders: getPopularProviders().map(provider => provider.id) }],
+  ['all providers', { oauthProviders: getProviderIds(), customOIDCProvider: CUSTOM_OIDC_PROVIDER }],
+  ['organizations', { authPlugins: [...getDefaultAuthPluginIds(), 'organization'] }],
+  ['passkeys', { authPlugins: [...getDefaultAuthPluginIds(), 'passkey'] }],
+  ['magic link and email OTP', { authPlugins: [...getDefaultAuthPluginIds(), 'magic-link', 'email-otp'] }],
+  [
+    'email verification and password reset',
+    { emailPasswordOptions: { requireEmailVerification: true, allowPasswordReset: true, minPasswordLength: 12 } },
+  ],
+  ['every auth plugin', { authPlugins: getAuthPluginIds() }],
+];
+
+/**
+ * Minimal shape of ESLint's JSON formatter output
+ */
+interface LintResult {
+  filePath: string;
+  messages: Array<{ ruleId: string | null; severity: number; message: string }>;
+}
+
+/**
+ * Resolves a package binary from the store, following its real path so that
+ * publicly hoisted packages (e.g. eslint) are found the way the project would
+ *
+ * @param frameworkStore - Store directory for the framework
+ * @param packageName - Package providing the binary (e.g., 'typescript')
+ * @param binName - Binary name from the package's bin field (e.g., 'tsc')
+ * @returns Absolute path to the binary's script
+ */
+function resolveStoreBin(frameworkStore: string, packageName: string, binName: string): string {
+  const require = createRequire(join(realpathSync(frameworkStore), 'package.json'));
+  const packageJsonPath = require.resolve(`${packageName}/package.json`);
+  const { bin } = JSON.parse(readFileSync(packageJsonPath, 'utf-8')) as {
+    bin: string | Record<string, string>;
+  };
+
+  return join(dirname(packageJsonPath), typeof bin === 'string' ? bin : bin[binName]);
+}
+
+/**
+ * Scaffolds a project and links the framework's installed dependencies into it
+ *
+ * @param framework - Framework to scaffold
+ * @param projectPath - Target directory
+ * @param frameworkStore - Store directory holding the framework's node_modules
+ * @param options - Survey answers overriding the default project
+ */
+async function scaffoldProject(
+  framework: Framework,
+  projectPath: string,
+  frameworkStore: string,
+  options: SmokeOptions = {}
+): Promise<void> {
+  const installer = createInstaller(framework, projectPath, 'smoke-app');
+
+  await installer.initProject({
+    projectName: 'smoke-app',
+    framework,
+    emailPasswordAuth: true,
+    oauthProviders: [],
+    ...options,
+    initGit: false,
+    installDependencies: false,
+  });
+  symlinkSync(join(frameworkStore, 'node_modules'), join(projectPath, 'node_modules'), 'dir');
+}
+
+/**
+ * Lists the files the CLI generated or edited: feature template files, files it
+ * generates and template files whose content it changed
+ *
+ * @param projectPath - Project directory
+ * @param framework - Framework the project was scaffolded from
+ * @returns Project-relative paths, excluding node_modules
+ */
+function listGeneratedFiles(projectPath: string, framework: Framework): Set<string> {
+  const files = new Set<string>();
+  const walk = (directory: string) => {
+    for (const entry of readdirSync(directory, { withFileTypes: true })) {
+      const entryPath = join(directory, entry.name);
+      if (entry.isDirectory()) {
+        walk(entryPath);
+        continue;
+      }
+      if (!entry.isFile()) {
+        continue;
+      }
+
+      const relativePath = relative(projectPath, entryPath);
+      const templatePath = join(TEMPLATE_PATHS[framework], relativePath);
+      if (!existsSync(templatePath) || readFileSync(templatePath, 'utf-8') !== readFileSync(entryPath, 'utf-8')) {
+        files.add(relativePath);
+      }
+    }
+  };
+
+  walk(projectPath);
+  return files;
+}
+
+/**
+ * Lints the project and returns the errors in the given files in a location-independent form
+ *
+ * @param projectPath - Project directory
+ * @param frameworkStore - Store directory holding the framework's node_modules
+ * @param files - Project-relative paths to report errors for
+ * @returns One `file: message (rule)` string per error
+ */
+async function lintErrors(projectPath: string, frameworkStore: string, files: Set<string>): Promise<string[]> {
+  const eslint = resolveStoreBin(frameworkStore, 'eslint', 'eslint');
+  const result = await execa('node', [eslint, '--format', 'json', '.'], {
+    cwd: projectPath,
+    reject: false,
+  });
+
+  if (!result.stdout.startsWith('[')) {
+    throw new Error(`ESLint failed to run:\n${result.stderr || result.stdout}`);
+  }
+
+  return (JSON.parse(result.stdout) as LintResult[]).flatMap(({ filePath, messages }) => {
+    const file = filePath.slice(realpathSync(projectPath).length + 1);
+    if (!files.has(file)) {
+      return [];
+    }
+
+    return messages
+      .filter(message => message.severity === 2)
+      .map(message => {
+        const text = message.message.split(projectPath).join('.');
+        return `${file}: ${text} (${message.ruleId ?? 'fatal'})`;
+      });
+  });
+}
+
+/**
+ * Runs the project's TypeScript compiler without emitting
+ *
+ * @param projectPath - Project directory
+ * @param frameworkStore - Store directory holding the framework's node_modules
+ * @returns Exit code and compiler output
+ */
+async function typeCheck(projectPath: string, frameworkStore: string) {
+  const tsc = resolveStoreBin(frameworkStore, 'typescript', 'tsc');
+  const result = await execa('node', [tsc, '--noEmit', '--pretty', 'false'], {
+    cwd: projectPath,
+    reject: false,
+  });
+
+  return { exitCode: result.exitCode, output: result.stdout || result.stderr };
+}
+
+describe.skipIf(!storePath)('Generated project smoke tests', () => {
+  describe.each<Framework>(['tanstack', 'nextjs'])('%s', (framework) => {
+    const frameworkStore = join(storePath ?? '', framework);
+    let workspacePath: string;
+    let defaultPath: string;
+
+    beforeAll(async () => {
+      if (!existsSync(join(frameworkStore, 'node_modules'))) {
+        throw new Error(`No installed dependencies for ${framework} in ${frameworkStore}`);
+      }
+
+      workspacePath = mkdtempSync(join(tmpdir(), `z3-smoke-${framework}-`));
+      defaultPath = join(workspacePath, 'default');
+      await scaffoldProject(framework, defaultPath, frameworkStore);
+    }, SMOKE_TIMEOUT);
+
+    afterAll(() => {
+      if (workspacePath) {
+        rmSync(workspacePath, { recursive: true, force: true });
+      }
+    });
+
+    it('should type-check and lint the default project', async () => {
+      const { exitCode, output } = await typeCheck(defaultPath, frameworkStore);
+      expect(exitCode, output).toBe(0);
+
+      const generatedFiles = listGeneratedFiles(defaultPath, framework);
+      expect(await lintErrors(defaultPath, frameworkStore, generatedFiles)).toEqual([]);
+    }, SMOKE_TIMEOUT);
+
+    it.each(SMOKE_CASES)('should type-check and lint with %s', async (name, options) => {
+      const projectPath = join(workspacePath, name.replace(/\W+/g, '-'));
+      await scaffoldProject(framework, projectPath, frameworkStore, options);
+
+      const { exitCode, output } = await typeCheck(projectPath, frameworkStore);
+      expect(exitCode, output).toBe(0);
+
+      const generatedFiles = listGeneratedFiles(projectPath, framework);
+      expect(await lintErrors(projectPath, frameworkStore, generatedFiles)).toEqual([]);
+    }, SMOKE_TIMEOUT);
+  });
+});
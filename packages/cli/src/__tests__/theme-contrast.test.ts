@@ -0,0 +1,108 @@
+/**
+ * Tests for the Theme Contrast Auditor
+ * Verifies WCAG ratios, pair selection across light/dark blocks and suggestions
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  auditThemeContrast,
+  contrastRatio,
+  getWCAGLevel,
+} from '../utils/theme-contrast.js';
+import { parseOklch } from '../utils/tweakcn-converter.js';
+import { DEFAULT_THEME } from '../installers/string-utils.js';
+
+describe('Theme Contrast Auditor', () => {
+  describe('contrastRatio', () => {
+    it('should return 21:1 for black on white', () => {
+      const ratio = contrastRatio(parseOklch('#000000')!, parseOklch('#ffffff')!);
+
+      expect(ratio).toBeCloseTo(21, 1);
+    });
+
+    it('should return 1:1 for identical colors', () => {
+      const ratio = contrastRatio(parseOklch('oklch(60% 0.2 250)')!, parseOklch('oklch(60% 0.2 250)')!);
+
+      expect(ratio).toBeCloseTo(1, 5);
+    });
+
+    it('should match the WCAG reference for #767676 on white', () => {
+      // #767676 is the lightest grey that passes AA on white (4.54:1)
+      const ratio = contrastRatio(parseOklch('#767676')!, parseOklch('#ffffff')!);
+
+      expect(ratio).toBeCloseTo(4.54, 1);
+    });
+  });
+
+  describe('getWCAGLevel', () => {
+    it('should map ratios to AA/AAA thresholds for normal text', () => {
+      expect(getWCAGLevel(7)).toBe('AAA');
+      expect(getWCAGLevel(4.5)).toBe('AA');
+      expect(getWCAGLevel(4.49)).toBe('fail');
+    });
+  });
+
+  describe('auditThemeContrast', () => {
+    it('should check every defined shadcn pair in light and dark blocks', () => {
+      const checks = auditThemeContrast(DEFAULT_THEME);
+      const pairs = checks.map(check => `${check.mode}:${check.foreground}/${check.background}`);
+
+      expect(pairs).toContain('light:foreground/background');
+      expect(pairs).toContain('light:muted-foreground/muted');
+      expect(pairs).toContain('dark:primary-foreground/primary');
+      expect(pairs).toContain('dark:destructive/background');
+      // DEFAULT_THEME has no sidebar variables, so sidebar pairs are skipped
+      expect(pairs.some(pair => pair.includes('sidebar'))).toBe(false);
+    });
+
+    it('should resolve dark variables missing from .dark to their :root values', () => {
+      const checks = auditThemeContrast(`
+        :root { --background: #ffffff; --foreground: #000000; --primary: #2563eb; --primary-foreground: #ffffff; }
+        .dark { --background: #000000; --foreground: #ffffff; }
+      `);
+
+      const darkPrimary = checks.find(check => check.mode === 'dark' && check.background === 'primary');
+      expect(darkPrimary?.level).toBe('AA');
+    });
+
+    it('should skip the dark mode audit for light-only themes', () => {
+      const checks = auditThemeContrast(':root { --background: #ffffff; --foreground: #000000; }');
+
+      expect(checks).toHaveLength(1);
+      expect(checks[0]).toMatchObject({ mode: 'light', level: 'AAA' });
+    });
+
+    it('should flag failing pairs and only suggest when asked', () => {
+      const css = ':root { --muted: #f4f4f5; --muted-foreground: #b0b0b8; }';
+
+      const [withoutSuggestion] = auditThemeContrast(css);
+      const [withSuggestion] = auditThemeContrast(css, { suggest: true });
+
+      expect(withoutSuggestion.level).toBe('fail');
+      expect(withoutSuggestion.suggestion).toBeUndefined();
+      expect(withSuggestion.suggestion).toMatch(/^oklch\(\d+(\.\d+)?% 0\.\d{3} [\d.]+\)$/);
+    });
+
+    it('should suggest a value that passes AA while keeping chroma and hue', () => {
+      const [check] = auditThemeContrast(
+        '.dark { --background: #0a0a0a; --destructive: #7f1d1d; } :root {}',
+        { suggest: true }
+      );
+      const original = parseOklch('#7f1d1d')!;
+      const suggested = parseOklch(check.suggestion!)!;
+
+      expect(contrastRatio(suggested, parseOklch('#0a0a0a')!)).toBeGreaterThanOrEqual(4.5);
+      expect(suggested.l).toBeGreaterThan(original.l);
+      expect(suggested.c).toBeCloseTo(original.c, 2);
+      expect(suggested.h).toBeCloseTo(original.h, 0);
+    });
+
+    it('should not suggest values for passing pairs', () => {
+      const checks = auditThemeContrast(DEFAULT_THEME, { suggest: true });
+
+      checks
+        .filter(check => check.level !== 'fail')
+        .forEach(check => expect(check.suggestion).toBeUndefined());
+    });
+  });
+});
@@ -0,0 +1,69 @@
+/**
+ * Tests for the Dark Palette Generator
+ * Verifies lightness inversion, chroma tempering and hue preservation
+ */
+
+import { describe, it, expect } from 'vitest';
+import { deriveDarkColor, deriveDarkTheme } from '../utils/theme-dark-palette.js';
+import { parseOklch, parseThemeVariables } from '../utils/tweakcn-converter.js';
+
+describe('Dark Palette Generator', () => {
+  describe('deriveDarkColor', () => {
+    it('should map white to the dark background and near-black to the dark foreground', () => {
+      expect(deriveDarkColor({ l: 1, c: 0, h: 0 }).l).toBeCloseTo(0.145, 3);
+      expect(deriveDarkColor({ l: 0.145, c: 0, h: 0 }).l).toBeCloseTo(0.985, 3);
+    });
+
+    it('should clamp lightness to the dark range', () => {
+      expect(deriveDarkColor({ l: 0, c: 0, h: 0 }).l).toBe(0.985);
+    });
+
+    it('should temper chroma and keep hue', () => {
+      const dark = deriveDarkColor({ l: 0.6, c: 0.2, h: 250 });
+
+      expect(dark.c).toBeLessThan(0.2);
+      expect(dark.c).toBeGreaterThan(0.1);
+      expect(dark.h).toBe(250);
+    });
+  });
+
+  describe('deriveDarkTheme', () => {
+    it('should derive a .dark block for every :root color', () => {
+      const darkTheme = deriveDarkTheme(`
+        :root {
+          --background: #ffffff;
+          --foreground: oklch(14.5% 0 0);
+          --primary: hsl(221 83% 53%);
+        }
+      `)!;
+
+      expect(darkTheme.startsWith('.dark {')).toBe(true);
+      expect(darkTheme).toContain('--background: oklch(14.5% 0.000 0);');
+      expect(darkTheme).toContain('--foreground: oklch(98.5% 0.000 0);');
+      expect(darkTheme).toMatch(/--primary: oklch\([\d.]+% 0\.\d{3} [\d.]+\);/);
+    });
+
+    it('should leave non-color tokens to be inherited from :root', () => {
+      const darkTheme = deriveDarkTheme(':root { --background: #fff; --radius: 0.5rem; --font-sans: Inter; }')!;
+
+      expect(darkTheme).not.toContain('--radius');
+      expect(darkTheme).not.toContain('--font-sans');
+    });
+
+    it('should preserve hue relationships between colors', () => {
+      const light = ':root { --primary: #2563eb; --ring: #93c5fd; }';
+      const { dark } = parseThemeVariables(`${light}\n${deriveDarkTheme(light)}`);
+
+      const hueGap = (a: string, b: string) => parseOklch(a)!.h - parseOklch(b)!.h;
+      expect(hueGap(dark.primary, dark.ring)).toBeCloseTo(hueGap('#2563eb', '#93c5fd'), 1);
+    });
+
+    it('should keep alpha channels', () => {
+      expect(deriveDarkTheme(':root { --overlay: rgb(0 0 0 / 0.5); }')).toContain('/ 0.5)');
+    });
+
+    it('should return undefined when :root has no colors', () => {
+      expect(deriveDarkTheme(':root { --radius: 0.5rem; }')).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,151 @@
+/**
+ * Tests for Theme Font Wiring
+ * Verifies font detection, Fontsource package mapping and stylesheet/package.json edits
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  addFontDependencies,
+  addFontsToStylesheet,
+  detectThemeFonts,
+  getFontsourcePackage,
+} from '../utils/theme-fonts.js';
+
+const TANSTACK_STYLESHEET = `@import 'tailwindcss';
+@import '@fontsource-variable/inter';
+
+@theme inline {
+  --font-sans: 'Inter Variable', sans-serif;
+  --color-background: var(--background);
+}
+`;
+
+const NEXTJS_STYLESHEET = `@import "tailwindcss";
+@import "tw-animate-css";
+
+@theme inline {
+  --font-sans: var(--font-sans);
+  --font-mono: var(--font-geist-mono);
+}
+`;
+
+describe('Theme Font Wiring', () => {
+  describe('getFontsourcePackage', () => {
+    it('should prefer the variable package when one exists', () => {
+      expect(getFontsourcePackage('JetBrains Mono')).toEqual({
+        package: '@fontsource-variable/jetbrains-mono',
+        family: 'JetBrains Mono Variable',
+      });
+    });
+
+    it('should fall back to the static package', () => {
+      expect(getFontsourcePackage('Space Mono')).toEqual({
+        package: '@fontsource/space-mono',
+        family: 'Space Mono',
+      });
+    });
+  });
+
+  describe('detectThemeFonts', () => {
+    it('should detect each declared font variable', () => {
+      const fonts = detectThemeFonts(`:root {
+        --background: #fff;
+        --font-sans: "Plus Jakarta Sans", ui-sans-serif, sans-serif;
+        --font-mono: Space Mono, monospace;
+      }`);
+
+      expect(fonts).toEqual([
+        {
+          variable: 'font-sans',
+          family: 'Plus Jakarta Sans',
+          stack: "'Plus Jakarta Sans Variable', ui-sans-serif, sans-serif",
+          package: '@fontsource-variable/plus-jakarta-sans',
+        },
+        {
+          variable: 'font-mono',
+          family: 'Space Mono',
+          stack: "'Space Mono', monospace",
+          package: '@fontsource/space-mono',
+        },
+      ]);
+    });
+
+    it('should add a generic fallback when the stack has none', () => {
+      const [font] = detectThemeFonts(':root { --font-serif: Lora; }');
+
+      expect(font.stack).toBe("'Lora Variable', serif");
+    });
+
+    it('should keep system fonts without a package', () => {
+      const [font] = detectThemeFonts(':root { --font-serif: Georgia, serif; }');
+
+      expect(font).toEqual({ variable: 'font-serif', family: 'Georgia', stack: 'Georgia, serif' });
+    });
+
+    it('should ignore var() references and themes without fonts', () => {
+      expect(detectThemeFonts(':root { --font-sans: var(--font-geist-sans); }')).toEqual([]);
+      expect(detectThemeFonts(':root { --background: #fff; }')).toEqual([]);
+    });
+  });
+
+  describe('addFontsToStylesheet', () => {
+    const outfit = detectThemeFonts(':root { --font-sans: Outfit, sans-serif; }');
+
+    it('should replace the template Inter import and font stack', () => {
+      const result = addFontsToStylesheet(TANSTACK_STYLESHEET, outfit);
+
+      expect(result).not.toContain('@fontsource-variable/inter');
+      expect(result).toContain("@import 'tailwindcss';\n@import '@fontsource-variable/outfit';\n");
+      expect(result).toContain("--font-sans: 'Outfit Variable', sans-serif;");
+      expect(result).toContain('--color-background: var(--background);');
+    });
+
+    it('should match the stylesheet quote style and override var() entries', () => {
+      const fonts = detectThemeFonts(':root { --font-mono: Fira Code, monospace; }');
+      const result = addFontsToStylesheet(NEXTJS_STYLESHEET, fonts);
+
+      expect(result).toContain('@import "tw-animate-css";\n@import "@fontsource-variable/fira-code";');
+      expect(result).toContain("--font-mono: 'Fira Code Variable', monospace;");
+      expect(result).toContain('--font-sans: var(--font-sans);');
+    });
+
+    it('should add variables the @theme inline block does not define', () => {
+      const fonts = detectThemeFonts(':root { --font-serif: Georgia, serif; }');
+      const result = addFontsToStylesheet(TANSTACK_STYLESHEET, fonts);
+
+      expect(result).toContain('@theme inline {\n  --font-serif: Georgia, serif;');
+      expect(result).toContain('@fontsource-variable/inter');
+    });
+
+    it('should be idempotent', () => {
+      const once = addFontsToStylesheet(TANSTACK_STYLESHEET, outfit);
+
+      expect(addFontsToStylesheet(once, outfit)).toBe(once);
+    });
+  });
+
+  describe('addFontDependencies', () => {
+    const packageJson = JSON.stringify({
+      name: 'app',
+      dependencies: { react: '^19.0.0', '@fontsource-variable/inter': '^5.2.8' },
+    });
+
+    it('should add font packages and drop the replaced Inter package', () => {
+      const fonts = detectThemeFonts(':root { --font-sans: Outfit; --font-mono: Space Mono; }');
+      const { dependencies } = JSON.parse(addFontDependencies(packageJson, fonts));
+
+      expect(dependencies).toEqual({
+        '@fontsource-variable/outfit': '^5.2.0',
+        '@fontsource/space-mono': '^5.2.0',
+        react: '^19.0.0',
+      });
+    });
+
+    it('should keep Inter when the theme declares it', () => {
+      const fonts = detectThemeFonts(':root { --font-sans: Inter, sans-serif; }');
+      const { dependencies } = JSON.parse(addFontDependencies(packageJson, fonts));
+
+      expect(dependencies['@fontsource-variable/inter']).toBe('^5.2.8');
+    });
+  });
+});
@@ -7,8 +7,15 @@ import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import fs from 'fs-extra';
 import {
   convertTweakCNToOKLCH,
+  normalizeThemeCSS,
+  parseOklch,
+  oklchToRgb,
   isValidURL,
   extractThemeName,
+  scopeThemeCSS,
+  setScopedTheme,
+  replaceThemeBlocks,
+  extractThemeCSS,
 } from '../utils/tweakcn-converter.js';
 
 // Mock fs-extra
@@ -251,6 +258,182 @@ describe('TweakCN OKLCH Converter', () => {
     });
   });
 
+  describe('normalizeThemeCSS', () => {
+    const templateCSS = `
+      @theme inline {
+        --font-sans: 'Inter Variable', sans-serif;
+        --color-background: var(--background);
+        --color-primary: var(--primary);
+        --color-chart-1: var(--chart-1);
+        --radius-lg: var(--radius);
+      }
+    `;
+
+    it('should convert hex, rgb and hsl colors to oklch()', () => {
+      const { css } = normalizeThemeCSS(`
+        :root {
+          --background: #ffffff;
+          --foreground: rgb(0 0 0);
+          --primary: hsl(0 100% 50%);
+          --ring: 0 0% 100%;
+          --overlay: rgba(0, 0, 0, 0.5);
+        }
+      `);
+
+      expect(css).toContain('--background: oklch(100% 0.000 0);');
+      expect(css).toContain('--foreground: oklch(0% 0.000 0);');
+      expect(css).toContain('--primary: oklch(62.8% 0.258 29.23);');
+      expect(css).toContain('--ring: oklch(100% 0.000 0);');
+      expect(css).toContain('--overlay: oklch(0% 0.000 0 / 0.5);');
+    });
+
+    it('should preserve oklch colors and non-color tokens', () => {
+      const { css } = normalizeThemeCSS(`
+        :root {
+          --primary: oklch(0.6 0.2 250);
+          --radius: 0.625rem;
+          --font-sans: Inter, sans-serif;
+          --shadow-sm: 0 1px 3px 0px hsl(0 0% 0% / 0.1);
+          --spacing: 0.25rem;
+        }
+      `);
+
+      expect(css).toContain('--primary: oklch(0.6 0.2 250);');
+      expect(css).toContain('--radius: 0.625rem;');
+      expect(css).toContain('--font-sans: Inter, sans-serif;');
+      expect(css).toContain('--shadow-sm: 0 1px 3px 0px hsl(0 0% 0% / 0.1);');
+      expect(css).toContain('--spacing: 0.25rem;');
+    });
+
+    it('should keep :root and .dark blocks separate and drop comments', () => {
+      const { css } = normalizeThemeCSS(`
+        /* Light */
+        :root { --background: #fff; }
+        /* Dark */
+        .dark { --background: #000; }
+      `);
+
+      expect(css).toBe(
+        ':root {\n  --background: oklch(100% 0.000 0);\n}\n\n.dark {\n  --background: oklch(0% 0.000 0);\n}'
+      );
+    });
+
+    it('should only keep @theme inline entries the template does not define', () => {
+      const { css } = normalizeThemeCSS(`
+        :root { --background: #fff; --shadow-sm: 0 1px 2px black; }
+        @theme inline {
+          --font-sans: var(--font-sans);
+          --color-background: var(--background);
+          --shadow-sm: var(--shadow-sm);
+        }
+      `, templateCSS);
+
+      expect(css).toContain('@theme inline {\n  --shadow-sm: var(--shadow-sm);\n}');
+      expect(css).not.toContain('--font-sans: var(--font-sans)');
+      expect(css).not.toContain('--color-background: var(--background)');
+    });
+
+    it('should report color and radius variables the template expects but the theme lacks', () => {
+      const { missingVariables } = normalizeThemeCSS(
+        ':root { --background: #fff; --primary: #000; }',
+        templateCSS
+      );
+
+      expect(missingVariables).toEqual(['--chart-1', '--radius']);
+    });
+
+    it('should report missing variables in theme declaration order', () => {
+      const { missingVariables } = normalizeThemeCSS(':root { --background: #fff; }', `
+        @theme inline {
+          --color-sidebar: var(--sidebar);
+          --color-chart-2: var(--chart-2);
+          --color-chart-1: var(--chart-1);
+          --color-brand: var(--brand);
+          --color-primary-foreground: var(--primary-foreground);
+          --color-primary: var(--primary);
+        }
+      `);
+
+      expect(missingVariables).toEqual([
+        '--primary', '--primary-foreground', '--chart-1', '--chart-2', '--sidebar', '--brand',
+      ]);
+    });
+
+    it('should treat declarations outside any block as :root', () => {
+      const { css } = normalizeThemeCSS('--background: 0 0% 100%;');
+
+      expect(css).toBe(':root {\n  --background: oklch(100% 0.000 0);\n}');
+    });
+
+    it('should throw when the CSS has no theme variables', () => {
+      expect(() => normalizeThemeCSS('body { color: red; }')).toThrow('does not contain any CSS variables');
+    });
+  });
+
+  describe('parseOklch', () => {
+    it('should parse oklch() with percentage or fractional lightness', () => {
+      expect(parseOklch('oklch(62.8% 0.258 29.23)')).toMatchObject({ l: 0.628, c: 0.258, h: 29.23 });
+      expect(parseOklch('oklch(0.6 0.2 250 / 50%)')).toMatchObject({ l: 0.6, c: 0.2, h: 250, alpha: 0.5 });
+    });
+
+    it('should round-trip hex colors through oklchToRgb', () => {
+      const rgb = oklchToRgb(parseOklch('#3b82f6')!).map(channel => Math.round(channel));
+
+      expect(rgb).toEqual([59, 130, 246]);
+    });
+
+    it('should return undefined for non-color values', () => {
+      expect(parseOklch('0.5rem')).toBeUndefined();
+    });
+  });
+
+  describe('scoped themes', () => {
+    const stylesheet = ':root {\n  --primary: red;\n}\n\n.dark {\n  --primary: blue;\n}\n\n@theme inline {}\n';
+
+    it('should scope :root and .dark to a data-theme attribute', () => {
+      const scoped = scopeThemeCSS(':root { --primary: #ff0000; } .dark { --primary: #000000; }', 'brand');
+
+      expect(scoped).toBe(
+        '[data-theme="brand"] {\n  --primary: oklch(62.8% 0.258 29.23);\n}\n\n' +
+          '.dark[data-theme="brand"] {\n  --primary: oklch(0% 0.000 0);\n}'
+      );
+    });
+
+    it('should insert scoped themes after the last theme block', () => {
+      const withBrand = setScopedTheme(stylesheet, 'brand', scopeThemeCSS(':root { --primary: red; }', 'brand'));
+      const withOther = setScopedTheme(withBrand, 'other', scopeThemeCSS(':root { --primary: red; }', 'other'));
+
+      expect(withOther.indexOf('[data-theme="brand"]')).toBeGreaterThan(withOther.indexOf('.dark {'));
+      expect(withOther.indexOf('[data-theme="other"]')).toBeGreaterThan(withOther.indexOf('[data-theme="brand"]'));
+      expect(withOther.indexOf('@theme inline')).toBeGreaterThan(withOther.indexOf('[data-theme="other"]'));
+    });
+
+    it('should replace an existing scoped theme in place', () => {
+      const once = setScopedTheme(
+        stylesheet,
+        'brand',
+        scopeThemeCSS(':root { --primary: red; } .dark { --primary: red; }', 'brand')
+      );
+      const replaced = setScopedTheme(once, 'brand', scopeThemeCSS(':root { --primary: green; }', 'brand'));
+
+      expect(replaced.match(/data-theme="brand"/g)).toHaveLength(1);
+      expect(replaced).toContain('[data-theme="brand"] {\n  --primary: green;\n}');
+    });
+
+    it('should be left alone when the base theme is replaced or exported', () => {
+      const scoped = setScopedTheme(
+        stylesheet,
+        'brand',
+        scopeThemeCSS(':root { --primary: red; } .dark { --primary: red; }', 'brand')
+      );
+      const replaced = replaceThemeBlocks(scoped, ':root {\n  --primary: green;\n}');
+
+      expect(replaced).toContain('.dark[data-theme="brand"]');
+      expect(replaced).not.toMatch(/\n\.dark \{/);
+      expect(extractThemeCSS(scoped)).not.toContain('data-theme');
+    });
+  });
+
   describe('URL and file path fetching', () => {
     describe('HTTP/HTTPS URL fetching', () => {
       it('should fetch CSS from valid HTTPS URL', async () => {
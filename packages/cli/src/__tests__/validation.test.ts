@@ -1,5 +1,20 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { validateProjectName, checkDirectoryExists, isDirectoryEmpty, resolveProjectName } from '../utils/validation.js';
+import {
+  validateProjectName,
+  checkDirectoryExists,
+  isDirectoryEmpty,
+  resolveProjectName,
+  validateFramework,
+  validateOAuthProviderIds,
+  validateCustomProviderId,
+  validateDiscoveryUrl,
+  validateThemeName,
+  validateExtraThemes,
+  validateAuthPluginIds,
+  validateMinPasswordLength,
+  parseProviderList,
+  isThemeCSS,
+} from '../utils/validation.js';
 
 // Mock fs-extra
 vi.mock('fs-extra', () => ({
@@ -155,3 +170,134 @@ describe('resolveProjectName', () => {
     expect(result).toBe('.');
   });
 });
+
+describe('validateFramework', () => {
+  it('should accept supported frameworks', () => {
+    expect(validateFramework('tanstack').valid).toBe(true);
+    expect(validateFramework('nextjs').valid).toBe(true);
+  });
+
+  it('should reject unknown frameworks with a helpful error', () => {
+    const result = validateFramework('remix');
+    expect(result.valid).toBe(false);
+    expect(result.errors[0]).toContain("Unknown framework 'remix'");
+  });
+});
+
+describe('validateThemeName', () => {
+  it('should accept bundled theme ids', () => {
+    expect(validateThemeName('default').valid).toBe(true);
+    expect(validateThemeName('rose').valid).toBe(true);
+  });
+
+  it('should reject unknown themes and list the available ones', () => {
+    const result = validateThemeName('neon');
+    expect(result.valid).toBe(false);
+    expect(result.errors[0]).toContain("Unknown theme 'neon'");
+    expect(result.errors[0]).toContain('default, slate');
+  });
+});
+
+describe('validateExtraThemes', () => {
+  it('should accept bundled themes other than default', () => {
+    expect(validateExtraThemes(['blue', 'rose'])).toEqual({ valid: true, errors: [] });
+  });
+
+  it('should report default and every unknown theme', () => {
+    const result = validateExtraThemes(['default', 'neon', 'blue']);
+
+    expect(result.valid).toBe(false);
+    expect(result.errors).toHaveLength(2);
+    expect(result.errors[0]).toContain("Theme 'default' can't be an extra theme");
+    expect(result.errors[1]).toContain("Unknown theme 'neon'");
+  });
+});
+
+describe('validateAuthPluginIds', () => {
+  it('should accept registered plugin ids', () => {
+    expect(validateAuthPluginIds(['admin', 'api-key'])).toEqual({ valid: true, errors: [] });
+  });
+
+  it('should report every unknown plugin id', () => {
+    const result = validateAuthPluginIds(['admin', 'apikey']);
+
+    expect(result.valid).toBe(false);
+    expect(result.errors).toHaveLength(1);
+    expect(result.errors[0]).toContain("Unknown auth plugin 'apikey'");
+  });
+});
+
+describe('validateOAuthProviderIds', () => {
+  it('should accept registered provider ids', () => {
+    const result = validateOAuthProviderIds(['google', 'github']);
+    expect(result.valid).toBe(true);
+    expect(result.errors).toHaveLength(0);
+  });
+
+  it('should report every unknown provider id', () => {
+    const result = validateOAuthProviderIds(['google', 'gogle', 'githb']);
+    expect(result.valid).toBe(false);
+    expect(result.errors).toHaveLength(2);
+    expect(result.errors[0]).toContain("Unknown OAuth provider 'gogle'");
+    expect(result.errors[1]).toContain("Unknown OAuth provider 'githb'");
+  });
+});
+
+describe('validateCustomProviderId', () => {
+  it('should accept lowercase ids with digits and hyphens', () => {
+    expect(validateCustomProviderId('my-idp2').valid).toBe(true);
+  });
+
+  it('should reject malformed ids and built-in provider ids', () => {
+    expect(validateCustomProviderId('My IdP').errors[0]).toContain("Invalid provider id 'My IdP'");
+    expect(validateCustomProviderId('2fa').valid).toBe(false);
+    expect(validateCustomProviderId('google').errors[0]).toContain("'google' is a built-in OAuth provider");
+  });
+});
+
+describe('validateDiscoveryUrl', () => {
+  it('should accept http and https URLs', () => {
+    expect(validateDiscoveryUrl('https://sso.example.com/.well-known/openid-configuration').valid).toBe(true);
+    expect(validateDiscoveryUrl('http://localhost:8080/.well-known/openid-configuration').valid).toBe(true);
+  });
+
+  it('should reject invalid URLs and other protocols', () => {
+    expect(validateDiscoveryUrl('sso.example.com').errors[0]).toContain('Invalid discovery URL');
+    expect(validateDiscoveryUrl('ftp://sso.example.com').errors[0]).toContain('must use http or https');
+  });
+});
+
+describe('validateMinPasswordLength', () => {
+  it('should accept whole numbers from 8 to 128', () => {
+    expect(validateMinPasswordLength('8').valid).toBe(true);
+    expect(validateMinPasswordLength('128').valid).toBe(true);
+  });
+
+  it('should reject lengths out of range and non-integers', () => {
+    expect(validateMinPasswordLength('6').errors[0]).toContain("Invalid minimum password length '6'");
+    expect(validateMinPasswordLength('129').valid).toBe(false);
+    expect(validateMinPasswordLength('10.5').valid).toBe(false);
+  });
+});
+
+describe('parseProviderList', () => {
+  it('should split, trim and lowercase comma-separated ids', () => {
+    expect(parseProviderList('Google, github ,discord')).toEqual(['google', 'github', 'discord']);
+  });
+
+  it('should drop empty entries and duplicates', () => {
+    expect(parseProviderList('google,,google,')).toEqual(['google']);
+    expect(parseProviderList('')).toEqual([]);
+  });
+});
+
+describe('isThemeCSS', () => {
+  it('should detect theme CSS', () => {
+    expect(isThemeCSS(':root { --background: #fff; }')).toBe(true);
+    expect(isThemeCSS('--primary: oklch(50% 0.1 200);')).toBe(true);
+  });
+
+  it('should reject non-CSS content', () => {
+    expect(isThemeCSS('hello world')).toBe(false);
+  });
+});
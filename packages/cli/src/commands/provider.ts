@@ -0,0 +1,132 @@
+import chalk from 'chalk';
+import ora from 'ora';
+import { basename, resolve } from 'path';
+import { validateOAuthProviderIds } from '../utils/validation.js';
+import { detectProjectFramework } from '../helpers/fileOperations.js';
+import { displayInvalidOptionsError, displayNotZ3ProjectError } from '../utils/messages.js';
+import { createInstaller } from '../installers/index.js';
+import { getProvider } from '../installers/providers.js';
+
+/**
+ * Options shared by commands that edit an existing project
+ */
+export interface ProviderCommandOptions {
+  /** Project root to edit (defaults to the current working directory) */
+  cwd?: string;
+}
+
+/**
+ * Validates the provider ID and creates an installer for the project being edited.
+ * Exits the process with an error message if either is invalid.
+ *
+ * @param providerId - Provider ID passed on the command line
+ * @param options - Command options
+ * @returns The normalized provider ID, provider metadata and installer
+ */
+async function resolveProviderCommand(providerId: string, options: ProviderCommandOptions) {
+  const id = providerId.trim().toLowerCase();
+  const validation = validateOAuthProviderIds([id]);
+  if (!validation.valid) {
+    displayInvalidOptionsError(validation.errors);
+  }
+
+  const projectPath = resolve(options.cwd ?? process.cwd());
+  const framework = await detectProjectFramework(projectPath);
+  if (!framework) {
+    displayNotZ3ProjectError(projectPath);
+  }
+
+  return {
+    id,
+    provider: getProvider(id)!,
+    installer: createInstaller(framework!, projectPath, basename(projectPath)),
+  };
+}
+
+/**
+ * Adds an OAuth provider to an existing Z3 project.
+ * Detects the project's framework, inserts the provider into every generated
+ * file that lists providers and reports which files changed.
+ *
+ * @param providerId - Provider ID to add (e.g., 'google')
+ * @param options - Command options
+ */
+export async function addProvider(
+  providerId: string,
+  options: ProviderCommandOptions
+): Promise<void> {
+  const { id, provider, installer } = await resolveProviderCommand(providerId, options);
+  const spinner = ora(`Adding ${provider.name} OAuth provider...`).start();
+
+  let changedFiles: string[];
+  try {
+    changedFiles = await installer.addOAuthProvider(id);
+  } catch (error) {
+    spinner.fail(`Failed to add ${provider.name} OAuth provider`);
+    console.error(chalk.red(error instanceof Error ? error.message : 'Unknown error'));
+    console.error(chalk.yellow('No files were changed.'));
+    process.exit(1);
+  }
+
+  if (changedFiles.length === 0) {
+    spinner.info(`${provider.name} is already configured. No files changed.`);
+    return;
+  }
+
+  spinner.succeed(`Added ${provider.name} OAuth provider`);
+  changedFiles.forEach(file => {
+    console.log(chalk.dim(`  Updated ${file}`));
+  });
+
+  if (provider.requiresExtraConfig) {
+    console.log();
+    console.log(chalk.yellow(`⚠️  ${provider.name} requires extra configuration:`));
+    console.log(chalk.dim(`  ${provider.extraConfigNotes}`));
+  }
+
+  const envVars = provider.env?.map(envVar => envVar.name) ?? [
+    provider.clientIdVar,
+    provider.clientSecretVar,
+  ];
+  console.log();
+  console.log(chalk.dim('Next steps:'));
+  console.log(chalk.dim(`  Set ${envVars.join(', ')} in your environment`));
+  console.log();
+}
+
+/**
+ * Removes an OAuth provider from an existing Z3 project.
+ * Refuses to change anything if any of the files can't be parsed safely.
+ *
+ * @param providerId - Provider ID to remove (e.g., 'twitter')
+ * @param options - Command options
+ */
+export async function removeProvider(
+  providerId: string,
+  options: ProviderCommandOptions
+): Promise<void> {
+  const { id, provider, installer } = await resolveProviderCommand(providerId, options);
+  const spinner = ora(`Removing ${provider.name} OAuth provider...`).start();
+
+  let changedFiles: string[];
+  try {
+    changedFiles = await installer.removeOAuthProvider(id);
+  } catch (error) {
+    spinner.fail(`Failed to remove ${provider.name} OAuth provider`);
+    console.error(chalk.red(error instanceof Error ? error.message : 'Unknown error'));
+    console.error(chalk.yellow('The file may have been edited in a way that can\'t be changed automatically.'));
+    console.error(chalk.yellow('No files were changed. Remove the provider manually instead.'));
+    process.exit(1);
+  }
+
+  if (changedFiles.length === 0) {
+    spinner.info(`${provider.name} is not configured. No files changed.`);
+    return;
+  }
+
+  spinner.succeed(`Removed ${provider.name} OAuth provider`);
+  changedFiles.forEach(file => {
+    console.log(chalk.dim(`  Updated ${file}`));
+  });
+  console.log();
+}
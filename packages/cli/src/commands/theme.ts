@@ -0,0 +1,235 @@
+import chalk from 'chalk';
+import ora from 'ora';
+import fs from 'fs-extra';
+import { basename, resolve } from 'path';
+import { isThemeCSS } from '../utils/validation.js';
+import { detectProjectFramework } from '../helpers/fileOperations.js';
+import {
+  displayContrastReport,
+  displayInvalidOptionsError,
+  displayNotZ3ProjectError,
+} from '../utils/messages.js';
+import { auditThemeContrast } from '../utils/theme-contrast.js';
+import { createInstaller, getBundledTheme } from '../installers/index.js';
+
+/**
+ * Options for the theme commands
+ */
+export interface ThemeCommandOptions {
+  /** Project root to edit (defaults to the current working directory) */
+  cwd?: string;
+  /** Suggest lightness-adjusted values for pairs that fail WCAG AA */
+  suggest?: boolean;
+  /** Name to register a runtime theme under (defaults to the bundled theme ID) */
+  name?: string;
+}
+
+/**
+ * Creates an installer for the project being edited.
+ * Exits the process with an error message if the directory is not a Z3 project.
+ *
+ * @param options - Command options
+ * @returns Installer bound to the project
+ */
+async function resolveThemeCommand(options: ThemeCommandOptions) {
+  const projectPath = resolve(options.cwd ?? process.cwd());
+  const framework = await detectProjectFramework(projectPath);
+  if (!framework) {
+    displayNotZ3ProjectError(projectPath);
+  }
+
+  return createInstaller(framework!, projectPath, basename(projectPath));
+}
+
+/**
+ * Reads all of standard input
+ *
+ * @returns Standard input as a string
+ */
+async function readStdin(): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks).toString('utf-8');
+}
+
+/**
+ * Reads theme CSS from a file or standard input.
+ * Exits the process with an error message if it can't be read or isn't theme CSS.
+ *
+ * @param source - Path to a theme CSS file, or '-' to read from standard input
+ * @returns Theme CSS
+ */
+async function readThemeSource(source: string): Promise<string> {
+  let themeCSS = '';
+  try {
+    themeCSS = source === '-' ? await readStdin() : await fs.readFile(resolve(source), 'utf-8');
+  } catch (error) {
+    displayInvalidOptionsError([
+      `Could not read theme file '${source}': ${error instanceof Error ? error.message : 'Unknown error'}`,
+    ]);
+  }
+
+  if (!isThemeCSS(themeCSS)) {
+    displayInvalidOptionsError([`'${source}' does not look like TweakCN theme CSS`]);
+  }
+
+  return themeCSS;
+}
+
+/**
+ * Applies a TweakCN theme to an existing Z3 project.
+ * Replaces the :root/.dark blocks in the project's stylesheet in place (deriving
+ * .dark for light-only themes) and reports any foreground/background pairs that fail WCAG AA.
+ *
+ * @param source - Path to a theme CSS file, or '-' to read from standard input
+ * @param options - Command options
+ */
+export async function applyTheme(source: string, options: ThemeCommandOptions): Promise<void> {
+  const installer = await resolveThemeCommand(options);
+  const themeCSS = await readThemeSource(source);
+
+  const spinner = ora('Applying theme...').start();
+
+  let result: { changedFiles: string[]; missingVariables: string[] };
+  try {
+    result = await installer.applyTheme(themeCSS);
+  } catch (error) {
+    spinner.fail('Failed to apply theme');
+    console.error(chalk.red(error instanceof Error ? error.message : 'Unknown error'));
+    console.error(chalk.yellow('No files were changed.'));
+    process.exit(1);
+  }
+
+  if (result.changedFiles.length === 0) {
+    spinner.info('Theme is already applied. No files changed.');
+    return;
+  }
+
+  if (result.missingVariables.length > 0) {
+    spinner.warn(`Theme applied, but it does not define: ${result.missingVariables.join(', ')}`);
+  } else {
+    spinner.succeed('Theme applied');
+  }
+  result.changedFiles.forEach(file => {
+    console.log(chalk.dim(`  Updated ${file}`));
+  });
+  if (result.changedFiles.includes('package.json')) {
+    console.log();
+    console.log(chalk.dim('Next steps:'));
+    console.log(chalk.dim('  Install dependencies to add the theme fonts'));
+  }
+  displayContrastReport(auditThemeContrast(themeCSS, { suggest: options.suggest }), { onlyFailures: true });
+}
+
+/**
+ * Adds a theme users can switch to at runtime to an existing Z3 project.
+ * Emits the theme as a [data-theme] block and registers it in the theme provider.
+ *
+ * @param source - Bundled theme ID, path to a theme CSS file, or '-' for standard input
+ * @param options - Command options (`name` is required for theme files)
+ */
+export async function addTheme(source: string, options: ThemeCommandOptions): Promise<void> {
+  const bundledTheme = getBundledTheme(source);
+  const name = options.name ?? bundledTheme?.id;
+  if (!name) {
+    displayInvalidOptionsError([`Pass --name to choose the data-theme name for '${source}'`]);
+  }
+  if (!/^[a-z][a-z0-9-]*$/.test(name!)) {
+    displayInvalidOptionsError([`Theme name '${name}' must be lowercase letters, numbers and dashes`]);
+  }
+  if (name === 'default') {
+    displayInvalidOptionsError([`Theme name 'default' is reserved for the base theme`]);
+  }
+
+  const installer = await resolveThemeCommand(options);
+  const themeCSS = bundledTheme?.css ?? await readThemeSource(source);
+
+  const spinner = ora(`Adding ${name} theme...`).start();
+
+  let changedFiles: string[];
+  try {
+    changedFiles = await installer.addRuntimeThemes([{ name: name!, css: themeCSS }]);
+  } catch (error) {
+    spinner.fail('Failed to add theme');
+    console.error(chalk.red(error instanceof Error ? error.message : 'Unknown error'));
+    console.error(chalk.yellow('No files were changed.'));
+    process.exit(1);
+  }
+
+  if (changedFiles.length === 0) {
+    spinner.info(`Theme ${name} is already added. No files changed.`);
+    return;
+  }
+
+  spinner.succeed(`Theme ${name} added`);
+  changedFiles.forEach(file => {
+    console.log(chalk.dim(`  Updated ${file}`));
+  });
+}
+
+/**
+ * Prints a WCAG contrast report for a theme file or the project's current theme.
+ * Exits with code 1 if any pair fails AA, so it can gate CI.
+ *
+ * @param source - Theme CSS file or '-' for standard input; omit to audit the project
+ * @param options - Command options
+ */
+export async function auditTheme(
+  source: string | undefined,
+  options: ThemeCommandOptions
+): Promise<void> {
+  let themeCSS: string;
+  if (source) {
+    themeCSS = await readThemeSource(source);
+  } else {
+    const installer = await resolveThemeCommand(options);
+    try {
+      themeCSS = await installer.exportTheme();
+    } catch (error) {
+      console.error(chalk.red(`Failed to read theme: ${error instanceof Error ? error.message : 'Unknown error'}`));
+      process.exit(1);
+    }
+  }
+
+  const checks = auditThemeContrast(themeCSS, { suggest: options.suggest });
+  if (checks.length === 0) {
+    console.log(chalk.yellow('No foreground/background pairs found in the theme.'));
+    return;
+  }
+
+  displayContrastReport(checks);
+  if (checks.some(check => check.level === 'fail')) {
+    process.exit(1);
+  }
+}
+
+/**
+ * Exports the current theme of an existing Z3 project as TweakCN-compatible CSS.
+ *
+ * @param file - Output file path; omit or pass '-' to print to standard output
+ * @param options - Command options
+ */
+export async function exportTheme(
+  file: string | undefined,
+  options: ThemeCommandOptions
+): Promise<void> {
+  const installer = await resolveThemeCommand(options);
+
+  let themeCSS: string;
+  try {
+    themeCSS = await installer.exportTheme();
+  } catch (error) {
+    console.error(chalk.red(`Failed to export theme: ${error instanceof Error ? error.message : 'Unknown error'}`));
+    process.exit(1);
+  }
+
+  if (!file || file === '-') {
+    process.stdout.write(themeCSS);
+    return;
+  }
+
+  await fs.outputFile(resolve(file), themeCSS, 'utf-8');
+  ora().succeed(`Theme exported to ${file}`);
+}
@@ -1,30 +1,9 @@
 import fs from 'fs-extra';
-import { join, dirname } from 'path';
+import { join, dirname, relative } from 'path';
+import { tmpdir } from 'os';
 import { fileURLToPath } from 'url';
-
-/**
- * Creates a project directory for the given project name.
- * For dot notation ("."), returns the current working directory without creating a new directory.
- * For named projects, creates a new directory in the current working directory.
- *
- * @param projectName - The name of the project (or "." for current directory)
- * @param cwd - The current working directory path
- * @returns Promise that resolves to the absolute path of the project directory
- */
-export async function createProjectDirectory(projectName: string, cwd: string): Promise<string> {
-  if (projectName === '.') {
-    // For dot notation, return cwd without creating a new directory
-    return cwd;
-  }
-
-  // Get the target directory path
-  const targetPath = getTargetDirectory(projectName, cwd);
-
-  // Create the directory
-  await fs.ensureDir(targetPath);
-
-  return targetPath;
-}
+import { diskFileSystem } from './fileSystem.js';
+import type { ProjectFileSystem } from './fileSystem.js';
 
 /**
  * Gets the target directory path for a project.
@@ -47,39 +26,50 @@ export function getTargetDirectory(projectName: string, cwd: string): string {
 }
 
 /**
- * Copies template files from the templates directory to the target project directory.
+ * Resolves a directory in the CLI's templates directory.
  *
- * @param framework - The framework name ('tanstack' or 'nextjs')
- * @param targetPath - The absolute path to the target project directory
- * @returns Promise that resolves when the copy is complete
+ * @param templateDir - Directory relative to templates/ (e.g., 'nextjs' or 'features/email')
+ * @returns Absolute path to the template directory
  */
-export async function copyTemplate(framework: string, targetPath: string): Promise<void> {
+function resolveTemplatePath(templateDir: string): string {
   // Get the CLI's directory to locate templates
   // When running from dist/index.js: __dirname will be dist/, so we go up one level
   // When running from src/helpers/fileOperations.ts (tests): __dirname will be src/helpers/, so we go up two levels
   const __filename = fileURLToPath(import.meta.url);
   const __dirname = dirname(__filename);
 
-  // Map framework value to template directory name
-  const templateDir = framework === 'tanstack' ? 'tanstack-start' : 'nextjs';
-
   // Try to find templates directory - check both possible locations
   // First try: go up two levels (for src/helpers/ during tests)
-  let templatePath = join(__dirname, '../../templates', templateDir);
+  const templatePath = join(__dirname, '../../templates', templateDir);
 
   // If that doesn't exist, try going up one level (for dist/ in production)
   if (!fs.existsSync(templatePath)) {
-    templatePath = join(__dirname, '../templates', templateDir);
+    return join(__dirname, '../templates', templateDir);
   }
 
+  return templatePath;
+}
+
+/**
+ * Copies template files from the templates directory to the target project directory.
+ *
+ * @param framework - The framework name ('tanstack' or 'nextjs')
+ * @param targetPath - The absolute path to the target project directory
+ * @param fileSystem - File system to copy into (defaults to disk)
+ * @returns Promise that resolves when the copy is complete
+ */
+export async function copyTemplate(
+  framework: string,
+  targetPath: string,
+  fileSystem: ProjectFileSystem = diskFileSystem
+): Promise<void> {
+  // Map framework value to template directory name
+  const templatePath = resolveTemplatePath(framework === 'tanstack' ? 'tanstack-start' : 'nextjs');
+
   // Copy all files from template to target directory
-  await fs.copy(templatePath, targetPath, {
-    overwrite: false,
-    errorOnExist: false,
-    filter: (src) => {
-      // Skip copying _gitignore here, we'll handle it separately
-      return !src.endsWith('_gitignore');
-    },
+  await fileSystem.copyFromDisk(templatePath, targetPath, (src) => {
+    // Skip copying _gitignore here, we'll handle it separately
+    return !src.endsWith('_gitignore');
   });
 
   // Rename _gitignore to .gitignore
@@ -88,9 +78,149 @@ export async function copyTemplate(framework: string, targetPath: string): Promi
   const targetGitignore = join(targetPath, '.gitignore');
 
   if (await fs.pathExists(sourceGitignore)) {
-    await fs.copy(sourceGitignore, targetGitignore, {
-      overwrite: false,
-      errorOnExist: false,
-    });
+    await fileSystem.copyFromDisk(sourceGitignore, targetGitignore);
   }
 }
+
+/**
+ * Copies a feature template (templates/features/<name>) into a project.
+ * Feature templates hold files that are only added when a feature needs them: files
+ * shared by both frameworks live in features/<name>, framework-specific files in
+ * features/<name>-<framework> (e.g., features/organization-nextjs). Files that already
+ * exist in the project are left untouched.
+ *
+ * @param feature - Feature template name (e.g., 'email')
+ * @param framework - The framework name ('tanstack' or 'nextjs')
+ * @param targetPath - The absolute path to the target project directory
+ * @param fileSystem - File system to copy into (defaults to disk)
+ * @returns Project-relative paths of the files that were added
+ * @throws Error if neither template directory exists
+ */
+export async function copyFeatureTemplate(
+  feature: string,
+  framework: string,
+  targetPath: string,
+  fileSystem: ProjectFileSystem = diskFileSystem
+): Promise<string[]> {
+  const templatePaths = [feature, `${feature}-${framework}`]
+    .map(templateDir => resolveTemplatePath(join('features', templateDir)))
+    .filter(templatePath => fs.existsSync(templatePath));
+  if (templatePaths.length === 0) {
+    throw new Error(`Unknown feature template: ${feature}`);
+  }
+
+  const added: string[] = [];
+  for (const templatePath of templatePaths) {
+    for (const filePath of await listFiles(templatePath)) {
+      const relativePath = relative(templatePath, filePath);
+      if (!(await fileSystem.pathExists(join(targetPath, relativePath)))) {
+        added.push(relativePath);
+      }
+    }
+
+    await fileSystem.copyFromDisk(templatePath, targetPath);
+  }
+
+  return added.sort();
+}
+
+/**
+ * Lists every file below a directory.
+ * Walks the tree by hand because recursive readdir and Dirent.parentPath need newer Node versions than we support.
+ *
+ * @param directory - The absolute path to the directory
+ * @returns Absolute paths of the files below the directory
+ */
+async function listFiles(directory: string): Promise<string[]> {
+  const files: string[] = [];
+  for (const entry of await fs.readdir(directory, { withFileTypes: true })) {
+    const entryPath = join(directory, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...(await listFiles(entryPath)));
+    } else if (entry.isFile()) {
+      files.push(entryPath);
+    }
+  }
+  return files;
+}
+
+/**
+ * Creates an empty staging directory in the OS temp directory.
+ * Projects are scaffolded here first and only moved into place once every step succeeds.
+ *
+ * @returns Promise that resolves to the absolute path of the staging directory
+ */
+export async function createStagingDirectory(): Promise<string> {
+  return await fs.mkdtemp(join(tmpdir(), 'create-z3-'));
+}
+
+/**
+ * Moves every entry of a staging directory into the target directory, then removes the staging directory.
+ * Entries that already exist in the target are kept as-is (mirroring copyTemplate's overwrite: false).
+ * If a move fails, the target is restored: a newly created target is removed entirely,
+ * an existing target (e.g. "." notation) only loses the entries that were added.
+ *
+ * @param stagingPath - The absolute path to the staging directory
+ * @param targetPath - The absolute path to the target project directory
+ * @returns Promise that resolves when all entries have been moved
+ */
+export async function commitStagingDirectory(stagingPath: string, targetPath: string): Promise<void> {
+  const targetExisted = await fs.pathExists(targetPath);
+  const movedPaths: string[] = [];
+
+  try {
+    await fs.ensureDir(targetPath);
+
+    for (const entry of await fs.readdir(stagingPath)) {
+      const destination = join(targetPath, entry);
+
+      if (await fs.pathExists(destination)) {
+        continue;
+      }
+
+      await fs.move(join(stagingPath, entry), destination);
+      movedPaths.push(destination);
+    }
+  } catch (error) {
+    if (targetExisted) {
+      for (const movedPath of movedPaths) {
+        await fs.remove(movedPath);
+      }
+    } else {
+      await fs.remove(targetPath);
+    }
+
+    throw error;
+  } finally {
+    await fs.remove(stagingPath);
+  }
+}
+
+/**
+ * Detects which framework template an existing Z3 project was generated from.
+ * Both templates share the Convex auth config; the framework is identified by
+ * the files that only its template contains.
+ *
+ * @param projectPath - The absolute path to the project root
+ * @returns Promise that resolves to the detected framework, or undefined if the
+ * directory doesn't look like a Z3 project
+ */
+export async function detectProjectFramework(
+  projectPath: string
+): Promise<'tanstack' | 'nextjs' | undefined> {
+  const exists = (relativePath: string) => fs.pathExists(join(projectPath, relativePath));
+
+  if (!(await exists('convex/auth/index.ts'))) {
+    return undefined;
+  }
+
+  if ((await exists('src/env.mjs')) && (await exists('src/auth/client.tsx'))) {
+    return 'nextjs';
+  }
+
+  if ((await exists('src/env.ts')) && (await exists('src/providers.tsx'))) {
+    return 'tanstack';
+  }
+
+  return undefined;
+}
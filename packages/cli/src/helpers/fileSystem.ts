@@ -0,0 +1,156 @@
+import fs from 'fs-extra';
+import { join, relative } from 'path';
+import { createTwoFilesPatch } from 'diff';
+
+/**
+ * File system operations used while scaffolding a project.
+ * Installers read and write project files through this interface so the same
+ * steps can run against disk or against an in-memory file system (dry runs).
+ */
+export interface ProjectFileSystem {
+  /**
+   * Reads a file as UTF-8 text.
+   *
+   * @param filePath - Absolute path to the file
+   * @returns Promise that resolves to the file content
+   */
+  readFile(filePath: string): Promise<string>;
+
+  /**
+   * Writes UTF-8 text to a file, creating parent directories as needed.
+   *
+   * @param filePath - Absolute path to the file
+   * @param content - Content to write
+   */
+  writeFile(filePath: string, content: string): Promise<void>;
+
+  /**
+   * Checks whether a file exists.
+   *
+   * @param filePath - Absolute path to check
+   * @returns Promise that resolves to true if the path exists
+   */
+  pathExists(filePath: string): Promise<boolean>;
+
+  /**
+   * Copies a directory from disk into this file system without overwriting existing files.
+   *
+   * @param sourcePath - Absolute path to the source directory on disk
+   * @param targetPath - Absolute path to the destination directory
+   * @param filter - Optional predicate; return false to skip a source path
+   */
+  copyFromDisk(
+    sourcePath: string,
+    targetPath: string,
+    filter?: (src: string) => boolean
+  ): Promise<void>;
+}
+
+/**
+ * File system that reads and writes directly to disk via fs-extra.
+ */
+export const diskFileSystem: ProjectFileSystem = {
+  readFile: (filePath) => fs.readFile(filePath, 'utf-8'),
+  writeFile: (filePath, content) => fs.outputFile(filePath, content, 'utf-8'),
+  pathExists: (filePath) => fs.pathExists(filePath),
+  copyFromDisk: (sourcePath, targetPath, filter) =>
+    fs.copy(sourcePath, targetPath, {
+      overwrite: false,
+      errorOnExist: false,
+      filter,
+    }),
+};
+
+/**
+ * In-memory file system used for dry runs.
+ * Files copied from disk are remembered in their original form so every
+ * later modification can be reported as a unified diff.
+ */
+export class MemoryFileSystem implements ProjectFileSystem {
+  /** Current file contents keyed by absolute path */
+  private files = new Map<string, Buffer>();
+
+  /** File contents as they were when first copied from disk */
+  private originals = new Map<string, Buffer>();
+
+  async readFile(filePath: string): Promise<string> {
+    const content = this.files.get(filePath);
+    if (content === undefined) {
+      throw new Error(`ENOENT: no such file, open '${filePath}'`);
+    }
+    return content.toString('utf-8');
+  }
+
+  async writeFile(filePath: string, content: string): Promise<void> {
+    this.files.set(filePath, Buffer.from(content, 'utf-8'));
+  }
+
+  async pathExists(filePath: string): Promise<boolean> {
+    if (this.files.has(filePath)) {
+      return true;
+    }
+
+    const directoryPrefix = filePath.endsWith('/') ? filePath : `${filePath}/`;
+    return [...this.files.keys()].some(path => path.startsWith(directoryPrefix));
+  }
+
+  async copyFromDisk(
+    sourcePath: string,
+    targetPath: string,
+    filter?: (src: string) => boolean
+  ): Promise<void> {
+    if (filter && !filter(sourcePath)) {
+      return;
+    }
+
+    const stats = await fs.stat(sourcePath);
+
+    if (stats.isDirectory()) {
+      for (const entry of await fs.readdir(sourcePath)) {
+        await this.copyFromDisk(join(sourcePath, entry), join(targetPath, entry), filter);
+      }
+      return;
+    }
+
+    // Mirror fs.copy with overwrite: false
+    if (this.files.has(targetPath)) {
+      return;
+    }
+
+    const content = await fs.readFile(sourcePath);
+    this.files.set(targetPath, content);
+    this.originals.set(targetPath, content);
+  }
+
+  /**
+   * Lists every file in the file system relative to a root directory.
+   *
+   * @param rootPath - Absolute path the listed paths are made relative to
+   * @returns Sorted array of relative file paths
+   */
+  listFiles(rootPath: string): string[] {
+    return [...this.files.keys()].map(path => relative(rootPath, path)).sort();
+  }
+
+  /**
+   * Creates a unified diff for every file whose content differs from its copied original.
+   * Files created after the copy are diffed against an empty file.
+   *
+   * @param rootPath - Absolute path the file names in each diff are made relative to
+   * @returns Array of unified diffs, sorted by file path
+   */
+  createDiffs(rootPath: string): string[] {
+    return [...this.files.entries()]
+      .filter(([path, content]) => !this.originals.get(path)?.equals(content))
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([path, content]) => {
+        const fileName = relative(rootPath, path);
+        return createTwoFilesPatch(
+          `a/${fileName}`,
+          `b/${fileName}`,
+          this.originals.get(path)?.toString('utf-8') ?? '',
+          content.toString('utf-8')
+        );
+      });
+  }
+}
@@ -5,21 +5,55 @@ import { select, input, checkbox, confirm, editor, Separator } from '@inquirer/p
 import chalk from 'chalk';
 import { readFileSync } from 'fs';
 import { fileURLToPath } from 'url';
-import { dirname, join, basename } from 'path';
-import { validateProjectName, checkDirectoryExists, isDirectoryEmpty, resolveProjectName } from './utils/validation.js';
-import { createProjectDirectory, getTargetDirectory } from './helpers/fileOperations.js';
+import { dirname, join, basename, resolve } from 'path';
+import {
+  validateProjectName,
+  checkDirectoryExists,
+  isDirectoryEmpty,
+  resolveProjectName,
+  validateFramework,
+  validateOAuthProviderIds,
+  validateCustomProviderId,
+  validateDiscoveryUrl,
+  validateThemeName,
+  validateExtraThemes,
+  validateAuthPluginIds,
+  validateMinPasswordLength,
+  parseProviderList,
+  isThemeCSS
+} from './utils/validation.js';
+import { getTargetDirectory } from './helpers/fileOperations.js';
+import { MemoryFileSystem } from './helpers/fileSystem.js';
 import {
   displayDirectoryExistsError,
   displayInvalidNameError,
   displayDirectoryNotEmptyError,
   displayPermissionError,
-  displaySuccessMessage
+  displaySuccessMessage,
+  displayInvalidOptionsError,
+  displayDryRunReport,
+  formatThemeSwatch
 } from './utils/messages.js';
 import { getPopularProviders, getAdditionalProviders } from './installers/providers.js';
+import { BUNDLED_THEMES, getBundledTheme, getBundledThemeIds } from './installers/themes.js';
+import { AUTH_PLUGINS, getAuthPlugin, getAuthPluginIds, getDefaultAuthPluginIds } from './installers/plugins.js';
 import { getProvidersRequiringExtraConfig } from './installers/string-utils.js';
-import type { TweakCNTheme, ProjectOptions, Framework } from './installers/types.js';
+import { DEFAULT_EMAIL_PASSWORD_OPTIONS, resolveEmailPasswordOptions } from './installers/email-password.js';
+import type {
+  TweakCNTheme,
+  ProjectOptions,
+  ProjectPreset,
+  Framework,
+  CustomOIDCProvider,
+  EmailPasswordOptions,
+} from './installers/types.js';
+import { loadPreset, savePreset } from './utils/preset.js';
 import { TanStackInstaller } from './installers/tanstack.js';
 import { NextJSInstaller } from './installers/nextjs.js';
+import { addProvider, removeProvider } from './commands/provider.js';
+import { parseThemeVariables } from './utils/tweakcn-converter.js';
+import { deriveDarkTheme } from './utils/theme-dark-palette.js';
+import { addTheme, applyTheme, auditTheme, exportTheme } from './commands/theme.js';
 
 // Get package.json for version
 const __filename = fileURLToPath(import.meta.url);
@@ -30,15 +64,317 @@ const packageJson = JSON.parse(
 
 const program = new Command();
 
+/**
+ * Project name used when --yes is passed without a project name argument
+ */
+const DEFAULT_PROJECT_NAME = 'my-z3-app';
+
+/**
+ * Raw option values parsed by Commander
+ * Every survey answer has a matching flag so the CLI can run unattended
+ */
+interface CLIFlags {
+  framework?: string;
+  emailPassword?: boolean;
+  requireEmailVerification?: boolean;
+  passwordReset?: boolean;
+  minPasswordLength?: string;
+  oauth?: string;
+  theme?: string;
+  themeFile?: string;
+  extraThemes?: string;
+  authPlugins?: string;
+  preset?: string;
+  savePreset?: string | boolean;
+  dryRun?: boolean;
+  git: boolean;
+  install: boolean;
+  yes?: boolean;
+}
+
+/**
+ * Validates command-line flags and maps them onto survey answers
+ * Exits with a list of every invalid option before any prompt is shown
+ *
+ * @param flags - Raw option values parsed by Commander
+ * @param command - The Commander command, used to tell explicit flags from defaults
+ * @returns Survey answers provided through flags (undefined fields fall back to the preset or a prompt)
+ */
+function resolveFlagAnswers(flags: CLIFlags, command: Command): ProjectPreset {
+  const errors: string[] = [];
+  const answers: ProjectPreset = {};
+
+  if (flags.framework !== undefined) {
+    const validation = validateFramework(flags.framework);
+    if (validation.valid) {
+      answers.framework = flags.framework as Framework;
+    } else {
+      errors.push(...validation.errors);
+    }
+  }
+
+  if (flags.emailPassword !== undefined) {
+    answers.emailPasswordAuth = flags.emailPassword;
+  }
+
+  const emailPasswordOptions: EmailPasswordOptions = {};
+  if (flags.requireEmailVerification !== undefined) {
+    emailPasswordOptions.requireEmailVerification = flags.requireEmailVerification;
+  }
+  if (flags.passwordReset !== undefined) {
+    emailPasswordOptions.allowPasswordReset = flags.passwordReset;
+  }
+  if (flags.minPasswordLength !== undefined) {
+    const validation = validateMinPasswordLength(flags.minPasswordLength);
+    if (validation.valid) {
+      emailPasswordOptions.minPasswordLength = Number(flags.minPasswordLength);
+    } else {
+      errors.push(...validation.errors);
+    }
+  }
+  if (Object.keys(emailPasswordOptions).length > 0) {
+    answers.emailPasswordOptions = emailPasswordOptions;
+  }
+
+  if (flags.oauth !== undefined) {
+    const oauthProviders = parseProviderList(flags.oauth);
+    const validation = validateOAuthProviderIds(oauthProviders);
+    if (validation.valid) {
+      answers.oauthProviders = oauthProviders;
+    } else {
+      errors.push(...validation.errors);
+    }
+  }
+
+  if (flags.theme !== undefined && flags.themeFile !== undefined) {
+    errors.push('Options --theme and --theme-file cannot be used together');
+  }
+
+  if (flags.theme !== undefined) {
+    const validation = validateThemeName(flags.theme);
+    if (validation.valid) {
+      // Explicitly clear the other theme source so the flag overrides a preset's theme
+      answers.themeName = flags.theme;
+      answers.tweakcnTheme = undefined;
+    } else {
+      errors.push(...validation.errors);
+    }
+  }
+
+  if (flags.themeFile !== undefined) {
+    let content: string | undefined;
+    try {
+      content = readFileSync(flags.themeFile, 'utf-8').trim();
+    } catch (error) {
+      errors.push(
+        `Could not read theme file '${flags.themeFile}': ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+
+    if (content === '') {
+      errors.push(`Theme file '${flags.themeFile}' is empty`);
+    } else if (content && isThemeCSS(content)) {
+      answers.tweakcnTheme = { type: 'css', content };
+      answers.themeName = undefined;
+    } else if (content) {
+      errors.push(`Theme file '${flags.themeFile}' does not contain CSS with :root and color variables`);
+    }
+  }
+
+  if (flags.extraThemes !== undefined) {
+    const extraThemes = parseProviderList(flags.extraThemes);
+    const validation = validateExtraThemes(extraThemes);
+    if (validation.valid) {
+      answers.extraThemes = extraThemes;
+    } else {
+      errors.push(...validation.errors);
+    }
+  }
+
+  if (flags.authPlugins !== undefined) {
+    const authPlugins = parseProviderList(flags.authPlugins);
+    const validation = validateAuthPluginIds(authPlugins);
+    if (validation.valid) {
+      answers.authPlugins = authPlugins;
+    } else {
+      errors.push(...validation.errors);
+    }
+  }
+
+  // --no-git and --no-install default to true, so only honour them when passed explicitly
+  if (command.getOptionValueSource('git') === 'cli') {
+    answers.initGit = flags.git;
+  }
+  if (command.getOptionValueSource('install') === 'cli') {
+    answers.installDependencies = flags.install;
+  }
+
+  if (errors.length > 0) {
+    displayInvalidOptionsError(errors);
+  }
+
+  return answers;
+}
+
+/**
+ * Displays warnings for selected OAuth providers that need more than clientId/clientSecret
+ *
+ * @param oauthProviders - Array of selected OAuth provider IDs
+ */
+function displayExtraConfigWarnings(oauthProviders: string[]): void {
+  if (oauthProviders.length === 0) {
+    return;
+  }
+
+  const providersNeedingExtraConfig = getProvidersRequiringExtraConfig(oauthProviders);
+
+  if (providersNeedingExtraConfig.length > 0) {
+    console.log();
+    console.log(chalk.yellow('⚠️  Some providers require extra configuration:'));
+    console.log();
+
+    providersNeedingExtraConfig.forEach(provider => {
+      console.log(chalk.yellow(`  ${provider.name}:`));
+      console.log(chalk.dim(`  ${provider.extraConfigNotes}`));
+      console.log();
+    });
+  }
+}
+
+/**
+ * Offers a derived dark palette for a theme that only defines :root
+ * The derived .dark block can be accepted as-is, edited in the user's editor or skipped.
+ *
+ * @param themeCSS - Light-only theme CSS
+ * @param acceptDefault - Accept the derived palette without prompting (--yes)
+ * @returns Promise<string> - Theme CSS, with the .dark block appended unless skipped
+ */
+async function promptDarkTheme(themeCSS: string, acceptDefault: boolean): Promise<string> {
+  const darkTheme = deriveDarkTheme(themeCSS);
+  if (!darkTheme) {
+    return themeCSS;
+  }
+
+  if (acceptDefault) {
+    return `${themeCSS}\n\n${darkTheme}`;
+  }
+
+  console.log();
+  console.log(chalk.dim('This theme has no .dark block. Derived dark palette:'));
+  console.log(chalk.dim(darkTheme));
+  console.log();
+
+  const choice = await select({
+    message: 'Use the derived dark theme?',
+    choices: [
+      { name: 'Accept', value: 'accept' },
+      { name: 'Tweak (opens your editor)', value: 'tweak' },
+      { name: 'Skip (light theme only)', value: 'skip' },
+    ],
+    default: 'accept',
+  });
+
+  if (choice === 'skip') {
+    return themeCSS;
+  }
+
+  let darkBlock = darkTheme;
+  if (choice === 'tweak') {
+    const tweaked = (await editor({
+      message: 'Edit the dark theme:',
+      default: darkTheme,
+      waitForUserInput: false,
+    })).trim();
+
+    if (tweaked.includes('.dark')) {
+      darkBlock = tweaked;
+    } else {
+      console.log(chalk.yellow('\n⚠️  Expected a .dark block. Using the derived dark theme instead.\n'));
+    }
+  }
+
+  return `${themeCSS}\n\n${darkBlock}`;
+}
+
+/**
+ * Prompts for the email & password sub-options that flags or the preset left unset
+ *
+ * @param answered - Sub-options already set by flags or the preset
+ * @returns Promise<Required<EmailPasswordOptions>> - Complete sub-options
+ */
+async function promptEmailPasswordOptions(answered: EmailPasswordOptions): Promise<Required<EmailPasswordOptions>> {
+  const requireEmailVerification = answered.requireEmailVerification
+    ?? await confirm({
+      message: 'Require email verification before sign-in?',
+      default: DEFAULT_EMAIL_PASSWORD_OPTIONS.requireEmailVerification,
+    });
+
+  const allowPasswordReset = answered.allowPasswordReset
+    ?? await confirm({
+      message: 'Allow password reset by email?',
+      default: DEFAULT_EMAIL_PASSWORD_OPTIONS.allowPasswordReset,
+    });
+
+  const minPasswordLength = answered.minPasswordLength
+    ?? Number(await input({
+      message: 'Minimum password length:',
+      default: String(DEFAULT_EMAIL_PASSWORD_OPTIONS.minPasswordLength),
+      validate: (value) => {
+        const validation = validateMinPasswordLength(value.trim());
+        return validation.valid || validation.errors[0];
+      },
+    }));
+
+  return { requireEmailVerification, allowPasswordReset, minPasswordLength };
+}
+
+/**
+ * Prompts for the details of a custom OpenID Connect provider
+ *
+ * @returns Promise<CustomOIDCProvider> - Provider id, display name and discovery URL
+ */
+async function promptCustomOIDCProvider(): Promise<CustomOIDCProvider> {
+  console.log();
+  console.log(chalk.dim('💡 Custom providers use Better Auth\'s genericOAuth plugin with OpenID Connect discovery.'));
+
+  const id = await input({
+    message: 'Provider id (used in the callback URL and env var names):',
+    validate: (value) => {
+      const validation = validateCustomProviderId(value.trim());
+      return validation.valid || validation.errors[0];
+    },
+  });
+
+  const name = await input({
+    message: 'Display name (shown on the sign-in button):',
+    validate: (value) => value.trim() !== '' || 'Display name is required',
+  });
+
+  const discoveryUrl = await input({
+    message: 'Discovery URL (e.g., https://idp.example.com/.well-known/openid-configuration):',
+    validate: (value) => {
+      const validation = validateDiscoveryUrl(value.trim());
+      return validation.valid || validation.errors[0];
+    },
+  });
+
+  return { id: id.trim(), name: name.trim(), discoveryUrl: discoveryUrl.trim() };
+}
+
 /**
  * Prompts user to select authentication methods including email/password and OAuth providers
- * Shows email/password checkbox at the top (checked by default), followed by all OAuth providers alphabetically
+ * Shows email/password checkbox at the top (checked by default) and the passwordless sign-in
+ * plugins (Magic Link, Email OTP), followed by all OAuth providers alphabetically and a custom
+ * OpenID Connect provider choice
  *
- * @returns Promise<{ emailPassword: boolean; oauthProviders: string[] }> - Authentication selections
+ * @param selectedSignInPlugins - Sign-in plugin IDs to check initially (e.g., from --auth-plugins)
+ * @returns Promise<{ emailPassword: boolean; signInPlugins: string[]; oauthProviders: string[]; customOIDCProvider?: CustomOIDCProvider }> - Authentication selections
  */
-async function promptOAuthProviders(): Promise<{
+async function promptOAuthProviders(selectedSignInPlugins: string[]): Promise<{
   emailPassword: boolean;
+  signInPlugins: string[];
   oauthProviders: string[];
+  customOIDCProvider?: CustomOIDCProvider;
 }> {
   const popularProviders = getPopularProviders();
   const additionalProviders = getAdditionalProviders();
@@ -48,19 +384,33 @@ async function promptOAuthProviders(): Promise<{
     a.name.localeCompare(b.name)
   );
 
-  // Build choices with email/password first, then all OAuth providers alphabetically
+  const signInPluginChoices = Object.values(AUTH_PLUGINS).filter(plugin => plugin.signIn);
+
+  // Build choices with email/password and passwordless sign-in first, then all OAuth providers alphabetically
   const choices = [
     {
       name: 'Email & Password',
       value: '__email_password__',
       checked: true, // Default enabled
     },
+    ...signInPluginChoices.map(plugin => ({
+      name: plugin.name,
+      value: plugin.id,
+      description: plugin.description,
+      checked: selectedSignInPlugins.includes(plugin.id),
+    })),
     new Separator('OAuth Providers (A-Z):'),
     ...allOAuthProviders.map(provider => ({
       name: provider.name,
       value: provider.id,
       checked: false,
     })),
+    new Separator('Other:'),
+    {
+      name: 'Custom OpenID Connect provider',
+      value: '__custom_oidc__',
+      checked: false,
+    },
   ];
 
   // Single prompt with all providers
@@ -71,30 +421,21 @@ async function promptOAuthProviders(): Promise<{
     loop: false, // Don't wrap around
   });
 
-  // Filter out sentinel values and extract email/password selection
+  // Filter out sentinel values and sign-in plugins, and extract email/password selection
   const emailPassword = selectedProviders.includes('__email_password__');
+  const signInPlugins = selectedProviders.filter(id => getAuthPlugin(id)?.signIn);
   const oauthProviders = selectedProviders.filter(
-    id => id !== '__email_password__'
+    id => id !== '__email_password__' && id !== '__custom_oidc__' && !signInPlugins.includes(id)
   );
 
   // Display warnings for providers requiring extra config
-  if (oauthProviders.length > 0) {
-    const providersNeedingExtraConfig = getProvidersRequiringExtraConfig(oauthProviders);
+  displayExtraConfigWarnings(oauthProviders);
 
-    if (providersNeedingExtraConfig.length > 0) {
-      console.log();
-      console.log(chalk.yellow('⚠️  Some providers require extra configuration:'));
-      console.log();
-
-      providersNeedingExtraConfig.forEach(provider => {
-        console.log(chalk.yellow(`  ${provider.name}:`));
-        console.log(chalk.dim(`  ${provider.extraConfigNotes}`));
-        console.log();
-      });
-    }
-  }
+  const customOIDCProvider = selectedProviders.includes('__custom_oidc__')
+    ? await promptCustomOIDCProvider()
+    : undefined;
 
-  return { emailPassword, oauthProviders };
+  return { emailPassword, signInPlugins, oauthProviders, customOIDCProvider };
 }
 
 program
@@ -102,11 +443,59 @@ program
   .version(packageJson.version)
   .description('CLI for scaffolding Z3 Stack applications')
   .argument('[project-name]', 'Name of the project')
-  .action(async (projectNameArg?: string) => {
+  .option('--framework <framework>', 'Framework to use (tanstack, nextjs)')
+  .option('--email-password', 'Enable email & password authentication')
+  .option('--no-email-password', 'Disable email & password authentication')
+  .option('--require-email-verification', 'Require users to verify their email address before signing in')
+  .option('--password-reset', 'Let users reset a forgotten password by email (default)')
+  .option('--no-password-reset', 'Disable password reset emails')
+  .option('--min-password-length <length>', 'Minimum password length (8-128, default: 8)')
+  .option('--oauth <providers>', 'Comma-separated OAuth provider ids (e.g., google,github)')
+  .option('--theme <name>', `Bundled theme to apply (${getBundledThemeIds().join(', ')})`)
+  .option('--theme-file <path>', 'Path to a TweakCN theme CSS file')
+  .option('--extra-themes <names>', 'Comma-separated bundled themes users can switch to at runtime')
+  .option('--auth-plugins <ids>', `Comma-separated Better Auth plugins (${getAuthPluginIds().join(', ')}; empty for none)`)
+  .option('--preset <path>', 'Load survey answers from a preset file (JSON or YAML)')
+  .option('--save-preset [path]', 'Save the survey answers to a preset file (default: z3.config.json)')
+  .option('--no-git', 'Skip Git repository initialization')
+  .option('--no-install', 'Skip dependency installation')
+  .option('--dry-run', 'Print the files and changes that would be generated without writing anything')
+  .option('-y, --yes', 'Skip all prompts and use defaults for options not set by a flag')
+  .action(async (projectNameArg: string | undefined, flags: CLIFlags, command: Command) => {
     try {
       const cwd = process.cwd();
       let projectName = '';
 
+      // Validate flags up front so invalid options fail before any prompt
+      const flagAnswers = resolveFlagAnswers(flags, command);
+
+      // Load preset answers; explicit flags take precedence over the preset
+      let presetAnswers: ProjectPreset = {};
+      if (flags.preset) {
+        const presetResult = await loadPreset(flags.preset);
+
+        if (!presetResult.valid) {
+          displayInvalidOptionsError(presetResult.errors);
+        }
+
+        presetAnswers = presetResult.preset;
+      }
+
+      const answers: ProjectPreset = { ...presetAnswers, ...flagAnswers };
+
+      // Sub-option flags override the preset's sub-options one by one
+      if (presetAnswers.emailPasswordOptions && flagAnswers.emailPasswordOptions) {
+        answers.emailPasswordOptions = {
+          ...presetAnswers.emailPasswordOptions,
+          ...flagAnswers.emailPasswordOptions,
+        };
+      }
+
+      // With --yes, fall back to the default project name instead of prompting
+      if (!projectNameArg && flags.yes) {
+        projectNameArg = DEFAULT_PROJECT_NAME;
+      }
+
       // Handle project name - from argument or prompt
       if (projectNameArg) {
         // Resolve project name (handle dot notation)
@@ -177,41 +566,115 @@ program
         }
       }
 
-      // Framework selection survey
-      const framework = await select({
-        message: 'Which framework would you like to use?',
-        choices: [
-          { name: 'TanStack Start', value: 'tanstack' },
-          { name: 'Next.js', value: 'nextjs' }
-        ],
-        default: 'tanstack'
-      });
+      // Framework selection survey (skipped when set by --framework, a preset or --yes)
+      const framework: Framework = answers.framework
+        ?? (flags.yes
+          ? 'tanstack'
+          : await select<Framework>({
+            message: 'Which framework would you like to use?',
+            choices: [
+              { name: 'TanStack Start', value: 'tanstack' },
+              { name: 'Next.js', value: 'nextjs' }
+            ],
+            default: 'tanstack'
+          }));
 
       // Map framework value to display name
       const frameworkName = framework === 'tanstack' ? 'TanStack Start' : 'Next.js';
 
-      // Authentication provider selection (email/password + OAuth)
-      const { emailPassword, oauthProviders } = await promptOAuthProviders();
+      // Authentication provider selection (email/password, passwordless sign-in + OAuth)
+      // Any auth flag or preset value skips the prompt; the other auth setting keeps its default
+      // Sign-in plugins are stored with the other auth plugins (--auth-plugins, presets)
+      const isSignInPlugin = (id: string) => getAuthPlugin(id)?.signIn === true;
+      let emailPassword: boolean;
+      let signInPlugins = (answers.authPlugins ?? []).filter(isSignInPlugin);
+      let oauthProviders: string[];
+      let customOIDCProvider: CustomOIDCProvider | undefined;
+      if (
+        flags.yes
+        || answers.emailPasswordAuth !== undefined
+        || answers.oauthProviders !== undefined
+        || answers.customOIDCProvider !== undefined
+      ) {
+        emailPassword = answers.emailPasswordAuth ?? true;
+        oauthProviders = answers.oauthProviders ?? [];
+        customOIDCProvider = answers.customOIDCProvider;
+        displayExtraConfigWarnings(oauthProviders);
+      } else {
+        ({ emailPassword, signInPlugins, oauthProviders, customOIDCProvider } =
+          await promptOAuthProviders(signInPlugins));
+      }
+
+      // Email & password sub-options (prompted for unless set by flags, a preset or --yes)
+      let emailPasswordOptions: Required<EmailPasswordOptions> | undefined;
+      if (emailPassword) {
+        emailPasswordOptions = flags.yes
+          ? resolveEmailPasswordOptions(answers.emailPasswordOptions)
+          : await promptEmailPasswordOptions(answers.emailPasswordOptions ?? {});
+      }
+
+      // Provider names for the summary, with the custom provider marked as OIDC
+      const oauthSummary = customOIDCProvider
+        ? [...oauthProviders, `${customOIDCProvider.id} (OIDC)`]
+        : oauthProviders;
 
       // Display warning if no authentication methods selected
-      if (!emailPassword && oauthProviders.length === 0) {
+      if (!emailPassword && signInPlugins.length === 0 && oauthSummary.length === 0) {
         console.log();
         console.log(chalk.yellow('⚠️  Warning: No authentication methods selected.'));
         console.log(chalk.yellow('   Your app will have no user authentication.'));
         console.log();
       }
 
-      // TweakCN theme CSS prompt (optional)
-      console.log();
-      console.log(chalk.dim('💡 TweakCN themes: Visit https://tweakcn.com/themes/[theme-id]'));
-      console.log(chalk.dim('   Click "Code" button and copy the CSS.'));
-      const applyTheme = await confirm({
-        message: 'Apply a custom TweakCN theme? (This will open your editor - paste CSS, save, and close file to continue)',
-        default: false,
-      });
-
-      let tweakcnTheme: TweakCNTheme | undefined;
-      if (applyTheme) {
+      // Auth features prompt (skipped when set by --auth-plugins, a preset or --yes)
+      let featurePlugins = (answers.authPlugins ?? getDefaultAuthPluginIds()).filter(id => !isSignInPlugin(id));
+      if (answers.authPlugins === undefined && !flags.yes) {
+        featurePlugins = await checkbox({
+          message: 'Auth features:',
+          choices: Object.values(AUTH_PLUGINS)
+            .filter(plugin => !plugin.signIn)
+            .map(plugin => ({
+              name: plugin.name,
+              value: plugin.id,
+              description: plugin.description,
+              checked: plugin.default === true,
+            })),
+        });
+      }
+      const authPlugins = [...signInPlugins, ...featurePlugins];
+
+      // Theme prompt (skipped when set by --theme, --theme-file, a preset or --yes)
+      let tweakcnTheme: TweakCNTheme | undefined = answers.tweakcnTheme;
+      let themeName = answers.themeName;
+      let pasteCustomTheme = false;
+      if (!tweakcnTheme && !themeName && !flags.yes) {
+        console.log();
+        const themeChoice = await select({
+          message: 'Select a theme:',
+          choices: [
+            ...Object.values(BUNDLED_THEMES).map(theme => ({
+              name: `${formatThemeSwatch(theme.css)}  ${theme.name}`,
+              value: theme.id,
+              description: theme.description,
+            })),
+            new Separator(),
+            {
+              name: 'Custom TweakCN theme (opens your editor)',
+              value: '__custom__',
+              description: 'Visit https://tweakcn.com/themes/[theme-id], click "Code" and copy the CSS',
+            },
+          ],
+          default: 'default',
+        });
+
+        if (themeChoice === '__custom__') {
+          pasteCustomTheme = true;
+        } else {
+          themeName = themeChoice;
+        }
+      }
+
+      if (pasteCustomTheme) {
         console.log();
         console.log(chalk.cyan('📝 Opening your text editor...'));
         console.log(chalk.dim('   Paste the CSS, save, and close the editor to continue.'));
@@ -226,7 +689,7 @@ program
         const trimmedInput = tweakcnThemeInput.trim();
         if (trimmedInput) {
           // Check if input looks like CSS
-          if (trimmedInput.includes(':root') || trimmedInput.includes('--background') || trimmedInput.includes('oklch')) {
+          if (isThemeCSS(trimmedInput)) {
             tweakcnTheme = {
               type: 'css',
               content: trimmedInput,
@@ -237,58 +700,103 @@ program
         }
       }
 
-      // Git initialization prompt
-      const initGit = await confirm({
-        message: 'Initialize Git repository?',
-        default: true,
-      });
+      // Light-only themes get a derived dark palette (accepted automatically with --yes)
+      if (tweakcnTheme && !parseThemeVariables(tweakcnTheme.content).hasDark) {
+        tweakcnTheme = {
+          ...tweakcnTheme,
+          content: await promptDarkTheme(tweakcnTheme.content, Boolean(flags.yes)),
+        };
+      }
+
+      // Runtime theme prompt (skipped when set by --extra-themes, a preset or --yes)
+      let extraThemes = answers.extraThemes ?? [];
+      if (answers.extraThemes === undefined && !flags.yes) {
+        extraThemes = await checkbox({
+          message: 'Extra themes users can switch to at runtime (optional):',
+          choices: Object.values(BUNDLED_THEMES)
+            .filter(theme => theme.id !== 'default' && theme.id !== themeName)
+            .map(theme => ({
+              name: `${formatThemeSwatch(theme.css)}  ${theme.name}`,
+              value: theme.id,
+            })),
+        });
+      }
+
+      // Git initialization prompt (skipped when set by --no-git, a preset or --yes)
+      const initGit = answers.initGit
+        ?? (flags.yes || await confirm({
+          message: 'Initialize Git repository?',
+          default: true,
+        }));
 
-      // Install dependencies prompt
-      const installDependencies = await confirm({
-        message: 'Install dependencies?',
-        default: true,
-      });
+      // Install dependencies prompt (skipped when set by --no-install, a preset or --yes)
+      const installDependencies = answers.installDependencies
+        ?? (flags.yes || await confirm({
+          message: 'Install dependencies?',
+          default: true,
+        }));
 
       // Build ProjectOptions object with all collected inputs
       const projectOptions: ProjectOptions = {
         projectName,
-        framework: framework as Framework,
+        framework,
         emailPasswordAuth: emailPassword,
+        emailPasswordOptions,
         oauthProviders,
+        customOIDCProvider,
         tweakcnTheme,
+        themeName,
+        extraThemes,
+        authPlugins,
         initGit,
         installDependencies,
       };
 
-      // NOW create the project directory (after all prompts complete successfully)
-      let createdPath: string;
-      try {
-        createdPath = await createProjectDirectory(projectName, cwd);
-      } catch (error) {
-        // Handle permission errors
-        if (error instanceof Error && 'code' in error && error.code === 'EACCES') {
-          displayPermissionError(targetDir);
-        }
+      // For package.json name, use basename if projectName is "."
+      const packageName = projectName === '.' ? basename(targetDir) : projectName;
+
+      // Dry run: scaffold into an in-memory file system and report instead of touching disk
+      if (flags.dryRun) {
+        const fileSystem = new MemoryFileSystem();
+        const dryRunInstaller = framework === 'tanstack'
+          ? new TanStackInstaller(targetDir, packageName, fileSystem)
+          : new NextJSInstaller(targetDir, packageName, fileSystem);
+
+        // Git and dependency installation need real files, so they are only reported
+        await dryRunInstaller.initProject({
+          ...projectOptions,
+          initGit: false,
+          installDependencies: false,
+        });
 
-        // Re-throw other errors
-        throw error;
+        displayDryRunReport(
+          targetDir,
+          fileSystem.listFiles(targetDir),
+          fileSystem.createDiffs(targetDir),
+          projectOptions
+        );
+        process.exit(0);
       }
 
       // Instantiate correct installer based on framework selection
-      // For package.json name, use basename if projectName is "."
-      const packageName = projectName === '.' ? basename(createdPath) : projectName;
-
+      // The installer stages all files and only creates the target directory once every step succeeds
       let installer;
       if (framework === 'tanstack') {
-        installer = new TanStackInstaller(createdPath, packageName);
+        installer = new TanStackInstaller(targetDir, packageName);
       } else {
-        installer = new NextJSInstaller(createdPath, packageName);
+        installer = new NextJSInstaller(targetDir, packageName);
       }
 
       // Execute all configuration steps through the installer
       try {
         await installer.initProject(projectOptions);
       } catch (error) {
+        // Handle permission errors when moving files into the target directory
+        const cause = error instanceof Error ? error.cause : undefined;
+        if (cause instanceof Error && 'code' in cause && cause.code === 'EACCES') {
+          displayPermissionError(targetDir);
+        }
+
         console.error();
         console.error(chalk.red('❌ Project initialization failed:'));
         console.error(chalk.red(error instanceof Error ? error.message : 'Unknown error'));
@@ -296,9 +804,19 @@ program
         process.exit(1);
       }
 
+      // Save survey answers as a reusable preset (optional)
+      let savedPresetPath: string | undefined;
+      if (flags.savePreset) {
+        savedPresetPath = resolve(
+          cwd,
+          typeof flags.savePreset === 'string' ? flags.savePreset : 'z3.config.json'
+        );
+        await savePreset(savedPresetPath, projectOptions);
+      }
+
       // Display success message after all configuration is complete
       console.log();
-      displaySuccessMessage(projectName, createdPath, projectNameArg === '.');
+      displaySuccessMessage(projectName, targetDir, projectNameArg === '.');
       console.log();
       console.log(chalk.green('✅ Configuration complete!'));
       console.log();
@@ -306,21 +824,39 @@ program
       console.log(`Framework: ${frameworkName}`);
 
       // Display authentication selection summary
-      if (emailPassword && oauthProviders.length > 0) {
-        console.log(`Authentication: Email/Password + OAuth (${oauthProviders.join(', ')})`);
-      } else if (emailPassword) {
-        console.log('Authentication: Email/Password');
-      } else if (oauthProviders.length > 0) {
-        console.log(`Authentication: OAuth (${oauthProviders.join(', ')})`);
+      const emailPasswordDetails = emailPasswordOptions
+        ? [
+          ...(emailPasswordOptions.requireEmailVerification ? ['email verification'] : []),
+          ...(emailPasswordOptions.allowPasswordReset ? ['password reset'] : []),
+          `min. ${emailPasswordOptions.minPasswordLength} characters`,
+        ]
+        : [];
+      const authMethods = [
+        ...(emailPassword ? [`Email/Password (${emailPasswordDetails.join(', ')})`] : []),
+        ...signInPlugins.map(id => getAuthPlugin(id)!.name),
+        ...(oauthSummary.length > 0 ? [`OAuth (${oauthSummary.join(', ')})`] : []),
+      ];
+      if (authMethods.length > 0) {
+        console.log(`Authentication: ${authMethods.join(' + ')}`);
       } else {
         console.log(chalk.dim('Authentication: None selected'));
       }
 
+      // Display auth features summary
+      if (featurePlugins.length > 0) {
+        console.log(`Auth features: ${featurePlugins.map(id => getAuthPlugin(id)!.name).join(', ')}`);
+      } else {
+        console.log(chalk.dim('Auth features: None selected'));
+      }
+
       // Display TweakCN theme status
       if (tweakcnTheme) {
         console.log('Theme: Custom TweakCN theme');
       } else {
-        console.log('Theme: Default');
+        console.log(`Theme: ${getBundledTheme(themeName ?? 'default')!.name}`);
+      }
+      if (extraThemes.length > 0) {
+        console.log(`Runtime themes: ${extraThemes.map(id => getBundledTheme(id)!.name).join(', ')}`);
       }
 
       // Display Git initialization status
@@ -337,6 +873,11 @@ program
         console.log('Dependencies: Not installed');
       }
 
+      // Display saved preset location
+      if (savedPresetPath) {
+        console.log(`Preset: Saved to ${savedPresetPath}`);
+      }
+
       console.log();
       console.log(chalk.dim('Next steps:'));
       if (projectNameArg !== '.') {
@@ -362,4 +903,65 @@ program
     }
   });
 
+const addCommand = new Command('add')
+  .description('Add features to an existing Z3 project');
+
+addCommand
+  .command('provider <id>')
+  .description('Add an OAuth provider to an existing project')
+  .option('--cwd <path>', 'Project directory (default: current directory)')
+  .action(addProvider);
+
+const removeCommand = new Command('remove')
+  .description('Remove features from an existing Z3 project');
+
+removeCommand
+  .command('provider <id>')
+  .description('Remove an OAuth provider from an existing project')
+  .option('--cwd <path>', 'Project directory (default: current directory)')
+  .action(removeProvider);
+
+const themeCommand = new Command('theme')
+  .description('Manage the TweakCN theme of an existing Z3 project');
+
+themeCommand
+  .command('apply <file>')
+  .description('Replace the project theme with a TweakCN theme CSS file (use - to read from stdin)')
+  .option('--cwd <path>', 'Project directory (default: current directory)')
+  .option('--suggest', 'Suggest lightness-adjusted values for pairs that fail WCAG AA')
+  .action(applyTheme);
+
+themeCommand
+  .command('add <theme>')
+  .description('Add a bundled theme or theme CSS file that users can switch to at runtime')
+  .option('--name <name>', 'data-theme name (default: the bundled theme ID; required for files)')
+  .option('--cwd <path>', 'Project directory (default: current directory)')
+  .action(addTheme);
+
+themeCommand
+  .command('audit [file]')
+  .description('Check WCAG contrast of the project theme, or of a theme CSS file (use - for stdin)')
+  .option('--cwd <path>', 'Project directory (default: current directory)')
+  .option('--suggest', 'Suggest lightness-adjusted values for pairs that fail WCAG AA')
+  .action(auditTheme);
+
+themeCommand
+  .command('export [file]')
+  .description('Write the project theme as TweakCN-compatible CSS (default: stdout)')
+  .option('--cwd <path>', 'Project directory (default: current directory)')
+  .action(exportTheme);
+
+const subcommandGroups = [addCommand, removeCommand, themeCommand];
+
+// A group name followed by nothing or by options is a project name, so apps can
+// still be called e.g. `theme` (`create-z3 theme --framework nextjs`)
+const [firstArg, secondArg] = process.argv.slice(2);
+const isProjectNamedAfterGroup =
+  subcommandGroups.some(group => group.name() === firstArg) &&
+  (secondArg === undefined || (secondArg.startsWith('-') && secondArg !== '-h' && secondArg !== '--help'));
+
+if (!isProjectNamedAfterGroup) {
+  subcommandGroups.forEach(group => program.addCommand(group));
+}
+
 program.parse();
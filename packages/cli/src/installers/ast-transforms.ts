@@ -0,0 +1,975 @@
+/**
+ * AST-Based Source Transforms
+ *
+ * This module edits TypeScript/JavaScript source through the TypeScript compiler
+ * API instead of string placeholders. Nodes are located on the parsed AST and the
+ * edits are spliced into the original text, so formatting and comments outside the
+ * edited range are preserved. Every transform returns the updated source and leaves
+ * it unchanged when the edit was already applied.
+ */
+
+import ts from 'typescript';
+
+/**
+ * Locates an object or array literal in a source file
+ * - `call`: the first object argument of a call, e.g. `betterAuth({ ... })`
+ * - `jsxElement` + `attribute`: an object passed to a JSX prop, e.g. `social={{ ... }}`
+ * - `variable`: a variable's literal value, or the literal its arrow function
+ *   returns, e.g. `createPlugins = () => [ ... ]` or `brandThemes = [ ... ] as const`
+ * `path` then descends through nested properties, e.g. `['socialProviders']`. Computed
+ * keys are named by their identifier (`[TABLE_SLUG_USERS]` is 'TABLE_SLUG_USERS'), and
+ * properties whose value is a call chain such as `defineTable({ ... }).index(...)`
+ * descend into the call's object argument.
+ */
+export type SourceLocator =
+  | { call: string; path?: string[] }
+  | { jsxElement: string | RegExp; attribute: string; path?: string[] }
+  | { variable: string; path?: string[] };
+
+/**
+ * Where new object properties, array elements and JSX attributes are inserted
+ * - `start`: before the first existing entry
+ * - `end`: after the last existing entry
+ * - `sorted`: before the first existing entry whose name sorts after the new one
+ */
+export type InsertPosition = 'start' | 'end' | 'sorted';
+
+/**
+ * A bracketed list of AST nodes: object properties, array elements or named imports
+ */
+interface ListContainer {
+  /** Node whose text starts with the opening bracket and ends with the closing bracket */
+  node: ts.Node;
+
+  /** Entries of the list */
+  elements: ts.NodeArray<ts.Node>;
+}
+
+/** Indentation added for each nesting level in generated code */
+const INDENT = '  ';
+
+/**
+ * Parses source code as TSX
+ * TSX covers the .ts, .tsx and .mjs files the templates generate (none use
+ * angle-bracket type assertions). Sources with syntax errors are rejected so an
+ * edit is never applied to code that can't be parsed reliably.
+ *
+ * @param source - Source code
+ * @returns Parsed source file with parent pointers set
+ * @throws Error if the source has syntax errors
+ */
+export function parseSource(source: string): ts.SourceFile {
+  const { diagnostics = [] } = ts.transpileModule(source, {
+    fileName: 'source.tsx',
+    reportDiagnostics: true,
+    compilerOptions: { jsx: ts.JsxEmit.Preserve },
+  });
+
+  if (diagnostics.length > 0) {
+    const message = ts.flattenDiagnosticMessageText(diagnostics[0].messageText, '\n');
+    throw new Error(`Source has syntax errors: ${message}`);
+  }
+
+  return ts.createSourceFile('source.tsx', source, ts.ScriptTarget.Latest, true, ts.ScriptKind.TSX);
+}
+
+/**
+ * Compares two names the way natural-order sorting lint rules do
+ *
+ * @param a - First name
+ * @param b - Second name
+ * @returns Negative, zero or positive like Array.prototype.sort comparators
+ */
+function compareNames(a: string, b: string): number {
+  return a.localeCompare(b, 'en', { numeric: true, sensitivity: 'base' });
+}
+
+/**
+ * Returns the static name of an object property or JSX attribute
+ *
+ * @param node - Object literal element or JSX attribute
+ * @returns Property name (the identifier for `[IDENTIFIER]` keys), or undefined for
+ * spreads and other computed names
+ */
+function getNodeName(node: ts.Node): string | undefined {
+  if (ts.isJsxAttribute(node)) {
+    return node.name.getText();
+  }
+
+  if (
+    ts.isPropertyAssignment(node) &&
+    ts.isComputedPropertyName(node.name) &&
+    ts.isIdentifier(node.name.expression)
+  ) {
+    return node.name.expression.text;
+  }
+
+  if (
+    (ts.isPropertyAssignment(node) ||
+      ts.isShorthandPropertyAssignment(node) ||
+      ts.isMethodDeclaration(node)) &&
+    (ts.isIdentifier(node.name) || ts.isStringLiteral(node.name) || ts.isNumericLiteral(node.name))
+  ) {
+    return node.name.text;
+  }
+
+  if (ts.isImportSpecifier(node)) {
+    return node.name.text;
+  }
+
+  return undefined;
+}
+
+/**
+ * Extracts the property or attribute name from generated entry text
+ *
+ * @param entry - Entry text (e.g., 'google: { ... }', '[TABLE_SLUG_USERS]: ...' or 'credentials={true}')
+ * @returns Leading name, or undefined if the entry doesn't start with one
+ */
+function getEntryName(entry: string): string | undefined {
+  return entry.match(/^(?:["']?([\w$-]+)["']?|\[([\w$]+)\])\s*[:=]/)?.slice(1).find(Boolean);
+}
+
+/**
+ * Returns the object argument of a call, following method chains back to the first call
+ * e.g. the `{ ... }` of `defineTable({ ... }).index("by_email", ["email"])`
+ *
+ * @param expression - Property value
+ * @returns The object literal argument, or undefined if the value isn't such a call
+ */
+function getCallObjectArgument(expression: ts.Expression): ts.ObjectLiteralExpression | undefined {
+  let call = expression;
+  while (
+    ts.isCallExpression(call) &&
+    ts.isPropertyAccessExpression(call.expression) &&
+    ts.isCallExpression(call.expression.expression)
+  ) {
+    call = call.expression.expression;
+  }
+
+  const argument = ts.isCallExpression(call) ? call.arguments[0] : undefined;
+  return argument && ts.isObjectLiteralExpression(argument) ? argument : undefined;
+}
+
+/**
+ * Removes surrounding whitespace and a trailing comma from generated entry text
+ *
+ * @param entry - Entry text
+ * @returns Normalized entry
+ */
+function normalizeEntry(entry: string): string {
+  return entry.trim().replace(/,$/, '');
+}
+
+/**
+ * Returns the leading whitespace of the line containing the given position
+ *
+ * @param text - Source text
+ * @param position - Any position within the line
+ * @returns Leading whitespace of that line
+ */
+function getLineIndentation(text: string, position: number): string {
+  const lineStart = text.lastIndexOf('\n', position - 1) + 1;
+  return text.slice(lineStart).match(/^[ \t]*/)?.[0] ?? '';
+}
+
+/**
+ * Indents every line after the first, so a multi-line entry lines up when its
+ * first line is placed at the given indentation
+ *
+ * @param entry - Entry text without base indentation
+ * @param indentation - Indentation of the entry's first line
+ * @returns Re-indented entry
+ */
+function indentContinuationLines(entry: string, indentation: string): string {
+  return entry
+    .split('\n')
+    .map((line, index) => (index === 0 || line === '' ? line : indentation + line))
+    .join('\n');
+}
+
+/**
+ * Checks whether a node spans more than one line
+ *
+ * @param sourceFile - Parsed source file
+ * @param node - Node to check
+ * @returns True if the node starts and ends on different lines
+ */
+function isMultiline(sourceFile: ts.SourceFile, node: ts.Node): boolean {
+  const start = sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile)).line;
+  const end = sourceFile.getLineAndCharacterOfPosition(node.getEnd()).line;
+  return start !== end;
+}
+
+/**
+ * Finds the first node in the tree that matches a predicate (depth-first)
+ *
+ * @param root - Node to search from
+ * @param predicate - Type guard selecting the node
+ * @returns The matching node, or undefined
+ */
+function findNode<T extends ts.Node>(root: ts.Node, predicate: (node: ts.Node) => node is T): T | undefined {
+  let found: T | undefined;
+
+  const visit = (node: ts.Node): void => {
+    if (found) return;
+    if (predicate(node)) {
+      found = node;
+      return;
+    }
+    ts.forEachChild(node, visit);
+  };
+
+  visit(root);
+  return found;
+}
+
+/**
+ * Finds the first JSX opening or self-closing element with a matching tag name
+ *
+ * @param sourceFile - Parsed source file
+ * @param tagName - Exact tag name or pattern
+ * @returns The element, or undefined
+ */
+function findJsxElement(
+  sourceFile: ts.SourceFile,
+  tagName: string | RegExp
+): ts.JsxOpeningElement | ts.JsxSelfClosingElement | undefined {
+  const matches = (name: string) =>
+    typeof tagName === 'string' ? name === tagName : tagName.test(name);
+
+  return findNode(
+    sourceFile,
+    (node): node is ts.JsxOpeningElement | ts.JsxSelfClosingElement =>
+      (ts.isJsxOpeningElement(node) || ts.isJsxSelfClosingElement(node)) &&
+      matches(node.tagName.getText(sourceFile))
+  );
+}
+
+/**
+ * Describes a locator for error messages
+ *
+ * @param locator - Locator to describe
+ * @returns Human-readable description (e.g., 'betterAuth({ ... })')
+ */
+function describeLocator(locator: SourceLocator): string {
+  const root = 'call' in locator
+    ? `${locator.call}({ ... })`
+    : 'variable' in locator
+      ? `the ${locator.variable} variable`
+      : `the ${locator.attribute}={{ ... }} prop`;
+  return locator.path?.length ? `'${locator.path.join('.')}' in ${root}` : root;
+}
+
+/**
+ * Resolves the root literal of a locator
+ *
+ * @param sourceFile - Parsed source file
+ * @param locator - Locator to resolve
+ * @returns The root object literal (or array literal for variables)
+ * @throws Error if the call, JSX prop or variable can't be found or isn't a literal
+ */
+function resolveRoot(
+  sourceFile: ts.SourceFile,
+  locator: SourceLocator
+): ts.ObjectLiteralExpression | ts.ArrayLiteralExpression {
+  if ('variable' in locator) {
+    const declaration = findNode(
+      sourceFile,
+      (node): node is ts.VariableDeclaration =>
+        ts.isVariableDeclaration(node) &&
+        ts.isIdentifier(node.name) &&
+        node.name.text === locator.variable
+    );
+    let value = declaration?.initializer;
+    if (value && ts.isArrowFunction(value)) {
+      value = ts.isBlock(value.body) ? undefined : value.body;
+    }
+    while (
+      value &&
+      (ts.isParenthesizedExpression(value) || ts.isAsExpression(value) || ts.isSatisfiesExpression(value))
+    ) {
+      value = value.expression;
+    }
+    if (!value || !(ts.isObjectLiteralExpression(value) || ts.isArrayLiteralExpression(value))) {
+      throw new Error(`Could not find a literal value for the ${locator.variable} variable`);
+    }
+    return value;
+  }
+
+  if ('call' in locator) {
+    const call = findNode(
+      sourceFile,
+      (node): node is ts.CallExpression =>
+        ts.isCallExpression(node) &&
+        ts.isIdentifier(node.expression) &&
+        node.expression.text === locator.call
+    );
+    const argument = call?.arguments[0];
+    if (!argument || !ts.isObjectLiteralExpression(argument)) {
+      throw new Error(`Could not find ${locator.call}({ ... })`);
+    }
+    return argument;
+  }
+
+  const element = findJsxElement(sourceFile, locator.jsxElement);
+  const attribute = element && findJsxAttribute(element, locator.attribute);
+  const expression = attribute?.initializer && ts.isJsxExpression(attribute.initializer)
+    ? attribute.initializer.expression
+    : undefined;
+  if (!expression || !ts.isObjectLiteralExpression(expression)) {
+    throw new Error(`Could not find the ${locator.attribute}={{ ... }} prop`);
+  }
+  return expression;
+}
+
+/**
+ * Finds a JSX attribute by name
+ *
+ * @param element - JSX opening or self-closing element
+ * @param name - Attribute name
+ * @returns The attribute, or undefined
+ */
+function findJsxAttribute(
+  element: ts.JsxOpeningElement | ts.JsxSelfClosingElement,
+  name: string
+): ts.JsxAttribute | undefined {
+  return element.attributes.properties.find(
+    (property): property is ts.JsxAttribute =>
+      ts.isJsxAttribute(property) && property.name.getText() === name
+  );
+}
+
+/**
+ * Finds a property of an object literal by name
+ *
+ * @param object - Object literal
+ * @param name - Property name
+ * @returns The property, or undefined
+ */
+function findProperty(
+  object: ts.ObjectLiteralExpression,
+  name: string
+): ts.ObjectLiteralElementLike | undefined {
+  return object.properties.find(property => getNodeName(property) === name);
+}
+
+/**
+ * Walks a property path from an object literal as far as it exists
+ *
+ * @param root - Object or array literal to start from
+ * @param path - Property names to descend through
+ * @returns The deepest existing node, the path segments still missing below it,
+ * and the property holding that node (undefined for the root)
+ * @throws Error if a segment exists but isn't an object or array literal
+ */
+function walkPath(
+  root: ts.ObjectLiteralExpression | ts.ArrayLiteralExpression,
+  path: string[]
+): {
+  node: ts.ObjectLiteralExpression | ts.ArrayLiteralExpression;
+  missing: string[];
+  property?: ts.PropertyAssignment;
+} {
+  let node: ts.ObjectLiteralExpression | ts.ArrayLiteralExpression = root;
+  let property: ts.PropertyAssignment | undefined;
+
+  for (let index = 0; index < path.length; index++) {
+    const segment = path[index];
+    if (!ts.isObjectLiteralExpression(node)) {
+      throw new Error(`'${path.slice(0, index).join('.')}' is not an object literal`);
+    }
+
+    const next = findProperty(node, segment);
+    if (!next) {
+      return { node, missing: path.slice(index), property };
+    }
+
+    const value = ts.isPropertyAssignment(next)
+      ? ts.isObjectLiteralExpression(next.initializer) || ts.isArrayLiteralExpression(next.initializer)
+        ? next.initializer
+        : getCallObjectArgument(next.initializer)
+      : undefined;
+    if (!value) {
+      throw new Error(`'${path.slice(0, index + 1).join('.')}' is not an object or array literal`);
+    }
+
+    property = next as ts.PropertyAssignment;
+    node = value;
+  }
+
+  return { node, missing: [], property };
+}
+
+/**
+ * Returns the list container for an object literal, array literal or named imports node
+ *
+ * @param node - Object literal, array literal or named imports
+ * @returns The node and its entries
+ */
+function toContainer(
+  node: ts.ObjectLiteralExpression | ts.ArrayLiteralExpression | ts.NamedImports
+): ListContainer {
+  return { node, elements: ts.isObjectLiteralExpression(node) ? node.properties : node.elements };
+}
+
+/**
+ * Finds the position just after an element's trailing comma
+ *
+ * @param text - Source text
+ * @param element - List element
+ * @returns Position after the comma, or the element end if there is no comma
+ */
+function getEndAfterComma(text: string, element: ts.Node): number {
+  const comma = text.slice(element.getEnd()).match(/^\s*,/);
+  return comma ? element.getEnd() + comma[0].length : element.getEnd();
+}
+
+/**
+ * Inserts entries into a bracketed list, matching its layout
+ * Multi-line lists get one entry per line at the existing indentation; single-line
+ * lists stay on one line. Trailing-comma style follows the existing entries (empty
+ * multi-line lists get trailing commas).
+ *
+ * @param sourceFile - Parsed source file
+ * @param container - List to insert into
+ * @param entries - Entries to insert, without trailing commas
+ * @param position - Where to insert the entries
+ * @returns Updated source text
+ */
+function insertIntoList(
+  sourceFile: ts.SourceFile,
+  container: ListContainer,
+  entries: string[],
+  position: InsertPosition
+): string {
+  const text = sourceFile.text;
+  const { node, elements } = container;
+  const openIndex = node.getStart(sourceFile);
+  const closeIndex = node.getEnd() - 1;
+  const closingIndentation = getLineIndentation(text, openIndex);
+  const multiline = isMultiline(sourceFile, node) ||
+    entries.some(entry => entry.includes('\n')) ||
+    (ts.isObjectLiteralExpression(node) && elements.length === 0);
+
+  if (elements.length === 0) {
+    if (!multiline) {
+      const padding = ts.isNamedImports(node) ? ' ' : '';
+      return text.slice(0, openIndex + 1) + padding + entries.join(', ') + padding + text.slice(closeIndex);
+    }
+
+    const indentation = closingIndentation + INDENT;
+    const inner = text.slice(openIndex + 1, closeIndex).trim();
+    const lines = entries.map(entry => `${indentation}${indentContinuationLines(entry, indentation)},`);
+    if (inner) {
+      lines.push(`${indentation}${inner}`);
+    }
+    return `${text.slice(0, openIndex + 1)}\n${lines.join('\n')}\n${closingIndentation}${text.slice(closeIndex)}`;
+  }
+
+  const first = elements[0];
+  const last = elements[elements.length - 1];
+  const hasTrailingComma = elements.hasTrailingComma;
+
+  if (!multiline) {
+    if (position === 'start') {
+      const insertAt = first.getStart(sourceFile);
+      return text.slice(0, insertAt) + `${entries.join(', ')}, ` + text.slice(insertAt);
+    }
+    const insertAt = hasTrailingComma ? getEndAfterComma(text, last) : last.getEnd();
+    const inserted = hasTrailingComma ? ` ${entries.join(', ')},` : `, ${entries.join(', ')}`;
+    return text.slice(0, insertAt) + inserted + text.slice(insertAt);
+  }
+
+  const indentation = getLineIndentation(text, first.getStart(sourceFile));
+
+  if (position !== 'end') {
+    const name = getEntryName(entries[0]);
+    const before = position === 'start'
+      ? first
+      : name === undefined
+        ? undefined
+        : elements.find(element => {
+          const elementName = getNodeName(element);
+          return elementName !== undefined && compareNames(elementName, name) > 0;
+        });
+
+    if (before) {
+      const index = elements.indexOf(before);
+      const lineAfterPrevious = index === 0
+        ? text.indexOf('\n', openIndex) + 1
+        : text.indexOf('\n', getEndAfterComma(text, elements[index - 1])) + 1;
+      const lines = entries.map(entry => `${indentation}${indentContinuationLines(entry, indentation)},\n`);
+      return text.slice(0, lineAfterPrevious) + lines.join('') + text.slice(lineAfterPrevious);
+    }
+  }
+
+  const insertAt = hasTrailingComma ? getEndAfterComma(text, last) : last.getEnd();
+  // Keep a trailing line comment with the entry it describes
+  const trailingComment = text.slice(insertAt).match(/^[ \t]*\/\/[^\n]*/)?.[0] ?? '';
+  const lines = entries.map(entry => `${indentation}${indentContinuationLines(entry, indentation)}`);
+  return (
+    text.slice(0, insertAt) +
+    (hasTrailingComma ? '' : ',') +
+    trailingComment +
+    '\n' +
+    lines.join(',\n') +
+    (hasTrailingComma ? ',' : '') +
+    text.slice(insertAt + trailingComment.length)
+  );
+}
+
+/**
+ * Removes an entry from a bracketed list
+ * In multi-line lists the entry must sit on its own lines; if it shares a line with
+ * other code the removal is refused rather than guessed at. A list left empty is
+ * collapsed to `{}` / `[]`.
+ *
+ * @param sourceFile - Parsed source file
+ * @param container - List to remove from
+ * @param element - Entry to remove
+ * @param label - Entry description for error messages
+ * @returns Updated source text
+ * @throws Error if the entry can't be removed safely
+ */
+function removeFromList(
+  sourceFile: ts.SourceFile,
+  container: ListContainer,
+  element: ts.Node,
+  label: string
+): string {
+  const text = sourceFile.text;
+  const { node, elements } = container;
+  const index = elements.indexOf(element);
+  const previous = elements[index - 1];
+  const next = elements[index + 1];
+  const openIndex = node.getStart(sourceFile);
+  const closeIndex = node.getEnd() - 1;
+
+  if (elements.length === 1) {
+    const inner = text.slice(openIndex + 1, closeIndex);
+    const remaining = inner.slice(0, element.getStart(sourceFile) - openIndex - 1) +
+      inner.slice(getEndAfterComma(text, element) - openIndex - 1);
+    if (remaining.trim() !== '') {
+      throw new Error(`${label} shares its list with comments that can't be kept safely`);
+    }
+    return text.slice(0, openIndex + 1) + text.slice(closeIndex);
+  }
+
+  if (!isMultiline(sourceFile, node)) {
+    if (next) {
+      return text.slice(0, element.getStart(sourceFile)) + text.slice(next.getStart(sourceFile));
+    }
+    return text.slice(0, previous.getEnd()) + text.slice(element.getEnd());
+  }
+
+  const start = element.getStart(sourceFile);
+  const end = getEndAfterComma(text, element);
+  const lineStart = text.lastIndexOf('\n', start - 1) + 1;
+  const lineEndIndex = text.indexOf('\n', end);
+  const lineEnd = lineEndIndex === -1 ? text.length : lineEndIndex;
+
+  if (text.slice(lineStart, start).trim() !== '' || text.slice(end, lineEnd).trim() !== '') {
+    throw new Error(`${label} shares a line with other code`);
+  }
+
+  let before = text.slice(0, lineStart);
+  const after = text.slice(lineEnd + 1);
+
+  // Removing the last entry of a list without trailing commas
+  if (!next && !elements.hasTrailingComma && previous) {
+    const commaEnd = getEndAfterComma(text, previous);
+    before = text.slice(0, previous.getEnd()) + text.slice(commaEnd, lineStart);
+  }
+
+  return before + after;
+}
+
+/**
+ * Adds properties to an object literal, skipping names that already exist
+ * Missing objects along the locator path are created.
+ *
+ * @param source - Source code
+ * @param locator - Object to add to
+ * @param properties - Property entries (e.g., 'google: { ... }'); a trailing comma is ignored
+ * @param position - Where to insert new properties (default: 'end')
+ * @returns Updated source
+ * @throws Error if the locator can't be resolved or the source can't be parsed
+ */
+export function addObjectProperties(
+  source: string,
+  locator: SourceLocator,
+  properties: string[],
+  position: InsertPosition = 'end'
+): string {
+  return properties.map(normalizeEntry).filter(Boolean).reduce((updatedSource, property) => {
+    const sourceFile = parseSource(updatedSource);
+    const root = resolveRoot(sourceFile, locator);
+    const { node, missing } = walkPath(root, locator.path ?? []);
+    if (!ts.isObjectLiteralExpression(node)) {
+      throw new Error(`${describeLocator(locator)} is not an object literal`);
+    }
+
+    // Wrap the property in any objects the path is still missing
+    const entry = missing.reduceRight(
+      (inner, key) => `${key}: {\n${INDENT}${indentContinuationLines(inner, INDENT)},\n}`,
+      property
+    );
+    const name = getEntryName(entry);
+    if (name !== undefined && findProperty(node, name)) {
+      return updatedSource;
+    }
+
+    return insertIntoList(sourceFile, toContainer(node), [entry], position);
+  }, source);
+}
+
+/**
+ * Removes a property from an object literal
+ *
+ * @param source - Source code
+ * @param locator - Object to remove from
+ * @param name - Property name
+ * @param options - `removeEmpty` also removes the object's own property once it is empty
+ * @returns Updated source (unchanged if the property doesn't exist)
+ * @throws Error if the property can't be removed safely
+ */
+export function removeObjectProperty(
+  source: string,
+  locator: SourceLocator,
+  name: string,
+  options: { removeEmpty?: boolean } = {}
+): string {
+  const sourceFile = parseSource(source);
+  const root = resolveRoot(sourceFile, locator);
+  const path = locator.path ?? [];
+  const { node, missing } = walkPath(root, path);
+  if (missing.length > 0 || !ts.isObjectLiteralExpression(node)) {
+    return source;
+  }
+
+  const property = findProperty(node, name);
+  if (!property) {
+    return source;
+  }
+
+  const updatedSource = removeFromList(sourceFile, toContainer(node), property, `'${name}'`);
+
+  if (options.removeEmpty && path.length > 0 && node.properties.length === 1) {
+    const parentLocator = { ...locator, path: path.slice(0, -1) };
+    return removeObjectProperty(updatedSource, parentLocator, path[path.length - 1]);
+  }
+
+  return updatedSource;
+}
+
+/**
+ * Returns the property names of an object literal
+ *
+ * @param source - Source code
+ * @param locator - Object to inspect
+ * @returns Property names in source order (empty if the object doesn't exist)
+ * @throws Error if the root of the locator can't be found
+ */
+export function getObjectPropertyNames(source: string, locator: SourceLocator): string[] {
+  const { node, missing } = walkPath(resolveRoot(parseSource(source), locator), locator.path ?? []);
+  if (missing.length > 0 || !ts.isObjectLiteralExpression(node)) {
+    return [];
+  }
+  return node.properties.map(property => getNodeName(property) ?? property.getText());
+}
+
+/**
+ * Checks whether a generated element matches an existing array element
+ * String literals are compared by value so quote style doesn't matter.
+ *
+ * @param element - Existing array element
+ * @param entry - Generated element text
+ * @returns True if they represent the same value
+ */
+function isSameElement(element: ts.Expression, entry: string): boolean {
+  const literal = entry.match(/^(["'])(.*)\1$/);
+  if (literal && ts.isStringLiteral(element)) {
+    return element.text === literal[2];
+  }
+  return element.getText() === entry;
+}
+
+/**
+ * Pushes elements into an array literal, skipping values that are already present
+ * String literals follow the quote style of existing string elements. A missing
+ * array (and any missing objects above it) is created.
+ *
+ * @param source - Source code
+ * @param locator - Array to add to (its path must end at the array property)
+ * @param elements - Element texts (e.g., '"google"')
+ * @param position - Append the elements, or insert them before the first element
+ * @returns Updated source
+ * @throws Error if the locator can't be resolved or the path isn't an array
+ */
+export function addArrayElements(
+  source: string,
+  locator: SourceLocator,
+  elements: string[],
+  position: Exclude<InsertPosition, 'sorted'> = 'end'
+): string {
+  const sourceFile = parseSource(source);
+  const root = resolveRoot(sourceFile, locator);
+  const { node, missing } = walkPath(root, locator.path ?? []);
+
+  if (missing.length > 0) {
+    const arrayName = missing[missing.length - 1];
+    const parentLocator = { ...locator, path: (locator.path ?? []).slice(0, -1) };
+    return addObjectProperties(source, parentLocator, [`${arrayName}: [${elements.map(normalizeEntry).join(', ')}]`]);
+  }
+
+  if (!ts.isArrayLiteralExpression(node)) {
+    throw new Error(`${describeLocator(locator)} is not an array literal`);
+  }
+
+  const existingQuote = node.elements.find(ts.isStringLiteral)?.getText(sourceFile)[0];
+  const missingElements = elements
+    .map(normalizeEntry)
+    .map(entry =>
+      existingQuote && /^["'].*["']$/.test(entry)
+        ? `${existingQuote}${entry.slice(1, -1)}${existingQuote}`
+        : entry
+    )
+    .filter(entry => !node.elements.some(element => isSameElement(element, entry)));
+
+  if (missingElements.length === 0) {
+    return source;
+  }
+
+  return insertIntoList(sourceFile, toContainer(node), missingElements, position);
+}
+
+/**
+ * Removes an element from an array literal
+ *
+ * @param source - Source code
+ * @param locator - Array to remove from
+ * @param element - Element text (string literals match regardless of quote style)
+ * @returns Updated source (unchanged if the element isn't present)
+ * @throws Error if the element can't be removed safely
+ */
+export function removeArrayElement(source: string, locator: SourceLocator, element: string): string {
+  const sourceFile = parseSource(source);
+  const { node, missing } = walkPath(resolveRoot(sourceFile, locator), locator.path ?? []);
+  if (missing.length > 0 || !ts.isArrayLiteralExpression(node)) {
+    return source;
+  }
+
+  const existing = node.elements.find(candidate => isSameElement(candidate, element));
+  if (!existing) {
+    return source;
+  }
+
+  return removeFromList(sourceFile, toContainer(node), existing, element);
+}
+
+/**
+ * Returns the elements of an array literal as source text
+ *
+ * @param source - Source code
+ * @param locator - Array to inspect
+ * @returns Element texts (empty if the array doesn't exist)
+ * @throws Error if the root of the locator can't be found
+ */
+export function getArrayElements(source: string, locator: SourceLocator): string[] {
+  const sourceFile = parseSource(source);
+  const { node, missing } = walkPath(resolveRoot(sourceFile, locator), locator.path ?? []);
+  if (missing.length > 0 || !ts.isArrayLiteralExpression(node)) {
+    return [];
+  }
+  return node.elements.map(element => element.getText(sourceFile));
+}
+
+/**
+ * Adds a named import, merging into an existing import from the same module
+ * New import declarations follow the quote and semicolon style of the file's imports.
+ * Package and alias imports (e.g., '~/db/constants') are placed after the last
+ * non-relative import, so they stay ahead of the relative ones.
+ *
+ * @param source - Source code
+ * @param moduleSpecifier - Module to import from (e.g., 'better-auth/plugins')
+ * @param names - Named imports to add
+ * @param options - `typeOnly` for `import type { ... }`
+ * @returns Updated source (unchanged if every name is already imported)
+ */
+export function addImport(
+  source: string,
+  moduleSpecifier: string,
+  names: string[],
+  options: { typeOnly?: boolean } = {}
+): string {
+  const sourceFile = parseSource(source);
+  const imports = sourceFile.statements.filter(ts.isImportDeclaration);
+  const typeOnly = options.typeOnly ?? false;
+
+  const existing = imports.find(declaration =>
+    ts.isStringLiteral(declaration.moduleSpecifier) &&
+    declaration.moduleSpecifier.text === moduleSpecifier &&
+    (declaration.importClause?.isTypeOnly ?? false) === typeOnly &&
+    declaration.importClause?.namedBindings !== undefined &&
+    ts.isNamedImports(declaration.importClause.namedBindings)
+  );
+
+  if (existing) {
+    const namedImports = existing.importClause!.namedBindings as ts.NamedImports;
+    const missingNames = names.filter(
+      name => !namedImports.elements.some(element => element.name.text === name)
+    );
+    if (missingNames.length === 0) {
+      return source;
+    }
+    return insertIntoList(sourceFile, toContainer(namedImports), missingNames, 'end');
+  }
+
+  const reference = imports[0]?.getText(sourceFile);
+  const quote = reference?.match(/from\s+(["'])/)?.[1] ?? '"';
+  const semicolon = reference?.endsWith(';') ? ';' : '';
+  const statement =
+    `import ${typeOnly ? 'type ' : ''}{ ${names.join(', ')} } from ${quote}${moduleSpecifier}${quote}${semicolon}`;
+
+  const isRelative = (specifier: string) => specifier.startsWith('.');
+  const precedingImports = isRelative(moduleSpecifier)
+    ? imports
+    : imports.filter(declaration =>
+        ts.isStringLiteral(declaration.moduleSpecifier) && !isRelative(declaration.moduleSpecifier.text)
+      );
+  const lastImport = precedingImports[precedingImports.length - 1];
+  if (lastImport) {
+    return `${source.slice(0, lastImport.getEnd())}\n${statement}${source.slice(lastImport.getEnd())}`;
+  }
+
+  // Only relative imports so far
+  const firstImport = imports[0];
+  if (firstImport) {
+    const start = firstImport.getStart(sourceFile);
+    return `${source.slice(0, start)}${statement}\n\n${source.slice(start)}`;
+  }
+
+  // Keep directives such as "use client" first
+  const directives = sourceFile.statements.filter(
+    statement => ts.isExpressionStatement(statement) && ts.isStringLiteral(statement.expression)
+  );
+  const lastDirective = directives[directives.length - 1];
+  if (lastDirective) {
+    return `${source.slice(0, lastDirective.getEnd())}\n\n${statement}${source.slice(lastDirective.getEnd())}`;
+  }
+  return `${statement}\n\n${source}`;
+}
+
+/**
+ * Sets a JSX attribute on an element, replacing any existing attribute of the same name
+ *
+ * @param source - Source code
+ * @param element - Tag name or pattern of the element
+ * @param attribute - Complete attribute text (e.g., 'credentials={true}')
+ * @param position - Where to insert a new attribute (default: 'sorted')
+ * @returns Updated source
+ * @throws Error if the element can't be found
+ */
+export function setJsxAttribute(
+  source: string,
+  element: string | RegExp,
+  attribute: string,
+  position: InsertPosition = 'sorted'
+): string {
+  const sourceFile = parseSource(source);
+  const jsxElement = findJsxElement(sourceFile, element);
+  if (!jsxElement) {
+    throw new Error(`Could not find the ${typeof element === 'string' ? element : element.source} JSX element`);
+  }
+
+  const text = sourceFile.text;
+  const name = getEntryName(attribute) ?? attribute;
+  const attributes = jsxElement.attributes.properties;
+  const existing = findJsxAttribute(jsxElement, name);
+
+  if (existing) {
+    const indentation = getLineIndentation(text, existing.getStart(sourceFile));
+    return text.slice(0, existing.getStart(sourceFile)) +
+      indentContinuationLines(attribute, indentation) +
+      text.slice(existing.getEnd());
+  }
+
+  if (attributes.length === 0) {
+    const insertAt = jsxElement.tagName.getEnd();
+    return `${text.slice(0, insertAt)} ${attribute}${text.slice(insertAt)}`;
+  }
+
+  const multiline = isMultiline(sourceFile, jsxElement.attributes);
+  const indentation = getLineIndentation(text, attributes[0].getStart(sourceFile));
+  const entry = indentContinuationLines(attribute, indentation);
+  const before = position === 'start'
+    ? attributes[0]
+    : position === 'sorted'
+      ? attributes.find(candidate => {
+        const candidateName = getNodeName(candidate);
+        return candidateName !== undefined && compareNames(candidateName, name) > 0;
+      })
+      : undefined;
+
+  if (before) {
+    const insertAt = before.getStart(sourceFile);
+    return multiline
+      ? `${text.slice(0, insertAt)}${entry}\n${indentation}${text.slice(insertAt)}`
+      : `${text.slice(0, insertAt)}${entry} ${text.slice(insertAt)}`;
+  }
+
+  const insertAt = attributes[attributes.length - 1].getEnd();
+  return multiline
+    ? `${text.slice(0, insertAt)}\n${indentation}${entry}${text.slice(insertAt)}`
+    : `${text.slice(0, insertAt)} ${entry}${text.slice(insertAt)}`;
+}
+
+/**
+ * Checks whether an element has a JSX attribute
+ *
+ * @param source - Source code
+ * @param element - Tag name or pattern of the element
+ * @param name - Attribute name
+ * @returns True if the element exists and has the attribute
+ */
+export function hasJsxAttribute(source: string, element: string | RegExp, name: string): boolean {
+  const jsxElement = findJsxElement(parseSource(source), element);
+  return jsxElement !== undefined && findJsxAttribute(jsxElement, name) !== undefined;
+}
+
+/**
+ * Removes a JSX attribute from an element
+ *
+ * @param source - Source code
+ * @param element - Tag name or pattern of the element
+ * @param name - Attribute name
+ * @returns Updated source (unchanged if the element or attribute doesn't exist)
+ * @throws Error if the attribute shares a line with other code
+ */
+export function removeJsxAttribute(source: string, element: string | RegExp, name: string): string {
+  const sourceFile = parseSource(source);
+  const jsxElement = findJsxElement(sourceFile, element);
+  const attribute = jsxElement && findJsxAttribute(jsxElement, name);
+  if (!jsxElement || !attribute) {
+    return source;
+  }
+
+  const text = sourceFile.text;
+  const start = attribute.getStart(sourceFile);
+  const end = attribute.getEnd();
+
+  if (!isMultiline(sourceFile, jsxElement.attributes)) {
+    const leadingSpace = text.slice(0, start).match(/\s*$/)?.[0].length ?? 0;
+    return text.slice(0, start - leadingSpace) + text.slice(end);
+  }
+
+  const lineStart = text.lastIndexOf('\n', start - 1) + 1;
+  const lineEndIndex = text.indexOf('\n', end);
+  const lineEnd = lineEndIndex === -1 ? text.length : lineEndIndex;
+  if (text.slice(lineStart, start).trim() !== '' || text.slice(end, lineEnd).trim() !== '') {
+    throw new Error(`The ${name} prop shares a line with other code`);
+  }
+
+  return text.slice(0, lineStart) + text.slice(lineEnd + 1);
+}
@@ -9,9 +9,107 @@
 import { execa } from 'execa';
 import ora from 'ora';
 import crypto from 'crypto';
-import type { ProjectOptions, PackageManager } from './types.js';
-import { copyTemplate } from '../helpers/fileOperations.js';
-import { DEFAULT_THEME } from './string-utils.js';
+import { basename, dirname, extname, join } from 'path';
+import type {
+  ProjectOptions,
+  PackageManager,
+  ProjectFilePaths,
+  Framework,
+  CustomOIDCProvider,
+  EmailPasswordOptions,
+} from './types.js';
+import fs from 'fs-extra';
+import sortPackageJson from 'sort-package-json';
+import {
+  copyFeatureTemplate,
+  copyTemplate,
+  createStagingDirectory,
+  commitStagingDirectory,
+} from '../helpers/fileOperations.js';
+import { diskFileSystem, MemoryFileSystem } from '../helpers/fileSystem.js';
+import type { ProjectFileSystem } from '../helpers/fileSystem.js';
+import {
+  replacePlaceholder,
+  generateSocialProviderEntry,
+  generateEnvVarsBlock,
+  generateEnvTsServerSchema,
+  generateEnvTsRuntimeMapping,
+  generateGenericOAuthConfigEntry,
+  generateGenericOAuthUIEntry,
+  generateCustomOIDCEnvSchema,
+  generateCustomOIDCEnvRuntimeMapping,
+  generateCustomOIDCEnvVarsBlock,
+  generateCustomOIDCReadme,
+  generateEnvLocal,
+  OAUTH_ENV_HEADING,
+  generateAuthPluginEnvVarsBlock,
+  generateEnvVariablesBlock,
+  generateEmailPasswordProperties,
+  generateEmailVerificationConfig,
+  generateCredentialsValue,
+} from './string-utils.js';
+import {
+  addSocialProvider,
+  addUIProvider,
+  addEnvConfigEntries,
+  addEnvVariables,
+  addReadmeSection,
+  addGenericOAuthProvider,
+  addGenericOAuthClient,
+  addGenericOAuthUIProvider,
+  removeSocialProvider,
+  removeUIProvider,
+  removeEnvConfigEntries,
+  removeEnvVariables,
+  removeReadmeSection,
+  addBrandThemes,
+  addServerPlugins,
+  addClientPlugins,
+  addSchemaTable,
+  addSchemaFields,
+  addTableSlugConstant,
+  addPluginsContextParameter,
+  addUIProviderProps,
+  passPluginsContext,
+  addDependencies,
+  addAuthFeatureReadmeSection,
+  addEmailPasswordAuth,
+  setCredentialsProp,
+  addConvexModules,
+  getConvexModulePath,
+  addConstantsExport,
+  addFileRoutes,
+  getFileRoutePath,
+} from './code-edits.js';
+import { getProvider } from './providers.js';
+import { getAuthPlugin, getDefaultAuthPluginIds } from './plugins.js';
+import { AUTH_EMAILS, resolveEmailPasswordOptions, sendsAuthEmails } from './email-password.js';
+import { getBundledTheme } from './themes.js';
+import {
+  normalizeThemeCSS,
+  replaceThemeBlocks,
+  extractThemeCSS,
+  parseThemeVariables,
+  scopeThemeCSS,
+  setScopedTheme,
+} from '../utils/tweakcn-converter.js';
+import { auditThemeContrast } from '../utils/theme-contrast.js';
+import { addFontDependencies, addFontsToStylesheet, detectThemeFonts } from '../utils/theme-fonts.js';
+import { deriveDarkTheme } from '../utils/theme-dark-palette.js';
+import { displayContrastReport } from '../utils/messages.js';
+import type { InsertPosition } from './ast-transforms.js';
+
+/**
+ * Wraps an error thrown by an initialization step so the message names the failed step
+ *
+ * @param step - Human-readable step name (e.g., 'Configuring authentication')
+ * @param error - The original error
+ * @returns Error whose message is prefixed with the step name
+ */
+function stepError(step: string, error: unknown): Error {
+  const message = error instanceof Error ? error.message : 'Unknown error';
+  return new Error(`${step} failed: ${message}`, { cause: error });
+}
 
 /**
  * Abstract base class for framework-specific installers
@@ -23,10 +121,12 @@ export abstract class FrameworkInstaller {
    *
    * @param targetPath - Absolute path to the target project directory
    * @param projectName - Name of the project
+   * @param fileSystem - File system project files are written to (defaults to disk, in-memory for dry runs)
    */
   constructor(
     protected targetPath: string,
-    protected projectName: string
+    protected projectName: string,
+    protected fileSystem: ProjectFileSystem = diskFileSystem
   ) {}
 
   /**
@@ -35,6 +135,26 @@ export abstract class FrameworkInstaller {
    */
   abstract get frameworkName(): string;
 
+  /**
+   * Abstract property: Framework-specific project file locations
+   * Used by configuration steps and by commands that edit existing projects
+   */
+  abstract get projectFiles(): ProjectFilePaths;
+
+  /**
+   * Abstract property: Environment variables holding the app's own URL
+   * Written to .env.local with the local development default
+   */
+  abstract get siteUrlEnvVars(): string[];
+
+  /**
+   * Where new entries are added to the typed env configuration
+   * Frameworks whose lint config enforces sorted keys override this with 'sorted'
+   */
+  get envEntryPosition(): InsertPosition {
+    return 'end';
+  }
+
   /**
    * Abstract method: Update OAuth configuration in auth file
    * Framework-specific file path and configuration format
@@ -96,7 +216,536 @@ export abstract class FrameworkInstaller {
    * Uses existing copyTemplate utility from fileOperations
    */
   protected async copyBaseFiles(): Promise<void> {
-    await copyTemplate(this.frameworkName, this.targetPath);
+    await copyTemplate(this.frameworkName, this.targetPath, this.fileSystem);
+  }
+
+  /**
+   * Replace a placeholder in a project file through the installer's file system
+   * Thin wrapper around replacePlaceholder so dry runs never touch disk
+   *
+   * @param filePath - Absolute path to the file
+   * @param placeholder - The placeholder to replace (e.g., '// {{OAUTH_PROVIDERS}}')
+   * @param content - The content to insert in place of the placeholder
+   * @param options - Optional configuration for error handling
+   */
+  protected async replacePlaceholder(
+    filePath: string,
+    placeholder: string,
+    content: string,
+    options?: { graceful?: boolean; inline?: boolean }
+  ): Promise<void> {
+    await replacePlaceholder(filePath, placeholder, content, {
+      ...options,
+      fileSystem: this.fileSystem,
+    });
+  }
+
+  /**
+   * Edit a source file through AST transforms, with placeholder replacement as a fallback
+   * Templates that still mark insertion points with placeholder comments are filled
+   * in by replacing those placeholders; otherwise the transform edits the code directly.
+   *
+   * @param relativePath - Project-relative path of the file
+   * @param transform - AST-based content transform
+   * @param placeholders - Map of placeholder to replacement content for the fallback
+   */
+  protected async transformSourceFile(
+    relativePath: string,
+    transform: (content: string) => string,
+    placeholders: Record<string, string>
+  ): Promise<void> {
+    const filePath = join(this.targetPath, relativePath);
+    const content = await this.fileSystem.readFile(filePath);
+    const presentPlaceholders = Object.keys(placeholders).filter(placeholder =>
+      content.includes(placeholder)
+    );
+
+    if (presentPlaceholders.length > 0) {
+      for (const placeholder of presentPlaceholders) {
+        await this.replacePlaceholder(filePath, placeholder, placeholders[placeholder]);
+      }
+      return;
+    }
+
+    await this.fileSystem.writeFile(filePath, transform(content));
+  }
+
+  /**
+   * Apply a set of edits to existing project files as a single unit
+   * All edits are computed before anything is written, so a file that can't be
+   * parsed leaves the whole project unchanged
+   *
+   * @param edits - Map of project-relative file path to content transform
+   * @returns Relative paths of the files whose content changed
+   * @throws Error naming the file that could not be edited
+   */
+  protected async editProjectFiles(
+    edits: Record<string, (content: string) => string>
+  ): Promise<string[]> {
+    const updates: Array<{ path: string; content: string }> = [];
+
+    for (const [relativePath, transform] of Object.entries(edits)) {
+      const filePath = join(this.targetPath, relativePath);
+      const content = await this.fileSystem.readFile(filePath);
+
+      let updatedContent: string;
+      try {
+        updatedContent = transform(content);
+      } catch (error) {
+        throw new Error(
+          `Could not safely update ${relativePath}: ${error instanceof Error ? error.message : 'Unknown error'}`
+        );
+      }
+
+      if (updatedContent !== content) {
+        updates.push({ path: relativePath, content: updatedContent });
+      }
+    }
+
+    for (const update of updates) {
+      await this.fileSystem.writeFile(join(this.targetPath, update.path), update.content);
+    }
+
+    return updates.map(update => update.path);
+  }
+
+  /**
+   * Personalize the template's package.json
+   * Sets the package name (the template ships as "tmp") and normalizes key and
+   * script order with sort-package-json
+   */
+  protected async updatePackageJson(): Promise<void> {
+    const packageJsonPath = join(this.targetPath, 'package.json');
+    const packageJson = JSON.parse(await this.fileSystem.readFile(packageJsonPath)) as Record<string, unknown>;
+    packageJson.name = this.projectName;
+
+    await this.fileSystem.writeFile(
+      packageJsonPath,
+      `${JSON.stringify(sortPackageJson(packageJson), null, 2)}\n`
+    );
+  }
+
+  /**
+   * Write a git-ignored .env.local the project can run with immediately
+   * Holds a freshly generated BETTER_AUTH_SECRET, site URL defaults and empty
+   * slots for every selected provider variable
+   *
+   * @param options - Project configuration options from CLI survey
+   */
+  protected async writeEnvLocal(options: ProjectOptions): Promise<void> {
+    await this.fileSystem.writeFile(
+      join(this.targetPath, this.projectFiles.envLocal),
+      generateEnvLocal({
+        authSecret: this.generateAuthSecret(),
+        siteUrlVars: this.siteUrlEnvVars,
+        oauthProviders: options.oauthProviders,
+        customOIDCProvider: options.customOIDCProvider,
+        framework: this.frameworkName as Framework,
+      })
+    );
+  }
+
+  /**
+   * Add an OAuth provider to an already generated project
+   * Inserts the provider into the socialProviders block, UI providers list,
+   * env schema, .env.example and README. Safe to run repeatedly.
+   *
+   * @param providerId - Provider ID to add (e.g., 'google')
+   * @returns Relative paths of the files that changed (empty if already configured)
+   * @throws Error if the provider is unknown or a file can't be safely parsed
+   */
+  async addOAuthProvider(providerId: string): Promise<string[]> {
+    const provider = getProvider(providerId);
+    if (!provider) {
+      throw new Error(`Unknown OAuth provider: ${providerId}`);
+    }
+
+    const files = this.projectFiles;
+    const envBlock = generateEnvVarsBlock([providerId], this.frameworkName as Framework);
+    const edits: Record<string, (content: string) => string> = {
+      [files.authConfig]: (content) =>
+        addSocialProvider(content, generateSocialProviderEntry(providerId)),
+      [files.authUIConfig]: (content) => addUIProvider(content, providerId),
+      [files.envConfig]: (content) =>
+        addEnvConfigEntries(
+          addEnvConfigEntries(
+            content,
+            'server',
+            generateEnvTsServerSchema([providerId]).split('\n'),
+            this.envEntryPosition
+          ),
+          'runtimeEnv',
+          generateEnvTsRuntimeMapping([providerId]).split('\n'),
+          this.envEntryPosition
+        ),
+      [files.envExample]: (content) => addEnvVariables(content, envBlock, OAUTH_ENV_HEADING),
+      [files.readme]: (content) =>
+        provider.readme
+          ? addReadmeSection(content, provider.readme.title, provider.readme.content)
+          : content,
+    };
+
+    // .env.local is git-ignored, so it may have been deleted or never generated
+    if (await this.fileSystem.pathExists(join(this.targetPath, files.envLocal))) {
+      edits[files.envLocal] = (content) => addEnvVariables(content, envBlock, OAUTH_ENV_HEADING);
+    }
+
+    return this.editProjectFiles(edits);
+  }
+
+  /**
+   * Replace the theme in a generated project's stylesheet
+   * Normalizes the theme to OKLCH, swaps it in for the existing :root/.dark blocks
+   * and wires up any fonts it declares. Light-only themes get a derived dark palette
+   * in place of the old .dark block.
+   *
+   * @param themeCSS - Theme CSS as copied from TweakCN
+   * @returns Relative paths of the files that changed and the variables the theme lacks
+   * @throws Error if the theme has no variables or the stylesheet has no theme block
+   */
+  async applyTheme(themeCSS: string): Promise<{ changedFiles: string[]; missingVariables: string[] }> {
+    const fonts = detectThemeFonts(themeCSS);
+    let missingVariables: string[] = [];
+
+    const changedFiles = await this.editProjectFiles({
+      [this.projectFiles.themeCSS]: (content) => {
+        const normalized = normalizeThemeCSS(themeCSS, content);
+        missingVariables = normalized.missingVariables;
+        const darkTheme = parseThemeVariables(normalized.css).hasDark ? undefined : deriveDarkTheme(normalized.css);
+        const css = darkTheme ? `${normalized.css}\n\n${darkTheme}` : normalized.css;
+        return addFontsToStylesheet(replaceThemeBlocks(content, css), fonts);
+      },
+      ...(fonts.length > 0 && {
+        'package.json': (content: string) => addFontDependencies(content, fonts),
+      }),
+    });
+
+    return { changedFiles, missingVariables };
+  }
+
+  /**
+   * Wire the fonts a theme declares into the project
+   * Imports each Fontsource package in the theme stylesheet, points the @theme inline
+   * font variables at the theme's stacks and adds the packages to package.json
+   *
+   * @param themeCSS - Theme CSS
+   * @returns Fontsource packages that were added
+   */
+  protected async applyThemeFonts(themeCSS: string): Promise<string[]> {
+    const fonts = detectThemeFonts(themeCSS);
+    if (fonts.length === 0) {
+      return [];
+    }
+
+    await this.editProjectFiles({
+      [this.projectFiles.themeCSS]: (content) => addFontsToStylesheet(content, fonts),
+      'package.json': (content) => addFontDependencies(content, fonts),
+    });
+
+    return fonts.flatMap(font => (font.package ? [font.package] : []));
+  }
+
+  /**
+   * Add themes users can switch to at runtime
+   * Each theme is emitted as a [data-theme="name"] block in the theme stylesheet and
+   * registered in the theme provider's brandThemes list. Light-only themes get a
+   * derived dark palette, so dark mode never falls back to their light colors.
+   * Re-adding a theme replaces its blocks in place.
+   *
+   * @param themes - Theme names and CSS (bundled or as copied from TweakCN)
+   * @returns Relative paths of the files that changed
+   * @throws Error if a theme has no variables or a file can't be safely edited
+   */
+  async addRuntimeThemes(themes: Array<{ name: string; css: string }>): Promise<string[]> {
+    return this.editProjectFiles({
+      [this.projectFiles.themeCSS]: (content) =>
+        themes.reduce((stylesheet, theme) => {
+          const normalized = normalizeThemeCSS(theme.css).css;
+          const darkTheme = parseThemeVariables(normalized).hasDark ? undefined : deriveDarkTheme(normalized);
+          const themeCSS = darkTheme ? `${normalized}\n\n${darkTheme}` : normalized;
+          return setScopedTheme(stylesheet, theme.name, scopeThemeCSS(themeCSS, theme.name));
+        }, content),
+      [this.projectFiles.themeProvider]: (content) =>
+        addBrandThemes(content, themes.map(theme => theme.name)),
+    });
+  }
+
+  /**
+   * Read the current theme from a generated project's stylesheet
+   *
+   * @returns TweakCN-compatible :root and .dark blocks
+   * @throws Error if the stylesheet has no theme block
+   */
+  async exportTheme(): Promise<string> {
+    const content = await this.fileSystem.readFile(join(this.targetPath, this.projectFiles.themeCSS));
+    return extractThemeCSS(content);
+  }
+
+  /**
+   * Add a custom OpenID Connect provider to a generated project
+   * Registers the provider with the genericOAuth server plugin, the genericOAuthClient
+   * client plugin and the better-auth-ui genericOAuth prop, and adds its env schema,
+   * .env.example entries and README section. Safe to run repeatedly.
+   *
+   * @param provider - Custom provider (ID, display name and discovery URL)
+   * @returns Relative paths of the files that changed (empty if already configured)
+   * @throws Error if a file can't be safely parsed
+   */
+  async addCustomOIDCProvider(provider: CustomOIDCProvider): Promise<string[]> {
+    const files = this.projectFiles;
+    const readme = generateCustomOIDCReadme(provider);
+    const edits: Record<string, (content: string) => string> = {};
+
+    // Next.js keeps the auth client and the UI provider in the same file, so chain edits per file
+    const addEdit = (relativePath: string, transform: (content: string) => string) => {
+      const previous = edits[relativePath];
+      edits[relativePath] = previous ? (content) => transform(previous(content)) : transform;
+    };
+
+    addEdit(files.authPlugins, (content) =>
+      addGenericOAuthProvider(content, provider.id, generateGenericOAuthConfigEntry(provider))
+    );
+    addEdit(files.authClient, addGenericOAuthClient);
+    addEdit(files.authUIConfig, (content) =>
+      addGenericOAuthUIProvider(content, provider.id, generateGenericOAuthUIEntry(provider))
+    );
+    addEdit(files.envConfig, (content) =>
+      addEnvConfigEntries(
+        addEnvConfigEntries(
+          content,
+          'server',
+          generateCustomOIDCEnvSchema(provider).split('\n'),
+          this.envEntryPosition
+        ),
+        'runtimeEnv',
+        generateCustomOIDCEnvRuntimeMapping(provider).split('\n'),
+        this.envEntryPosition
+      )
+    );
+    addEdit(files.envExample, (content) =>
+      addEnvVariables(content, generateCustomOIDCEnvVarsBlock(provider))
+    );
+    addEdit(files.readme, (content) => addReadmeSection(content, readme.title, readme.content));
+
+    return this.editProjectFiles(edits);
+  }
+
+  /**
+   * Add Better Auth plugins to a generated project
+   * Registers each plugin in createPlugins() and the Better Auth client, turns on
+   * its better-auth-ui props, adds its Convex tables, fields and table slug
+   * constants, dependencies, .env.example entries, README notes and feature
+   * templates (e.g., convex/email). Safe to run repeatedly.
+   *
+   * @param pluginIds - Plugin IDs from the plugin registry, in registration order
+   * @returns Relative paths of the files that changed (empty if already configured)
+   * @throws Error if a plugin is unknown or a file can't be safely parsed
+   */
+  async addAuthPlugins(pluginIds: string[]): Promise<string[]> {
+    const plugins = pluginIds.map(id => {
+      const plugin = getAuthPlugin(id);
+      if (!plugin) {
+        throw new Error(`Unknown auth plugin: ${id}`);
+      }
+      return plugin;
+    });
+
+    const files = this.projectFiles;
+    const tables = plugins.flatMap(plugin => plugin.schema?.tables ?? []);
+    const dependencies = Object.assign({}, ...plugins.map(plugin => plugin.dependencies));
+    const devDependencies = Object.assign({}, ...plugins.map(plugin => plugin.devDependencies));
+    const usesContext = plugins.some(plugin => plugin.server.usesContext);
+    const envHeadings = [...new Set(plugins.filter(plugin => plugin.env).map(plugin => plugin.envHeading))];
+    const uiProps = plugins.flatMap(plugin => plugin.uiProps ?? []);
+    const edits: Record<string, (content: string) => string> = {};
+
+    // Next.js keeps the auth client and the UI provider in the same file, so chain edits per file
+    const addEdit = (relativePath: string, transform: (content: string) => string) => {
+      const previous = edits[relativePath];
+      edits[relativePath] = previous ? (content) => transform(previous(content)) : transform;
+    };
+
+    addEdit(files.authPlugins, (content) =>
+      addServerPlugins(
+        usesContext ? addPluginsContextParameter(content) : content,
+        plugins.map(plugin => plugin.server)
+      )
+    );
+    if (usesContext) {
+      addEdit(files.authConfig, passPluginsContext);
+    }
+    addEdit(files.authClient, (content) =>
+      addClientPlugins(content, plugins.flatMap(plugin => (plugin.client ? [plugin.client] : [])))
+    );
+    addEdit(files.authUIConfig, (content) => addUIProviderProps(content, uiProps));
+    addEdit(files.convexSchema, (content) =>
+      plugins
+        .flatMap(plugin => Object.entries(plugin.schema?.fields ?? {}))
+        .reduce(
+          (schema, [table, fields]) => addSchemaFields(schema, table, fields),
+          tables.reduce(addSchemaTable, content)
+        )
+    );
+    addEdit(files.dbConstants, (content) =>
+      tables.reduce((constants, table) => addTableSlugConstant(constants, table.constant, table.slug), content)
+    );
+    addEdit('package.json', (content) =>
+      addDependencies(addDependencies(content, dependencies), devDependencies, 'devDependencies')
+    );
+    addEdit(files.envExample, (content) =>
+      envHeadings.reduce<string>((envExample, heading) => {
+        const headingPluginIds = plugins
+          .filter(plugin => plugin.env && plugin.envHeading === heading)
+          .map(plugin => plugin.id);
+        const envBlock = generateAuthPluginEnvVarsBlock(headingPluginIds, this.frameworkName as Framework);
+        return addEnvVariables(envExample, envBlock, heading);
+      }, content)
+    );
+    addEdit(files.readme, (content) =>
+      plugins.reduce(
+        (readme, plugin) =>
+          plugin.readme ? addAuthFeatureReadmeSection(readme, plugin.readme.title, plugin.readme.content) : readme,
+        content
+      )
+    );
+
+    const changedFiles = await this.editProjectFiles(edits);
+
+    // Feature templates add new files, so they are copied once every edit has succeeded
+    const features = [...new Set(plugins.flatMap(plugin => plugin.templates ?? []))];
+    changedFiles.push(...await this.copyFeatureTemplates(features));
+
+    return changedFiles;
+  }
+
+  /**
+   * Configure the email & password sub-options in a generated project
+   * Sets the minimum password length and the Better Auth callbacks that send
+   * verification and password reset emails, matches the better-auth-ui credentials
+   * prop to them, and adds the React email templates with the convex/email
+   * transport and dev mailbox, their dependencies, .env.example entries and README notes.
+   * Safe to run repeatedly.
+   *
+   * @param emailPasswordOptions - Sub-options (unset ones use DEFAULT_EMAIL_PASSWORD_OPTIONS)
+   * @returns Relative paths of the files that changed (empty if already configured)
+   * @throws Error if a file can't be safely parsed
+   */
+  async addEmailPasswordFlows(emailPasswordOptions?: EmailPasswordOptions): Promise<string[]> {
+    const options = resolveEmailPasswordOptions(emailPasswordOptions);
+    const files = this.projectFiles;
+    const edits: Record<string, (content: string) => string> = {
+      [files.authConfig]: (content) =>
+        addEmailPasswordAuth(content, generateEmailPasswordProperties(options), generateEmailVerificationConfig(options)),
+      [files.authUIConfig]: (content) => setCredentialsProp(content, generateCredentialsValue(true, options)),
+    };
+
+    const sendsEmails = sendsAuthEmails(options);
+    if (sendsEmails) {
+      const envBlock = generateEnvVariablesBlock(AUTH_EMAILS.env, this.frameworkName as Framework);
+      edits['package.json'] = (content) =>
+        addDependencies(
+          addDependencies(content, AUTH_EMAILS.dependencies),
+          AUTH_EMAILS.devDependencies,
+          'devDependencies'
+        );
+      edits[files.convexSchema] = (content) => AUTH_EMAILS.schema.tables.reduce(addSchemaTable, content);
+      edits[files.dbConstants] = (content) =>
+        AUTH_EMAILS.schema.tables.reduce(
+          (constants, table) => addTableSlugConstant(constants, table.constant, table.slug),
+          content
+        );
+      edits[files.envExample] = (content) => addEnvVariables(content, envBlock, AUTH_EMAILS.envHeading);
+      edits[files.readme] = (content) =>
+        addAuthFeatureReadmeSection(content, AUTH_EMAILS.readme.title, AUTH_EMAILS.readme.content);
+    }
+
+    const changedFiles = await this.editProjectFiles(edits);
+
+    // Feature templates add new files, so they are copied once every edit has succeeded
+    if (sendsEmails) {
+      changedFiles.push(...await this.copyFeatureTemplates(AUTH_EMAILS.templates));
+    }
+
+    return changedFiles;
+  }
+
+  /**
+   * Copy feature templates into the project and register the files they add
+   * Generated files only change when `convex dev` or the router plugin runs, so new
+   * Convex modules are added to convex/_generated/api.d.ts and new TanStack routes to
+   * src/routeTree.gen.ts here; new constants modules are re-exported from the
+   * constants index. This keeps the project type-checking right after scaffolding.
+   *
+   * @param features - Feature template names (e.g., ['email'])
+   * @returns Relative paths of the files that were added or changed
+   */
+  protected async copyFeatureTemplates(features: string[]): Promise<string[]> {
+    const added: string[] = [];
+    for (const feature of features) {
+      added.push(...await copyFeatureTemplate(feature, this.frameworkName, this.targetPath, this.fileSystem));
+    }
+
+    const files = this.projectFiles;
+    const modulePaths = added.flatMap(relativePath => getConvexModulePath(relativePath) ?? []);
+    const constantsDir = dirname(files.dbConstants);
+    const constantsModules = added
+      .filter(relativePath => dirname(relativePath) === constantsDir && relativePath !== files.dbConstants)
+      .map(relativePath => basename(relativePath, extname(relativePath)));
+    const edits: Record<string, (content: string) => string> = {
+      [files.convexApi]: (content) => addConvexModules(content, modulePaths),
+      [files.dbConstants]: (content) => constantsModules.reduce(addConstantsExport, content),
+    };
+
+    const routeTree = files.routeTree;
+    if (routeTree) {
+      const routePaths = added.flatMap(relativePath => getFileRoutePath(relativePath) ?? []);
+      edits[routeTree] = (content) => addFileRoutes(content, routePaths);
+    }
+
+    const changedFiles = await this.editProjectFiles(edits);
+    return [...added, ...changedFiles];
+  }
+
+  /**
+   * Remove an OAuth provider from an already generated project
+   * Removes the provider from the socialProviders block, UI providers list,
+   * env schema, .env.example and README. Safe to run repeatedly.
+   *
+   * @param providerId - Provider ID to remove (e.g., 'twitter')
+   * @returns Relative paths of the files that changed (empty if not configured)
+   * @throws Error if the provider is unknown or a file can't be safely parsed
+   */
+  async removeOAuthProvider(providerId: string): Promise<string[]> {
+    const provider = getProvider(providerId);
+    if (!provider) {
+      throw new Error(`Unknown OAuth provider: ${providerId}`);
+    }
+
+    const files = this.projectFiles;
+    const envKeys = generateEnvTsServerSchema([providerId])
+      .split('\n')
+      .map(line => line.slice(0, line.indexOf(':')).trim())
+      .filter(Boolean);
+
+    const edits: Record<string, (content: string) => string> = {
+      [files.authConfig]: (content) => removeSocialProvider(content, providerId),
+      [files.authUIConfig]: (content) => removeUIProvider(content, providerId),
+      [files.envConfig]: (content) =>
+        removeEnvConfigEntries(
+          removeEnvConfigEntries(content, 'server', envKeys),
+          'runtimeEnv',
+          envKeys
+        ),
+      [files.envExample]: (content) => removeEnvVariables(content, envKeys),
+      [files.readme]: (content) =>
+        provider.readme ? removeReadmeSection(content, provider.readme.title) : content,
+    };
+
+    if (await this.fileSystem.pathExists(join(this.targetPath, files.envLocal))) {
+      edits[files.envLocal] = (content) => removeEnvVariables(content, envKeys);
+    }
+
+    return this.editProjectFiles(edits);
   }
 
   /**
@@ -314,11 +963,66 @@ export abstract class FrameworkInstaller {
 
   /**
    * Main orchestration method for project initialization
-   * Coordinates all setup steps in sequence
+   * Scaffolds into a staging directory and only moves the files into the target
+   * path once every step has succeeded, so a failed step never leaves a
+   * half-written project behind
    *
    * @param options - Project configuration options from CLI survey
    */
   async initProject(options: ProjectOptions): Promise<void> {
+    // Dry runs write to memory, so there is nothing to stage or roll back
+    if (this.fileSystem instanceof MemoryFileSystem) {
+      await this.scaffoldFiles(options);
+      return;
+    }
+
+    // Every step resolves paths from this.targetPath, so point it at the staging directory
+    const targetPath = this.targetPath;
+    const stagingPath = await createStagingDirectory();
+    this.targetPath = stagingPath;
+
+    try {
+      await this.scaffoldFiles(options);
+    } catch (error) {
+      await fs.remove(stagingPath);
+      ora().info(`Rolled back: ${targetPath} was left unchanged`);
+      throw error;
+    } finally {
+      this.targetPath = targetPath;
+    }
+
+    // Move the staged files into place (restores the target on failure)
+    try {
+      await commitStagingDirectory(stagingPath, targetPath);
+    } catch (error) {
+      ora().info(`Rolled back: ${targetPath} was left unchanged`);
+      throw stepError('Moving project files into place', error);
+    }
+
+    // Step 12: Initialize Git repository (optional)
+    if (options.initGit) {
+      await this.initGitRepo();
+    }
+
+    // Step 13: Install dependencies (optional)
+    if (options.installDependencies) {
+      await this.installDependencies();
+
+      // Step 14: Lint and fix code (import sorting, etc.)
+      await this.lintCode();
+
+      // Step 15: Format code with Prettier
+      await this.formatCode();
+    }
+  }
+
+  /**
+   * Write all project files: copy the template and run every configuration step
+   * Steps 1-11 of project initialization; each failure names the step that failed
+   *
+   * @param options - Project configuration options from CLI survey
+   */
+  protected async scaffoldFiles(options: ProjectOptions): Promise<void> {
     // Step 1: Copy base template files
     const copySpinner = ora('Copying template files...').start();
     try {
@@ -326,7 +1030,7 @@ export abstract class FrameworkInstaller {
       copySpinner.succeed('Template files copied');
     } catch (error) {
       copySpinner.fail('Failed to copy template files');
-      throw error;
+      throw stepError('Copying template files', error);
     }
 
     // Step 2: Configure OAuth providers and email/password auth (always call to handle placeholder removal)
@@ -340,7 +1044,7 @@ export abstract class FrameworkInstaller {
       }
     } catch (error) {
       authSpinner.fail('Failed to configure authentication');
-      throw error;
+      throw stepError('Configuring authentication', error);
     }
 
     // Step 3: Configure OAuth UI (always call to handle placeholder removal)
@@ -357,7 +1061,7 @@ export abstract class FrameworkInstaller {
       }
     } catch (error) {
       oauthUISpinner.fail('Failed to configure OAuth UI');
-      throw error;
+      throw stepError('Configuring OAuth UI', error);
     }
 
     // Step 4: Update environment variables .env.example (always call to handle placeholder removal)
@@ -371,7 +1075,7 @@ export abstract class FrameworkInstaller {
       }
     } catch (error) {
       envSpinner.fail('Failed to update .env.example');
-      throw error;
+      throw stepError('Updating .env.example', error);
     }
 
     // Step 5: Update typed environment configuration (always call to handle placeholder removal)
@@ -385,7 +1089,7 @@ export abstract class FrameworkInstaller {
       }
     } catch (error) {
       envTsSpinner.fail('Failed to update typed env configuration');
-      throw error;
+      throw stepError('Updating typed env configuration', error);
     }
 
     // Step 6: Update README with OAuth setup guides (always call to handle placeholder removal)
@@ -399,43 +1103,110 @@ export abstract class FrameworkInstaller {
       }
     } catch (error) {
       readmeSpinner.fail('Failed to update README');
-      throw error;
+      throw stepError('Updating README', error);
     }
 
-    // Step 7: Apply TweakCN theme or use default
-    const themeSpinner = ora('Applying theme...').start();
+    // Step 7: Configure Better Auth plugins (the template ships without optional plugins)
+    const authPlugins = options.authPlugins ?? getDefaultAuthPluginIds();
+    const pluginsSpinner = ora('Configuring auth plugins...').start();
     try {
-      let themeContent: string;
-
-      if (options.tweakcnTheme && options.tweakcnTheme.type === 'css') {
-        // Use pasted CSS content directly
-        themeContent = options.tweakcnTheme.content;
-        await this.applyTweakCNTheme(themeContent);
-        themeSpinner.succeed('TweakCN theme applied');
+      await this.addAuthPlugins(authPlugins);
+      if (authPlugins.length > 0) {
+        pluginsSpinner.succeed(
+          `Auth plugins configured: ${authPlugins.map(id => getAuthPlugin(id)!.name).join(', ')}`
+        );
       } else {
-        // Use default theme from string-utils.ts (already in OKLCH format)
-        await this.applyTweakCNTheme(DEFAULT_THEME);
-        themeSpinner.succeed('Default theme applied');
+        pluginsSpinner.succeed('No auth plugins selected');
       }
     } catch (error) {
-      themeSpinner.fail('Failed to apply theme');
-      throw error;
+      pluginsSpinner.fail('Failed to configure auth plugins');
+      throw stepError('Configuring auth plugins', error);
     }
 
-    // Step 8: Initialize Git repository (optional)
-    if (options.initGit) {
-      await this.initGitRepo();
+    // Step 8: Configure email verification and password reset (email & password only)
+    if (options.emailPasswordAuth) {
+      const emailPasswordSpinner = ora('Configuring email & password flows...').start();
+      try {
+        await this.addEmailPasswordFlows(options.emailPasswordOptions);
+        emailPasswordSpinner.succeed('Email & password flows configured');
+      } catch (error) {
+        emailPasswordSpinner.fail('Failed to configure email & password flows');
+        throw stepError('Configuring email & password flows', error);
+      }
     }
 
-    // Step 9: Install dependencies (optional)
-    if (options.installDependencies) {
-      await this.installDependencies();
+    // Step 9: Configure the custom OpenID Connect provider (optional)
+    if (options.customOIDCProvider) {
+      const oidcSpinner = ora(`Configuring ${options.customOIDCProvider.name} (OpenID Connect)...`).start();
+      try {
+        await this.addCustomOIDCProvider(options.customOIDCProvider);
+        oidcSpinner.succeed(`${options.customOIDCProvider.name} (OpenID Connect) configured`);
+      } catch (error) {
+        oidcSpinner.fail('Failed to configure custom OpenID Connect provider');
+        throw stepError('Configuring custom OpenID Connect provider', error);
+      }
+    }
 
-      // Step 10: Lint and fix code (import sorting, etc.)
-      await this.lintCode();
+    // Step 10: Personalize package.json and write .env.local
+    const configSpinner = ora('Writing package.json and .env.local...').start();
+    try {
+      await this.updatePackageJson();
+      await this.writeEnvLocal(options);
+      configSpinner.succeed('package.json and .env.local written');
+    } catch (error) {
+      configSpinner.fail('Failed to write package.json and .env.local');
+      throw stepError('Writing package.json and .env.local', error);
+    }
 
-      // Step 11: Format code with Prettier
-      await this.formatCode();
+    // Step 11: Apply TweakCN theme or use default
+    const themeSpinner = ora('Applying theme...').start();
+    try {
+      let themeContent: string;
+
+      if (options.tweakcnTheme && options.tweakcnTheme.type === 'css') {
+        // Normalize pasted CSS to OKLCH and check it against the template's @theme inline mappings
+        const templateCSS = await this.fileSystem.readFile(join(this.targetPath, this.projectFiles.themeCSS));
+        const normalized = normalizeThemeCSS(options.tweakcnTheme.content, templateCSS);
+        themeContent = normalized.css;
+        await this.applyTweakCNTheme(themeContent);
+        const fontPackages = await this.applyThemeFonts(themeContent);
+
+        if (normalized.missingVariables.length > 0) {
+          themeSpinner.warn(
+            `TweakCN theme applied, but it does not define: ${normalized.missingVariables.join(', ')}`
+          );
+        } else {
+          themeSpinner.succeed('TweakCN theme applied');
+        }
+        if (fontPackages.length > 0) {
+          ora().info(`Theme fonts: ${fontPackages.join(', ')}`);
+        }
+        displayContrastReport(auditThemeContrast(normalized.css), { onlyFailures: true });
+      } else {
+        // Use a bundled theme from themes.ts (already in OKLCH format)
+        const theme = getBundledTheme(options.themeName ?? 'default');
+        if (!theme) {
+          throw new Error(`Unknown theme: ${options.themeName}`);
+        }
+        await this.applyTweakCNTheme(theme.css);
+        themeSpinner.succeed(`${theme.name} theme applied`);
+      }
+
+      // Runtime themes go after the base theme so their blocks follow :root/.dark
+      if (options.extraThemes && options.extraThemes.length > 0) {
+        const extraThemes = options.extraThemes.map(id => {
+          const theme = getBundledTheme(id);
+          if (!theme) {
+            throw new Error(`Unknown theme: ${id}`);
+          }
+          return theme;
+        });
+        await this.addRuntimeThemes(extraThemes.map(theme => ({ name: theme.id, css: theme.css })));
+        ora().info(`Runtime themes: ${extraThemes.map(theme => theme.name).join(', ')}`);
+      }
+    } catch (error) {
+      themeSpinner.fail('Failed to apply theme');
+      throw stepError('Applying theme', error);
     }
   }
 }
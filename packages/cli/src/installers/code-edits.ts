@@ -0,0 +1,874 @@
+/**
+ * Better Auth Project Edits
+ *
+ * This module applies the provider and auth edits the installers and the
+ * add/remove provider commands make to generated projects. Code files are edited
+ * through the AST transforms in ast-transforms.ts; .env, README, package.json and
+ * constants files are edited as text. Each function takes file content and returns the updated
+ * content (unchanged when the edit was already applied), throwing when the
+ * surrounding code can't be located or edited safely.
+ */
+
+import sortPackageJson from 'sort-package-json';
+import {
+  addArrayElements,
+  addImport,
+  addObjectProperties,
+  getArrayElements,
+  getObjectPropertyNames,
+  hasJsxAttribute,
+  removeArrayElement,
+  removeJsxAttribute,
+  removeObjectProperty,
+  setJsxAttribute,
+} from './ast-transforms.js';
+import type { InsertPosition, SourceLocator } from './ast-transforms.js';
+import type { PluginImport, PluginTable } from './types.js';
+
+/** The better-auth-ui provider element (AuthUIProvider or AuthUIProviderTanstack) */
+const AUTH_UI_ELEMENT = /^AuthUIProvider/;
+
+/** The Better Auth server options object */
+const AUTH_OPTIONS: SourceLocator = { call: 'betterAuth' };
+
+/** The emailAndPassword object inside the Better Auth options */
+const EMAIL_AND_PASSWORD: SourceLocator = { call: 'betterAuth', path: ['emailAndPassword'] };
+
+/** The socialProviders object inside the Better Auth options */
+const SOCIAL_PROVIDERS: SourceLocator = { call: 'betterAuth', path: ['socialProviders'] };
+
+/** The providers list of the better-auth-ui social prop */
+const UI_PROVIDERS: SourceLocator = {
+  jsxElement: AUTH_UI_ELEMENT,
+  attribute: 'social',
+  path: ['providers'],
+};
+
+/** The plugin list returned by createPlugins() in convex/auth/plugins */
+const SERVER_PLUGINS: SourceLocator = { variable: 'createPlugins' };
+
+/** The provider configs of the genericOAuth({...}) server plugin */
+const GENERIC_OAUTH_CONFIG: SourceLocator = { call: 'genericOAuth', path: ['config'] };
+
+/** The plugins list of the Better Auth client */
+const CLIENT_PLUGINS: SourceLocator = { call: 'createAuthClient', path: ['plugins'] };
+
+/** The providers list of the better-auth-ui genericOAuth prop */
+const UI_GENERIC_OAUTH_PROVIDERS: SourceLocator = {
+  jsxElement: AUTH_UI_ELEMENT,
+  attribute: 'genericOAuth',
+  path: ['providers'],
+};
+
+/** The brandThemes list in the theme provider */
+const BRAND_THEMES: SourceLocator = { variable: 'brandThemes' };
+
+/** The table definitions of the Convex schema */
+const SCHEMA_TABLES: SourceLocator = { call: 'defineSchema' };
+
+/**
+ * Escapes a string for literal use inside a regular expression
+ *
+ * @param value - String to escape
+ * @returns Escaped string
+ */
+export function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Enables email & password authentication in the Better Auth options
+ * Sub-option properties are added to emailAndPassword and the emailVerification
+ * option next to it; callbacks that send emails get the sendTemplateEmail import.
+ *
+ * @param source - Content of convex/auth/index.ts
+ * @param properties - Extra emailAndPassword properties (from generateEmailPasswordProperties)
+ * @param emailVerification - emailVerification option (from generateEmailVerificationConfig, empty for none)
+ * @returns Updated source (properties that are already set are left as they are)
+ * @throws Error if betterAuth({...}) can't be found
+ */
+export function addEmailPasswordAuth(
+  source: string,
+  properties: string[] = [],
+  emailVerification = ''
+): string {
+  const withEmailPassword = addObjectProperties(
+    addObjectProperties(source, AUTH_OPTIONS, ['emailAndPassword: {\n  enabled: true\n}'], 'sorted'),
+    EMAIL_AND_PASSWORD,
+    properties,
+    'sorted'
+  );
+  const updated = emailVerification
+    ? addObjectProperties(withEmailPassword, AUTH_OPTIONS, [emailVerification], 'sorted')
+    : withEmailPassword;
+
+  const sendsEmails = [...properties, emailVerification].some(entry => entry.includes('sendTemplateEmail('));
+  return sendsEmails ? addImport(updated, '@convex/email/templates', ['sendTemplateEmail']) : updated;
+}
+
+/**
+ * Adds a provider entry to the Better Auth socialProviders object
+ * Creates the socialProviders object in betterAuth({...}) if missing.
+ *
+ * @param source - Content of convex/auth/index.ts
+ * @param entry - Provider entry from generateSocialProviderEntry
+ * @returns Updated source (unchanged if the provider is already configured)
+ * @throws Error if betterAuth({...}) or socialProviders can't be parsed
+ */
+export function addSocialProvider(source: string, entry: string): string {
+  return addObjectProperties(source, SOCIAL_PROVIDERS, [entry], 'sorted');
+}
+
+/**
+ * Sets the better-auth-ui `credentials` prop that shows the email & password form
+ *
+ * @param source - Content of the UI provider file
+ * @param prop - Complete prop (from generateCredentialsValue, e.g., 'credentials={true}')
+ * @returns Updated source
+ * @throws Error if the AuthUIProvider element can't be found
+ */
+export function setCredentialsProp(source: string, prop: string): string {
+  return setJsxAttribute(source, AUTH_UI_ELEMENT, prop);
+}
+
+/**
+ * Adds a provider to the better-auth-ui `social={{ providers: [...] }}` prop
+ * Creates the social prop if missing.
+ *
+ * @param source - Content of the UI provider file
+ * @param providerId - Provider ID (e.g., 'google')
+ * @returns Updated source (unchanged if the provider is already listed)
+ * @throws Error if the AuthUIProvider element or social prop can't be parsed
+ */
+export function addUIProvider(source: string, providerId: string): string {
+  if (!hasJsxAttribute(source, AUTH_UI_ELEMENT, 'social')) {
+    return setJsxAttribute(source, AUTH_UI_ELEMENT, `social={{\n  providers: ["${providerId}"]\n}}`);
+  }
+  return addArrayElements(source, UI_PROVIDERS, [`"${providerId}"`]);
+}
+
+/**
+ * Adds a provider config to the genericOAuth({...}) server plugin
+ * Creates the plugin (and its import) at the start of the createPlugins() list if missing,
+ * keeping plugins that must run last (e.g., nextCookies) in place.
+ *
+ * @param source - Content of convex/auth/plugins/index.ts
+ * @param providerId - Custom provider ID (e.g., 'keycloak')
+ * @param entry - Config entry from generateGenericOAuthConfigEntry
+ * @returns Updated source (unchanged if the provider is already configured)
+ * @throws Error if createPlugins or the genericOAuth config can't be parsed
+ */
+export function addGenericOAuthProvider(source: string, providerId: string, entry: string): string {
+  const withImport = addImport(source, 'better-auth/plugins', ['genericOAuth']);
+  const withPlugin = getArrayElements(withImport, SERVER_PLUGINS).some(plugin => plugin.startsWith('genericOAuth('))
+    ? withImport
+    : addArrayElements(withImport, SERVER_PLUGINS, ['genericOAuth({\n  config: [],\n})'], 'start');
+
+  const providerPattern = new RegExp(`providerId:\\s*(["'])${escapeRegExp(providerId)}\\1`);
+  if (getArrayElements(withPlugin, GENERIC_OAUTH_CONFIG).some(config => providerPattern.test(config))) {
+    return source;
+  }
+
+  return addArrayElements(withPlugin, GENERIC_OAUTH_CONFIG, [entry]);
+}
+
+/**
+ * Registers the genericOAuthClient plugin with the Better Auth client
+ *
+ * @param source - Content of the auth client file
+ * @returns Updated source (unchanged if the plugin is already registered)
+ * @throws Error if createAuthClient({...}) can't be parsed
+ */
+export function addGenericOAuthClient(source: string): string {
+  return addArrayElements(
+    addImport(source, 'better-auth/client/plugins', ['genericOAuthClient']),
+    CLIENT_PLUGINS,
+    ['genericOAuthClient()']
+  );
+}
+
+/**
+ * Adds a provider to the better-auth-ui `genericOAuth={{ providers: [...] }}` prop
+ * Creates the genericOAuth prop if missing.
+ *
+ * @param source - Content of the UI provider file
+ * @param providerId - Custom provider ID (e.g., 'keycloak')
+ * @param entry - Provider entry from generateGenericOAuthUIEntry
+ * @returns Updated source (unchanged if the provider is already listed)
+ * @throws Error if the AuthUIProvider element or genericOAuth prop can't be parsed
+ */
+export function addGenericOAuthUIProvider(source: string, providerId: string, entry: string): string {
+  if (!hasJsxAttribute(source, AUTH_UI_ELEMENT, 'genericOAuth')) {
+    return setJsxAttribute(source, AUTH_UI_ELEMENT, `genericOAuth={{\n  providers: [${entry}]\n}}`);
+  }
+
+  const providerPattern = new RegExp(`provider:\\s*(["'])${escapeRegExp(providerId)}\\1`);
+  if (getArrayElements(source, UI_GENERIC_OAUTH_PROVIDERS).some(provider => providerPattern.test(provider))) {
+    return source;
+  }
+
+  return addArrayElements(source, UI_GENERIC_OAUTH_PROVIDERS, [entry]);
+}
+
+/**
+ * Sets better-auth-ui provider props, leaving props the project already sets untouched
+ *
+ * @param source - Content of the UI provider file
+ * @param props - Complete attribute text for each prop (e.g., 'twoFactor={["totp"]}')
+ * @returns Updated source (unchanged if every prop is already set)
+ * @throws Error if the AuthUIProvider element can't be found
+ */
+export function addUIProviderProps(source: string, props: string[]): string {
+  return props.reduce((content, prop) => {
+    const name = prop.slice(0, prop.indexOf('='));
+    return hasJsxAttribute(content, AUTH_UI_ELEMENT, name)
+      ? content
+      : setJsxAttribute(content, AUTH_UI_ELEMENT, prop);
+  }, source);
+}
+
+/**
+ * Adds `KEY: value` entries to an object in the createEnv({...}) config,
+ * skipping keys that already exist
+ * Used for the env schema (`server`) and runtime mapping (`runtimeEnv`) objects.
+ *
+ * @param source - Content of the typed env file
+ * @param blockKey - Property holding the object (e.g., 'server')
+ * @param entries - Entries in `KEY: value` form; trailing commas are ignored
+ * @param position - Append entries, or insert them in sorted key order
+ * @returns Updated source
+ * @throws Error if createEnv({...}) can't be found
+ */
+export function addEnvConfigEntries(
+  source: string,
+  blockKey: string,
+  entries: string[],
+  position: InsertPosition = 'end'
+): string {
+  return addObjectProperties(source, { call: 'createEnv', path: [blockKey] }, entries, position);
+}
+
+/**
+ * Adds themes to the brandThemes list the theme provider switches between
+ *
+ * @param source - Content of the theme provider file
+ * @param themeNames - Theme names (e.g., ['rose', 'blue'])
+ * @returns Updated source (unchanged if every theme is already listed)
+ * @throws Error if the brandThemes array can't be found
+ */
+export function addBrandThemes(source: string, themeNames: string[]): string {
+  return addArrayElements(source, BRAND_THEMES, themeNames.map(name => `"${name}"`));
+}
+
+/**
+ * Adds plugin calls (and their imports) to the start of a plugin list,
+ * keeping plugins that must run last (e.g., nextCookies and convex) in place
+ * Plugins whose function is already called in the list are skipped.
+ *
+ * @param source - Source code
+ * @param locator - Plugin list
+ * @param plugins - Plugin calls and imports, in list order
+ * @returns Updated source (unchanged if every plugin is already registered)
+ * @throws Error if the plugin list can't be parsed
+ */
+function addPluginCalls(
+  source: string,
+  locator: SourceLocator,
+  plugins: Array<{ imports: PluginImport[]; plugin: string }>
+): string {
+  const existing = getArrayElements(source, locator);
+  const missing = plugins.filter(({ plugin }) => {
+    const name = plugin.slice(0, plugin.indexOf('('));
+    return !existing.some(element => element.startsWith(`${name}(`));
+  });
+  if (missing.length === 0) {
+    return source;
+  }
+
+  const withImports = missing
+    .flatMap(({ imports }) => imports)
+    .reduce((updatedSource, { from, names }) => addImport(updatedSource, from, names), source);
+  return addArrayElements(withImports, locator, missing.map(({ plugin }) => plugin), 'start');
+}
+
+/**
+ * Gives createPlugins() the Convex action ctx, so plugin callbacks can run Convex
+ * functions (e.g., schedule an email)
+ *
+ * @param source - Content of convex/auth/plugins
+ * @returns Updated source (unchanged if createPlugins already takes a parameter)
+ * @throws Error if the createPlugins arrow function can't be found
+ */
+export function addPluginsContextParameter(source: string): string {
+  const declaration = source.match(/createPlugins = \(([^)]*)\) =>/);
+  if (!declaration) {
+    throw new Error('Could not find the createPlugins arrow function');
+  }
+  if (declaration[1].trim()) {
+    return source;
+  }
+
+  const updated = source.replace(declaration[0], 'createPlugins = (ctx: GenericActionCtx<DataModel>) =>');
+  return addImport(
+    addImport(updated, 'convex/server', ['GenericActionCtx'], { typeOnly: true }),
+    '@convex/_generated/dataModel',
+    ['DataModel'],
+    { typeOnly: true }
+  );
+}
+
+/**
+ * Passes createAuth()'s Convex action ctx to createPlugins()
+ *
+ * @param source - Content of the Better Auth config file
+ * @returns Updated source (unchanged if ctx is already passed)
+ * @throws Error if the createPlugins() call can't be found
+ */
+export function passPluginsContext(source: string): string {
+  if (source.includes('createPlugins(ctx)')) {
+    return source;
+  }
+  if (!source.includes('createPlugins()')) {
+    throw new Error('Could not find the createPlugins() call');
+  }
+
+  return source.replace('createPlugins()', 'createPlugins(ctx)');
+}
+
+/**
+ * Registers Better Auth plugins in createPlugins()
+ *
+ * @param source - Content of convex/auth/plugins/index.ts
+ * @param plugins - Server plugin calls and imports from the plugin registry
+ * @returns Updated source (unchanged if every plugin is already registered)
+ * @throws Error if createPlugins can't be parsed
+ */
+export function addServerPlugins(
+  source: string,
+  plugins: Array<{ imports: PluginImport[]; plugin: string }>
+): string {
+  return addPluginCalls(source, SERVER_PLUGINS, plugins);
+}
+
+/**
+ * Registers client plugins with the Better Auth client
+ *
+ * @param source - Content of the auth client file
+ * @param plugins - Client plugin calls and imports from the plugin registry
+ * @returns Updated source (unchanged if every plugin is already registered)
+ * @throws Error if createAuthClient({...}) can't be parsed
+ */
+export function addClientPlugins(
+  source: string,
+  plugins: Array<{ imports: PluginImport[]; plugin: string }>
+): string {
+  return addPluginCalls(source, CLIENT_PLUGINS, plugins);
+}
+
+/**
+ * Adds a table to the Convex schema, importing its table slug constant
+ *
+ * @param source - Content of convex/schema.ts
+ * @param table - Table from the plugin registry
+ * @returns Updated source (unchanged if the table is already defined)
+ * @throws Error if defineSchema({...}) can't be parsed
+ */
+export function addSchemaTable(source: string, table: PluginTable): string {
+  if (getObjectPropertyNames(source, SCHEMA_TABLES).includes(table.constant)) {
+    return source;
+  }
+
+  const updatedSource = addObjectProperties(
+    addImport(source, '~/db/constants', [table.constant]),
+    SCHEMA_TABLES,
+    [`[${table.constant}]: ${table.definition}`]
+  );
+
+  // Separate the table from the one before it, like the template's tables
+  return updatedSource.replace(
+    new RegExp(`(\\S)\\n([ \\t]*\\[${table.constant}\\]:)`),
+    '$1\n\n$2'
+  );
+}
+
+/**
+ * Adds fields to a table of the Convex schema, skipping fields that already exist
+ *
+ * @param source - Content of convex/schema.ts
+ * @param tableConstant - Table slug constant the table is keyed by (e.g., 'TABLE_SLUG_USERS')
+ * @param fields - Field entries (e.g., 'banned: v.optional(v.boolean())')
+ * @returns Updated source
+ * @throws Error if the table isn't defined or its fields can't be parsed
+ */
+export function addSchemaFields(source: string, tableConstant: string, fields: string[]): string {
+  if (!getObjectPropertyNames(source, SCHEMA_TABLES).includes(tableConstant)) {
+    throw new Error(`Table [${tableConstant}] is not defined in the Convex schema`);
+  }
+
+  return addObjectProperties(source, { ...SCHEMA_TABLES, path: [tableConstant] }, fields);
+}
+
+/**
+ * Adds a table slug constant after the existing TABLE_SLUG_* constants
+ *
+ * @param source - Content of src/db/constants/index.ts
+ * @param constant - Constant name (e.g., 'TABLE_SLUG_API_KEYS')
+ * @param slug - Table name (e.g., 'apikey')
+ * @returns Updated source (unchanged if the constant is already exported)
+ */
+export function addTableSlugConstant(source: string, constant: string, slug: string): string {
+  if (new RegExp(`^export const ${constant}\\b`, 'm').test(source)) {
+    return source;
+  }
+
+  const declaration = `export const ${constant} = "${slug}" as const;`;
+  const slugConstants = [...source.matchAll(/^export const TABLE_SLUG_\w+ = .*$/gm)];
+  const last = slugConstants[slugConstants.length - 1];
+  if (!last || last.index === undefined) {
+    return `${source.replace(/\s*$/, '')}\n\n${declaration}\n`;
+  }
+
+  const insertAt = last.index + last[0].length;
+  return `${source.slice(0, insertAt)}\n${declaration}${source.slice(insertAt)}`;
+}
+
+/**
+ * Re-exports a constants module from src/db/constants/index.ts
+ * The export is added after the existing `export * from` lines.
+ *
+ * @param source - Content of src/db/constants/index.ts
+ * @param moduleName - Module next to the index file (e.g., 'organization')
+ * @returns Updated source (unchanged if the module is already re-exported)
+ */
+export function addConstantsExport(source: string, moduleName: string): string {
+  const declaration = `export * from "./${moduleName}"`;
+  if (new RegExp(`^${escapeRegExp(declaration)};?$`, 'm').test(source)) {
+    return source;
+  }
+
+  const exports = [...source.matchAll(/^export \* from .*$/gm)];
+  const last = exports[exports.length - 1];
+  if (!last || last.index === undefined) {
+    return `${declaration}\n\n${source}`;
+  }
+
+  const insertAt = last.index + last[0].length;
+  return `${source.slice(0, insertAt)}\n${declaration}${source.slice(insertAt)}`;
+}
+
+/**
+ * Gets the TanStack Router path of a project file
+ *
+ * @param relativePath - Project-relative file path (e.g., 'src/routes/organization/$organizationView.tsx')
+ * @returns Route path (e.g., '/organization/$organizationView'), or undefined if the file isn't a file route
+ */
+export function getFileRoutePath(relativePath: string): string | undefined {
+  const match = relativePath.replace(/\\/g, '/').match(/^src\/routes\/(.+)\.tsx?$/);
+  if (!match || match[1].split('/').some(segment => segment.startsWith('_'))) {
+    return undefined;
+  }
+  return `/${match[1].replace(/(^|\/)index$/, '')}`;
+}
+
+/**
+ * Registers top-level file routes in TanStack Router's generated route tree
+ * The route tree is only regenerated by the router plugin when the dev server or a
+ * build runs, so routes copied into a project are added here to keep
+ * createFileRoute() calls type-checking until then.
+ *
+ * @param source - Content of src/routeTree.gen.ts
+ * @param routePaths - Route paths of files directly below the root route (e.g., ['/organization/$organizationView'])
+ * @returns Updated source (unchanged if every route is already registered)
+ * @throws Error if a section of the route tree can't be located
+ */
+export function addFileRoutes(source: string, routePaths: string[]): string {
+  const missing = routePaths.filter(routePath => !source.includes(`\n    '${routePath}': {\n`));
+
+  return missing.reduce((tree, routePath) => {
+    const name = routePath
+      .split('/')
+      .filter(Boolean)
+      .map(segment => (segment === '$' ? 'Splat' : segment.replace(/^\$/, '')))
+      .flatMap(segment => segment.split(/[^A-Za-z0-9]/))
+      .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+      .join('') || 'Index';
+    const route = `${name}Route`;
+    const routeImport = `${name}RouteImport`;
+    const importPath = `./routes${routePath === '/' ? '/index' : routePath}`;
+
+    const insertions: Array<[RegExp, string]> = [
+      [/(^import \{ Route as \w+ \} from '\.\/routes\/.*'\n)(?!import \{ Route as)/m, `import { Route as ${routeImport} } from '${importPath}'\n`],
+      [/(\} as any\)\n)(?=\nexport interface FileRoutesByFullPath)/, `const ${route} = ${routeImport}.update({\n  id: '${routePath}',\n  path: '${routePath}',\n  getParentRoute: () => rootRouteImport,\n} as any)\n`],
+      [/(export interface FileRoutesByFullPath \{\n(?:  .*\n)*)(?=\})/, `  '${routePath}': typeof ${route}\n`],
+      [/(export interface FileRoutesByTo \{\n(?:  .*\n)*)(?=\})/, `  '${routePath}': typeof ${route}\n`],
+      [/(export interface FileRoutesById \{\n(?:  .*\n)*)(?=\})/, `  '${routePath}': typeof ${route}\n`],
+      [/(  fullPaths:\n(?: {4}\| .*\n)*)/, `    | '${routePath}'\n`],
+      [/(  to:\n(?: {4}\| .*\n)*)/, `    | '${routePath}'\n`],
+      [/(  id:\n(?: {4}\| .*\n)*)/, `    | '${routePath}'\n`],
+      [/(export interface RootRouteChildren \{\n(?:  .*\n)*)(?=\})/, `  ${route}: typeof ${route}\n`],
+      [/(interface FileRoutesByPath \{\n(?: {4}.*\n)*)(?= {2}\}\n\})/, `    '${routePath}': {\n      id: '${routePath}'\n      path: '${routePath}'\n      fullPath: '${routePath}'\n      preLoaderRoute: typeof ${routeImport}\n      parentRoute: typeof rootRouteImport\n    }\n`],
+      [/(const rootRouteChildren: RootRouteChildren = \{\n(?:  .*\n)*)(?=\})/, `  ${route}: ${route},\n`],
+    ];
+
+    return insertions.reduce((updated, [anchor, text]) => {
+      if (!anchor.test(updated)) {
+        throw new Error(`Could not locate where to register ${routePath}`);
+      }
+      return updated.replace(anchor, (section) => `${section}${text}`);
+    }, tree);
+  }, source);
+}
+
+/**
+ * Gets the Convex module path of a project file, as used in the generated api
+ *
+ * @param relativePath - Project-relative file path (e.g., 'convex/email/send.ts')
+ * @returns Module path (e.g., 'email/send'), or undefined if the file isn't a Convex module
+ */
+export function getConvexModulePath(relativePath: string): string | undefined {
+  const match = relativePath.replace(/\\/g, '/').match(/^convex\/(.+)\.tsx?$/);
+  if (!match || match[1].startsWith('_generated/') || match[1].endsWith('.d') || match[1] === 'schema') {
+    return undefined;
+  }
+  return match[1];
+}
+
+/**
+ * Registers Convex modules in the generated api declarations
+ * Keeps imports and ApiFromModules entries sorted the way `convex dev` writes them,
+ * so `api.*` and `internal.*` references type-check before codegen runs again.
+ *
+ * @param source - Content of convex/_generated/api.d.ts
+ * @param modulePaths - Module paths (e.g., ['email/send'])
+ * @returns Updated source (unchanged if every module is already registered)
+ * @throws Error if the module imports or the ApiFromModules block can't be located
+ */
+export function addConvexModules(source: string, modulePaths: string[]): string {
+  const imports = [...source.matchAll(/^import type \* as \w+ from "\.\.\/(.+)\.js";$/gm)];
+  const registered = imports.map(match => match[1]);
+  const missing = modulePaths.filter(modulePath => !registered.includes(modulePath));
+  if (missing.length === 0) {
+    return source;
+  }
+
+  const fullApi = source.match(/(declare const fullApi: ApiFromModules<\{\n)([\s\S]*?)(\n\}>;)/);
+  const first = imports[0];
+  const last = imports[imports.length - 1];
+  if (!first || first.index === undefined || !last || last.index === undefined || !fullApi || fullApi.index === undefined) {
+    throw new Error('Could not locate the Convex module declarations');
+  }
+
+  const modules = [...new Set([...registered, ...missing])].sort();
+  const identifier = (modulePath: string) => modulePath.replace(/[^\w$]/g, '_');
+  const key = (modulePath: string) => (/^[A-Za-z_$][\w$]*$/.test(modulePath) ? modulePath : `"${modulePath}"`);
+  const importLines = modules.map(modulePath => `import type * as ${identifier(modulePath)} from "../${modulePath}.js";`);
+  const entryLines = modules.map(modulePath => `  ${key(modulePath)}: typeof ${identifier(modulePath)};`);
+
+  const apiStart = fullApi.index + fullApi[1].length;
+  const apiEnd = apiStart + fullApi[2].length;
+  const withEntries = source.slice(0, apiStart) + entryLines.join('\n') + source.slice(apiEnd);
+  const importsEnd = last.index + last[0].length;
+  return withEntries.slice(0, first.index) + importLines.join('\n') + withEntries.slice(importsEnd);
+}
+
+/**
+ * Adds packages to package.json dependencies, keeping versions that are already set
+ *
+ * @param source - Content of package.json
+ * @param dependencies - Package names mapped to version ranges
+ * @param field - Dependency field to add to (default: 'dependencies')
+ * @returns Updated content, sorted with sort-package-json (unchanged if nothing was added)
+ */
+export function addDependencies(
+  source: string,
+  dependencies: Record<string, string>,
+  field: 'dependencies' | 'devDependencies' = 'dependencies'
+): string {
+  const packageJson = JSON.parse(source) as Record<string, unknown>;
+  const existing = (packageJson[field] ?? {}) as Record<string, string>;
+  const missing = Object.keys(dependencies).filter(name => !existing[name]);
+  if (missing.length === 0) {
+    return source;
+  }
+
+  const updated = {
+    ...packageJson,
+    [field]: {
+      ...existing,
+      ...Object.fromEntries(missing.map(name => [name, dependencies[name]])),
+    },
+  };
+  return `${JSON.stringify(sortPackageJson(updated), null, 2)}\n`;
+}
+
+/**
+ * Removes a provider entry from the Better Auth socialProviders object
+ * The socialProviders object itself is removed along with its last provider.
+ *
+ * @param source - Content of convex/auth/index.ts
+ * @param providerId - Provider ID (e.g., 'google')
+ * @returns Updated source (unchanged if the provider isn't configured)
+ * @throws Error if betterAuth({...}) can't be parsed or the entry can't be removed safely
+ */
+export function removeSocialProvider(source: string, providerId: string): string {
+  return removeObjectProperty(source, SOCIAL_PROVIDERS, providerId, { removeEmpty: true });
+}
+
+/**
+ * Removes a provider from the better-auth-ui `social={{ providers: [...] }}` prop
+ * The whole social prop is removed when its last provider is removed and it has
+ * no other options, matching a project scaffolded without OAuth.
+ *
+ * @param source - Content of the UI provider file
+ * @param providerId - Provider ID (e.g., 'google')
+ * @returns Updated source (unchanged if the provider isn't listed)
+ * @throws Error if the providers list can't be edited safely
+ */
+export function removeUIProvider(source: string, providerId: string): string {
+  if (!hasJsxAttribute(source, AUTH_UI_ELEMENT, 'social')) {
+    return source;
+  }
+
+  const providers = getArrayElements(source, UI_PROVIDERS);
+  if (providers.some(provider => !/^(["'])[\w-]+\1$/.test(provider))) {
+    throw new Error('The social providers list contains entries that are not plain strings');
+  }
+
+  const updatedSource = removeArrayElement(source, UI_PROVIDERS, `"${providerId}"`);
+  const socialOptions = getObjectPropertyNames(updatedSource, { ...UI_PROVIDERS, path: [] });
+  if (
+    getArrayElements(updatedSource, UI_PROVIDERS).length === 0 &&
+    socialOptions.length === 1 &&
+    socialOptions[0] === 'providers'
+  ) {
+    return removeJsxAttribute(updatedSource, AUTH_UI_ELEMENT, 'social');
+  }
+
+  return updatedSource;
+}
+
+/**
+ * Removes keys from an object in the createEnv({...}) config
+ *
+ * @param source - Content of the typed env file
+ * @param blockKey - Property holding the object (e.g., 'server')
+ * @param keys - Property names to remove
+ * @returns Updated source
+ * @throws Error if createEnv({...}) can't be found or an entry can't be removed safely
+ */
+export function removeEnvConfigEntries(source: string, blockKey: string, keys: string[]): string {
+  return keys.reduce(
+    (updatedSource, key) =>
+      removeObjectProperty(updatedSource, { call: 'createEnv', path: [blockKey] }, key),
+    source
+  );
+}
+
+/**
+ * Formats an .env banner heading like the ones in the templates' .env.example
+ *
+ * @param title - Heading text
+ * @returns Three-line banner
+ */
+export function formatEnvBanner(title: string): string {
+  const rule = '# -----------------------------------------------------------------------------';
+  return [rule, `# ${title}`, rule].join('\n');
+}
+
+/**
+ * Appends environment variable declarations to an .env file
+ * Variables that are already declared are skipped along with their description comment.
+ * With a heading, the declarations go at the end of that banner section, and the
+ * banner is appended first if the file doesn't have it yet.
+ *
+ * @param source - Content of the .env file
+ * @param envBlock - Declarations from generateEnvVarsBlock (`# Description\nNAME=` pairs)
+ * @param heading - Banner heading to add the declarations under (e.g., 'OAuth Provider Credentials')
+ * @returns Updated content
+ */
+export function addEnvVariables(source: string, envBlock: string, heading?: string): string {
+  const lines = envBlock.split('\n');
+  const additions: string[] = [];
+
+  lines.forEach((line, index) => {
+    const declaration = line.match(/^([A-Z0-9_]+)=/);
+    if (!declaration) return;
+
+    if (new RegExp(`^#?\\s*${declaration[1]}=`, 'm').test(source)) return;
+
+    const previous = lines[index - 1];
+    if (previous?.startsWith('#')) {
+      additions.push(previous);
+    }
+    additions.push(line);
+  });
+
+  if (additions.length === 0) {
+    return source;
+  }
+
+  const block = additions.join('\n');
+  const banner = heading && source.match(new RegExp(`^# -{3,}\\n# ${escapeRegExp(heading)}\\n# -{3,}$`, 'm'));
+
+  if (heading && !banner) {
+    return `${source.replace(/\s*$/, '')}\n\n${formatEnvBanner(heading)}\n${block}\n`;
+  }
+
+  if (!banner || banner.index === undefined) {
+    return `${source.replace(/\s*$/, '')}\n${block}\n`;
+  }
+
+  // The section ends where the next banner starts
+  const sectionStart = banner.index + banner[0].length;
+  const nextBanner = source.slice(sectionStart).search(/^# -{3,}$/m);
+  const sectionEnd = nextBanner === -1 ? source.length : sectionStart + nextBanner;
+  const after = source.slice(sectionEnd);
+
+  return `${source.slice(0, sectionEnd).replace(/\s*$/, '')}\n${block}\n${after ? `\n${after}` : ''}`;
+}
+
+/**
+ * Adds a provider setup section to the README's OAuth Provider Setup section
+ * The section is appended after the last provider section; the heading is created if missing.
+ *
+ * @param source - Content of README.md
+ * @param sectionTitle - Provider section heading text (e.g., 'Google OAuth Setup')
+ * @param sectionContent - Markdown content starting with the `## <title>` heading
+ * @returns Updated README (unchanged if the section already exists)
+ */
+export function addReadmeSection(
+  source: string,
+  sectionTitle: string,
+  sectionContent: string
+): string {
+  if (new RegExp(`^##\\s+${escapeRegExp(sectionTitle)}\\s*$`, 'm').test(source)) {
+    return source;
+  }
+
+  const headingMatch = source.match(/^# OAuth Provider Setup\s*$/m);
+  if (!headingMatch || headingMatch.index === undefined) {
+    return `${source.replace(/\s*$/, '')}\n\n# OAuth Provider Setup\n\n${sectionContent}\n`;
+  }
+
+  // The OAuth section ends at the next heading that isn't a provider section
+  const sectionStart = headingMatch.index + headingMatch[0].length;
+  const rest = source.slice(sectionStart);
+  const nextHeading = rest.search(/^#{1,2}\s+(?!.*\b(OAuth|Sign In) Setup\s*$)/m);
+  const sectionEnd = nextHeading === -1 ? source.length : sectionStart + nextHeading;
+  const sectionBody = source.slice(sectionStart, sectionEnd).replace(/\s*$/, '');
+  const separator = sectionBody.trim() ? '\n\n---\n\n' : '\n\n';
+
+  return (
+    source.slice(0, sectionStart) +
+    sectionBody +
+    separator +
+    sectionContent +
+    '\n\n' +
+    source.slice(sectionEnd).replace(/^\s*/, '')
+  );
+}
+
+/**
+ * Adds a feature subsection to the README's Auth Features section
+ * The section is created before Project Structure (or at the end) if missing.
+ *
+ * @param source - Content of README.md
+ * @param sectionTitle - Subsection heading text (e.g., 'API Keys')
+ * @param sectionContent - Markdown content starting with the `### <title>` heading
+ * @returns Updated README (unchanged if the subsection already exists)
+ */
+export function addAuthFeatureReadmeSection(
+  source: string,
+  sectionTitle: string,
+  sectionContent: string
+): string {
+  if (new RegExp(`^###\\s+${escapeRegExp(sectionTitle)}\\s*$`, 'm').test(source)) {
+    return source;
+  }
+
+  const headingMatch = source.match(/^## Auth Features\s*$/m);
+  if (!headingMatch || headingMatch.index === undefined) {
+    const section = `## Auth Features\n\n${sectionContent}\n\n`;
+    const structureIndex = source.search(/^## Project Structure\s*$/m);
+    return structureIndex === -1
+      ? `${source.replace(/\s*$/, '')}\n\n${section.trimEnd()}\n`
+      : source.slice(0, structureIndex) + section + source.slice(structureIndex);
+  }
+
+  // The section ends at the next top-level or second-level heading
+  const sectionStart = headingMatch.index + headingMatch[0].length;
+  const nextHeading = source.slice(sectionStart).search(/^#{1,2}\s/m);
+  const sectionEnd = nextHeading === -1 ? source.length : sectionStart + nextHeading;
+  const sectionBody = source.slice(sectionStart, sectionEnd).replace(/\s*$/, '');
+
+  return (
+    source.slice(0, sectionStart) +
+    sectionBody +
+    '\n\n' +
+    sectionContent +
+    '\n' +
+    (sectionEnd < source.length ? `\n${source.slice(sectionEnd)}` : '')
+  );
+}
+
+/**
+ * Removes environment variable declarations from an .env file
+ * The description comment directly above each declaration is removed with it.
+ *
+ * @param source - Content of the .env file
+ * @param names - Variable names to remove
+ * @returns Updated content
+ */
+export function removeEnvVariables(source: string, names: string[]): string {
+  const lines = source.split('\n');
+  const removed = new Set<number>();
+
+  lines.forEach((line, index) => {
+    const declaration = line.match(/^\s*([A-Z0-9_]+)=/);
+    if (!declaration || !names.includes(declaration[1])) return;
+
+    removed.add(index);
+    const previous = lines[index - 1];
+    if (previous?.startsWith('#') && !/^#\s*-{3,}/.test(previous) && !removed.has(index - 1)) {
+      removed.add(index - 1);
+    }
+  });
+
+  return lines.filter((_, index) => !removed.has(index)).join('\n');
+}
+
+/**
+ * Removes a provider setup section from the README
+ * The `---` separator between sections goes with it, and the OAuth Provider Setup
+ * heading is removed once it has no provider sections left.
+ *
+ * @param source - Content of README.md
+ * @param sectionTitle - Provider section heading text (e.g., 'Google OAuth Setup')
+ * @returns Updated README (unchanged if the section doesn't exist)
+ */
+export function removeReadmeSection(source: string, sectionTitle: string): string {
+  const headingMatch = source.match(new RegExp(`^##\\s+${escapeRegExp(sectionTitle)}\\s*$`, 'm'));
+  if (!headingMatch || headingMatch.index === undefined) {
+    return source;
+  }
+
+  const sectionStart = headingMatch.index;
+  const contentStart = sectionStart + headingMatch[0].length;
+  const nextHeading = source.slice(contentStart).search(/^#{1,2}\s/m);
+  const sectionEnd = nextHeading === -1 ? source.length : contentStart + nextHeading;
+
+  let before = source.slice(0, sectionStart);
+  const after = source.slice(sectionEnd);
+  const isProviderSection = /^##\s+.*\b(OAuth|Sign In) Setup\s*$/m.test(after.split('\n')[0]);
+
+  if (!isProviderSection) {
+    // Removed the last provider section: drop the separator before it
+    before = before.replace(/\n---\s*$/, '\n');
+
+    // No provider sections left: drop the OAuth Provider Setup heading too
+    before = before.replace(/(^|\n)# OAuth Provider Setup\s*$/, '');
+  }
+
+  before = before.replace(/\s*$/, '');
+  return after ? `${before}\n\n${after}` : `${before}\n`;
+}
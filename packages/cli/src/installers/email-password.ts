@@ -0,0 +1,70 @@
+/**
+ * Email & Password Options
+ *
+ * This module resolves the email & password sub-options (email verification,
+ * password reset, minimum password length) and describes what the email flows
+ * add to a generated project: the React email templates in convex/email/templates
+ * and the convex/email transport they are sent through.
+ */
+
+import { EMAIL_TRANSPORT } from './plugins.js';
+import type { AuthPlugin, EmailPasswordOptions } from './types.js';
+
+/**
+ * Sub-options used for anything the survey, flags or preset leave unset
+ * Password reset is on by default because better-auth-ui shows a "Forgot password?" link.
+ */
+export const DEFAULT_EMAIL_PASSWORD_OPTIONS: Required<EmailPasswordOptions> = {
+  requireEmailVerification: false,
+  allowPasswordReset: true,
+  minPasswordLength: 8,
+};
+
+/**
+ * Files, dependencies and env vars the verification and reset emails need
+ * Adds the React email templates (auth-emails) on top of the shared email transport.
+ */
+export const AUTH_EMAILS = {
+  templates: [...EMAIL_TRANSPORT.templates, 'auth-emails'],
+  dependencies: {
+    ...EMAIL_TRANSPORT.dependencies,
+    '@react-email/components': '^1.0.0',
+  },
+  devDependencies: EMAIL_TRANSPORT.devDependencies,
+  schema: EMAIL_TRANSPORT.schema,
+  env: EMAIL_TRANSPORT.env,
+  envHeading: EMAIL_TRANSPORT.envHeading,
+  readme: {
+    title: 'Email & Password',
+    content: `### Email & Password
+
+Password reset and email verification emails are React email templates in \`convex/email/templates\`, sent through the email transport in \`convex/email\`.
+In development, read them in the Convex logs, or set \`EMAIL_TRANSPORT\` to \`mailbox\` and open \`/dev/mailbox\` (see \`convex/email/README.md\`).
+Users request a reset link at \`/auth/forgot-password\` and choose a new password at \`/auth/reset-password\`.
+See the [Better Auth email & password docs](https://www.better-auth.com/docs/authentication/email-password).`,
+  },
+} satisfies Pick<AuthPlugin, 'templates' | 'dependencies' | 'devDependencies' | 'schema' | 'env' | 'envHeading' | 'readme'>;
+
+/**
+ * Fills in the default for every sub-option that isn't set
+ *
+ * @param options - Sub-options from the survey, flags or preset
+ * @returns Complete sub-options
+ */
+export function resolveEmailPasswordOptions(options: EmailPasswordOptions = {}): Required<EmailPasswordOptions> {
+  return {
+    requireEmailVerification: options.requireEmailVerification ?? DEFAULT_EMAIL_PASSWORD_OPTIONS.requireEmailVerification,
+    allowPasswordReset: options.allowPasswordReset ?? DEFAULT_EMAIL_PASSWORD_OPTIONS.allowPasswordReset,
+    minPasswordLength: options.minPasswordLength ?? DEFAULT_EMAIL_PASSWORD_OPTIONS.minPasswordLength,
+  };
+}
+
+/**
+ * Checks whether the sub-options send verification or password reset emails
+ *
+ * @param options - Resolved sub-options
+ * @returns True if the project needs the auth email templates and transport
+ */
+export function sendsAuthEmails(options: Required<EmailPasswordOptions>): boolean {
+  return options.requireEmailVerification || options.allowPasswordReset;
+}
@@ -11,7 +11,11 @@ export type {
   Framework,
   OAuthProvider,
   TweakCNTheme,
+  BundledTheme,
+  AuthPlugin,
+  EmailPasswordOptions,
   ProjectOptions,
+  ProjectPreset,
 } from './types.js';
 
 // Export OAuth provider registry and helpers
@@ -21,6 +25,27 @@ export {
   getProviderIds,
 } from './providers.js';
 
+// Export Better Auth plugin registry and helpers
+export {
+  AUTH_PLUGINS,
+  getAuthPlugin,
+  getAuthPluginIds,
+  getDefaultAuthPluginIds,
+} from './plugins.js';
+
+// Export email & password sub-option defaults
+export {
+  DEFAULT_EMAIL_PASSWORD_OPTIONS,
+  resolveEmailPasswordOptions,
+} from './email-password.js';
+
+// Export bundled theme gallery and helpers
+export {
+  BUNDLED_THEMES,
+  getBundledTheme,
+  getBundledThemeIds,
+} from './themes.js';
+
 // Export string utilities (for advanced use cases)
 export {
   replacePlaceholder,
@@ -39,6 +64,7 @@ export { TanStackInstaller } from './tanstack.js';
 
 // Import for factory function
 import type { Framework } from './types.js';
+import type { ProjectFileSystem } from '../helpers/fileSystem.js';
 import { FrameworkInstaller } from './base.js';
 import { NextJSInstaller } from './nextjs.js';
 import { TanStackInstaller } from './tanstack.js';
@@ -49,19 +75,21 @@ import { TanStackInstaller } from './tanstack.js';
  * @param framework - The framework to create an installer for
  * @param targetPath - Absolute path to the target project directory
  * @param projectName - Name of the project
+ * @param fileSystem - Optional file system to write project files to (defaults to disk)
  * @returns The appropriate FrameworkInstaller instance
  * @throws Error if framework is not supported
  */
 export function createInstaller(
   framework: Framework,
   targetPath: string,
-  projectName: string
+  projectName: string,
+  fileSystem?: ProjectFileSystem
 ): FrameworkInstaller {
   switch (framework) {
     case 'nextjs':
-      return new NextJSInstaller(targetPath, projectName);
+      return new NextJSInstaller(targetPath, projectName, fileSystem);
     case 'tanstack':
-      return new TanStackInstaller(targetPath, projectName);
+      return new TanStackInstaller(targetPath, projectName, fileSystem);
     default:
       throw new Error(
         `Unsupported framework: ${framework}. Supported frameworks: nextjs, tanstack`
@@ -7,8 +7,9 @@
 
 import { join } from 'path';
 import { FrameworkInstaller } from './base.js';
+import type { ProjectFilePaths } from './types.js';
+import type { InsertPosition } from './ast-transforms.js';
 import {
-  replacePlaceholder,
   generateAuthProvidersBlock,
   generateOAuthUIProvidersBlock,
   generateEnvVarsBlock,
@@ -16,7 +17,15 @@ import {
   generateEnvTsServerSchema,
   generateEnvTsRuntimeMapping,
   generateCredentialsValue,
+  generateSocialProviderEntry,
 } from './string-utils.js';
+import {
+  addEmailPasswordAuth,
+  addSocialProvider,
+  setCredentialsProp,
+  addUIProvider,
+  addEnvConfigEntries,
+} from './code-edits.js';
 
 /**
  * Next.js framework installer
@@ -30,10 +39,46 @@ export class NextJSInstaller extends FrameworkInstaller {
     return 'nextjs';
   }
 
+  /**
+   * Site URL variables: SITE_URL for the server and the public copy for the client
+   */
+  get siteUrlEnvVars(): string[] {
+    return ['SITE_URL', 'NEXT_PUBLIC_SITE_URL'];
+  }
+
+  /**
+   * Next.js file locations
+   */
+  get projectFiles(): ProjectFilePaths {
+    return {
+      authConfig: 'convex/auth/index.ts',
+      authUIConfig: 'src/auth/client.tsx',
+      authPlugins: 'convex/auth/plugins/index.ts',
+      authClient: 'src/auth/client.tsx',
+      envConfig: 'src/env.mjs',
+      envExample: '.env.example',
+      envLocal: '.env.local',
+      readme: 'README.md',
+      themeCSS: 'src/app/(frontend)/globals.css',
+      themeProvider: 'src/components/providers/theme.tsx',
+      convexSchema: 'convex/schema.ts',
+      convexApi: 'convex/_generated/api.d.ts',
+      dbConstants: 'src/db/constants/index.ts',
+    };
+  }
+
+  /**
+   * Next.js env entries are sorted to satisfy perfectionist/sort-objects
+   */
+  get envEntryPosition(): InsertPosition {
+    return 'sorted';
+  }
+
   /**
    * Update OAuth configuration in Convex auth file
    * Target file: convex/auth/index.ts (SAME as TanStack)
-   * Placeholders: // {{EMAIL_PASSWORD_AUTH}} and // {{OAUTH_PROVIDERS}}
+   * Adds emailAndPassword and socialProviders to the betterAuth({...}) options
+   * Fallback placeholders: // {{EMAIL_PASSWORD_AUTH}} and // {{OAUTH_PROVIDERS}}
    *
    * @param selectedProviders - Array of provider IDs to configure
    * @param emailPasswordEnabled - Whether email/password authentication is enabled
@@ -42,40 +87,27 @@ export class NextJSInstaller extends FrameworkInstaller {
     selectedProviders: string[],
     emailPasswordEnabled: boolean
   ): Promise<void> {
-    const authFilePath = join(this.targetPath, 'convex/auth/index.ts');
-
-    // Generate the combined auth providers block
-    const authProvidersBlock = generateAuthProvidersBlock(
-      selectedProviders,
-      emailPasswordEnabled
-    );
-
-    // Replace EMAIL_PASSWORD_AUTH placeholder - this will be removed in the new approach
-    // since we're using a unified providers block
-    // The template will have both placeholders, but we'll use just OAUTH_PROVIDERS
-    // for the combined block
-
-    // Replace OAUTH_PROVIDERS placeholder with the combined auth providers block
-    await replacePlaceholder(
-      authFilePath,
-      '// {{OAUTH_PROVIDERS}}',
-      authProvidersBlock
-    );
-
-    // Remove the EMAIL_PASSWORD_AUTH placeholder line if it exists
-    // by replacing it with empty string
-    await replacePlaceholder(
-      authFilePath,
-      '// {{EMAIL_PASSWORD_AUTH}}',
-      '',
-      { graceful: true }
+    await this.transformSourceFile(
+      this.projectFiles.authConfig,
+      (content) => {
+        const withEmailPassword = emailPasswordEnabled ? addEmailPasswordAuth(content) : content;
+        return selectedProviders.reduce(
+          (source, providerId) => addSocialProvider(source, generateSocialProviderEntry(providerId)),
+          withEmailPassword
+        );
+      },
+      {
+        '// {{OAUTH_PROVIDERS}}': generateAuthProvidersBlock(selectedProviders, emailPasswordEnabled),
+        '// {{EMAIL_PASSWORD_AUTH}}': '',
+      }
     );
   }
 
   /**
    * Update OAuth UI configuration in auth client file
    * Target file: src/auth/client.tsx (DIFFERENT from TanStack: src/providers.tsx)
-   * Placeholders: OAUTH_UI_PROVIDERS and EMAIL_PASSWORD_CREDENTIALS
+   * Sets the credentials prop and the social providers list on the AuthUIProvider element
+   * Fallback placeholders: OAUTH_UI_PROVIDERS and EMAIL_PASSWORD_CREDENTIALS
    *
    * @param selectedProviders - Array of provider IDs to configure
    * @param emailPasswordEnabled - Whether email/password authentication is enabled
@@ -84,22 +116,16 @@ export class NextJSInstaller extends FrameworkInstaller {
     selectedProviders: string[],
     emailPasswordEnabled: boolean
   ): Promise<void> {
-    const providersFilePath = join(this.targetPath, 'src/auth/client.tsx');
-
-    // Replace OAuth UI providers list
-    const uiConfigBlock = generateOAuthUIProvidersBlock(selectedProviders);
-    await replacePlaceholder(
-      providersFilePath,
-      '// {{OAUTH_UI_PROVIDERS}}',
-      uiConfigBlock
-    );
-
-    // Replace credentials prop
-    const credentialsValue = generateCredentialsValue(emailPasswordEnabled);
-    await replacePlaceholder(
-      providersFilePath,
-      '/* {{EMAIL_PASSWORD_CREDENTIALS}} */',
-      credentialsValue
+    await this.transformSourceFile(
+      this.projectFiles.authUIConfig,
+      (content) => selectedProviders.reduce(
+        (source, providerId) => addUIProvider(source, providerId),
+        setCredentialsProp(content, generateCredentialsValue(emailPasswordEnabled))
+      ),
+      {
+        '// {{OAUTH_UI_PROVIDERS}}': generateOAuthUIProvidersBlock(selectedProviders),
+        '/* {{EMAIL_PASSWORD_CREDENTIALS}} */': generateCredentialsValue(emailPasswordEnabled),
+      }
     );
   }
 
@@ -112,11 +138,11 @@ export class NextJSInstaller extends FrameworkInstaller {
    * @param selectedProviders - Array of provider IDs to configure
    */
   async updateEnvExample(selectedProviders: string[]): Promise<void> {
-    const envFilePath = join(this.targetPath, '.env.example');
+    const envFilePath = join(this.targetPath, this.projectFiles.envExample);
     const envVarsBlock = generateEnvVarsBlock(selectedProviders, 'nextjs');
 
     // Always call replacePlaceholder to remove placeholder even if envVarsBlock is empty
-    await replacePlaceholder(
+    await this.replacePlaceholder(
       envFilePath,
       '# {{ENV_OAUTH_VARS}}',
       envVarsBlock
@@ -132,11 +158,11 @@ export class NextJSInstaller extends FrameworkInstaller {
    * @param selectedProviders - Array of provider IDs to configure
    */
   async updateReadme(selectedProviders: string[]): Promise<void> {
-    const readmeFilePath = join(this.targetPath, 'README.md');
+    const readmeFilePath = join(this.targetPath, this.projectFiles.readme);
     const readmeSection = generateReadmeSection(selectedProviders);
 
     // Always call replacePlaceholder to remove placeholder even if readmeSection is empty
-    await replacePlaceholder(
+    await this.replacePlaceholder(
       readmeFilePath,
       '<!-- {{OAUTH_SETUP_GUIDE}} -->',
       readmeSection,
@@ -152,9 +178,9 @@ export class NextJSInstaller extends FrameworkInstaller {
    * @param themeContent - CSS content to apply
    */
   async applyTweakCNTheme(themeContent: string): Promise<void> {
-    const cssFilePath = join(this.targetPath, 'src/app/(frontend)/globals.css');
+    const cssFilePath = join(this.targetPath, this.projectFiles.themeCSS);
 
-    await replacePlaceholder(
+    await this.replacePlaceholder(
       cssFilePath,
       '/* {{TWEAKCN_THEME}} */',
       themeContent
@@ -164,28 +190,27 @@ export class NextJSInstaller extends FrameworkInstaller {
   /**
    * Update env.mjs with OAuth provider environment variables
    * Target file: src/env.mjs (DIFFERENT from TanStack: src/env.ts - Next.js uses env.mjs)
-   * Placeholders: // {{OAUTH_ENV_SERVER_SCHEMA}} and // {{OAUTH_ENV_RUNTIME_MAPPING}}
-   * Adds zod schema validation and runtime mappings for OAuth credentials
+   * Adds zod schema validation (server) and runtime mappings (runtimeEnv) for OAuth credentials
+   * Fallback placeholders: // {{OAUTH_ENV_SERVER_SCHEMA}} and // {{OAUTH_ENV_RUNTIME_MAPPING}}
    *
    * @param selectedProviders - Array of provider IDs to configure
    */
   async updateEnvTs(selectedProviders: string[]): Promise<void> {
-    const envFilePath = join(this.targetPath, 'src/env.mjs');
-
-    // Generate server schema (zod validation)
     const serverSchema = generateEnvTsServerSchema(selectedProviders);
-    await replacePlaceholder(
-      envFilePath,
-      '// {{OAUTH_ENV_SERVER_SCHEMA}}',
-      serverSchema
-    );
-
-    // Generate runtime mapping (process.env assignments)
     const runtimeMapping = generateEnvTsRuntimeMapping(selectedProviders);
-    await replacePlaceholder(
-      envFilePath,
-      '// {{OAUTH_ENV_RUNTIME_MAPPING}}',
-      runtimeMapping
+
+    await this.transformSourceFile(
+      this.projectFiles.envConfig,
+      (content) => addEnvConfigEntries(
+        addEnvConfigEntries(content, 'server', serverSchema.split('\n'), this.envEntryPosition),
+        'runtimeEnv',
+        runtimeMapping.split('\n'),
+        this.envEntryPosition
+      ),
+      {
+        '// {{OAUTH_ENV_SERVER_SCHEMA}}': serverSchema,
+        '// {{OAUTH_ENV_RUNTIME_MAPPING}}': runtimeMapping,
+      }
     );
   }
 }
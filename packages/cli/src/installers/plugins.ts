@@ -0,0 +1,424 @@
+/**
+ * Better Auth Plugin Registry
+ *
+ * This module provides a centralized registry of the Better Auth plugins the CLI
+ * can configure ("Auth features"), along with helper functions for plugin lookup.
+ * Each entry declares the server and client plugin code, Convex schema changes,
+ * dependencies, env vars and README notes the installer adds for it.
+ */
+
+import type { AuthPlugin } from './types.js';
+
+/**
+ * Version range for Better Auth plugin packages, matching better-auth in the templates
+ * Plugin packages are released in lockstep with better-auth, which @convex-dev/better-auth 0.11 supports up to 1.5.x.
+ */
+const BETTER_AUTH_VERSION = '~1.5.0';
+
+/**
+ * Email transport (convex/email) shared by the plugins and email & password flows that send emails
+ * Emails are logged to the Convex console until EMAIL_TRANSPORT selects the dev mailbox (/dev/mailbox) or "smtp".
+ * The mailbox (its devEmails table, Convex functions and route) is only added with the transport.
+ */
+export const EMAIL_TRANSPORT = {
+  templates: ['email'],
+  dependencies: {
+    nodemailer: '^7.0.0',
+  },
+  devDependencies: {
+    '@types/nodemailer': '^7.0.0',
+  },
+  schema: {
+    tables: [
+      {
+        constant: 'TABLE_SLUG_DEV_EMAILS',
+        slug: 'devEmails',
+        definition: `defineTable({
+  to: v.string(),
+  subject: v.string(),
+  text: v.string(),
+  html: v.optional(v.string()),
+})`,
+      },
+    ],
+  },
+  envHeading: 'Email (set on the Convex deployment: npx convex env set <NAME> <value>)',
+  env: [
+    { name: 'EMAIL_TRANSPORT', type: 'server', description: 'Email transport: "console" (default, logs emails), "mailbox" (development only, shows emails at /dev/mailbox) or "smtp"' },
+    { name: 'EMAIL_FROM', type: 'server', description: 'Sender address for auth emails (e.g., "My App <noreply@example.com>")' },
+    { name: 'SMTP_HOST', type: 'server', description: 'SMTP server host' },
+    { name: 'SMTP_PORT', type: 'server', description: 'SMTP server port (defaults to 587; 465 uses TLS)' },
+    { name: 'SMTP_USER', type: 'server', description: 'SMTP username' },
+    { name: 'SMTP_PASSWORD', type: 'server', description: 'SMTP password' },
+  ],
+} satisfies Pick<AuthPlugin, 'templates' | 'dependencies' | 'devDependencies' | 'schema' | 'env' | 'envHeading'>;
+
+/**
+ * Registry of all supported Better Auth plugins, in the order they are offered in the survey
+ * Maps plugin ID to plugin configuration
+ */
+export const AUTH_PLUGINS: Record<string, AuthPlugin> = {
+  admin: {
+    id: 'admin',
+    name: 'Admin',
+    description: 'User management, roles, banning and impersonation',
+    default: true,
+    server: {
+      imports: [
+        { from: 'better-auth/plugins', names: ['admin'] },
+        { from: '~/db/constants', names: ['USER_ROLES'] },
+      ],
+      plugin: `admin({
+  adminRoles: [USER_ROLES.admin],
+  defaultRole: USER_ROLES.user,
+})`,
+    },
+    client: {
+      imports: [{ from: 'better-auth/client/plugins', names: ['adminClient'] }],
+      plugin: 'adminClient()',
+    },
+    schema: {
+      fields: {
+        TABLE_SLUG_USERS: [
+          'banExpires: v.optional(v.number())',
+          'banned: v.optional(v.boolean())',
+          'banReason: v.optional(v.string())',
+          'role: v.optional(v.string())',
+        ],
+        TABLE_SLUG_SESSIONS: ['impersonatedBy: v.optional(v.id(TABLE_SLUG_USERS))'],
+      },
+    },
+    readme: {
+      title: 'Admin',
+      content: `### Admin
+
+The \`admin\` plugin adds user management endpoints (list, ban, impersonate, set role) for users with the \`admin\` role.
+Roles are defined in \`src/db/constants/auth.ts\`; see the [Better Auth admin plugin docs](https://www.better-auth.com/docs/plugins/admin).`,
+    },
+  },
+
+  'api-key': {
+    id: 'api-key',
+    name: 'API keys',
+    description: 'Let users create API keys to call your backend',
+    default: true,
+    server: {
+      imports: [{ from: '@better-auth/api-key', names: ['apiKey'] }],
+      plugin: 'apiKey()',
+    },
+    client: {
+      imports: [{ from: '@better-auth/api-key/client', names: ['apiKeyClient'] }],
+      plugin: 'apiKeyClient()',
+    },
+    dependencies: {
+      '@better-auth/api-key': BETTER_AUTH_VERSION,
+    },
+    schema: {
+      tables: [
+        {
+          constant: 'TABLE_SLUG_API_KEYS',
+          slug: 'apikey',
+          definition: `defineTable({
+  configId: v.string(),
+  name: v.optional(v.string()),
+  start: v.optional(v.string()),
+  referenceId: v.string(),
+  prefix: v.optional(v.string()),
+  key: v.string(),
+  refillInterval: v.optional(v.number()),
+  refillAmount: v.optional(v.number()),
+  lastRefillAt: v.optional(v.number()),
+  enabled: v.optional(v.boolean()),
+  rateLimitEnabled: v.optional(v.boolean()),
+  rateLimitTimeWindow: v.optional(v.number()),
+  rateLimitMax: v.optional(v.number()),
+  requestCount: v.optional(v.number()),
+  remaining: v.optional(v.number()),
+  lastRequest: v.optional(v.number()),
+  expiresAt: v.optional(v.number()),
+  createdAt: v.number(),
+  updatedAt: v.number(),
+  permissions: v.optional(v.string()),
+  metadata: v.optional(v.string()),
+})
+  .index("by_referenceId", ["referenceId"])
+  .index("by_key", ["key"])`,
+        },
+      ],
+    },
+    readme: {
+      title: 'API Keys',
+      content: `### API Keys
+
+The \`apiKey\` plugin lets signed-in users create, list and revoke API keys, stored in the \`apikey\` table.
+Send a key in the \`x-api-key\` header to authenticate requests; see the [Better Auth API key plugin docs](https://www.better-auth.com/docs/plugins/api-key).`,
+    },
+  },
+
+  'two-factor': {
+    id: 'two-factor',
+    name: 'Two-factor authentication',
+    description: 'Authenticator app (TOTP) codes and backup codes at sign-in',
+    server: {
+      imports: [{ from: 'better-auth/plugins', names: ['twoFactor'] }],
+      plugin: 'twoFactor()',
+    },
+    client: {
+      imports: [{ from: 'better-auth/client/plugins', names: ['twoFactorClient'] }],
+      plugin: 'twoFactorClient()',
+    },
+    uiProps: ['twoFactor={["totp"]}'],
+    schema: {
+      tables: [
+        {
+          constant: 'TABLE_SLUG_TWO_FACTORS',
+          slug: 'twoFactor',
+          definition: `defineTable({
+  secret: v.string(),
+  backupCodes: v.string(),
+  userId: v.id(TABLE_SLUG_USERS),
+})
+  .index("by_userId", ["userId"])`,
+        },
+      ],
+      fields: {
+        TABLE_SLUG_USERS: ['twoFactorEnabled: v.optional(v.union(v.null(), v.boolean()))'],
+      },
+    },
+    readme: {
+      title: 'Two-Factor Authentication',
+      content: `### Two-Factor Authentication
+
+The \`twoFactor\` plugin lets users enable authenticator app (TOTP) codes and backup codes from the security page at \`/account/security\`.
+Secrets are stored in the \`twoFactor\` table; see the [Better Auth two-factor plugin docs](https://www.better-auth.com/docs/plugins/2fa).`,
+    },
+  },
+
+  organization: {
+    id: 'organization',
+    name: 'Organizations',
+    description: 'Multi-tenant organizations with members, invitations and org roles',
+    server: {
+      imports: [{ from: 'better-auth/plugins', names: ['organization'] }],
+      plugin: 'organization()',
+    },
+    client: {
+      imports: [{ from: 'better-auth/client/plugins', names: ['organizationClient'] }],
+      plugin: 'organizationClient()',
+    },
+    uiProps: ['organization={true}'],
+    schema: {
+      tables: [
+        {
+          constant: 'TABLE_SLUG_ORGANIZATIONS',
+          slug: 'organization',
+          definition: `defineTable({
+  name: v.string(),
+  slug: v.string(),
+  logo: v.optional(v.union(v.null(), v.string())),
+  metadata: v.optional(v.union(v.null(), v.string())),
+  createdAt: v.number(),
+})
+  .index("by_slug", ["slug"])`,
+        },
+        {
+          constant: 'TABLE_SLUG_MEMBERS',
+          slug: 'member',
+          definition: `defineTable({
+  organizationId: v.id(TABLE_SLUG_ORGANIZATIONS),
+  userId: v.id(TABLE_SLUG_USERS),
+  role: v.string(),
+  createdAt: v.number(),
+})
+  .index("by_organizationId", ["organizationId"])
+  .index("by_userId", ["userId"])`,
+        },
+        {
+          constant: 'TABLE_SLUG_INVITATIONS',
+          slug: 'invitation',
+          definition: `defineTable({
+  organizationId: v.id(TABLE_SLUG_ORGANIZATIONS),
+  email: v.string(),
+  role: v.optional(v.union(v.null(), v.string())),
+  status: v.string(),
+  expiresAt: v.number(),
+  inviterId: v.id(TABLE_SLUG_USERS),
+  createdAt: v.number(),
+})
+  .index("by_organizationId", ["organizationId"])
+  .index("by_email", ["email"])`,
+        },
+      ],
+      fields: {
+        TABLE_SLUG_SESSIONS: ['activeOrganizationId: v.optional(v.union(v.null(), v.string()))'],
+      },
+    },
+    readme: {
+      title: 'Organizations',
+      content: `### Organizations
+
+The \`organization\` plugin adds organizations, members and invitations, stored in the \`organization\`, \`member\` and \`invitation\` tables.
+Manage an organization at \`/organization/settings\`, \`/organization/members\` and \`/organization/invitations\`.
+\`hasOrganizationPermission\` in \`organization-permissions.ts\` checks organization roles (\`owner\`, \`admin\`, \`member\`) from the signed-in user's \`member\` row on top of \`hasPermission\`,
+with the same permissions Better Auth's default roles have on organizations, members and invitations;
+see the [Better Auth organization plugin docs](https://www.better-auth.com/docs/plugins/organization).`,
+    },
+    templates: ['organization'],
+  },
+
+  passkey: {
+    id: 'passkey',
+    name: 'Passkeys',
+    description: 'Passwordless sign-in with passkeys (WebAuthn)',
+    server: {
+      imports: [{ from: '@better-auth/passkey', names: ['passkey'] }],
+      plugin: `passkey({
+  rpID: new URL(process.env.SITE_URL!).hostname,
+  origin: new URL(process.env.SITE_URL!).origin,
+})`,
+    },
+    client: {
+      imports: [{ from: '@better-auth/passkey/client', names: ['passkeyClient'] }],
+      plugin: 'passkeyClient()',
+    },
+    uiProps: ['passkey={true}'],
+    dependencies: {
+      '@better-auth/passkey': BETTER_AUTH_VERSION,
+    },
+    schema: {
+      tables: [
+        {
+          constant: 'TABLE_SLUG_PASSKEYS',
+          slug: 'passkey',
+          definition: `defineTable({
+  name: v.optional(v.string()),
+  publicKey: v.string(),
+  userId: v.id(TABLE_SLUG_USERS),
+  credentialID: v.string(),
+  counter: v.number(),
+  deviceType: v.string(),
+  backedUp: v.boolean(),
+  transports: v.optional(v.string()),
+  aaguid: v.optional(v.string()),
+  createdAt: v.optional(v.number()),
+})
+  .index("by_userId", ["userId"])
+  .index("by_credentialID", ["credentialID"])`,
+        },
+      ],
+    },
+    readme: {
+      title: 'Passkeys',
+      content: `### Passkeys
+
+The \`passkey\` plugin adds passkey sign-in to the auth forms and passkey management to \`/account/security\`, stored in the \`passkey\` table.
+The relying party ID and origin come from \`SITE_URL\`, so passkeys registered on one domain don't work on another;
+see the [Better Auth passkey plugin docs](https://www.better-auth.com/docs/plugins/passkey).`,
+    },
+  },
+
+  'magic-link': {
+    id: 'magic-link',
+    name: 'Magic Link',
+    description: 'Passwordless sign-in with a link sent by email',
+    signIn: true,
+    server: {
+      imports: [
+        { from: 'better-auth/plugins', names: ['magicLink'] },
+        { from: '@convex/email', names: ['sendEmail'] },
+      ],
+      plugin: `magicLink({
+  sendMagicLink: async ({ email, url }) => {
+    await sendEmail(ctx, {
+      to: email,
+      subject: "Your sign-in link",
+      text: \`Use this link to sign in:\\n\\n\${url}\`,
+    })
+  },
+})`,
+      usesContext: true,
+    },
+    client: {
+      imports: [{ from: 'better-auth/client/plugins', names: ['magicLinkClient'] }],
+      plugin: 'magicLinkClient()',
+    },
+    uiProps: ['magicLink={true}'],
+    ...EMAIL_TRANSPORT,
+    readme: {
+      title: 'Magic Link',
+      content: `### Magic Link
+
+The \`magicLink\` plugin adds passwordless sign-in: users enter their email and get a one-time sign-in link.
+Links go through the email transport in \`convex/email\`, which logs emails to the Convex console until the dev mailbox (\`/dev/mailbox\`) or SMTP is selected (see \`convex/email/README.md\`).
+See the [Better Auth magic link plugin docs](https://www.better-auth.com/docs/plugins/magic-link).`,
+    },
+  },
+
+  'email-otp': {
+    id: 'email-otp',
+    name: 'Email OTP',
+    description: 'Passwordless sign-in with a one-time code sent by email',
+    signIn: true,
+    server: {
+      imports: [
+        { from: 'better-auth/plugins', names: ['emailOTP'] },
+        { from: '@convex/email', names: ['sendEmail'] },
+      ],
+      plugin: `emailOTP({
+  sendVerificationOTP: async ({ email, otp }) => {
+    await sendEmail(ctx, {
+      to: email,
+      subject: "Your verification code",
+      text: \`Your verification code is \${otp}\`,
+    })
+  },
+})`,
+      usesContext: true,
+    },
+    client: {
+      imports: [{ from: 'better-auth/client/plugins', names: ['emailOTPClient'] }],
+      plugin: 'emailOTPClient()',
+    },
+    uiProps: ['emailOTP={true}'],
+    ...EMAIL_TRANSPORT,
+    readme: {
+      title: 'Email OTP',
+      content: `### Email OTP
+
+The \`emailOTP\` plugin adds passwordless sign-in with one-time codes sent by email.
+Codes are delivered by \`sendEmail\` in \`convex/email\`; set \`EMAIL_TRANSPORT=smtp\` on the Convex deployment to send real emails.
+See the [Better Auth email OTP plugin docs](https://www.better-auth.com/docs/plugins/email-otp).`,
+    },
+  },
+};
+
+/**
+ * Gets a plugin configuration by ID
+ *
+ * @param id - The plugin ID to lookup
+ * @returns The plugin configuration, or undefined if not found
+ */
+export function getAuthPlugin(id: string): AuthPlugin | undefined {
+  return AUTH_PLUGINS[id];
+}
+
+/**
+ * Gets an array of all supported plugin IDs
+ *
+ * @returns Array of plugin IDs
+ */
+export function getAuthPluginIds(): string[] {
+  return Object.keys(AUTH_PLUGINS);
+}
+
+/**
+ * Gets the IDs of the plugins selected by default
+ * Used when no selection is given (--yes, presets and options without authPlugins)
+ *
+ * @returns Array of default plugin IDs
+ */
+export function getDefaultAuthPluginIds(): string[] {
+  return Object.values(AUTH_PLUGINS)
+    .filter(plugin => plugin.default === true)
+    .map(plugin => plugin.id);
+}
@@ -5,7 +5,7 @@
  * supported by Better Auth, along with helper functions for provider lookup.
  */
 
-import type { OAuthProvider } from './types.js';
+import type { OAuthProvider, ProviderOption } from './types.js';
 
 /**
  * Registry of all supported OAuth providers
@@ -1161,7 +1161,7 @@ For more details, see the [Better Auth documentation](https://www.better-auth.co
       socialProvider: `paypal({
       clientId: process.env.PAYPAL_CLIENT_ID!,
       clientSecret: process.env.PAYPAL_CLIENT_SECRET!,
-      environment: process.env.PAYPAL_ENVIRONMENT || "sandbox",
+      environment: process.env.PAYPAL_ENVIRONMENT as "sandbox" | "live" | undefined,
     })`,
       scopes: [],
     },
@@ -1360,7 +1360,7 @@ For more details, see the [Better Auth documentation](https://www.better-auth.co
       socialProvider: `salesforce({
       clientId: process.env.SALESFORCE_CLIENT_ID!,
       clientSecret: process.env.SALESFORCE_CLIENT_SECRET!,
-      environment: process.env.SALESFORCE_ENVIRONMENT || "login",
+      environment: process.env.SALESFORCE_ENVIRONMENT as "sandbox" | "production" | undefined,
     })`,
       scopes: [],
     },
@@ -1379,7 +1379,7 @@ For more details, see the [Better Auth documentation](https://www.better-auth.co
         name: 'SALESFORCE_ENVIRONMENT',
         type: 'server',
         description:
-          'Salesforce environment: "login" (production) or "test" (sandbox) (default: login)',
+          'Salesforce environment: "production" or "sandbox" (default: production)',
       },
     ],
     docs: {
@@ -1388,7 +1388,7 @@ For more details, see the [Better Auth documentation](https://www.better-auth.co
     },
     requiresExtraConfig: true,
     extraConfigNotes:
-      'Salesforce supports environment field: "login" for production, "test" for sandbox.',
+      'Salesforce supports environment field: "production" or "sandbox".',
     readme: {
       title: 'Salesforce OAuth Setup',
       content: `## Salesforce OAuth Setup
@@ -1397,7 +1397,7 @@ For more details, see the [Better Auth documentation](https://www.better-auth.co
 2. Enable OAuth Settings
 3. Add callback URL: \`http://localhost:3000/api/auth/callback/salesforce\` (update for production)
 4. Copy the Consumer Key and Consumer Secret to your \`.env\` file
-5. Set SALESFORCE_ENVIRONMENT to "login" for production or "test" for sandbox
+5. Set SALESFORCE_ENVIRONMENT to "production" or "sandbox" (defaults to production)
 
 For more details, see the [Better Auth documentation](https://www.better-auth.com/docs/authentication/social).`,
     },
@@ -1643,6 +1643,17 @@ For more details, see the [Better Auth documentation](https://www.better-auth.co
   },
 };
 
+/**
+ * Better Auth option overrides keyed by environment variable name
+ * Variables not listed here map to a required option named after the
+ * camel-cased variable without the provider prefix (COGNITO_USER_POOL_ID -> userPoolId)
+ */
+export const PROVIDER_OPTION_OVERRIDES: Record<string, Partial<Omit<ProviderOption, 'envVar'>>> = {
+  MICROSOFT_TENANT_ID: { optional: true },
+  PAYPAL_ENVIRONMENT: { optional: true, values: ['sandbox', 'live'] },
+  SALESFORCE_ENVIRONMENT: { optional: true, values: ['sandbox', 'production'] },
+};
+
 /**
  * Gets a provider configuration by ID
  *
@@ -1685,3 +1696,29 @@ export function getAdditionalProviders(): OAuthProvider[] {
     (provider) => provider.popular !== true
   );
 }
+
+/**
+ * Gets the Better Auth options a provider is configured with
+ * Derived from the provider's env list and PROVIDER_OPTION_OVERRIDES
+ *
+ * @param provider - The provider configuration
+ * @returns Options in env list order
+ *
+ * @example
+ * getProviderOptions(getProvider('cognito')!)
+ * // Returns options for clientId, clientSecret, domain, region and userPoolId
+ */
+export function getProviderOptions(provider: OAuthProvider): ProviderOption[] {
+  return (provider.env ?? []).map((envVar) => {
+    const option = envVar.name
+      .slice(provider.envPrefix.length + 1)
+      .toLowerCase()
+      .replace(/_([a-z])/g, (_, letter: string) => letter.toUpperCase());
+
+    return {
+      envVar: envVar.name,
+      option,
+      ...PROVIDER_OPTION_OVERRIDES[envVar.name],
+    };
+  });
+}
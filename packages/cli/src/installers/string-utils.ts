@@ -5,9 +5,19 @@
  * and code generation for OAuth configuration.
  */
 
-import fs from 'fs-extra';
-import { getProvider } from './providers.js';
-import type { Framework, OAuthProvider } from './types.js';
+import { getProvider, getProviderOptions } from './providers.js';
+import { getAuthPlugin } from './plugins.js';
+import { DEFAULT_EMAIL_PASSWORD_OPTIONS } from './email-password.js';
+import { diskFileSystem } from '../helpers/fileSystem.js';
+import type { ProjectFileSystem } from '../helpers/fileSystem.js';
+import type {
+  CustomOIDCProvider,
+  EmailPasswordOptions,
+  EnvVariable,
+  Framework,
+  OAuthProvider,
+  ProviderOption,
+} from './types.js';
 
 /**
  * Default theme CSS variables for shadcn/ui in OKLCH format
@@ -89,17 +99,19 @@ export function detectIndentation(line: string): string {
  * @param filePath - Absolute path to the file
  * @param placeholder - The placeholder to replace (e.g., '// {{OAUTH_PROVIDERS}}')
  * @param content - The content to insert in place of the placeholder
- * @param options - Optional configuration for error handling
+ * @param options - Optional configuration for error handling and the file system to use (defaults to disk)
  * @throws Error if file not found or placeholder not found (unless graceful mode enabled)
  */
 export async function replacePlaceholder(
   filePath: string,
   placeholder: string,
   content: string,
-  options?: { graceful?: boolean; inline?: boolean }
+  options?: { graceful?: boolean; inline?: boolean; fileSystem?: ProjectFileSystem }
 ): Promise<void> {
+  const fileSystem = options?.fileSystem ?? diskFileSystem;
+
   // Read the file content
-  const fileContent = await fs.readFile(filePath, 'utf-8');
+  const fileContent = await fileSystem.readFile(filePath);
 
   // Check if placeholder exists
   if (!fileContent.includes(placeholder)) {
@@ -118,7 +130,7 @@ export async function replacePlaceholder(
   // If inline mode, do simple string replacement
   if (options?.inline) {
     const updatedContent = fileContent.replace(placeholder, content);
-    await fs.writeFile(filePath, updatedContent, 'utf-8');
+    await fileSystem.writeFile(filePath, updatedContent);
     return;
   }
 
@@ -157,7 +169,63 @@ export async function replacePlaceholder(
   }
 
   // Write the updated content back to the file
-  await fs.writeFile(filePath, updatedLines.join('\n'), 'utf-8');
+  await fileSystem.writeFile(filePath, updatedLines.join('\n'));
+}
+
+/**
+ * Generates a Better Auth email callback that sends one of the convex/email/templates emails
+ * The callback runs inside createAuth(), so it schedules the email with createAuth's ctx.
+ *
+ * @param callback - Better Auth option name (e.g., 'sendResetPassword')
+ * @param template - Email template name (e.g., 'reset-password')
+ * @returns Callback property without trailing comma
+ */
+function generateAuthEmailCallback(callback: string, template: string): string {
+  return `${callback}: async ({ user, url }) => {
+  await sendTemplateEmail(ctx, {
+    to: user.email,
+    template: "${template}",
+    props: { name: user.name, url }
+  })
+}`;
+}
+
+/**
+ * Generates the emailAndPassword options set by the email & password sub-options
+ * Options left at Better Auth's defaults are omitted.
+ *
+ * @param options - Resolved email & password sub-options
+ * @returns Property entries for the emailAndPassword object, without trailing commas
+ *
+ * @example
+ * generateEmailPasswordProperties({ requireEmailVerification: true, allowPasswordReset: false, minPasswordLength: 12 })
+ * // Returns: ['minPasswordLength: 12', 'requireEmailVerification: true']
+ */
+export function generateEmailPasswordProperties(options: Required<EmailPasswordOptions>): string[] {
+  const { minPasswordLength } = DEFAULT_EMAIL_PASSWORD_OPTIONS;
+  return [
+    ...(options.minPasswordLength !== minPasswordLength ? [`minPasswordLength: ${options.minPasswordLength}`] : []),
+    ...(options.requireEmailVerification ? ['requireEmailVerification: true'] : []),
+    ...(options.allowPasswordReset ? [generateAuthEmailCallback('sendResetPassword', 'reset-password')] : []),
+  ];
+}
+
+/**
+ * Generates the Better Auth emailVerification options that send the verification email
+ *
+ * @param options - Resolved email & password sub-options
+ * @returns emailVerification property without trailing comma, or empty string if verification isn't required
+ */
+export function generateEmailVerificationConfig(options: Required<EmailPasswordOptions>): string {
+  if (!options.requireEmailVerification) {
+    return '';
+  }
+
+  return `emailVerification: {
+  autoSignInAfterVerification: true,
+  sendOnSignUp: true,
+${indentLines(generateAuthEmailCallback('sendVerificationEmail', 'verify-email'), '  ')}
+}`;
 }
 
 /**
@@ -185,10 +253,13 @@ export function generateEmailPasswordConfig(enabled: boolean): string {
 
 /**
  * Generates the credentials prop for Better Auth UI Provider
- * Used to enable/disable email & password authentication UI
+ * Used to enable/disable email & password authentication UI, and to match the
+ * form to the sub-options (no "Forgot password?" link without reset emails,
+ * client-side minimum password length)
  *
  * @param enabled - Whether email/password authentication is enabled
- * @returns Complete credentials prop with boolean value
+ * @param options - Resolved email & password sub-options
+ * @returns Complete credentials prop with a boolean or CredentialsOptions value
  *
  * @example
  * generateCredentialsValue(true)
@@ -196,9 +267,30 @@ export function generateEmailPasswordConfig(enabled: boolean): string {
  *
  * generateCredentialsValue(false)
  * // Returns: 'credentials={false}'
+ *
+ * generateCredentialsValue(true, { requireEmailVerification: false, allowPasswordReset: false, minPasswordLength: 8 })
+ * // Returns: 'credentials={{\n  forgotPassword: false\n}}'
  */
-export function generateCredentialsValue(enabled: boolean): string {
-  return `credentials={${enabled}}`;
+export function generateCredentialsValue(
+  enabled: boolean,
+  options?: Required<EmailPasswordOptions>
+): string {
+  const credentialsOptions = enabled && options
+    ? [
+      ...(options.allowPasswordReset ? [] : ['forgotPassword: false']),
+      ...(options.minPasswordLength !== DEFAULT_EMAIL_PASSWORD_OPTIONS.minPasswordLength
+        ? [`passwordValidation: {\n  minLength: ${options.minPasswordLength}\n}`]
+        : []),
+    ]
+    : [];
+
+  if (credentialsOptions.length === 0) {
+    return `credentials={${enabled}}`;
+  }
+
+  return `credentials={{
+${indentLines(credentialsOptions.join(',\n'), '  ')}
+}}`;
 }
 
 /**
@@ -228,95 +320,146 @@ export function generateAuthProvidersBlock(
   // Only add email/password configuration when enabled
   if (emailPasswordEnabled) {
     parts.push(`emailAndPassword: {
-      enabled: true
-    },`);
+  enabled: true
+},`);
   }
 
   // Add OAuth providers (using object structure)
   if (oauthProviders.length > 0) {
     const providersObject = oauthProviders
-      .map(providerId => {
-        const provider = getProvider(providerId);
-        if (!provider) {
-          throw new Error(`Unknown OAuth provider: ${providerId}`);
-        }
-
-        // Build the provider configuration object
-        const configLines: string[] = [
-          `clientId: process.env.${provider.envPrefix}_CLIENT_ID!,`,
-          `clientSecret: process.env.${provider.envPrefix}_CLIENT_SECRET!,`
-        ];
-
-        // Add extra fields if needed (like Figma's clientKey)
-        if (providerId === 'figma') {
-          configLines.push(`clientKey: process.env.FIGMA_CLIENT_KEY!,`);
-        }
-
-        return `${providerId}: {
-        ${configLines.join('\n        ')}
-      }`;
-      })
-      .join(',\n      ');
+      .map(generateSocialProviderEntry)
+      .join(',\n');
 
     parts.push(`socialProviders: {
-      ${providersObject}
-    },`);
+${indentLines(providersObject, '  ')}
+},`);
   }
 
   // Return combined content or empty string (which triggers line removal)
-  return parts.join('\n    ');
+  return parts.join('\n');
 }
 
 /**
- * Generates env.ts server schema block for OAuth providers
- * Creates zod validation schema entries for OAuth provider credentials
+ * Generates a single provider entry for the Better Auth socialProviders object
+ * Returned without base indentation so it can be inserted at any nesting level
  *
- * @param providers - Array of OAuth provider IDs
- * @returns Zod schema definitions for server-side env vars
+ * @param providerId - OAuth provider ID (e.g., 'google')
+ * @returns Provider entry without trailing comma
+ * @throws Error if the provider ID is unknown
  *
  * @example
- * generateEnvTsServerSchema(['google', 'github'])
+ * generateSocialProviderEntry('github')
  * // Returns:
- * // GOOGLE_CLIENT_ID: z.string().optional(),
- * // GOOGLE_CLIENT_SECRET: z.string().optional(),
- * // GITHUB_CLIENT_ID: z.string().optional(),
- * // GITHUB_CLIENT_SECRET: z.string().optional(),
+ * // github: {
+ * //   clientId: process.env.GITHUB_CLIENT_ID!,
+ * //   clientSecret: process.env.GITHUB_CLIENT_SECRET!,
+ * //   scope: ["user:email"],
+ * // }
  */
-export function generateEnvTsServerSchema(providers: string[]): string {
-  if (providers.length === 0) {
-    return '';
+export function generateSocialProviderEntry(providerId: string): string {
+  const provider = requireProvider(providerId);
+
+  // Build the provider configuration object from its env-backed options
+  const configLines = getProviderOptions(provider).map(
+    option => `${option.option}: ${generateOptionValue(option)},`
+  );
+
+  // Request the scopes the provider needs beyond Better Auth's defaults
+  const scopes = provider.betterAuthConfig?.scopes ?? [];
+  if (scopes.length > 0) {
+    configLines.push(`scope: [${scopes.map(scope => `"${scope}"`).join(', ')}],`);
   }
 
-  const schemas = providers
-    .map(providerId => {
-      const provider = getProvider(providerId);
-      if (!provider) {
-        throw new Error(`Unknown OAuth provider: ${providerId}`);
-      }
+  return `${providerId}: {
+${indentLines(configLines.join('\n'), '  ')}
+}`;
+}
 
-      const lines: string[] = [];
+/**
+ * Generates the process.env expression passed to a Better Auth provider option
+ *
+ * @param option - Provider option mapping
+ * @returns Expression typed to match the option
+ */
+function generateOptionValue(option: ProviderOption): string {
+  const value = `process.env.${option.envVar}`;
 
-      // Add CLIENT_ID
-      lines.push(`${provider.envPrefix}_CLIENT_ID: z.string(),`);
+  if (option.values) {
+    const union = option.values.map(literal => `"${literal}"`).join(' | ');
+    return `${value} as ${option.optional ? `${union} | undefined` : union}`;
+  }
 
-      // Add CLIENT_SECRET
-      lines.push(`${provider.envPrefix}_CLIENT_SECRET: z.string(),`);
+  return option.optional ? value : `${value}!`;
+}
 
-      // Add extra fields if needed (like Figma's CLIENT_KEY)
-      if (providerId === 'figma') {
-        lines.push(`FIGMA_CLIENT_KEY: z.string(),`);
-      }
+/**
+ * Generates the zod schema validating a provider option's environment variable
+ * Every provider variable is optional, so a fresh project starts with empty credential slots.
+ *
+ * @param option - Provider option mapping
+ * @returns Zod schema expression
+ */
+function generateOptionSchema(option: ProviderOption): string {
+  const schema = option.values
+    ? `z.enum([${option.values.map(literal => `"${literal}"`).join(', ')}])`
+    : 'z.string()';
 
-      return lines.join('\n    ');
-    })
-    .join('\n    ');
+  // Credentials are read by the Convex deployment, so the app validates its env before they are filled in
+  return `${schema}.optional()`;
+}
+
+/**
+ * Looks up a provider, failing on unknown IDs
+ *
+ * @param providerId - OAuth provider ID
+ * @returns The provider configuration
+ * @throws Error if the provider ID is unknown
+ */
+function requireProvider(providerId: string): OAuthProvider {
+  const provider = getProvider(providerId);
+  if (!provider) {
+    throw new Error(`Unknown OAuth provider: ${providerId}`);
+  }
+  return provider;
+}
 
-  return schemas;
+/**
+ * Indents every non-empty line of a multi-line string
+ *
+ * @param text - Text to indent
+ * @param indentation - Whitespace to prepend to each line
+ * @returns Indented text
+ */
+export function indentLines(text: string, indentation: string): string {
+  return text
+    .split('\n')
+    .map(line => (line ? indentation + line : line))
+    .join('\n');
+}
+
+/**
+ * Generates env.ts server schema block for OAuth providers
+ * Creates zod validation schema entries for every provider environment variable
+ *
+ * @param providers - Array of OAuth provider IDs
+ * @returns Zod schema definitions for server-side env vars
+ *
+ * @example
+ * generateEnvTsServerSchema(['google', 'microsoft'])
+ * // Returns:
+ * // GOOGLE_CLIENT_ID: z.string().optional(),
+ * // GOOGLE_CLIENT_SECRET: z.string().optional(),
+ * // MICROSOFT_CLIENT_ID: z.string().optional(),
+ * // MICROSOFT_CLIENT_SECRET: z.string().optional(),
+ * // MICROSOFT_TENANT_ID: z.string().optional(),
+ */
+export function generateEnvTsServerSchema(providers: string[]): string {
+  return formatEnvSchema(providers.flatMap(providerId => getProviderOptions(requireProvider(providerId))));
 }
 
 /**
  * Generates env.ts runtime mapping block for OAuth providers
- * Creates process.env mappings for OAuth provider credentials
+ * Creates process.env mappings for every provider environment variable
  *
  * @param providers - Array of OAuth provider IDs
  * @returns Runtime environment mappings for OAuth env vars
@@ -330,35 +473,33 @@ export function generateEnvTsServerSchema(providers: string[]): string {
  * // GITHUB_CLIENT_SECRET: process.env.GITHUB_CLIENT_SECRET,
  */
 export function generateEnvTsRuntimeMapping(providers: string[]): string {
-  if (providers.length === 0) {
-    return '';
-  }
-
-  const mappings = providers
-    .map(providerId => {
-      const provider = getProvider(providerId);
-      if (!provider) {
-        throw new Error(`Unknown OAuth provider: ${providerId}`);
-      }
-
-      const lines: string[] = [];
-
-      // Add CLIENT_ID mapping
-      lines.push(`${provider.envPrefix}_CLIENT_ID: process.env.${provider.envPrefix}_CLIENT_ID,`);
-
-      // Add CLIENT_SECRET mapping
-      lines.push(`${provider.envPrefix}_CLIENT_SECRET: process.env.${provider.envPrefix}_CLIENT_SECRET,`);
-
-      // Add extra fields if needed (like Figma's CLIENT_KEY)
-      if (providerId === 'figma') {
-        lines.push(`FIGMA_CLIENT_KEY: process.env.FIGMA_CLIENT_KEY,`);
-      }
+  return formatEnvRuntimeMapping(
+    providers.flatMap(providerId => getProviderOptions(requireProvider(providerId)))
+  );
+}
 
-      return lines.join('\n    ');
-    })
+/**
+ * Formats env.ts schema entries for provider options
+ *
+ * @param options - Provider option mappings
+ * @returns Zod schema entries joined at env.ts indentation
+ */
+function formatEnvSchema(options: ProviderOption[]): string {
+  return options
+    .map(option => `${option.envVar}: ${generateOptionSchema(option)},`)
     .join('\n    ');
+}
 
-  return mappings;
+/**
+ * Formats env.ts runtime mapping entries for provider options
+ *
+ * @param options - Provider option mappings
+ * @returns process.env mappings joined at env.ts indentation
+ */
+function formatEnvRuntimeMapping(options: ProviderOption[]): string {
+  return options
+    .map(option => `${option.envVar}: process.env.${option.envVar},`)
+    .join('\n    ');
 }
 
 /**
@@ -517,6 +658,47 @@ export function generateEnvVarsBlock(
   return envVars.join('\n');
 }
 
+/**
+ * Generates environment variable declarations from EnvVariable definitions
+ * Applies framework-specific prefixes for client variables
+ *
+ * @param envVars - Variables to declare (e.g., a plugin's env list)
+ * @param framework - Target framework ('nextjs' or 'tanstack')
+ * @returns Declarations in the generateEnvVarsBlock format, without duplicates
+ */
+export function generateEnvVariablesBlock(envVars: EnvVariable[], framework: Framework): string {
+  const declarations = envVars.map(envVar => {
+    const prefix = envVar.type === 'client' ? (framework === 'nextjs' ? 'NEXT_PUBLIC_' : 'VITE_') : '';
+    return `# ${envVar.description}\n${prefix}${envVar.name}=`;
+  });
+
+  // Features that share a transport (e.g., convex/email) declare the same variables
+  return [...new Set(declarations)].join('\n');
+}
+
+/**
+ * Generates environment variable declarations for Better Auth plugins
+ * Applies framework-specific prefixes for client variables
+ *
+ * @param pluginIds - Array of plugin IDs (e.g., ['admin', 'api-key'])
+ * @param framework - Target framework ('nextjs' or 'tanstack')
+ * @returns Declarations in the generateEnvVarsBlock format, without duplicates (empty if no plugin reads env vars)
+ */
+export function generateAuthPluginEnvVarsBlock(
+  pluginIds: string[],
+  framework: Framework
+): string {
+  const envVars = pluginIds.flatMap(pluginId => {
+    const plugin = getAuthPlugin(pluginId);
+    if (!plugin) {
+      throw new Error(`Unknown auth plugin: ${pluginId}`);
+    }
+    return plugin.env ?? [];
+  });
+
+  return generateEnvVariablesBlock(envVars, framework);
+}
+
 /**
  * Generates README section with OAuth provider setup guides
  * Compiles markdown content from selected providers
@@ -576,3 +758,183 @@ export function getProvidersRequiringExtraConfig(
     })
     .filter(provider => provider.requiresExtraConfig === true);
 }
+
+/**
+ * Gets the genericOAuth options a custom OpenID Connect provider is configured with
+ * Env var names are derived from the provider ID (e.g., 'my-idp' uses MY_IDP_CLIENT_ID)
+ *
+ * @param provider - Custom OpenID Connect provider
+ * @returns Options in the key order of the generated config entry
+ */
+export function getCustomOIDCOptions(provider: CustomOIDCProvider): ProviderOption[] {
+  const envPrefix = provider.id.toUpperCase().replace(/-/g, '_');
+
+  return [
+    { envVar: `${envPrefix}_CLIENT_ID`, option: 'clientId' },
+    { envVar: `${envPrefix}_CLIENT_SECRET`, option: 'clientSecret' },
+    { envVar: `${envPrefix}_DISCOVERY_URL`, option: 'discoveryUrl' },
+  ];
+}
+
+/**
+ * Generates a genericOAuth plugin config entry for a custom OpenID Connect provider
+ * Returned without base indentation so it can be inserted at any nesting level
+ *
+ * @param provider - Custom OpenID Connect provider
+ * @returns Config entry without trailing comma
+ *
+ * @example
+ * generateGenericOAuthConfigEntry({ id: 'keycloak', name: 'Keycloak', discoveryUrl: '...' })
+ * // Returns:
+ * // {
+ * //   clientId: process.env.KEYCLOAK_CLIENT_ID!,
+ * //   clientSecret: process.env.KEYCLOAK_CLIENT_SECRET!,
+ * //   discoveryUrl: process.env.KEYCLOAK_DISCOVERY_URL!,
+ * //   providerId: "keycloak",
+ * // }
+ */
+export function generateGenericOAuthConfigEntry(provider: CustomOIDCProvider): string {
+  const configLines = getCustomOIDCOptions(provider).map(
+    option => `${option.option}: ${generateOptionValue(option)},`
+  );
+  configLines.push(`providerId: ${JSON.stringify(provider.id)},`);
+
+  return `{
+${indentLines(configLines.join('\n'), '  ')}
+}`;
+}
+
+/**
+ * Generates the better-auth-ui genericOAuth provider entry for a custom provider
+ *
+ * @param provider - Custom OpenID Connect provider
+ * @returns Entry for the `genericOAuth={{ providers: [...] }}` prop
+ *
+ * @example
+ * generateGenericOAuthUIEntry({ id: 'keycloak', name: 'Keycloak', discoveryUrl: '...' })
+ * // Returns: '{ name: "Keycloak", provider: "keycloak" }'
+ */
+export function generateGenericOAuthUIEntry(provider: CustomOIDCProvider): string {
+  return `{ name: ${JSON.stringify(provider.name)}, provider: ${JSON.stringify(provider.id)} }`;
+}
+
+/**
+ * Generates env.ts schema entries for a custom OpenID Connect provider
+ *
+ * @param provider - Custom OpenID Connect provider
+ * @returns Zod schema entries in the generateEnvTsServerSchema format
+ */
+export function generateCustomOIDCEnvSchema(provider: CustomOIDCProvider): string {
+  return formatEnvSchema(getCustomOIDCOptions(provider));
+}
+
+/**
+ * Generates env.ts runtime mapping entries for a custom OpenID Connect provider
+ *
+ * @param provider - Custom OpenID Connect provider
+ * @returns Runtime mappings in the generateEnvTsRuntimeMapping format
+ */
+export function generateCustomOIDCEnvRuntimeMapping(provider: CustomOIDCProvider): string {
+  return formatEnvRuntimeMapping(getCustomOIDCOptions(provider));
+}
+
+/**
+ * Generates .env declarations for a custom OpenID Connect provider
+ * The discovery URL is prefilled with the value entered in the CLI.
+ *
+ * @param provider - Custom OpenID Connect provider
+ * @returns Declarations in the generateEnvVarsBlock format
+ */
+export function generateCustomOIDCEnvVarsBlock(provider: CustomOIDCProvider): string {
+  const [clientId, clientSecret, discoveryUrl] = getCustomOIDCOptions(provider);
+
+  return [
+    `# ${provider.name} OIDC Client ID`,
+    `${clientId.envVar}=`,
+    `# ${provider.name} OIDC Client Secret`,
+    `${clientSecret.envVar}=`,
+    `# ${provider.name} OIDC Discovery URL`,
+    `${discoveryUrl.envVar}=${provider.discoveryUrl}`,
+  ].join('\n');
+}
+
+/**
+ * Generates the README setup guide for a custom OpenID Connect provider
+ * The title ends in "OAuth Setup" so it is grouped with the other provider sections.
+ *
+ * @param provider - Custom OpenID Connect provider
+ * @returns README section title and markdown content
+ */
+export function generateCustomOIDCReadme(
+  provider: CustomOIDCProvider
+): NonNullable<OAuthProvider['readme']> {
+  const [clientId, clientSecret, discoveryUrl] = getCustomOIDCOptions(provider);
+  const title = `${provider.name} OAuth Setup`;
+
+  return {
+    title,
+    content: `## ${title}
+
+${provider.name} is configured as a custom OpenID Connect provider through Better Auth's \`genericOAuth\` plugin.
+
+1. Register an OAuth client with ${provider.name}
+2. Set the redirect URI to: \`http://localhost:3000/api/auth/oauth2/callback/${provider.id}\` (update for production)
+3. Copy the Client ID and Client Secret to \`${clientId.envVar}\` and \`${clientSecret.envVar}\` in your \`.env\` file
+4. \`${discoveryUrl.envVar}\` is prefilled with ${provider.discoveryUrl}; update it if your issuer changes
+
+For more details, see the [Better Auth documentation](https://www.better-auth.com/docs/plugins/generic-oauth).`,
+  };
+}
+
+/**
+ * Banner heading of the provider credentials section in .env.example and .env.local
+ */
+export const OAUTH_ENV_HEADING = 'OAuth Provider Credentials';
+
+/**
+ * Default site URL written to .env.local for local development
+ */
+export const DEFAULT_SITE_URL = 'http://localhost:3000';
+
+/**
+ * Generates a git-ignored .env.local that runs without manual setup
+ * Contains a generated Better Auth secret, site URL defaults and empty slots for
+ * every selected provider variable. `npx convex dev` appends the Convex deployment.
+ *
+ * @param options - Secret, site URL variables and selected providers
+ * @returns .env.local content
+ */
+export function generateEnvLocal(options: {
+  authSecret: string;
+  siteUrlVars: string[];
+  oauthProviders: string[];
+  customOIDCProvider?: CustomOIDCProvider;
+  framework: Framework;
+}): string {
+  const banner = (title: string) => [
+    '# -----------------------------------------------------------------------------',
+    `# ${title}`,
+    '# -----------------------------------------------------------------------------',
+  ];
+
+  const lines = [
+    ...banner('Local Environment (git-ignored - never commit this file)'),
+    '# Add BETTER_AUTH_SECRET and SITE_URL to your Convex deployment as well:',
+    '# npx convex env set BETTER_AUTH_SECRET <value>',
+    '',
+    ...banner('Better Auth'),
+    `BETTER_AUTH_SECRET=${options.authSecret}`,
+    ...options.siteUrlVars.map(name => `${name}=${DEFAULT_SITE_URL}`),
+  ];
+
+  const providerBlocks = [
+    generateEnvVarsBlock(options.oauthProviders, options.framework),
+    options.customOIDCProvider ? generateCustomOIDCEnvVarsBlock(options.customOIDCProvider) : '',
+  ].filter(Boolean);
+
+  if (providerBlocks.length > 0) {
+    lines.push('', ...banner(OAUTH_ENV_HEADING), ...providerBlocks);
+  }
+
+  return `${lines.join('\n')}\n`;
+}
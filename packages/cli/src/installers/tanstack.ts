@@ -7,8 +7,8 @@
 
 import { join } from 'path';
 import { FrameworkInstaller } from './base.js';
+import type { ProjectFilePaths } from './types.js';
 import {
-  replacePlaceholder,
   generateAuthProvidersBlock,
   generateOAuthUIProvidersBlock,
   generateEnvVarsBlock,
@@ -16,7 +16,15 @@ import {
   generateEnvTsServerSchema,
   generateEnvTsRuntimeMapping,
   generateCredentialsValue,
+  generateSocialProviderEntry,
 } from './string-utils.js';
+import {
+  addEmailPasswordAuth,
+  addSocialProvider,
+  setCredentialsProp,
+  addUIProvider,
+  addEnvConfigEntries,
+} from './code-edits.js';
 
 /**
  * TanStack Start framework installer
@@ -30,10 +38,40 @@ export class TanStackInstaller extends FrameworkInstaller {
     return 'tanstack';
   }
 
+  /**
+   * Site URL variables: SITE_URL for the server and the public copy for the client
+   */
+  get siteUrlEnvVars(): string[] {
+    return ['SITE_URL', 'VITE_SITE_URL'];
+  }
+
+  /**
+   * TanStack Start file locations
+   */
+  get projectFiles(): ProjectFilePaths {
+    return {
+      authConfig: 'convex/auth/index.ts',
+      authUIConfig: 'src/providers.tsx',
+      authPlugins: 'convex/auth/plugins/index.ts',
+      authClient: 'src/lib/auth/client.ts',
+      envConfig: 'src/env.ts',
+      envExample: '.env.example',
+      envLocal: '.env.local',
+      readme: 'README.md',
+      themeCSS: 'src/styles.css',
+      themeProvider: 'src/lib/theme.tsx',
+      convexSchema: 'convex/schema.ts',
+      convexApi: 'convex/_generated/api.d.ts',
+      dbConstants: 'src/db/constants/index.ts',
+      routeTree: 'src/routeTree.gen.ts',
+    };
+  }
+
   /**
    * Update OAuth configuration in Convex auth file
    * Target file: convex/auth/index.ts
-   * Placeholders: // {{EMAIL_PASSWORD_AUTH}} and // {{OAUTH_PROVIDERS}}
+   * Adds emailAndPassword and socialProviders to the betterAuth({...}) options
+   * Fallback placeholders: // {{EMAIL_PASSWORD_AUTH}} and // {{OAUTH_PROVIDERS}}
    *
    * @param selectedProviders - Array of provider IDs to configure
    * @param emailPasswordEnabled - Whether email/password authentication is enabled
@@ -42,40 +80,27 @@ export class TanStackInstaller extends FrameworkInstaller {
     selectedProviders: string[],
     emailPasswordEnabled: boolean
   ): Promise<void> {
-    const authFilePath = join(this.targetPath, 'convex/auth/index.ts');
-
-    // Generate the combined auth providers block
-    const authProvidersBlock = generateAuthProvidersBlock(
-      selectedProviders,
-      emailPasswordEnabled
-    );
-
-    // Replace EMAIL_PASSWORD_AUTH placeholder - this will be removed in the new approach
-    // since we're using a unified providers block
-    // The template will have both placeholders, but we'll use just OAUTH_PROVIDERS
-    // for the combined block
-
-    // Replace OAUTH_PROVIDERS placeholder with the combined auth providers block
-    await replacePlaceholder(
-      authFilePath,
-      '// {{OAUTH_PROVIDERS}}',
-      authProvidersBlock
-    );
-
-    // Remove the EMAIL_PASSWORD_AUTH placeholder line if it exists
-    // by replacing it with empty string
-    await replacePlaceholder(
-      authFilePath,
-      '// {{EMAIL_PASSWORD_AUTH}}',
-      '',
-      { graceful: true }
+    await this.transformSourceFile(
+      this.projectFiles.authConfig,
+      (content) => {
+        const withEmailPassword = emailPasswordEnabled ? addEmailPasswordAuth(content) : content;
+        return selectedProviders.reduce(
+          (source, providerId) => addSocialProvider(source, generateSocialProviderEntry(providerId)),
+          withEmailPassword
+        );
+      },
+      {
+        '// {{OAUTH_PROVIDERS}}': generateAuthProvidersBlock(selectedProviders, emailPasswordEnabled),
+        '// {{EMAIL_PASSWORD_AUTH}}': '',
+      }
     );
   }
 
   /**
    * Update OAuth UI configuration in providers file
    * Target file: src/providers.tsx
-   * Placeholders: OAUTH_UI_PROVIDERS and EMAIL_PASSWORD_CREDENTIALS
+   * Sets the credentials prop and the social providers list on the AuthUIProvider element
+   * Fallback placeholders: OAUTH_UI_PROVIDERS and EMAIL_PASSWORD_CREDENTIALS
    *
    * @param selectedProviders - Array of provider IDs to configure
    * @param emailPasswordEnabled - Whether email/password authentication is enabled
@@ -84,22 +109,16 @@ export class TanStackInstaller extends FrameworkInstaller {
     selectedProviders: string[],
     emailPasswordEnabled: boolean
   ): Promise<void> {
-    const providersFilePath = join(this.targetPath, 'src/providers.tsx');
-
-    // Replace OAuth UI providers list
-    const uiConfigBlock = generateOAuthUIProvidersBlock(selectedProviders);
-    await replacePlaceholder(
-      providersFilePath,
-      '// {{OAUTH_UI_PROVIDERS}}',
-      uiConfigBlock
-    );
-
-    // Replace credentials prop
-    const credentialsValue = generateCredentialsValue(emailPasswordEnabled);
-    await replacePlaceholder(
-      providersFilePath,
-      '/* {{EMAIL_PASSWORD_CREDENTIALS}} */',
-      credentialsValue
+    await this.transformSourceFile(
+      this.projectFiles.authUIConfig,
+      (content) => selectedProviders.reduce(
+        (source, providerId) => addUIProvider(source, providerId),
+        setCredentialsProp(content, generateCredentialsValue(emailPasswordEnabled))
+      ),
+      {
+        '// {{OAUTH_UI_PROVIDERS}}': generateOAuthUIProvidersBlock(selectedProviders),
+        '/* {{EMAIL_PASSWORD_CREDENTIALS}} */': generateCredentialsValue(emailPasswordEnabled),
+      }
     );
   }
 
@@ -112,11 +131,11 @@ export class TanStackInstaller extends FrameworkInstaller {
    * @param selectedProviders - Array of provider IDs to configure
    */
   async updateEnvExample(selectedProviders: string[]): Promise<void> {
-    const envFilePath = join(this.targetPath, '.env.example');
+    const envFilePath = join(this.targetPath, this.projectFiles.envExample);
     const envVarsBlock = generateEnvVarsBlock(selectedProviders, 'tanstack');
 
     // Always call to remove placeholder even when no providers selected
-    await replacePlaceholder(
+    await this.replacePlaceholder(
       envFilePath,
       '# {{ENV_OAUTH_VARS}}',
       envVarsBlock,
@@ -133,11 +152,11 @@ export class TanStackInstaller extends FrameworkInstaller {
    * @param selectedProviders - Array of provider IDs to configure
    */
   async updateReadme(selectedProviders: string[]): Promise<void> {
-    const readmeFilePath = join(this.targetPath, 'README.md');
+    const readmeFilePath = join(this.targetPath, this.projectFiles.readme);
     const readmeSection = generateReadmeSection(selectedProviders);
 
     // Always call to remove placeholder even when no providers selected
-    await replacePlaceholder(
+    await this.replacePlaceholder(
       readmeFilePath,
       '<!-- {{OAUTH_SETUP_GUIDE}} -->',
       readmeSection,
@@ -153,9 +172,9 @@ export class TanStackInstaller extends FrameworkInstaller {
    * @param themeContent - CSS content to apply
    */
   async applyTweakCNTheme(themeContent: string): Promise<void> {
-    const cssFilePath = join(this.targetPath, 'src/styles.css');
+    const cssFilePath = join(this.targetPath, this.projectFiles.themeCSS);
 
-    await replacePlaceholder(
+    await this.replacePlaceholder(
       cssFilePath,
       '/* {{TWEAKCN_THEME}} */',
       themeContent
@@ -165,28 +184,27 @@ export class TanStackInstaller extends FrameworkInstaller {
   /**
    * Update env.ts with OAuth provider environment variables
    * Target file: src/env.ts
-   * Placeholders: // {{OAUTH_ENV_SERVER_SCHEMA}} and // {{OAUTH_ENV_RUNTIME_MAPPING}}
-   * Adds zod schema validation and runtime mappings for OAuth credentials
+   * Adds zod schema validation (server) and runtime mappings (runtimeEnv) for OAuth credentials
+   * Fallback placeholders: // {{OAUTH_ENV_SERVER_SCHEMA}} and // {{OAUTH_ENV_RUNTIME_MAPPING}}
    *
    * @param selectedProviders - Array of provider IDs to configure
    */
   async updateEnvTs(selectedProviders: string[]): Promise<void> {
-    const envFilePath = join(this.targetPath, 'src/env.ts');
-
-    // Generate server schema (zod validation)
     const serverSchema = generateEnvTsServerSchema(selectedProviders);
-    await replacePlaceholder(
-      envFilePath,
-      '// {{OAUTH_ENV_SERVER_SCHEMA}}',
-      serverSchema
-    );
-
-    // Generate runtime mapping (process.env assignments)
     const runtimeMapping = generateEnvTsRuntimeMapping(selectedProviders);
-    await replacePlaceholder(
-      envFilePath,
-      '// {{OAUTH_ENV_RUNTIME_MAPPING}}',
-      runtimeMapping
+
+    await this.transformSourceFile(
+      this.projectFiles.envConfig,
+      (content) => addEnvConfigEntries(
+        addEnvConfigEntries(content, 'server', serverSchema.split('\n'), this.envEntryPosition),
+        'runtimeEnv',
+        runtimeMapping.split('\n'),
+        this.envEntryPosition
+      ),
+      {
+        '// {{OAUTH_ENV_SERVER_SCHEMA}}': serverSchema,
+        '// {{OAUTH_ENV_RUNTIME_MAPPING}}': runtimeMapping,
+      }
     );
   }
 }
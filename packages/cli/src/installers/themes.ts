@@ -0,0 +1,342 @@
+/**
+ * Bundled Theme Gallery
+ *
+ * Curated themes shipped with the CLI, so a palette can be picked without
+ * opening an editor or going online. Palettes are the shadcn/ui presets,
+ * stored in the same OKLCH format as DEFAULT_THEME.
+ */
+
+import { DEFAULT_THEME } from './string-utils.js';
+import type { BundledTheme } from './types.js';
+
+/**
+ * Registry of bundled themes, in the order they are offered in the survey
+ * Maps theme ID to theme configuration
+ */
+export const BUNDLED_THEMES: Record<string, BundledTheme> = {
+  default: {
+    id: 'default',
+    name: 'Default',
+    description: 'Neutral shadcn/ui palette',
+    css: DEFAULT_THEME,
+  },
+
+  slate: {
+    id: 'slate',
+    name: 'Slate',
+    description: 'Cool blue-grey neutrals',
+    css: `:root {
+  --background: oklch(100% 0.000 0);
+  --foreground: oklch(13.63% 0.036 259.2);
+  --card: oklch(100% 0.000 0);
+  --card-foreground: oklch(13.63% 0.036 259.2);
+  --popover: oklch(100% 0.000 0);
+  --popover-foreground: oklch(13.63% 0.036 259.2);
+  --primary: oklch(20.77% 0.040 265.75);
+  --primary-foreground: oklch(98.42% 0.003 247.86);
+  --secondary: oklch(96.83% 0.007 247.9);
+  --secondary-foreground: oklch(20.77% 0.040 265.75);
+  --muted: oklch(96.83% 0.007 247.9);
+  --muted-foreground: oklch(55.44% 0.041 257.42);
+  --accent: oklch(96.83% 0.007 247.9);
+  --accent-foreground: oklch(20.77% 0.040 265.75);
+  --destructive: oklch(63.68% 0.208 25.33);
+  --destructive-foreground: oklch(98.42% 0.003 247.86);
+  --border: oklch(92.88% 0.013 255.51);
+  --input: oklch(92.88% 0.013 255.51);
+  --ring: oklch(13.63% 0.036 259.2);
+  --radius: 0.5rem;
+}
+
+.dark {
+  --background: oklch(13.63% 0.036 259.2);
+  --foreground: oklch(98.42% 0.003 247.86);
+  --card: oklch(13.63% 0.036 259.2);
+  --card-foreground: oklch(98.42% 0.003 247.86);
+  --popover: oklch(13.63% 0.036 259.2);
+  --popover-foreground: oklch(98.42% 0.003 247.86);
+  --primary: oklch(98.42% 0.003 247.86);
+  --primary-foreground: oklch(20.77% 0.040 265.75);
+  --secondary: oklch(27.95% 0.037 260.03);
+  --secondary-foreground: oklch(98.42% 0.003 247.86);
+  --muted: oklch(27.95% 0.037 260.03);
+  --muted-foreground: oklch(71.07% 0.035 256.79);
+  --accent: oklch(27.95% 0.037 260.03);
+  --accent-foreground: oklch(98.42% 0.003 247.86);
+  --destructive: oklch(39.58% 0.133 25.72);
+  --destructive-foreground: oklch(98.42% 0.003 247.86);
+  --border: oklch(27.95% 0.037 260.03);
+  --input: oklch(27.95% 0.037 260.03);
+  --ring: oklch(86.9% 0.020 252.89);
+}`,
+  },
+
+  blue: {
+    id: 'blue',
+    name: 'Blue',
+    description: 'Bright blue primary on slate neutrals',
+    css: `:root {
+  --background: oklch(100% 0.000 0);
+  --foreground: oklch(13.63% 0.036 259.2);
+  --card: oklch(100% 0.000 0);
+  --card-foreground: oklch(13.63% 0.036 259.2);
+  --popover: oklch(100% 0.000 0);
+  --popover-foreground: oklch(13.63% 0.036 259.2);
+  --primary: oklch(54.61% 0.215 262.88);
+  --primary-foreground: oklch(98.42% 0.003 247.86);
+  --secondary: oklch(96.83% 0.007 247.9);
+  --secondary-foreground: oklch(20.77% 0.040 265.75);
+  --muted: oklch(96.83% 0.007 247.9);
+  --muted-foreground: oklch(55.44% 0.041 257.42);
+  --accent: oklch(96.83% 0.007 247.9);
+  --accent-foreground: oklch(20.77% 0.040 265.75);
+  --destructive: oklch(63.68% 0.208 25.33);
+  --destructive-foreground: oklch(98.42% 0.003 247.86);
+  --border: oklch(92.88% 0.013 255.51);
+  --input: oklch(92.88% 0.013 255.51);
+  --ring: oklch(54.61% 0.215 262.88);
+  --radius: 0.5rem;
+}
+
+.dark {
+  --background: oklch(13.63% 0.036 259.2);
+  --foreground: oklch(98.42% 0.003 247.86);
+  --card: oklch(13.63% 0.036 259.2);
+  --card-foreground: oklch(98.42% 0.003 247.86);
+  --popover: oklch(13.63% 0.036 259.2);
+  --popover-foreground: oklch(98.42% 0.003 247.86);
+  --primary: oklch(62.31% 0.188 259.81);
+  --primary-foreground: oklch(20.77% 0.040 265.75);
+  --secondary: oklch(27.95% 0.037 260.03);
+  --secondary-foreground: oklch(98.42% 0.003 247.86);
+  --muted: oklch(27.95% 0.037 260.03);
+  --muted-foreground: oklch(71.07% 0.035 256.79);
+  --accent: oklch(27.95% 0.037 260.03);
+  --accent-foreground: oklch(98.42% 0.003 247.86);
+  --destructive: oklch(39.58% 0.133 25.72);
+  --destructive-foreground: oklch(98.42% 0.003 247.86);
+  --border: oklch(27.95% 0.037 260.03);
+  --input: oklch(27.95% 0.037 260.03);
+  --ring: oklch(48.82% 0.217 264.38);
+}`,
+  },
+
+  green: {
+    id: 'green',
+    name: 'Green',
+    description: 'Green primary on zinc neutrals with a warm dark mode',
+    css: `:root {
+  --background: oklch(100% 0.000 0);
+  --foreground: oklch(14.08% 0.004 285.82);
+  --card: oklch(100% 0.000 0);
+  --card-foreground: oklch(14.08% 0.004 285.82);
+  --popover: oklch(100% 0.000 0);
+  --popover-foreground: oklch(14.08% 0.004 285.82);
+  --primary: oklch(62.71% 0.170 149.21);
+  --primary-foreground: oklch(96.94% 0.015 12.42);
+  --secondary: oklch(96.74% 0.001 286.38);
+  --secondary-foreground: oklch(21.03% 0.006 285.89);
+  --muted: oklch(96.74% 0.001 286.38);
+  --muted-foreground: oklch(55.17% 0.014 285.94);
+  --accent: oklch(96.74% 0.001 286.38);
+  --accent-foreground: oklch(21.03% 0.006 285.89);
+  --destructive: oklch(63.68% 0.208 25.33);
+  --destructive-foreground: oklch(98.51% 0.000 0);
+  --border: oklch(91.97% 0.004 286.32);
+  --input: oklch(91.97% 0.004 286.32);
+  --ring: oklch(62.71% 0.170 149.21);
+  --radius: 0.5rem;
+}
+
+.dark {
+  --background: oklch(14.69% 0.004 49.25);
+  --foreground: oklch(96.12% 0.000 0);
+  --card: oklch(21.61% 0.006 56.04);
+  --card-foreground: oklch(96.12% 0.000 0);
+  --popover: oklch(20.46% 0.000 0);
+  --popover-foreground: oklch(96.12% 0.000 0);
+  --primary: oklch(72.27% 0.192 149.58);
+  --primary-foreground: oklch(26.64% 0.063 152.93);
+  --secondary: oklch(27.39% 0.005 286.03);
+  --secondary-foreground: oklch(98.51% 0.000 0);
+  --muted: oklch(26.86% 0.000 0);
+  --muted-foreground: oklch(71.18% 0.013 286.07);
+  --accent: oklch(26.85% 0.006 34.3);
+  --accent-foreground: oklch(98.51% 0.000 0);
+  --destructive: oklch(39.58% 0.133 25.72);
+  --destructive-foreground: oklch(97.05% 0.013 17.38);
+  --border: oklch(27.39% 0.005 286.03);
+  --input: oklch(27.39% 0.005 286.03);
+  --ring: oklch(52.73% 0.137 150.07);
+}`,
+  },
+
+  orange: {
+    id: 'orange',
+    name: 'Orange',
+    description: 'Orange primary on warm stone neutrals',
+    css: `:root {
+  --background: oklch(100% 0.000 0);
+  --foreground: oklch(14.69% 0.004 49.25);
+  --card: oklch(100% 0.000 0);
+  --card-foreground: oklch(14.69% 0.004 49.25);
+  --popover: oklch(100% 0.000 0);
+  --popover-foreground: oklch(14.69% 0.004 49.25);
+  --primary: oklch(70.49% 0.187 47.6);
+  --primary-foreground: oklch(98.48% 0.001 106.42);
+  --secondary: oklch(96.99% 0.001 106.42);
+  --secondary-foreground: oklch(21.61% 0.006 56.04);
+  --muted: oklch(96.99% 0.001 106.42);
+  --muted-foreground: oklch(55.34% 0.012 58.07);
+  --accent: oklch(96.99% 0.001 106.42);
+  --accent-foreground: oklch(21.61% 0.006 56.04);
+  --destructive: oklch(63.68% 0.208 25.33);
+  --destructive-foreground: oklch(98.48% 0.001 106.42);
+  --border: oklch(92.32% 0.003 48.72);
+  --input: oklch(92.32% 0.003 48.72);
+  --ring: oklch(70.49% 0.187 47.6);
+  --radius: 0.5rem;
+}
+
+.dark {
+  --background: oklch(14.69% 0.004 49.25);
+  --foreground: oklch(98.48% 0.001 106.42);
+  --card: oklch(14.69% 0.004 49.25);
+  --card-foreground: oklch(98.48% 0.001 106.42);
+  --popover: oklch(14.69% 0.004 49.25);
+  --popover-foreground: oklch(98.48% 0.001 106.42);
+  --primary: oklch(64.61% 0.194 41.12);
+  --primary-foreground: oklch(98.48% 0.001 106.42);
+  --secondary: oklch(26.85% 0.006 34.3);
+  --secondary-foreground: oklch(98.48% 0.001 106.42);
+  --muted: oklch(26.85% 0.006 34.3);
+  --muted-foreground: oklch(71.61% 0.009 56.26);
+  --accent: oklch(26.85% 0.006 34.3);
+  --accent-foreground: oklch(98.48% 0.001 106.42);
+  --destructive: oklch(57.71% 0.215 27.33);
+  --destructive-foreground: oklch(98.48% 0.001 106.42);
+  --border: oklch(26.85% 0.006 34.3);
+  --input: oklch(26.85% 0.006 34.3);
+  --ring: oklch(64.61% 0.194 41.12);
+}`,
+  },
+
+  rose: {
+    id: 'rose',
+    name: 'Rose',
+    description: 'Rose primary on zinc neutrals with a warm dark mode',
+    css: `:root {
+  --background: oklch(100% 0.000 0);
+  --foreground: oklch(14.08% 0.004 285.82);
+  --card: oklch(100% 0.000 0);
+  --card-foreground: oklch(14.08% 0.004 285.82);
+  --popover: oklch(100% 0.000 0);
+  --popover-foreground: oklch(14.08% 0.004 285.82);
+  --primary: oklch(58.58% 0.222 17.58);
+  --primary-foreground: oklch(96.94% 0.015 12.42);
+  --secondary: oklch(96.74% 0.001 286.38);
+  --secondary-foreground: oklch(21.03% 0.006 285.89);
+  --muted: oklch(96.74% 0.001 286.38);
+  --muted-foreground: oklch(55.17% 0.014 285.94);
+  --accent: oklch(96.74% 0.001 286.38);
+  --accent-foreground: oklch(21.03% 0.006 285.89);
+  --destructive: oklch(63.68% 0.208 25.33);
+  --destructive-foreground: oklch(98.51% 0.000 0);
+  --border: oklch(91.97% 0.004 286.32);
+  --input: oklch(91.97% 0.004 286.32);
+  --ring: oklch(58.58% 0.222 17.58);
+  --radius: 0.5rem;
+}
+
+.dark {
+  --background: oklch(14.69% 0.004 49.25);
+  --foreground: oklch(96.12% 0.000 0);
+  --card: oklch(21.61% 0.006 56.04);
+  --card-foreground: oklch(96.12% 0.000 0);
+  --popover: oklch(20.46% 0.000 0);
+  --popover-foreground: oklch(96.12% 0.000 0);
+  --primary: oklch(58.58% 0.222 17.58);
+  --primary-foreground: oklch(96.94% 0.015 12.42);
+  --secondary: oklch(27.39% 0.005 286.03);
+  --secondary-foreground: oklch(98.51% 0.000 0);
+  --muted: oklch(26.86% 0.000 0);
+  --muted-foreground: oklch(71.18% 0.013 286.07);
+  --accent: oklch(26.85% 0.006 34.3);
+  --accent-foreground: oklch(98.51% 0.000 0);
+  --destructive: oklch(39.58% 0.133 25.72);
+  --destructive-foreground: oklch(97.05% 0.013 17.38);
+  --border: oklch(27.39% 0.005 286.03);
+  --input: oklch(27.39% 0.005 286.03);
+  --ring: oklch(58.58% 0.222 17.58);
+}`,
+  },
+
+  violet: {
+    id: 'violet',
+    name: 'Violet',
+    description: 'Violet primary on cool grey neutrals',
+    css: `:root {
+  --background: oklch(100% 0.000 0);
+  --foreground: oklch(12.96% 0.027 261.69);
+  --card: oklch(100% 0.000 0);
+  --card-foreground: oklch(12.96% 0.027 261.69);
+  --popover: oklch(100% 0.000 0);
+  --popover-foreground: oklch(12.96% 0.027 261.69);
+  --primary: oklch(54.13% 0.247 293.01);
+  --primary-foreground: oklch(98.46% 0.002 247.84);
+  --secondary: oklch(96.7% 0.003 264.54);
+  --secondary-foreground: oklch(21.01% 0.032 264.66);
+  --muted: oklch(96.7% 0.003 264.54);
+  --muted-foreground: oklch(55.1% 0.023 264.36);
+  --accent: oklch(96.7% 0.003 264.54);
+  --accent-foreground: oklch(21.01% 0.032 264.66);
+  --destructive: oklch(63.68% 0.208 25.33);
+  --destructive-foreground: oklch(98.46% 0.002 247.84);
+  --border: oklch(92.76% 0.006 264.53);
+  --input: oklch(92.76% 0.006 264.53);
+  --ring: oklch(54.13% 0.247 293.01);
+  --radius: 0.5rem;
+}
+
+.dark {
+  --background: oklch(12.96% 0.027 261.69);
+  --foreground: oklch(98.46% 0.002 247.84);
+  --card: oklch(12.96% 0.027 261.69);
+  --card-foreground: oklch(98.46% 0.002 247.84);
+  --popover: oklch(12.96% 0.027 261.69);
+  --popover-foreground: oklch(98.46% 0.002 247.84);
+  --primary: oklch(49.07% 0.241 292.58);
+  --primary-foreground: oklch(98.46% 0.002 247.84);
+  --secondary: oklch(27.81% 0.030 256.85);
+  --secondary-foreground: oklch(98.46% 0.002 247.84);
+  --muted: oklch(27.81% 0.030 256.85);
+  --muted-foreground: oklch(71.37% 0.019 261.32);
+  --accent: oklch(27.81% 0.030 256.85);
+  --accent-foreground: oklch(98.46% 0.002 247.84);
+  --destructive: oklch(39.58% 0.133 25.72);
+  --destructive-foreground: oklch(98.46% 0.002 247.84);
+  --border: oklch(27.81% 0.030 256.85);
+  --input: oklch(27.81% 0.030 256.85);
+  --ring: oklch(49.07% 0.241 292.58);
+}`,
+  },
+};
+
+/**
+ * Gets a bundled theme by ID
+ *
+ * @param id - Theme ID (e.g., 'rose')
+ * @returns The theme configuration, or undefined if not found
+ */
+export function getBundledTheme(id: string): BundledTheme | undefined {
+  return BUNDLED_THEMES[id];
+}
+
+/**
+ * Gets an array of all bundled theme IDs
+ *
+ * @returns Array of theme IDs, default first
+ */
+export function getBundledThemeIds(): string[] {
+  return Object.keys(BUNDLED_THEMES);
+}
@@ -15,6 +15,54 @@ export type PackageManager = 'pnpm' | 'npm' | 'yarn' | 'bun';
  */
 export type Framework = 'nextjs' | 'tanstack';
 
+/**
+ * Framework-specific locations of generated project files
+ * All paths are relative to the project root
+ */
+export interface ProjectFilePaths {
+  /** Better Auth server configuration (e.g., 'convex/auth/index.ts') */
+  authConfig: string;
+
+  /** better-auth-ui provider configuration (e.g., 'src/providers.tsx') */
+  authUIConfig: string;
+
+  /** Better Auth server plugin list */
+  authPlugins: string;
+
+  /** Better Auth client (e.g., 'src/lib/auth/client.ts') */
+  authClient: string;
+
+  /** Typed env configuration (e.g., 'src/env.ts') */
+  envConfig: string;
+
+  /** Environment variable template */
+  envExample: string;
+
+  /** Git-ignored local environment file with generated secrets */
+  envLocal: string;
+
+  /** Project README */
+  readme: string;
+
+  /** Global stylesheet holding the theme variables */
+  themeCSS: string;
+
+  /** Theme provider holding the brandThemes list for runtime theme switching */
+  themeProvider: string;
+
+  /** Convex schema (e.g., 'convex/schema.ts') */
+  convexSchema: string;
+
+  /** Generated Convex api declarations (e.g., 'convex/_generated/api.d.ts') */
+  convexApi: string;
+
+  /** Table slug and role constants (e.g., 'src/db/constants/index.ts') */
+  dbConstants: string;
+
+  /** TanStack Router's generated route tree (TanStack Start only) */
+  routeTree?: string;
+}
+
 /**
  * Environment variable configuration interface
  * Defines the structure for OAuth provider environment variables
@@ -30,6 +78,24 @@ export interface EnvVariable {
   description: string;
 }
 
+/**
+ * Better Auth provider option configuration interface
+ * Describes how a provider environment variable is passed to socialProviders
+ */
+export interface ProviderOption {
+  /** Environment variable supplying the value (e.g., 'COGNITO_USER_POOL_ID') */
+  envVar: string;
+
+  /** Better Auth option name (e.g., 'userPoolId') */
+  option: string;
+
+  /** Whether the option may be left unset (defaults to false if not specified) */
+  optional?: boolean;
+
+  /** Literal values accepted by the option, generated as a zod enum and type cast */
+  values?: string[];
+}
+
 /**
  * OAuth provider configuration interface
  * Defines the structure for each OAuth provider supported by Better Auth
@@ -96,6 +162,21 @@ export interface OAuthProvider {
   };
 }
 
+/**
+ * Custom OpenID Connect provider interface
+ * Configured through Better Auth's genericOAuth plugin rather than socialProviders
+ */
+export interface CustomOIDCProvider {
+  /** Provider ID used in callback URLs and env var names (e.g., 'keycloak') */
+  id: string;
+
+  /** Display name shown on the sign-in button (e.g., 'Keycloak') */
+  name: string;
+
+  /** OpenID Connect discovery document URL (ends in /.well-known/openid-configuration) */
+  discoveryUrl: string;
+}
+
 /**
  * TweakCN theme configuration interface
  * Supports direct CSS paste from TweakCN's code dialog
@@ -108,6 +189,149 @@ export interface TweakCNTheme {
   content: string;
 }
 
+/**
+ * Bundled theme interface
+ * A named palette shipped with the CLI (see themes.ts)
+ */
+export interface BundledTheme {
+  /** Theme ID used by --theme and presets (e.g., 'rose') */
+  id: string;
+
+  /** Display name (e.g., 'Rose') */
+  name: string;
+
+  /** Short description shown in the theme prompt */
+  description: string;
+
+  /** CSS content with :root and .dark blocks in OKLCH */
+  css: string;
+}
+
+/**
+ * Named imports from a single module, used by generated plugin code
+ */
+export interface PluginImport {
+  /** Module specifier (e.g., 'better-auth/plugins') */
+  from: string;
+
+  /** Named imports (e.g., ['admin']) */
+  names: string[];
+}
+
+/**
+ * Convex table a Better Auth plugin stores its data in
+ */
+export interface PluginTable {
+  /** Table slug constant exported from db/constants (e.g., 'TABLE_SLUG_API_KEYS') */
+  constant: string;
+
+  /** Table name the constant holds (e.g., 'apikey') */
+  slug: string;
+
+  /** Table definition code (e.g., 'defineTable({ ... }).index(...)') */
+  definition: string;
+}
+
+/**
+ * Better Auth plugin configuration interface
+ * Describes everything a plugin adds to a generated project (see plugins.ts)
+ */
+export interface AuthPlugin {
+  /** Unique identifier used by --auth-plugins and presets (e.g., 'api-key') */
+  id: string;
+
+  /** Display name (e.g., 'API keys') */
+  name: string;
+
+  /** Short description shown in the Auth features prompt */
+  description: string;
+
+  /** Whether the plugin is selected by default (defaults to false if not specified) */
+  default?: boolean;
+
+  /**
+   * Whether the plugin is a sign-in method, offered next to Email & Password in the
+   * authentication prompt instead of the Auth features prompt
+   */
+  signIn?: boolean;
+
+  /** Server plugin added to createPlugins() in convex/auth/plugins */
+  server: {
+    /** Imports the plugin call needs */
+    imports: PluginImport[];
+
+    /** Plugin call (e.g., 'apiKey()') */
+    plugin: string;
+
+    /** Whether the plugin call uses the Convex action `ctx` createAuth() passes to createPlugins() */
+    usesContext?: boolean;
+  };
+
+  /** Client plugin added to the Better Auth client's plugins list */
+  client?: {
+    /** Imports the plugin call needs */
+    imports: PluginImport[];
+
+    /** Plugin call (e.g., 'apiKeyClient()') */
+    plugin: string;
+  };
+
+  /**
+   * better-auth-ui provider props that turn on the plugin's UI (e.g., 'twoFactor={["totp"]}')
+   * Props the project already sets are left as they are.
+   */
+  uiProps?: string[];
+
+  /** Packages added to package.json dependencies, mapped to their version range */
+  dependencies?: Record<string, string>;
+
+  /** Packages added to package.json devDependencies, mapped to their version range */
+  devDependencies?: Record<string, string>;
+
+  /** Feature templates (directories in templates/features) copied into the project, e.g. 'email' */
+  templates?: string[];
+
+  /** Convex schema changes the plugin needs */
+  schema?: {
+    /** Tables the plugin adds */
+    tables?: PluginTable[];
+
+    /** Fields the plugin adds to existing tables, keyed by table slug constant */
+    fields?: Record<string, string[]>;
+  };
+
+  /** Environment variables the plugin reads */
+  env?: EnvVariable[];
+
+  /** Banner heading its env vars go under in .env.example (appended to the end without one) */
+  envHeading?: string;
+
+  /** README notes added under the Auth Features section */
+  readme?: {
+    /** Subsection heading (e.g., 'API Keys') */
+    title: string;
+
+    /** Markdown content starting with the `### <title>` heading */
+    content: string;
+  };
+}
+
+/**
+ * Email & password sub-options
+ * Verification and reset emails are rendered from the React email templates in
+ * convex/email/templates and sent through the convex/email transport
+ */
+export interface EmailPasswordOptions {
+  /** Whether users must verify their email address before signing in (defaults to false) */
+  requireEmailVerification?: boolean;
+
+  /** Whether users can reset a forgotten password by email (defaults to true) */
+  allowPasswordReset?: boolean;
+
+  /** Minimum password length (defaults to 8, Better Auth's default) */
+  minPasswordLength?: number;
+}
+
 /**
  * Project options interface
  * Contains all configuration options selected during CLI survey
@@ -122,15 +346,70 @@ export interface ProjectOptions {
   /** Whether to enable email/password authentication */
   emailPasswordAuth: boolean;
 
+  /** Email & password sub-options (ignored when emailPasswordAuth is false) */
+  emailPasswordOptions?: EmailPasswordOptions;
+
   /** Array of OAuth provider IDs to configure (e.g., ['google', 'github']) */
   oauthProviders: string[];
 
+  /** Optional custom OpenID Connect provider */
+  customOIDCProvider?: CustomOIDCProvider;
+
   /** Optional TweakCN theme configuration */
   tweakcnTheme?: TweakCNTheme;
 
+  /** Bundled theme ID, used when no TweakCN theme is given (default: 'default') */
+  themeName?: string;
+
+  /** Bundled theme IDs users can switch to at runtime, emitted as [data-theme] blocks */
+  extraThemes?: string[];
+
+  /** Better Auth plugin IDs to configure (defaults to the plugins marked default in plugins.ts) */
+  authPlugins?: string[];
+
   /** Whether to initialize Git repository */
   initGit: boolean;
 
   /** Whether to install dependencies after project creation */
   installDependencies: boolean;
 }
+
+/**
+ * Project preset interface
+ * Reusable survey answers loaded from (or saved to) a z3.config.json/yaml file.
+ * Every field is optional; prompts fill in whatever the preset omits.
+ */
+export interface ProjectPreset {
+  /** Selected framework for the project */
+  framework?: Framework;
+
+  /** Whether to enable email/password authentication */
+  emailPasswordAuth?: boolean;
+
+  /** Email & password sub-options (e.g., { requireEmailVerification: true }) */
+  emailPasswordOptions?: EmailPasswordOptions;
+
+  /** Array of OAuth provider IDs to configure (e.g., ['google', 'github']) */
+  oauthProviders?: string[];
+
+  /** Optional custom OpenID Connect provider */
+  customOIDCProvider?: CustomOIDCProvider;
+
+  /** Optional TweakCN theme configuration */
+  tweakcnTheme?: TweakCNTheme;
+
+  /** Bundled theme ID (e.g., 'rose') */
+  themeName?: string;
+
+  /** Bundled theme IDs users can switch to at runtime (e.g., ['blue', 'green']) */
+  extraThemes?: string[];
+
+  /** Better Auth plugin IDs to configure (e.g., ['admin', 'api-key']) */
+  authPlugins?: string[];
+
+  /** Whether to initialize Git repository */
+  initGit?: boolean;
+
+  /** Whether to install dependencies after project creation */
+  installDependencies?: boolean;
+}
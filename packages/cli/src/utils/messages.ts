@@ -1,4 +1,6 @@
 import chalk from 'chalk';
+import type { ContrastCheck } from './theme-contrast.js';
+import { oklchToRgb, parseOklch, parseThemeVariables } from './tweakcn-converter.js';
 
 /**
  * Displays an error message when a directory already exists.
@@ -53,6 +55,21 @@ export function displayDirectoryNotEmptyError(): void {
   process.exit(1);
 }
 
+/**
+ * Displays an error message when a command that edits an existing project is
+ * run outside of a Z3 project.
+ * Exits the process with code 1.
+ *
+ * @param path - The directory that was inspected
+ */
+export function displayNotZ3ProjectError(path: string): void {
+  console.error();
+  console.error(chalk.red(`Error: '${path}' is not a Z3 project.`));
+  console.error(chalk.yellow('Run this command from the root of a project created with create-z3, or pass --cwd <path>.'));
+  console.error();
+  process.exit(1);
+}
+
 /**
  * Displays an error message when there's a permission issue creating a directory.
  * Exits the process with code 1.
@@ -89,3 +106,133 @@ export function displaySuccessMessage(
 
   console.log();
 }
+
+/**
+ * Displays an error message when command-line flags are invalid.
+ * Exits the process with code 1.
+ *
+ * @param errors - Array of validation error messages
+ */
+export function displayInvalidOptionsError(errors: string[]): void {
+  console.error();
+  console.error(chalk.red('Error: Invalid command-line options.'));
+  console.error();
+
+  errors.forEach(error => {
+    console.error(chalk.yellow(`  - ${error}`));
+  });
+
+  console.error();
+  console.error(chalk.yellow('Run create-z3 --help to see all available options.'));
+  console.error();
+  process.exit(1);
+}
+
+/**
+ * Displays the result of a dry run: every file that would be created and a
+ * unified diff for each file the installer modified after copying the template.
+ *
+ * @param targetPath - The absolute path the project would be created at
+ * @param files - Relative paths of all files that would be created
+ * @param diffs - Unified diffs for each templated file
+ * @param steps - Optional steps that would run after scaffolding
+ */
+export function displayDryRunReport(
+  targetPath: string,
+  files: string[],
+  diffs: string[],
+  steps: { initGit: boolean; installDependencies: boolean }
+): void {
+  console.log();
+  console.log(chalk.cyan(`Dry run: no files were written to ${targetPath}`));
+  console.log();
+  console.log(chalk.bold(`Files (${files.length}):`));
+  files.forEach(file => {
+    console.log(chalk.dim(`  ${file}`));
+  });
+
+  diffs.forEach(diff => {
+    console.log();
+    diff.split('\n').forEach(line => {
+      if (line.startsWith('+++') || line.startsWith('---')) {
+        console.log(chalk.bold(line));
+      } else if (line.startsWith('+')) {
+        console.log(chalk.green(line));
+      } else if (line.startsWith('-')) {
+        console.log(chalk.red(line));
+      } else if (line.startsWith('@@')) {
+        console.log(chalk.cyan(line));
+      } else {
+        console.log(line);
+      }
+    });
+  });
+
+  console.log();
+  console.log(chalk.dim(`Git: ${steps.initGit ? 'Would be initialized' : 'Not initialized'}`));
+  console.log(chalk.dim(`Dependencies: ${steps.installDependencies ? 'Would be installed' : 'Not installed'}`));
+  console.log();
+}
+
+/**
+ * Displays a WCAG contrast report for a theme, grouped by light and dark mode.
+ * Failing pairs show the suggested replacement value when one was computed.
+ *
+ * @param checks - Contrast checks from auditThemeContrast
+ * @param options - Set onlyFailures to list just the pairs that fail AA
+ */
+export function displayContrastReport(
+  checks: ContrastCheck[],
+  options: { onlyFailures?: boolean } = {}
+): void {
+  const failures = checks.filter(check => check.level === 'fail');
+  const shown = options.onlyFailures ? failures : checks;
+
+  console.log();
+  console.log(chalk.bold(`Contrast (WCAG): ${checks.length - failures.length}/${checks.length} pairs pass AA`));
+
+  for (const mode of ['light', 'dark'] as const) {
+    const modeChecks = shown.filter(check => check.mode === mode);
+    if (modeChecks.length === 0) continue;
+
+    console.log(chalk.dim(`  ${mode === 'light' ? 'Light (:root)' : 'Dark (.dark)'}`));
+    modeChecks.forEach(check => {
+      const pair = `--${check.foreground} on --${check.background}`;
+      const ratio = `${check.ratio.toFixed(2)}:1`;
+      const level = check.level === 'fail'
+        ? chalk.red('fail')
+        : check.level === 'AAA' ? chalk.green('AAA ') : chalk.yellow('AA  ');
+      console.log(`    ${level} ${ratio.padStart(8)}  ${pair}`);
+      if (check.suggestion) {
+        console.log(chalk.dim(`                    try --${check.foreground}: ${check.suggestion}`));
+      }
+    });
+  }
+  console.log();
+}
+
+/**
+ * Theme variables shown in a swatch preview, in display order
+ */
+const SWATCH_VARIABLES = ['background', 'foreground', 'primary', 'secondary', 'accent', 'muted', 'destructive'];
+
+/**
+ * Formats a terminal colour-swatch preview of a theme's light and dark palettes.
+ * Variables the theme doesn't define are skipped.
+ *
+ * @param css - Theme CSS with :root and optional .dark blocks
+ * @returns Swatches for the light palette, then the dark palette if there is one
+ */
+export function formatThemeSwatch(css: string): string {
+  const { light, dark, hasDark } = parseThemeVariables(css);
+
+  const swatches = (variables: Record<string, string>) =>
+    SWATCH_VARIABLES.map(name => {
+      const color = variables[name] ? parseOklch(variables[name]) : undefined;
+      if (!color) return '';
+      const [r, g, b] = oklchToRgb(color).map(channel => Math.round(channel));
+      return chalk.bgRgb(r, g, b)('  ');
+    }).join('');
+
+  return hasDark ? `${swatches(light)} ${swatches(dark)}` : swatches(light);
+}
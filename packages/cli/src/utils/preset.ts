@@ -0,0 +1,424 @@
+/**
+ * Project Preset Utilities
+ *
+ * This module loads and saves reusable survey answers (presets) so the same
+ * house configuration can be scaffolded repeatedly. Presets are JSON or YAML
+ * files that follow schema/preset.schema.json and map onto ProjectOptions.
+ * The schema is generated from the same registries the validator checks against.
+ */
+
+import fs from 'fs-extra';
+import { dirname, extname, resolve } from 'path';
+import YAML from 'yaml';
+import type { ProjectOptions, ProjectPreset } from '../installers/types.js';
+import { DEFAULT_EMAIL_PASSWORD_OPTIONS } from '../installers/email-password.js';
+import { getAuthPluginIds } from '../installers/plugins.js';
+import { getProviderIds } from '../installers/providers.js';
+import { getBundledThemeIds } from '../installers/themes.js';
+import {
+  SUPPORTED_FRAMEWORKS,
+  validateFramework,
+  validateOAuthProviderIds,
+  validateCustomProviderId,
+  validateDiscoveryUrl,
+  validateThemeName,
+  validateExtraThemes,
+  validateAuthPluginIds,
+  validateMinPasswordLength,
+  isThemeCSS,
+} from './validation.js';
+
+/**
+ * Public URL of the preset JSON schema, written into saved presets
+ */
+export const PRESET_SCHEMA_URL = 'https://unpkg.com/create-z3/schema/preset.schema.json';
+
+/**
+ * Builds the preset JSON schema from the framework, provider, theme and plugin registries
+ * schema/preset.schema.json is this object; preset.test.ts fails when the two differ
+ * (run `pnpm test -u` to regenerate the file).
+ *
+ * @returns JSON schema (draft-07) for preset files
+ */
+export function createPresetSchema() {
+  return {
+    $schema: 'http://json-schema.org/draft-07/schema#',
+    $id: PRESET_SCHEMA_URL,
+    title: 'create-z3 preset',
+    description: 'Reusable survey answers for create-z3. Prompts fill in any field the preset omits.',
+    type: 'object',
+    additionalProperties: false,
+    properties: {
+      $schema: {
+        type: 'string',
+      },
+      framework: {
+        description: 'Framework to scaffold',
+        enum: SUPPORTED_FRAMEWORKS,
+      },
+      emailPasswordAuth: {
+        description: 'Whether to enable email & password authentication',
+        type: 'boolean',
+      },
+      emailPasswordOptions: {
+        description: 'Email & password sub-options; verification and reset emails are sent from Convex',
+        type: 'object',
+        additionalProperties: false,
+        properties: {
+          requireEmailVerification: {
+            description: 'Whether users must verify their email address before signing in',
+            type: 'boolean',
+            default: DEFAULT_EMAIL_PASSWORD_OPTIONS.requireEmailVerification,
+          },
+          allowPasswordReset: {
+            description: 'Whether users can reset a forgotten password by email',
+            type: 'boolean',
+            default: DEFAULT_EMAIL_PASSWORD_OPTIONS.allowPasswordReset,
+          },
+          minPasswordLength: {
+            description: 'Minimum password length',
+            type: 'integer',
+            minimum: 8,
+            maximum: 128,
+            default: DEFAULT_EMAIL_PASSWORD_OPTIONS.minPasswordLength,
+          },
+        },
+      },
+      oauthProviders: {
+        description: 'OAuth provider ids to configure (e.g. google, github)',
+        type: 'array',
+        uniqueItems: true,
+        items: {
+          enum: getProviderIds(),
+        },
+      },
+      customOIDCProvider: {
+        description: "Custom OpenID Connect provider configured through Better Auth's genericOAuth plugin",
+        type: 'object',
+        additionalProperties: false,
+        required: ['id', 'name', 'discoveryUrl'],
+        properties: {
+          id: {
+            description: 'Provider id used in the callback URL and env var names (e.g. keycloak)',
+            type: 'string',
+            pattern: '^[a-z][a-z0-9-]*$',
+          },
+          name: {
+            description: 'Display name shown on the sign-in button',
+            type: 'string',
+            minLength: 1,
+          },
+          discoveryUrl: {
+            description: 'OpenID Connect discovery document URL',
+            type: 'string',
+            format: 'uri',
+          },
+        },
+      },
+      theme: {
+        description: 'Bundled theme to apply',
+        enum: getBundledThemeIds(),
+      },
+      tweakcnTheme: {
+        description: 'TweakCN theme CSS to apply',
+        type: 'object',
+        additionalProperties: false,
+        required: ['type', 'content'],
+        properties: {
+          type: {
+            const: 'css',
+          },
+          content: {
+            description: 'CSS content with :root and .dark blocks',
+            type: 'string',
+          },
+        },
+      },
+      themeFile: {
+        description: 'Path to a TweakCN theme CSS file, relative to the preset file',
+        type: 'string',
+      },
+      extraThemes: {
+        description: 'Bundled themes users can switch to at runtime, emitted as [data-theme] blocks',
+        type: 'array',
+        uniqueItems: true,
+        items: {
+          enum: getBundledThemeIds().filter(id => id !== 'default'),
+        },
+      },
+      authPlugins: {
+        description: 'Better Auth plugins to configure (Auth features)',
+        type: 'array',
+        uniqueItems: true,
+        items: {
+          enum: getAuthPluginIds(),
+        },
+      },
+      initGit: {
+        description: 'Whether to initialize a Git repository',
+        type: 'boolean',
+      },
+      installDependencies: {
+        description: 'Whether to install dependencies after project creation',
+        type: 'boolean',
+      },
+    },
+  };
+}
+
+/**
+ * Keys accepted in a preset file
+ */
+const PRESET_KEYS = Object.keys(createPresetSchema().properties);
+
+/**
+ * Checks whether a preset path should be read and written as YAML
+ *
+ * @param presetPath - Path to the preset file
+ * @returns True for .yaml and .yml files
+ */
+function isYamlPath(presetPath: string): boolean {
+  const extension = extname(presetPath).toLowerCase();
+  return extension === '.yaml' || extension === '.yml';
+}
+
+/**
+ * Validates raw preset data and maps it onto ProjectPreset
+ * Relative themeFile paths are resolved against the preset's directory.
+ *
+ * @param data - Parsed preset file content
+ * @param baseDir - Directory containing the preset file
+ * @returns Object with valid flag, error messages and the resulting preset
+ */
+export async function parsePreset(
+  data: unknown,
+  baseDir: string
+): Promise<{ valid: boolean; errors: string[]; preset: ProjectPreset }> {
+  const errors: string[] = [];
+  const preset: ProjectPreset = {};
+
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    return { valid: false, errors: ['Preset must be an object'], preset };
+  }
+
+  const raw = data as Record<string, unknown>;
+
+  for (const key of Object.keys(raw)) {
+    if (!PRESET_KEYS.includes(key)) {
+      errors.push(`Unknown preset option '${key}'`);
+    }
+  }
+
+  if (raw.framework !== undefined) {
+    const validation = validateFramework(String(raw.framework));
+    if (validation.valid) {
+      preset.framework = raw.framework as ProjectPreset['framework'];
+    } else {
+      errors.push(...validation.errors);
+    }
+  }
+
+  for (const key of ['emailPasswordAuth', 'initGit', 'installDependencies'] as const) {
+    if (raw[key] === undefined) continue;
+
+    if (typeof raw[key] === 'boolean') {
+      preset[key] = raw[key] as boolean;
+    } else {
+      errors.push(`Preset option '${key}' must be a boolean`);
+    }
+  }
+
+  if (raw.emailPasswordOptions !== undefined) {
+    const options = raw.emailPasswordOptions as Record<string, unknown> | null;
+    const keys = ['requireEmailVerification', 'allowPasswordReset', 'minPasswordLength'];
+    if (typeof options !== 'object' || options === null || Array.isArray(options)) {
+      errors.push(`Preset option 'emailPasswordOptions' must be { requireEmailVerification, allowPasswordReset, minPasswordLength }`);
+    } else {
+      const emailPasswordOptions: NonNullable<ProjectPreset['emailPasswordOptions']> = {};
+
+      for (const key of Object.keys(options).filter(key => !keys.includes(key))) {
+        errors.push(`Unknown preset option 'emailPasswordOptions.${key}'`);
+      }
+
+      for (const key of ['requireEmailVerification', 'allowPasswordReset'] as const) {
+        if (options[key] === undefined) continue;
+
+        if (typeof options[key] === 'boolean') {
+          emailPasswordOptions[key] = options[key] as boolean;
+        } else {
+          errors.push(`Preset option 'emailPasswordOptions.${key}' must be a boolean`);
+        }
+      }
+
+      if (options.minPasswordLength !== undefined) {
+        const validation = validateMinPasswordLength(String(options.minPasswordLength));
+        if (typeof options.minPasswordLength === 'number' && validation.valid) {
+          emailPasswordOptions.minPasswordLength = options.minPasswordLength;
+        } else {
+          errors.push(...(validation.valid
+            ? [`Preset option 'emailPasswordOptions.minPasswordLength' must be a number`]
+            : validation.errors));
+        }
+      }
+
+      preset.emailPasswordOptions = emailPasswordOptions;
+    }
+  }
+
+  if (raw.oauthProviders !== undefined) {
+    if (Array.isArray(raw.oauthProviders) && raw.oauthProviders.every(id => typeof id === 'string')) {
+      const validation = validateOAuthProviderIds(raw.oauthProviders);
+      if (validation.valid) {
+        preset.oauthProviders = [...new Set(raw.oauthProviders as string[])];
+      } else {
+        errors.push(...validation.errors);
+      }
+    } else {
+      errors.push(`Preset option 'oauthProviders' must be an array of provider ids`);
+    }
+  }
+
+  if (raw.customOIDCProvider !== undefined) {
+    const provider = raw.customOIDCProvider as Record<string, unknown> | null;
+    if (
+      typeof provider?.id === 'string' &&
+      typeof provider.name === 'string' &&
+      provider.name.trim() !== '' &&
+      typeof provider.discoveryUrl === 'string'
+    ) {
+      const validationErrors = [
+        ...validateCustomProviderId(provider.id).errors,
+        ...validateDiscoveryUrl(provider.discoveryUrl).errors,
+      ];
+      if (validationErrors.length === 0) {
+        preset.customOIDCProvider = {
+          id: provider.id,
+          name: provider.name.trim(),
+          discoveryUrl: provider.discoveryUrl,
+        };
+      } else {
+        errors.push(...validationErrors);
+      }
+    } else {
+      errors.push(`Preset option 'customOIDCProvider' must be { id, name, discoveryUrl }`);
+    }
+  }
+
+  const themeOptions = ['theme', 'tweakcnTheme', 'themeFile'].filter(key => raw[key] !== undefined);
+  if (themeOptions.length > 1) {
+    errors.push(`Preset options ${themeOptions.map(key => `'${key}'`).join(' and ')} cannot be used together`);
+  } else if (raw.theme !== undefined) {
+    const validation = validateThemeName(String(raw.theme));
+    if (validation.valid) {
+      preset.themeName = String(raw.theme);
+    } else {
+      errors.push(...validation.errors);
+    }
+  } else if (raw.tweakcnTheme !== undefined) {
+    const theme = raw.tweakcnTheme as Record<string, unknown> | null;
+    if (theme?.type === 'css' && typeof theme.content === 'string' && isThemeCSS(theme.content)) {
+      preset.tweakcnTheme = { type: 'css', content: theme.content.trim() };
+    } else {
+      errors.push(`Preset option 'tweakcnTheme' must be { type: 'css', content: '<theme CSS>' }`);
+    }
+  } else if (raw.themeFile !== undefined) {
+    const themePath = resolve(baseDir, String(raw.themeFile));
+    try {
+      const content = (await fs.readFile(themePath, 'utf-8')).trim();
+      if (isThemeCSS(content)) {
+        preset.tweakcnTheme = { type: 'css', content };
+      } else {
+        errors.push(`Theme file '${themePath}' does not contain CSS with :root and color variables`);
+      }
+    } catch (error) {
+      errors.push(
+        `Could not read theme file '${themePath}': ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  if (raw.extraThemes !== undefined) {
+    if (Array.isArray(raw.extraThemes) && raw.extraThemes.every(id => typeof id === 'string')) {
+      const validation = validateExtraThemes(raw.extraThemes);
+      if (validation.valid) {
+        preset.extraThemes = [...new Set(raw.extraThemes as string[])];
+      } else {
+        errors.push(...validation.errors);
+      }
+    } else {
+      errors.push(`Preset option 'extraThemes' must be an array of theme ids`);
+    }
+  }
+
+  if (raw.authPlugins !== undefined) {
+    if (Array.isArray(raw.authPlugins) && raw.authPlugins.every(id => typeof id === 'string')) {
+      const validation = validateAuthPluginIds(raw.authPlugins);
+      if (validation.valid) {
+        preset.authPlugins = [...new Set(raw.authPlugins as string[])];
+      } else {
+        errors.push(...validation.errors);
+      }
+    } else {
+      errors.push(`Preset option 'authPlugins' must be an array of plugin ids`);
+    }
+  }
+
+  return { valid: errors.length === 0, errors, preset };
+}
+
+/**
+ * Reads and validates a preset file (JSON, or YAML for .yaml/.yml extensions)
+ *
+ * @param presetPath - Path to the preset file
+ * @returns Object with valid flag, error messages and the resulting preset
+ */
+export async function loadPreset(
+  presetPath: string
+): Promise<{ valid: boolean; errors: string[]; preset: ProjectPreset }> {
+  let data: unknown;
+
+  try {
+    const content = await fs.readFile(presetPath, 'utf-8');
+    data = isYamlPath(presetPath) ? YAML.parse(content) : JSON.parse(content);
+  } catch (error) {
+    return {
+      valid: false,
+      errors: [`Could not load preset '${presetPath}': ${error instanceof Error ? error.message : 'Unknown error'}`],
+      preset: {},
+    };
+  }
+
+  return parsePreset(data, dirname(resolve(presetPath)));
+}
+
+/**
+ * Writes the survey answers of a run to a preset file so they can be reused
+ * The project name is intentionally omitted; presets describe configuration, not a project.
+ *
+ * @param presetPath - Destination path (YAML for .yaml/.yml extensions, JSON otherwise)
+ * @param options - Project options collected during the run
+ */
+export async function savePreset(presetPath: string, options: ProjectOptions): Promise<void> {
+  const data = {
+    $schema: PRESET_SCHEMA_URL,
+    framework: options.framework,
+    emailPasswordAuth: options.emailPasswordAuth,
+    ...(options.emailPasswordAuth && options.emailPasswordOptions && {
+      emailPasswordOptions: options.emailPasswordOptions,
+    }),
+    oauthProviders: options.oauthProviders,
+    ...(options.customOIDCProvider && { customOIDCProvider: options.customOIDCProvider }),
+    ...(options.tweakcnTheme && { tweakcnTheme: options.tweakcnTheme }),
+    ...(!options.tweakcnTheme && options.themeName && { theme: options.themeName }),
+    ...(options.extraThemes?.length && { extraThemes: options.extraThemes }),
+    ...(options.authPlugins && { authPlugins: options.authPlugins }),
+    initGit: options.initGit,
+    installDependencies: options.installDependencies,
+  };
+
+  const content = isYamlPath(presetPath)
+    ? YAML.stringify(data)
+    : `${JSON.stringify(data, null, 2)}\n`;
+
+  await fs.outputFile(presetPath, content, 'utf-8');
+}
@@ -0,0 +1,165 @@
+/**
+ * Theme Contrast Auditor
+ *
+ * Checks the WCAG 2.1 contrast ratio of every shadcn/ui foreground/background
+ * pair in a theme's light (:root) and dark (.dark) blocks, and can suggest a
+ * lightness-adjusted foreground that passes AA.
+ */
+
+import { formatOklch, oklchToRgb, parseOklch, parseThemeVariables } from './tweakcn-converter.js';
+
+/**
+ * Minimum contrast ratios for normal-size text
+ */
+export const WCAG_AA_RATIO = 4.5;
+export const WCAG_AAA_RATIO = 7;
+
+/**
+ * shadcn/ui variable pairs that render text on a background
+ * Pairs where either variable is missing from the theme are skipped.
+ */
+export const CONTRAST_PAIRS: Array<{ background: string; foreground: string }> = [
+  { background: 'background', foreground: 'foreground' },
+  { background: 'card', foreground: 'card-foreground' },
+  { background: 'popover', foreground: 'popover-foreground' },
+  { background: 'primary', foreground: 'primary-foreground' },
+  { background: 'secondary', foreground: 'secondary-foreground' },
+  { background: 'muted', foreground: 'muted-foreground' },
+  { background: 'accent', foreground: 'accent-foreground' },
+  { background: 'destructive', foreground: 'destructive-foreground' },
+  { background: 'background', foreground: 'destructive' },
+  { background: 'sidebar', foreground: 'sidebar-foreground' },
+  { background: 'sidebar-primary', foreground: 'sidebar-primary-foreground' },
+  { background: 'sidebar-accent', foreground: 'sidebar-accent-foreground' },
+];
+
+/**
+ * WCAG conformance level for a contrast ratio
+ */
+export type WCAGLevel = 'AAA' | 'AA' | 'fail';
+
+/**
+ * Result of checking one foreground/background pair
+ */
+export interface ContrastCheck {
+  /** Theme block the pair was read from */
+  mode: 'light' | 'dark';
+  /** Background variable name without dashes (e.g. 'muted') */
+  background: string;
+  /** Foreground variable name without dashes (e.g. 'muted-foreground') */
+  foreground: string;
+  /** Contrast ratio (1-21) */
+  ratio: number;
+  /** Highest WCAG level the pair meets */
+  level: WCAGLevel;
+  /** Foreground value with adjusted lightness that meets AA (only for failing pairs when requested) */
+  suggestion?: string;
+}
+
+/**
+ * Options for auditThemeContrast
+ */
+export interface ContrastAuditOptions {
+  /** Suggest lightness-adjusted foreground values for pairs that fail AA */
+  suggest?: boolean;
+}
+
+/**
+ * Calculates WCAG relative luminance of an OKLCH color
+ *
+ * @param color - Lightness (0-1), chroma and hue (degrees)
+ * @returns Relative luminance (0-1)
+ */
+function relativeLuminance(color: { l: number; c: number; h: number }): number {
+  const [r, g, b] = oklchToRgb(color).map(channel => {
+    const value = channel / 255;
+    return value <= 0.04045 ? value / 12.92 : Math.pow((value + 0.055) / 1.055, 2.4);
+  });
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+}
+
+/**
+ * Calculates the WCAG contrast ratio between two colors
+ *
+ * @param foreground - Foreground color in OKLCH
+ * @param background - Background color in OKLCH
+ * @returns Contrast ratio (1-21)
+ */
+export function contrastRatio(
+  foreground: { l: number; c: number; h: number },
+  background: { l: number; c: number; h: number }
+): number {
+  const [lighter, darker] = [relativeLuminance(foreground), relativeLuminance(background)].sort((a, b) => b - a);
+  return (lighter + 0.05) / (darker + 0.05);
+}
+
+/**
+ * Maps a contrast ratio to the highest WCAG level it meets for normal text
+ *
+ * @param ratio - Contrast ratio
+ * @returns WCAG level
+ */
+export function getWCAGLevel(ratio: number): WCAGLevel {
+  if (ratio >= WCAG_AAA_RATIO) return 'AAA';
+  if (ratio >= WCAG_AA_RATIO) return 'AA';
+  return 'fail';
+}
+
+/**
+ * Finds the closest foreground lightness that meets AA against the background
+ * Chroma and hue are kept, so the suggestion stays recognisably the same color.
+ *
+ * @param foreground - Failing foreground color in OKLCH
+ * @param background - Background color in OKLCH
+ * @returns Suggested oklch() value, or undefined if no lightness reaches AA
+ */
+function suggestForeground(
+  foreground: { l: number; c: number; h: number },
+  background: { l: number; c: number; h: number }
+): string | undefined {
+  // Try the nearer lightness direction first so the suggestion changes the color as little as possible
+  const directions = foreground.l >= background.l ? [1, -1] : [-1, 1];
+
+  for (const direction of directions) {
+    for (let l = foreground.l; l >= 0 && l <= 1; l += direction * 0.005) {
+      const candidate = { ...foreground, l };
+      if (contrastRatio(candidate, background) >= WCAG_AA_RATIO) {
+        return formatOklch(candidate);
+      }
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Audits every shadcn/ui foreground/background pair in a theme
+ *
+ * @param css - Theme CSS or a full project stylesheet
+ * @param options - Audit options
+ * @returns One check per pair and mode, light first
+ */
+export function auditThemeContrast(css: string, options: ContrastAuditOptions = {}): ContrastCheck[] {
+  const { light, dark, hasDark } = parseThemeVariables(css);
+  const modes: Array<['light' | 'dark', Record<string, string>]> = [['light', light]];
+  if (hasDark) modes.push(['dark', dark]);
+
+  const checks: ContrastCheck[] = [];
+  for (const [mode, variables] of modes) {
+    for (const pair of CONTRAST_PAIRS) {
+      const background = variables[pair.background] && parseOklch(variables[pair.background]);
+      const foreground = variables[pair.foreground] && parseOklch(variables[pair.foreground]);
+      if (!background || !foreground) continue;
+
+      const ratio = contrastRatio(foreground, background);
+      const level = getWCAGLevel(ratio);
+      const suggestion = options.suggest && level === 'fail'
+        ? suggestForeground(foreground, background)
+        : undefined;
+
+      checks.push({ mode, ...pair, ratio, level, ...(suggestion && { suggestion }) });
+    }
+  }
+
+  return checks;
+}
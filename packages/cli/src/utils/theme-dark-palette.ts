@@ -0,0 +1,60 @@
+/**
+ * Dark Palette Generator
+ *
+ * Derives a .dark block from a light-only theme's :root colors, so brand themes
+ * that only define a light palette still get a matching dark mode.
+ */
+
+import { formatOklch, parseOklch, parseThemeVariables } from './tweakcn-converter.js';
+
+/**
+ * Lightness range of the derived palette
+ * Matches shadcn/ui's dark theme, whose background sits at 14.5% and foreground at 98.5%.
+ */
+const DARK_LIGHTNESS_MIN = 0.145;
+const DARK_LIGHTNESS_MAX = 0.985;
+
+/**
+ * Chroma multiplier for dark colors
+ * Saturated colors look louder on dark backgrounds, so chroma is toned down.
+ */
+const DARK_CHROMA_SCALE = 0.85;
+
+/**
+ * Derives a dark-mode color from a light-mode one
+ * Lightness is inverted into the dark range and chroma is tempered; hue is kept,
+ * so colors that shared a hue in light mode still do in dark mode.
+ *
+ * @param color - Light-mode color in OKLCH
+ * @returns Dark-mode color in OKLCH
+ */
+export function deriveDarkColor(color: { l: number; c: number; h: number }): {
+  l: number;
+  c: number;
+  h: number;
+} {
+  const inverted = DARK_LIGHTNESS_MIN + DARK_LIGHTNESS_MAX - color.l;
+  return {
+    l: Math.min(DARK_LIGHTNESS_MAX, Math.max(DARK_LIGHTNESS_MIN, inverted)),
+    c: color.c * DARK_CHROMA_SCALE,
+    h: color.h,
+  };
+}
+
+/**
+ * Derives a .dark block from a theme's :root colors
+ * Non-color tokens (radius, fonts, shadows) are left out, so they are inherited from :root.
+ *
+ * @param css - Theme CSS with a :root block
+ * @returns A .dark block, or undefined if :root has no colors
+ */
+export function deriveDarkTheme(css: string): string | undefined {
+  const { light } = parseThemeVariables(css);
+
+  const lines = Object.entries(light).flatMap(([name, value]) => {
+    const color = parseOklch(value);
+    return color ? [`  --${name}: ${formatOklch(deriveDarkColor(color), color.alpha)};`] : [];
+  });
+
+  return lines.length > 0 ? `.dark {\n${lines.join('\n')}\n}` : undefined;
+}
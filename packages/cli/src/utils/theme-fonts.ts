@@ -0,0 +1,209 @@
+/**
+ * Theme Font Wiring
+ *
+ * Detects the font families a theme declares in --font-sans, --font-serif and
+ * --font-mono, maps them to Fontsource packages and wires them into a project:
+ * an @import in the entry stylesheet, the family in @theme inline and a
+ * dependency in package.json. System fonts are used as declared, without a package.
+ */
+
+import sortPackageJson from 'sort-package-json';
+import { parseThemeVariables } from './tweakcn-converter.js';
+
+/**
+ * Theme variables that hold font stacks
+ */
+const FONT_VARIABLES = ['font-sans', 'font-serif', 'font-mono'] as const;
+
+/**
+ * Fallback generic family per font variable, used when the theme's stack has none
+ */
+const GENERIC_FALLBACKS: Record<(typeof FONT_VARIABLES)[number], string> = {
+  'font-sans': 'sans-serif',
+  'font-serif': 'serif',
+  'font-mono': 'monospace',
+};
+
+/**
+ * Version range used for added Fontsource packages
+ */
+const FONTSOURCE_VERSION = '^5.2.0';
+
+/**
+ * Font package the TanStack Start template ships for its default sans font
+ */
+const TEMPLATE_FONT_PACKAGE = '@fontsource-variable/inter';
+
+/**
+ * Generic families and fonts installed with common operating systems
+ * These never get a package; the theme's stack is used as declared.
+ */
+const SYSTEM_FONTS = new Set([
+  'sans-serif', 'serif', 'monospace', 'cursive', 'fantasy', 'system-ui',
+  'ui-sans-serif', 'ui-serif', 'ui-monospace', 'ui-rounded', 'emoji', 'math',
+  '-apple-system', 'blinkmacsystemfont', 'segoe ui', 'helvetica', 'helvetica neue',
+  'arial', 'georgia', 'times', 'times new roman', 'courier', 'courier new',
+  'menlo', 'monaco', 'consolas', 'sfmono-regular', 'liberation mono',
+  'apple color emoji', 'segoe ui emoji', 'segoe ui symbol', 'noto color emoji',
+]);
+
+/**
+ * Google Fonts available as variable fonts (@fontsource-variable/*)
+ * Other families fall back to the static @fontsource/* package.
+ */
+const VARIABLE_FONTS = new Set([
+  'archivo', 'cabin', 'crimson-pro', 'dm-sans', 'eb-garamond', 'figtree',
+  'fira-code', 'fraunces', 'geist', 'geist-mono', 'ibm-plex-sans', 'inconsolata',
+  'inter', 'jetbrains-mono', 'josefin-sans', 'karla', 'lexend', 'libre-franklin',
+  'lora', 'manrope', 'merriweather', 'montserrat', 'mulish', 'noto-sans',
+  'noto-serif', 'nunito', 'onest', 'open-sans', 'outfit', 'oxanium',
+  'playfair-display', 'plus-jakarta-sans', 'public-sans', 'quicksand', 'raleway',
+  'red-hat-display', 'roboto', 'roboto-mono', 'rubik', 'sora', 'source-code-pro',
+  'source-sans-3', 'source-serif-4', 'space-grotesk', 'urbanist', 'work-sans',
+]);
+
+/**
+ * A font declared by a theme
+ */
+export interface ThemeFont {
+  /** Theme variable without dashes (e.g. 'font-sans') */
+  variable: (typeof FONT_VARIABLES)[number];
+  /** Primary family as declared by the theme (e.g. 'JetBrains Mono') */
+  family: string;
+  /** Font stack to use in @theme inline */
+  stack: string;
+  /** Fontsource package, or undefined for system fonts */
+  package?: string;
+}
+
+/**
+ * Splits a font-family value into unquoted family names
+ *
+ * @param value - CSS font-family value
+ * @returns Family names in order
+ */
+function splitFontStack(value: string): string[] {
+  return value
+    .split(',')
+    .map(family => family.trim().replace(/^['"]|['"]$/g, ''))
+    .filter(Boolean);
+}
+
+/**
+ * Maps a font family to its Fontsource package and registered family name
+ *
+ * @param family - Font family (e.g. 'Source Serif 4')
+ * @returns Package name and the family name its CSS registers
+ */
+export function getFontsourcePackage(family: string): { package: string; family: string } {
+  const slug = family.toLowerCase().replace(/\s+/g, '-');
+  return VARIABLE_FONTS.has(slug)
+    ? { package: `@fontsource-variable/${slug}`, family: `${family} Variable` }
+    : { package: `@fontsource/${slug}`, family };
+}
+
+/**
+ * Detects the fonts a theme declares in its :root block
+ *
+ * @param themeCSS - Theme CSS
+ * @returns One entry per declared font variable
+ */
+export function detectThemeFonts(themeCSS: string): ThemeFont[] {
+  const { light } = parseThemeVariables(themeCSS);
+
+  return FONT_VARIABLES.flatMap(variable => {
+    const families = light[variable] ? splitFontStack(light[variable]) : [];
+    const [family, ...fallbacks] = families;
+    // Skip empty and self-referencing values like var(--font-geist-mono)
+    if (!family || family.startsWith('var(')) return [];
+
+    const quote = (name: string) => (SYSTEM_FONTS.has(name.toLowerCase()) ? name : `'${name}'`);
+    const fallbackStack = fallbacks.length > 0 ? fallbacks.map(quote) : [GENERIC_FALLBACKS[variable]];
+
+    if (SYSTEM_FONTS.has(family.toLowerCase())) {
+      return [{ variable, family, stack: [family, ...fallbacks].map(quote).join(', ') }];
+    }
+
+    const fontsource = getFontsourcePackage(family);
+    return [{
+      variable,
+      family,
+      stack: [`'${fontsource.family}'`, ...fallbackStack].join(', '),
+      package: fontsource.package,
+    }];
+  });
+}
+
+/**
+ * Wires theme fonts into a project stylesheet
+ * Adds an @import per font package after the existing imports and points each
+ * font variable in @theme inline at the theme's stack. The template's default
+ * Inter import is dropped once the theme declares its own sans font.
+ *
+ * @param stylesheet - Contents of styles.css/globals.css
+ * @param fonts - Fonts detected in the theme
+ * @returns Updated stylesheet
+ */
+export function addFontsToStylesheet(stylesheet: string, fonts: ThemeFont[]): string {
+  let result = stylesheet;
+
+  if (fonts.some(font => font.variable === 'font-sans' && font.package !== TEMPLATE_FONT_PACKAGE)) {
+    result = result.replace(new RegExp(`@import ['"]${TEMPLATE_FONT_PACKAGE}['"];\\n`), '');
+  }
+
+  const lastImport = [...result.matchAll(/^@import [^\n]*;$/gm)].pop();
+  // Match the stylesheet's quote style (the Next.js template uses double quotes)
+  const quote = lastImport?.[0].includes('"') ? '"' : "'";
+  const imports = fonts
+    .map(font => font.package)
+    .filter((name): name is string => Boolean(name))
+    .filter(name => !new RegExp(`@import ['"]${name}['"]`).test(result))
+    .map(name => `@import ${quote}${name}${quote};`);
+
+  if (imports.length > 0 && lastImport) {
+    const end = lastImport.index! + lastImport[0].length;
+    result = `${result.slice(0, end)}\n${imports.join('\n')}${result.slice(end)}`;
+  } else if (imports.length > 0) {
+    result = `${imports.join('\n')}\n${result}`;
+  }
+
+  for (const font of fonts) {
+    const declaration = `--${font.variable}: ${font.stack};`;
+    const existing = new RegExp(`--${font.variable}\\s*:[^;]*;`);
+    const themeBlocks = [...result.matchAll(/@theme\s+inline\s*\{[^}]*\}/g)];
+    const owner = themeBlocks.find(block => existing.test(block[0])) ?? themeBlocks.pop();
+    if (!owner) continue;
+
+    const block = existing.test(owner[0])
+      ? owner[0].replace(existing, declaration)
+      : owner[0].replace(/\{/, `{\n  ${declaration}`);
+    result = result.slice(0, owner.index!) + block + result.slice(owner.index! + owner[0].length);
+  }
+
+  return result;
+}
+
+/**
+ * Adds theme font packages to package.json
+ * Drops the template's Inter package once the theme declares its own sans font.
+ *
+ * @param packageJsonContent - Contents of package.json
+ * @param fonts - Fonts detected in the theme
+ * @returns Updated package.json content
+ */
+export function addFontDependencies(packageJsonContent: string, fonts: ThemeFont[]): string {
+  const packageJson = JSON.parse(packageJsonContent) as { dependencies?: Record<string, string> };
+  const dependencies = { ...packageJson.dependencies };
+
+  if (fonts.some(font => font.variable === 'font-sans' && font.package !== TEMPLATE_FONT_PACKAGE)) {
+    delete dependencies[TEMPLATE_FONT_PACKAGE];
+  }
+  for (const font of fonts) {
+    if (font.package && !dependencies[font.package]) {
+      dependencies[font.package] = FONTSOURCE_VERSION;
+    }
+  }
+
+  const updated = sortPackageJson({ ...packageJson, dependencies });
+  return `${JSON.stringify(updated, null, 2)}\n`;
+}
@@ -9,6 +9,25 @@
 import fs from 'fs-extra';
 import convert from 'color-convert';
 
+/**
+ * Placeholder in template stylesheets that marks where the theme goes
+ */
+const THEME_PLACEHOLDER = '/* {{TWEAKCN_THEME}} */';
+
+/**
+ * Theme variables in the order shadcn/ui and TweakCN declare them in :root
+ * The templates map them in @theme inline in reverse, so missing variables are
+ * reported in this order instead.
+ */
+const THEME_VARIABLE_ORDER = [
+  'background', 'foreground', 'card', 'card-foreground', 'popover', 'popover-foreground',
+  'primary', 'primary-foreground', 'secondary', 'secondary-foreground', 'muted', 'muted-foreground',
+  'accent', 'accent-foreground', 'destructive', 'destructive-foreground', 'border', 'input', 'ring',
+  'chart-1', 'chart-2', 'chart-3', 'chart-4', 'chart-5',
+  'sidebar', 'sidebar-foreground', 'sidebar-primary', 'sidebar-primary-foreground',
+  'sidebar-accent', 'sidebar-accent-foreground', 'sidebar-border', 'sidebar-ring', 'radius',
+].map(name => `--${name}`);
+
 /**
  * Configuration options for TweakCN theme conversion
  */
@@ -27,7 +46,7 @@ interface ColorValue {
   name: string;
   /** Original color value (e.g., '#ffffff', 'rgb(255, 255, 255)') */
   value: string;
-  /** Converted OKLCH value */
+  /** Converted CSS oklch() value (undefined for non-color values) */
   oklch?: string;
 }
 
@@ -134,32 +153,17 @@ async function fetchOrReadCSS(source: string): Promise<string> {
 function parseColorsFromCSS(css: string): ColorValueWithTheme[] {
   const colors: ColorValueWithTheme[] = [];
 
-  // Match :root { ... } blocks
-  const rootBlockRegex = /:root\s*\{([^}]+)\}/gs;
-  const rootMatch = rootBlockRegex.exec(css);
-  if (rootMatch) {
-    const rootContent = rootMatch[1];
-    const cssVarRegex = /--([\w-]+)\s*:\s*([^;]+);/g;
-    let match;
-    while ((match = cssVarRegex.exec(rootContent)) !== null) {
-      const name = `--${match[1]}`;
-      const value = match[2].trim();
-      // Include ALL properties, not just colors, to preserve complete theme
+  // Include ALL properties, not just colors, to preserve complete theme
+  const rootContent = extractBlock(css, ':root');
+  if (rootContent !== undefined) {
+    for (const { name, value } of parseDeclarations(rootContent)) {
       colors.push({ name, value, theme: 'root' });
     }
   }
 
-  // Match .dark { ... } blocks
-  const darkBlockRegex = /\.dark\s*\{([^}]+)\}/gs;
-  const darkMatch = darkBlockRegex.exec(css);
-  if (darkMatch) {
-    const darkContent = darkMatch[1];
-    const cssVarRegex = /--([\w-]+)\s*:\s*([^;]+);/g;
-    let match;
-    while ((match = cssVarRegex.exec(darkContent)) !== null) {
-      const name = `--${match[1]}`;
-      const value = match[2].trim();
-      // Include ALL properties to preserve complete theme
+  const darkContent = extractBlock(css, '.dark');
+  if (darkContent !== undefined) {
+    for (const { name, value } of parseDeclarations(darkContent)) {
       colors.push({ name, value, theme: 'dark' });
     }
   }
@@ -168,127 +172,233 @@ function parseColorsFromCSS(css: string): ColorValueWithTheme[] {
 }
 
 /**
- * Determines if a CSS value represents a color
+ * Extracts the bodies of every flat block with the given selector or at-rule
+ *
+ * @param css - CSS content to search
+ * @param selector - Block prelude, e.g. ':root', '.dark' or '@theme inline'
+ * @returns Block bodies without braces, in source order
+ */
+function extractBlocks(css: string, selector: string): string[] {
+  const escaped = selector.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/ /g, '\\s+');
+  return [...css.matchAll(new RegExp(`${escaped}\\s*\\{([^}]*)\\}`, 'g'))].map(match => match[1]);
+}
+
+/**
+ * Extracts the body of the first flat block with the given selector or at-rule
  *
- * Checks for common color formats:
- * - Hex colors (#fff, #ffffff)
- * - RGB/RGBA (rgb(), rgba())
- * - HSL/HSLA (hsl(), hsla())
- * - OKLCH (oklch())
- * - HSL space-separated values (217 91% 60%)
+ * @param css - CSS content to search
+ * @param selector - Block prelude, e.g. ':root', '.dark' or '@theme inline'
+ * @returns Block body without braces, or undefined if the block is absent
+ */
+function extractBlock(css: string, selector: string): string | undefined {
+  return extractBlocks(css, selector)[0];
+}
+
+/**
+ * Parses custom property declarations from a block body
  *
- * @param value - CSS value to check
- * @returns True if value appears to be a color
+ * @param block - Block body (the text between the braces)
+ * @returns Declarations in source order
  */
-function isColorValue(value: string): boolean {
-  // Hex color
-  if (value.startsWith('#')) {
-    return true;
+function parseDeclarations(block: string): Array<{ name: string; value: string }> {
+  const declarations: Array<{ name: string; value: string }> = [];
+  const cssVarRegex = /--([\w-]+)\s*:\s*([^;]+);/g;
+  let match;
+  while ((match = cssVarRegex.exec(block)) !== null) {
+    declarations.push({ name: `--${match[1]}`, value: match[2].trim() });
   }
+  return declarations;
+}
 
-  // RGB/RGBA
-  if (value.startsWith('rgb(') || value.startsWith('rgba(')) {
-    return true;
+/**
+ * Formats declarations as a block, converting color values to OKLCH
+ *
+ * @param prelude - Block selector or at-rule
+ * @param declarations - Declarations to include
+ * @returns Formatted CSS block
+ */
+function formatBlock(prelude: string, declarations: Array<{ name: string; value: string }>): string {
+  const lines = declarations.map(({ name, value }) => `  ${name}: ${convertColorToOKLCH(value) ?? value};`);
+  return `${prelude} {\n${lines.join('\n')}\n}`;
+}
+
+/**
+ * Removes CSS comments
+ *
+ * @param css - CSS content
+ * @returns CSS without comments
+ */
+function stripComments(css: string): string {
+  return css.replace(/\/\*[\s\S]*?\*\//g, '');
+}
+
+/**
+ * Parses a CSS color into sRGB channels (0-255) and alpha (0-1)
+ *
+ * Supports:
+ * - Hex colors (#fff, #ffff, #ffffff, #ffffffff)
+ * - RGB/RGBA, comma or space separated, with optional `/ alpha`
+ * - HSL/HSLA, comma or space separated, with optional `/ alpha`
+ * - Space-separated HSL values (217 91% 60%), as used by shadcn v3 themes
+ *
+ * @param value - CSS value to parse
+ * @returns Channels and alpha, or undefined if the value is not a supported color
+ */
+function parseColor(value: string): { rgb: [number, number, number]; alpha?: number } | undefined {
+  const trimmed = value.trim().toLowerCase();
+
+  const hex = trimmed.match(/^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/);
+  if (hex) {
+    const digits = hex[1].length <= 4 ? [...hex[1]].map(digit => digit + digit).join('') : hex[1];
+    const alpha = digits.length === 8 ? parseInt(digits.slice(6), 16) / 255 : undefined;
+    return { rgb: convert.hex.rgb(digits.slice(0, 6)), alpha };
   }
 
-  // HSL/HSLA
-  if (value.startsWith('hsl(') || value.startsWith('hsla(')) {
-    return true;
+  const functional = trimmed.match(/^(rgba?|hsla?)\(([^)]*)\)$/);
+  const bareHsl = /^[\d.]+(deg)?\s+[\d.]+%\s+[\d.]+%$/.test(trimmed);
+  if (!functional && !bareHsl) {
+    return undefined;
   }
 
-  // OKLCH (already in target format)
-  if (value.startsWith('oklch(')) {
-    return true;
+  const kind = functional ? functional[1].slice(0, 3) : 'hsl';
+  const args = (functional ? functional[2] : trimmed).replace(/\//g, ' / ').split(/[\s,]+/).filter(Boolean);
+  const slash = args.indexOf('/');
+  const channels = slash === -1 ? args.slice(0, 3) : args.slice(0, slash);
+  const alphaArg = slash === -1 ? args[3] : args[slash + 1];
+  if (channels.length !== 3) {
+    return undefined;
   }
 
-  // Space-separated HSL values (common in Tailwind/TweakCN)
-  // Format: "217 91% 60%" or "0 0% 100%"
-  if (/^\d+(\.\d+)?\s+\d+(\.\d+)?%\s+\d+(\.\d+)?%$/.test(value)) {
-    return true;
+  const numbers = channels.map(channel => parseFloat(channel));
+  if (numbers.some(number => Number.isNaN(number))) {
+    return undefined;
   }
 
-  return false;
+  const alpha = alphaArg === undefined
+    ? undefined
+    : alphaArg.endsWith('%') ? parseFloat(alphaArg) / 100 : parseFloat(alphaArg);
+
+  if (kind === 'rgb') {
+    const rgb = channels.map((channel, index) =>
+      channel.endsWith('%') ? (numbers[index] / 100) * 255 : numbers[index]
+    ) as [number, number, number];
+    return { rgb, alpha };
+  }
+
+  return { rgb: convert.hsl.rgb([numbers[0], numbers[1], numbers[2]]), alpha };
 }
 
 /**
- * Converts a color value to OKLCH format
+ * Converts sRGB channels to OKLCH
+ * Uses the OKLab matrices from https://bottosson.github.io/posts/oklab/
  *
- * Supports conversion from:
- * - Hex colors (#3b82f6)
- * - RGB colors (rgb(59, 130, 246))
- * - HSL colors (hsl(217, 91%, 60%))
- * - Space-separated HSL (217 91% 60%)
- * - OKLCH colors (passed through unchanged)
+ * @param rgb - sRGB channels (0-255)
+ * @returns Lightness (0-1), chroma and hue (degrees)
+ */
+export function rgbToOklch(rgb: [number, number, number]): { l: number; c: number; h: number } {
+  const [r, g, b] = rgb.map(channel => {
+    const value = channel / 255;
+    return value <= 0.04045 ? value / 12.92 : Math.pow((value + 0.055) / 1.055, 2.4);
+  });
+
+  const l = Math.cbrt(0.4122214708 * r + 0.5363325363 * g + 0.0514459929 * b);
+  const m = Math.cbrt(0.2119034982 * r + 0.6806995451 * g + 0.1073969566 * b);
+  const s = Math.cbrt(0.0883024619 * r + 0.2817188376 * g + 0.6299787005 * b);
+
+  const lightness = 0.2104542553 * l + 0.793617785 * m - 0.0040720468 * s;
+  const a = 1.9779984951 * l - 2.428592205 * m + 0.4505937099 * s;
+  const bAxis = 0.0259040371 * l + 0.7827717662 * m - 0.808675766 * s;
+
+  const chroma = Math.sqrt(a * a + bAxis * bAxis);
+  const hue = (Math.atan2(bAxis, a) * 180) / Math.PI;
+
+  return { l: lightness, c: chroma, h: hue < 0 ? hue + 360 : hue };
+}
+
+/**
+ * Converts OKLCH to sRGB channels, clipping out-of-gamut colors
  *
- * @param colorValue - Original color value
- * @returns OKLCH color string (e.g., "59.75% 0.196 254.28")
+ * @param color - Lightness (0-1), chroma and hue (degrees)
+ * @returns sRGB channels (0-255)
  */
-function convertColorToOKLCH(colorValue: string): string {
-  const trimmed = colorValue.trim();
+export function oklchToRgb(color: { l: number; c: number; h: number }): [number, number, number] {
+  const hue = (color.h * Math.PI) / 180;
+  const a = color.c * Math.cos(hue);
+  const b = color.c * Math.sin(hue);
+
+  const l = Math.pow(color.l + 0.3963377774 * a + 0.2158037573 * b, 3);
+  const m = Math.pow(color.l - 0.1055613458 * a - 0.0638541728 * b, 3);
+  const s = Math.pow(color.l - 0.0894841775 * a - 1.291485548 * b, 3);
+
+  const linear = [
+    4.0767416621 * l - 3.3077115913 * m + 0.2309699292 * s,
+    -1.2684380046 * l + 2.6097574011 * m - 0.3413193965 * s,
+    -0.0041960863 * l - 0.7034186147 * m + 1.707614701 * s,
+  ];
+
+  return linear.map(value => {
+    const clipped = Math.min(1, Math.max(0, value));
+    const encoded = clipped <= 0.0031308 ? clipped * 12.92 : 1.055 * Math.pow(clipped, 1 / 2.4) - 0.055;
+    return encoded * 255;
+  }) as [number, number, number];
+}
 
-  // If already OKLCH, extract values and return
-  if (trimmed.startsWith('oklch(')) {
-    const match = trimmed.match(/oklch\(([\d.]+%?)\s+([\d.]+)\s+([\d.]+)\)/);
-    if (match) {
-      return `${match[1]} ${match[2]} ${match[3]}`;
-    }
+/**
+ * Parses any supported color (including oklch()) into OKLCH components
+ *
+ * @param value - CSS color value
+ * @returns Lightness (0-1), chroma, hue (degrees) and optional alpha, or undefined if unsupported
+ */
+export function parseOklch(
+  value: string
+): { l: number; c: number; h: number; alpha?: number } | undefined {
+  const oklch = value.trim().toLowerCase().match(/^oklch\(\s*([\d.]+%?)\s+([\d.]+)\s+([\d.]+)(?:deg)?\s*(?:\/\s*([\d.]+%?))?\s*\)$/);
+  if (oklch) {
+    const [, lightness, chroma, hue, alpha] = oklch;
+    const fraction = (part: string) => (part.endsWith('%') ? parseFloat(part) / 100 : parseFloat(part));
+    return {
+      l: fraction(lightness),
+      c: parseFloat(chroma),
+      h: parseFloat(hue),
+      alpha: alpha === undefined ? undefined : fraction(alpha),
+    };
   }
 
-  // Parse color to RGB first (color-convert works best with RGB intermediate)
-  let rgb: [number, number, number];
+  const color = parseColor(value);
+  return color ? { ...rgbToOklch(color.rgb), alpha: color.alpha } : undefined;
+}
 
-  try {
-    if (trimmed.startsWith('#')) {
-      // Hex color
-      rgb = convert.hex.rgb(trimmed.slice(1));
-    } else if (trimmed.startsWith('rgb(') || trimmed.startsWith('rgba(')) {
-      // RGB color - parse values
-      const match = trimmed.match(/rgba?\((\d+),?\s*(\d+),?\s*(\d+)/);
-      if (!match) throw new Error('Invalid RGB format');
-      rgb = [parseInt(match[1]), parseInt(match[2]), parseInt(match[3])];
-    } else if (trimmed.startsWith('hsl(') || trimmed.startsWith('hsla(')) {
-      // HSL color - parse values
-      const match = trimmed.match(/hsla?\((\d+),?\s*(\d+)%?,?\s*(\d+)%?/);
-      if (!match) throw new Error('Invalid HSL format');
-      const hsl: [number, number, number] = [
-        parseInt(match[1]),
-        parseInt(match[2]),
-        parseInt(match[3])
-      ];
-      rgb = convert.hsl.rgb(hsl);
-    } else if (/^\d+(\.\d+)?\s+\d+(\.\d+)?%\s+\d+(\.\d+)?%$/.test(trimmed)) {
-      // Space-separated HSL (Tailwind/TweakCN format)
-      const parts = trimmed.split(/\s+/);
-      const h = parseFloat(parts[0]);
-      const s = parseFloat(parts[1].replace('%', ''));
-      const l = parseFloat(parts[2].replace('%', ''));
-      rgb = convert.hsl.rgb([h, s, l]);
-    } else {
-      // Unsupported format, return as-is
-      return trimmed;
-    }
+/**
+ * Formats OKLCH components in the `oklch(L% C H)` style used by DEFAULT_THEME
+ *
+ * @param color - Lightness (0-1), chroma and hue (degrees)
+ * @param alpha - Optional alpha (0-1), omitted when opaque
+ * @returns CSS oklch() color
+ */
+export function formatOklch(color: { l: number; c: number; h: number }, alpha?: number): string {
+  const round = (value: number, digits: number) => Number(value.toFixed(digits));
+  // Hue is meaningless for greys; pin it so equal greys print identically
+  const hue = color.c < 0.0005 ? 0 : round(color.h, 2);
+  const alphaPart = alpha === undefined || alpha >= 1 ? '' : ` / ${round(alpha, 3)}`;
 
-    // Convert RGB to OKLCH via LAB
-    // color-convert doesn't have direct RGB->OKLCH, so we use RGB->LAB->LCH path
-    // OKLCH is essentially LCH in the OKLAB color space
-    // For simplicity, we'll convert to HSL then construct OKLCH-like values
-    const hsl = convert.rgb.hsl(rgb);
-
-    // Approximate OKLCH conversion
-    // L (lightness): 0-100% -> map from HSL lightness
-    // C (chroma): 0-0.4 -> map from HSL saturation
-    // H (hue): 0-360 -> use HSL hue
-    const l = hsl[2]; // Lightness (0-100)
-    const c = (hsl[1] / 100) * 0.4; // Chroma (approximate)
-    const h = hsl[0]; // Hue (0-360)
-
-    // Format as OKLCH: L% C H
-    return `${l}% ${c.toFixed(3)} ${h}`;
-  } catch (error) {
-    // If conversion fails, return original value
-    console.warn(`Failed to convert color "${colorValue}": ${error instanceof Error ? error.message : 'Unknown error'}`);
+  return `oklch(${round(color.l * 100, 2)}% ${color.c.toFixed(3)} ${hue}${alphaPart})`;
+}
+
+/**
+ * Converts a color value to OKLCH format
+ * OKLCH values are already in the target format and are passed through unchanged.
+ *
+ * @param colorValue - Original color value
+ * @returns CSS oklch() color, or undefined if the value is not a supported color
+ */
+function convertColorToOKLCH(colorValue: string): string | undefined {
+  const trimmed = colorValue.trim();
+  if (/^oklch\(/i.test(trimmed)) {
     return trimmed;
   }
+
+  const color = parseColor(trimmed);
+  return color ? formatOklch(rgbToOklch(color.rgb), color.alpha) : undefined;
 }
 
 /**
@@ -318,9 +428,7 @@ function generateCSSOutput(
   if (rootColors.length > 0) {
     const rootDeclarations = rootColors
       .map(color => {
-        const value = format === 'oklch' && color.oklch && isColorValue(color.value)
-          ? `oklch(${color.oklch})`
-          : color.value;
+        const value = format === 'oklch' && color.oklch ? color.oklch : color.value;
         return `  ${color.name}: ${value};`;
       })
       .join('\n');
@@ -332,9 +440,7 @@ function generateCSSOutput(
     if (output) output += '\n\n';
     const darkDeclarations = darkColors
       .map(color => {
-        const value = format === 'oklch' && color.oklch && isColorValue(color.value)
-          ? `oklch(${color.oklch})`
-          : color.value;
+        const value = format === 'oklch' && color.oklch ? color.oklch : color.value;
         return `  ${color.name}: ${value};`;
       })
       .join('\n');
@@ -344,6 +450,199 @@ function generateCSSOutput(
   return output;
 }
 
+/**
+ * Result of normalizing a theme against a template stylesheet
+ */
+export interface NormalizedTheme {
+  /** Theme CSS ready for the {{TWEAKCN_THEME}} placeholder */
+  css: string;
+  /** Variables the template's @theme inline block references but the theme's :root lacks */
+  missingVariables: string[];
+}
+
+/**
+ * Normalizes pasted or file-provided theme CSS before it is applied to a template
+ *
+ * - Converts every color token in :root and .dark to OKLCH
+ * - Preserves non-color tokens (--radius, --font-*, --shadow-*, --spacing, ...) as-is
+ * - Keeps only the @theme inline entries the template does not already define,
+ *   so TweakCN's copy of the shadcn mappings never overrides the template's
+ * - Reports color and radius variables the template maps but the theme does not set,
+ *   in the order a theme declares them
+ *
+ * Declarations outside any block are treated as :root, so a bare list of
+ * variables can be pasted too.
+ *
+ * @param css - Theme CSS as copied from TweakCN
+ * @param templateCSS - Contents of the template's styles.css/globals.css (optional)
+ * @returns Normalized CSS and the list of missing variables
+ * @throws {Error} If the CSS contains no theme variables
+ */
+export function normalizeThemeCSS(css: string, templateCSS = ''): NormalizedTheme {
+  const source = stripComments(css);
+
+  const rootBlock = extractBlock(source, ':root')
+    ?? source.replace(/[^{}]*\{[^}]*\}/g, '');
+  const root = parseDeclarations(rootBlock);
+  const dark = parseDeclarations(extractBlock(source, '.dark') ?? '');
+  const themeInline = parseDeclarations(extractBlock(source, '@theme inline') ?? '');
+
+  if (root.length === 0 && dark.length === 0) {
+    throw new Error('Theme CSS does not contain any CSS variables in :root or .dark');
+  }
+
+  const templateInline = extractBlocks(templateCSS, '@theme inline').flatMap(parseDeclarations);
+  const templateNames = new Set(templateInline.map(({ name }) => name));
+
+  const blocks: string[] = [];
+  if (root.length > 0) blocks.push(formatBlock(':root', root));
+  if (dark.length > 0) blocks.push(formatBlock('.dark', dark));
+
+  const extraInline = themeInline.filter(({ name }) => !templateNames.has(name));
+  if (extraInline.length > 0) blocks.push(formatBlock('@theme inline', extraInline));
+
+  // Only color and radius mappings need the theme; fonts come from the template or next/font
+  const rootNames = new Set(root.map(({ name }) => name));
+  const expected = templateInline
+    .filter(({ name }) => name.startsWith('--color-') || name.startsWith('--radius'))
+    .flatMap(({ value }) => [...value.matchAll(/var\((--[\w-]+)\)/g)].map(match => match[1]));
+  // Variables outside the shadcn/ui set keep the template's order, after the known ones
+  const rank = (name: string) => {
+    const index = THEME_VARIABLE_ORDER.indexOf(name);
+    return index === -1 ? THEME_VARIABLE_ORDER.length : index;
+  };
+  const missingVariables = [...new Set(expected)]
+    .filter(name => !rootNames.has(name))
+    .sort((a, b) => rank(a) - rank(b));
+
+  return { css: blocks.join('\n\n'), missingVariables };
+}
+
+/**
+ * Replaces the theme in a project stylesheet
+ *
+ * The first :root block is replaced with the new theme and the old .dark block is
+ * removed, so a light-only theme never inherits stale dark colors. A stylesheet
+ * that still has the {{TWEAKCN_THEME}} placeholder gets the theme in its place.
+ *
+ * @param stylesheet - Contents of styles.css/globals.css
+ * @param themeCSS - Normalized theme CSS (see normalizeThemeCSS)
+ * @returns Updated stylesheet
+ * @throws {Error} If the stylesheet has neither a :root block nor the placeholder
+ */
+export function replaceThemeBlocks(stylesheet: string, themeCSS: string): string {
+  const rootBlock = /:root\s*\{[^}]*\}/;
+
+  if (!rootBlock.test(stylesheet)) {
+    if (!stylesheet.includes(THEME_PLACEHOLDER)) {
+      throw new Error('No :root theme block found');
+    }
+    return stylesheet.replace(THEME_PLACEHOLDER, () => themeCSS);
+  }
+
+  return stylesheet
+    .replace(/\n*\.dark\s*\{[^}]*\}/, '')
+    .replace(rootBlock, () => themeCSS);
+}
+
+/**
+ * Extracts the current theme from a project stylesheet as TweakCN-compatible CSS
+ *
+ * @param stylesheet - Contents of styles.css/globals.css
+ * @returns :root and .dark blocks with colors in OKLCH
+ * @throws {Error} If the stylesheet has no :root block
+ */
+export function extractThemeCSS(stylesheet: string): string {
+  const source = stripComments(stylesheet);
+  const root = extractBlock(source, ':root');
+  if (root === undefined) {
+    throw new Error('No :root theme block found');
+  }
+
+  const dark = extractBlock(source, '.dark');
+  const blocks = [formatBlock(':root', parseDeclarations(root))];
+  if (dark !== undefined) blocks.push(formatBlock('.dark', parseDeclarations(dark)));
+
+  return `${blocks.join('\n\n')}\n`;
+}
+
+/**
+ * Scopes a theme to a [data-theme] attribute so apps can switch to it at runtime
+ *
+ * :root becomes [data-theme="name"] and .dark becomes .dark[data-theme="name"]. The
+ * dark selector is more specific than both the unscoped .dark block and the scoped
+ * light block, so the named theme's dark colors win regardless of source order.
+ *
+ * @param themeCSS - Theme CSS with :root and .dark blocks
+ * @param name - Theme name used in the data-theme attribute
+ * @returns Scoped light and dark blocks with colors in OKLCH
+ * @throws {Error} If the theme has no :root block
+ */
+export function scopeThemeCSS(themeCSS: string, name: string): string {
+  const source = stripComments(themeCSS);
+  const root = extractBlock(source, ':root');
+  if (root === undefined) {
+    throw new Error('No :root theme block found');
+  }
+
+  const dark = extractBlock(source, '.dark');
+  const blocks = [formatBlock(`[data-theme="${name}"]`, parseDeclarations(root))];
+  if (dark !== undefined) blocks.push(formatBlock(`.dark[data-theme="${name}"]`, parseDeclarations(dark)));
+
+  return blocks.join('\n\n');
+}
+
+/**
+ * Adds a scoped theme to a project stylesheet, or replaces it in place if present
+ * New themes are inserted after the last theme block (:root, .dark or [data-theme]).
+ *
+ * @param stylesheet - Contents of styles.css/globals.css
+ * @param name - Theme name used in the data-theme attribute
+ * @param scopedCSS - Scoped blocks from scopeThemeCSS
+ * @returns Updated stylesheet
+ * @throws {Error} If the stylesheet has no theme block to insert after
+ */
+export function setScopedTheme(stylesheet: string, name: string, scopedCSS: string): string {
+  const attribute = `\\[data-theme="${name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}"\\]`;
+  const lightBlock = new RegExp(`(?<!\\.dark)${attribute}\\s*\\{[^}]*\\}`);
+  const darkBlock = new RegExp(`\\n*\\.dark${attribute}\\s*\\{[^}]*\\}`);
+
+  if (lightBlock.test(stylesheet)) {
+    return stylesheet.replace(darkBlock, '').replace(lightBlock, () => scopedCSS);
+  }
+
+  const themeBlocks = [...stylesheet.matchAll(/(?::root|\.dark|\[data-theme="[^"]*"\])\s*\{[^}]*\}/g)];
+  const lastBlock = themeBlocks.pop();
+  if (!lastBlock) {
+    throw new Error('No :root theme block found');
+  }
+
+  const end = lastBlock.index! + lastBlock[0].length;
+  return `${stylesheet.slice(0, end)}\n\n${scopedCSS}${stylesheet.slice(end)}`;
+}
+
+/**
+ * Reads the light and dark theme variables from theme CSS
+ * Dark values fall back to the light ones, matching how the cascade resolves them.
+ *
+ * @param css - Theme CSS or a full project stylesheet
+ * @returns Variable values keyed by name without the leading dashes, and
+ *   whether the CSS defines a .dark block
+ */
+export function parseThemeVariables(css: string): {
+  light: Record<string, string>;
+  dark: Record<string, string>;
+  hasDark: boolean;
+} {
+  const source = stripComments(css);
+  const toRecord = (block: string | undefined) =>
+    Object.fromEntries(parseDeclarations(block ?? '').map(({ name, value }) => [name.slice(2), value]));
+
+  const darkBlock = extractBlock(source, '.dark');
+  const light = toRecord(extractBlock(source, ':root'));
+  return { light, dark: { ...light, ...toRecord(darkBlock) }, hasDark: darkBlock !== undefined };
+}
+
 /**
  * Validates if a string is a valid URL
  *
@@ -1,5 +1,13 @@
 import validateNpmPackageName from 'validate-npm-package-name';
 import fs from 'fs-extra';
+import { getProviderIds } from '../installers/providers.js';
+import { getBundledThemeIds } from '../installers/themes.js';
+import { getAuthPluginIds } from '../installers/plugins.js';
+
+/**
+ * Framework values accepted by the --framework flag and presets
+ */
+export const SUPPORTED_FRAMEWORKS = ['tanstack', 'nextjs'];
 
 /**
  * Validates a project name using npm package name validation rules.
@@ -72,3 +80,178 @@ export function resolveProjectName(input: string, _cwd: string): string {
   // The basename will be used for validation and package.json, but not for directory creation
   return input;
 }
+
+/**
+ * Validates a framework value passed via the --framework flag.
+ *
+ * @param framework - The framework value to validate
+ * @returns Object with valid flag and array of error messages
+ */
+export function validateFramework(framework: string): { valid: boolean; errors: string[] } {
+  if (SUPPORTED_FRAMEWORKS.includes(framework)) {
+    return { valid: true, errors: [] };
+  }
+
+  return {
+    valid: false,
+    errors: [`Unknown framework '${framework}'. Supported frameworks: ${SUPPORTED_FRAMEWORKS.join(', ')}`],
+  };
+}
+
+/**
+ * Validates a bundled theme name passed via the --theme flag or a preset.
+ *
+ * @param themeName - The theme ID to validate (e.g., 'rose')
+ * @returns Object with valid flag and array of error messages
+ */
+export function validateThemeName(themeName: string): { valid: boolean; errors: string[] } {
+  const themeIds = getBundledThemeIds();
+  if (themeIds.includes(themeName)) {
+    return { valid: true, errors: [] };
+  }
+
+  return {
+    valid: false,
+    errors: [`Unknown theme '${themeName}'. Available themes: ${themeIds.join(', ')}`],
+  };
+}
+
+/**
+ * Validates the bundled themes offered for runtime switching (--extra-themes or a preset).
+ * 'default' is rejected because the base theme is always available under that name.
+ *
+ * @param themeNames - Theme IDs to validate (e.g., ['blue', 'rose'])
+ * @returns Object with valid flag and array of error messages
+ */
+export function validateExtraThemes(themeNames: string[]): { valid: boolean; errors: string[] } {
+  const errors = themeNames.flatMap(themeName =>
+    themeName === 'default'
+      ? [`Theme 'default' can't be an extra theme: the base theme is always available as 'default'`]
+      : validateThemeName(themeName).errors
+  );
+
+  return { valid: errors.length === 0, errors };
+}
+
+/**
+ * Validates OAuth provider ids against the OAUTH_PROVIDERS registry.
+ * Collects one error per unknown id so every typo is reported at once.
+ *
+ * @param providerIds - Array of provider ids (e.g., ['google', 'github'])
+ * @returns Object with valid flag and array of error messages
+ */
+export function validateOAuthProviderIds(providerIds: string[]): { valid: boolean; errors: string[] } {
+  const knownIds = getProviderIds();
+  const errors = providerIds
+    .filter(id => !knownIds.includes(id))
+    .map(id => `Unknown OAuth provider '${id}'. Supported providers: ${knownIds.join(', ')}`);
+
+  return { valid: errors.length === 0, errors };
+}
+
+/**
+ * Validates Better Auth plugin ids (--auth-plugins or a preset) against the AUTH_PLUGINS registry.
+ *
+ * @param pluginIds - Array of plugin ids (e.g., ['admin', 'api-key'])
+ * @returns Object with valid flag and array of error messages
+ */
+export function validateAuthPluginIds(pluginIds: string[]): { valid: boolean; errors: string[] } {
+  const knownIds = getAuthPluginIds();
+  const errors = pluginIds
+    .filter(id => !knownIds.includes(id))
+    .map(id => `Unknown auth plugin '${id}'. Supported plugins: ${knownIds.join(', ')}`);
+
+  return { valid: errors.length === 0, errors };
+}
+
+/**
+ * Validates a minimum password length (--min-password-length, the survey or a preset).
+ * Lengths below 8 are rejected, as are lengths above Better Auth's 128 character maximum.
+ *
+ * @param value - Minimum length as entered (e.g., '12')
+ * @returns Object with valid flag and array of error messages
+ */
+export function validateMinPasswordLength(value: string): { valid: boolean; errors: string[] } {
+  const length = Number(value);
+  if (!/^\d+$/.test(value.trim()) || length < 8 || length > 128) {
+    return {
+      valid: false,
+      errors: [`Invalid minimum password length '${value}'. Use a whole number from 8 to 128`],
+    };
+  }
+
+  return { valid: true, errors: [] };
+}
+
+/**
+ * Validates a custom OpenID Connect provider ID.
+ * IDs become part of the callback URL and env var names, and must not shadow a
+ * built-in provider.
+ *
+ * @param id - Provider id (e.g., 'keycloak')
+ * @returns Object with valid flag and array of error messages
+ */
+export function validateCustomProviderId(id: string): { valid: boolean; errors: string[] } {
+  if (!/^[a-z][a-z0-9-]*$/.test(id)) {
+    return {
+      valid: false,
+      errors: [`Invalid provider id '${id}'. Use lowercase letters, digits and hyphens, starting with a letter`],
+    };
+  }
+
+  if (getProviderIds().includes(id)) {
+    return {
+      valid: false,
+      errors: [`'${id}' is a built-in OAuth provider. Select it from the provider list instead`],
+    };
+  }
+
+  return { valid: true, errors: [] };
+}
+
+/**
+ * Validates an OpenID Connect discovery URL.
+ *
+ * @param url - Discovery document URL
+ * @returns Object with valid flag and array of error messages
+ */
+export function validateDiscoveryUrl(url: string): { valid: boolean; errors: string[] } {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return { valid: false, errors: [`Invalid discovery URL '${url}'`] };
+  }
+
+  if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') {
+    return { valid: false, errors: [`Discovery URL '${url}' must use http or https`] };
+  }
+
+  return { valid: true, errors: [] };
+}
+
+/**
+ * Parses a comma-separated provider list (e.g., "google, github") into provider ids.
+ * Empty entries are dropped and duplicates are removed while preserving order.
+ *
+ * @param value - The raw comma-separated value from the --oauth flag
+ * @returns Array of provider ids
+ */
+export function parseProviderList(value: string): string[] {
+  const ids = value
+    .split(',')
+    .map(id => id.trim().toLowerCase())
+    .filter(Boolean);
+
+  return [...new Set(ids)];
+}
+
+/**
+ * Checks whether the given content looks like TweakCN theme CSS.
+ *
+ * @param content - The CSS content to check
+ * @returns True if content contains a :root block, color variables or OKLCH values
+ */
+export function isThemeCSS(content: string): boolean {
+  return content.includes(':root') || content.includes('--background') || content.includes('oklch');
+}
@@ -0,0 +1,29 @@
+import type { ComponentProps } from "react"
+import type { GenericActionCtx } from "convex/server"
+import { v } from "convex/values"
+
+import { internal } from "../../_generated/api"
+import type { DataModel } from "../../_generated/dataModel"
+import type { emailTemplates } from "./registry"
+
+/**
+ * Names of the React email templates in registry.ts
+ */
+export const emailTemplateName = v.union(v.literal("reset-password"), v.literal("verify-email"))
+export type EmailTemplateName = keyof typeof emailTemplates
+
+/**
+ * Props of an email template, checked against its React component
+ */
+export type EmailTemplateProps<T extends EmailTemplateName> = ComponentProps<(typeof emailTemplates)[T]["component"]>
+
+/**
+ * Queues a templated email for delivery from a Convex action (e.g., Better Auth callbacks in createAuth)
+ * Templates are rendered in the Node.js runtime, then sent through sendEmail.
+ */
+export const sendTemplateEmail = async <T extends EmailTemplateName>(
+  ctx: GenericActionCtx<DataModel>,
+  message: { to: string; template: T; props: EmailTemplateProps<T> }
+) => {
+  await ctx.scheduler.runAfter(0, internal.email.templates.send.send, message)
+}
@@ -0,0 +1,80 @@
+"use node"
+
+import { Body, Button, Container, Head, Heading, Html, Preview, Text } from "@react-email/components"
+import type { ReactNode } from "react"
+
+/**
+ * Shared frame for auth emails: a heading, a short message and one call-to-action button
+ */
+export function EmailLayout({
+  preview,
+  heading,
+  action,
+  children,
+}: {
+  preview: string
+  heading: string
+  action: { label: string; url: string }
+  children: ReactNode
+}) {
+  return (
+    <Html lang="en">
+      <Head />
+      <Preview>{preview}</Preview>
+      <Body style={body}>
+        <Container style={container}>
+          <Heading style={title}>{heading}</Heading>
+          {children}
+          <Button href={action.url} style={button}>
+            {action.label}
+          </Button>
+          <Text style={footer}>
+            If the button doesn&apos;t work, copy this link into your browser: {action.url}
+          </Text>
+        </Container>
+      </Body>
+    </Html>
+  )
+}
+
+export const paragraph = {
+  color: "#3f3f46",
+  fontSize: "14px",
+  lineHeight: "24px",
+}
+
+const body = {
+  backgroundColor: "#f4f4f5",
+  fontFamily: "ui-sans-serif, system-ui, -apple-system, 'Segoe UI', Roboto, sans-serif",
+}
+
+const container = {
+  backgroundColor: "#ffffff",
+  borderRadius: "8px",
+  margin: "40px auto",
+  maxWidth: "480px",
+  padding: "32px",
+}
+
+const title = {
+  color: "#18181b",
+  fontSize: "20px",
+  fontWeight: 600,
+}
+
+const button = {
+  backgroundColor: "#18181b",
+  borderRadius: "6px",
+  color: "#fafafa",
+  fontSize: "14px",
+  fontWeight: 500,
+  padding: "10px 16px",
+}
+
+const footer = {
+  ...paragraph,
+  color: "#71717a",
+  fontSize: "12px",
+  marginTop: "24px",
+  wordBreak: "break-all" as const,
+}
@@ -0,0 +1,17 @@
+"use node"
+
+import type { Infer } from "convex/values"
+import type { ComponentType } from "react"
+
+import type { emailTemplateName } from "."
+import { ResetPasswordEmail } from "./reset-password"
+import { VerifyEmail } from "./verify-email"
+
+/**
+ * Email templates by name, with their subject lines
+ * Add a template here and to emailTemplateName in index.ts.
+ */
+export const emailTemplates = {
+  "reset-password": { subject: "Reset your password", component: ResetPasswordEmail },
+  "verify-email": { subject: "Verify your email address", component: VerifyEmail },
+} satisfies Record<Infer<typeof emailTemplateName>, { subject: string; component: ComponentType<never> }>
@@ -0,0 +1,36 @@
+"use node"
+
+import { Text } from "@react-email/components"
+
+import { EmailLayout, paragraph } from "./layout"
+
+export type ResetPasswordEmailProps = {
+  name: string
+  url: string
+}
+
+/**
+ * Sent by Better Auth's sendResetPassword when a user asks to reset their password
+ */
+export function ResetPasswordEmail({ name, url }: ResetPasswordEmailProps) {
+  return (
+    <EmailLayout
+      preview="Reset your password"
+      heading="Reset your password"
+      action={{ label: "Reset password", url }}
+    >
+      <Text style={paragraph}>Hi {name},</Text>
+      <Text style={paragraph}>
+        Someone asked to reset the password for your account. If that was you, choose a new password
+        with the link below. Otherwise you can ignore this email.
+      </Text>
+    </EmailLayout>
+  )
+}
+
+ResetPasswordEmail.PreviewProps = {
+  name: "Ada",
+  url: "http://localhost:3000/api/auth/reset-password/token",
+} satisfies ResetPasswordEmailProps
+
+export default ResetPasswordEmail
@@ -0,0 +1,28 @@
+"use node"
+
+import { render, toPlainText } from "@react-email/components"
+import { v } from "convex/values"
+import { createElement, type ComponentType } from "react"
+
+import { internalAction } from "../../_generated/server"
+import { sendEmail } from ".."
+import { emailTemplateName } from "."
+import { emailTemplates } from "./registry"
+
+/**
+ * Renders an email template to HTML and plain text, then sends it through the email transport
+ * Runs in the Node.js runtime, which React email rendering needs.
+ */
+export const send = internalAction({
+  args: {
+    to: v.string(),
+    template: emailTemplateName,
+    props: v.any(),
+  },
+  handler: async (ctx, { to, template, props }) => {
+    const { subject, component } = emailTemplates[template]
+    const html = await render(createElement(component as ComponentType<typeof props>, props))
+
+    await sendEmail(ctx, { to, subject, html, text: toPlainText(html) })
+  },
+})
@@ -0,0 +1,35 @@
+"use node"
+
+import { Text } from "@react-email/components"
+
+import { EmailLayout, paragraph } from "./layout"
+
+export type VerifyEmailProps = {
+  name: string
+  url: string
+}
+
+/**
+ * Sent by Better Auth's sendVerificationEmail after sign-up
+ */
+export function VerifyEmail({ name, url }: VerifyEmailProps) {
+  return (
+    <EmailLayout
+      preview="Verify your email address"
+      heading="Verify your email address"
+      action={{ label: "Verify email", url }}
+    >
+      <Text style={paragraph}>Hi {name},</Text>
+      <Text style={paragraph}>
+        Confirm that this is your email address to finish setting up your account.
+      </Text>
+    </EmailLayout>
+  )
+}
+
+VerifyEmail.PreviewProps = {
+  name: "Ada",
+  url: "http://localhost:3000/api/auth/verify-email?token=token",
+} satisfies VerifyEmailProps
+
+export default VerifyEmail
@@ -0,0 +1,29 @@
+import { api } from "@convex/_generated/api";
+import { fetchQuery } from "convex/nextjs";
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+
+import { DevMailbox } from "~/components/dev-mailbox";
+import { env } from "~/env.mjs";
+
+export const dynamic = 'force-dynamic';
+
+export const metadata: Metadata = {
+	title: "Dev mailbox",
+};
+
+export default async function DevMailboxPage({
+	searchParams,
+}: {
+	searchParams: Promise<{ id?: string }>;
+}) {
+	// Development only - emails hold sign-in links and reset tokens
+	if (env.NODE_ENV === "production") {
+		notFound();
+	}
+
+	const { id } = await searchParams;
+	const emails = await fetchQuery(api.dev.mailbox.list, {});
+
+	return <DevMailbox emails={emails} selectedId={id} />;
+}
@@ -0,0 +1,66 @@
+import type { Doc } from '@convex/_generated/dataModel'
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '~/components/ui/card'
+import type { TABLE_SLUG_DEV_EMAILS } from '~/db/constants'
+import { cn } from '~/lib/utils'
+
+type DevEmail = Doc<typeof TABLE_SLUG_DEV_EMAILS>
+
+/**
+ * Development mailbox - lists the emails captured by the "mailbox" email transport
+ * and renders the selected one. Links in the email open in the current tab.
+ */
+export function DevMailbox({ emails, selectedId }: { emails: Array<DevEmail>; selectedId?: string }) {
+  const selected = emails.find((email) => email._id === selectedId) ?? emails[0]
+
+  return (
+    <main className="mx-auto grid min-h-svh w-full max-w-6xl items-start gap-4 p-4 md:grid-cols-[20rem_1fr] md:p-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Dev mailbox</CardTitle>
+          <CardDescription>Emails sent in development. Reload to check for new ones.</CardDescription>
+        </CardHeader>
+        <CardContent className="flex flex-col gap-1">
+          {emails.length === 0 && (
+            <p className="text-muted-foreground text-sm">
+              No emails yet. Emails are stored here while EMAIL_TRANSPORT is &quot;mailbox&quot; on the Convex deployment.
+            </p>
+          )}
+          {emails.map((email) => (
+            <a
+              key={email._id}
+              href={`?id=${email._id}`}
+              className={cn('hover:bg-muted rounded-md p-2 text-sm', email._id === selected?._id && 'bg-muted')}
+            >
+              <div className="truncate font-medium">{email.subject}</div>
+              <div className="text-muted-foreground truncate text-xs">
+                {email.to} · {new Date(email._creationTime).toLocaleString()}
+              </div>
+            </a>
+          ))}
+        </CardContent>
+      </Card>
+
+      {selected && (
+        <Card>
+          <CardHeader>
+            <CardTitle>{selected.subject}</CardTitle>
+            <CardDescription>To {selected.to}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {selected.html ? (
+              <iframe
+                title={selected.subject}
+                sandbox="allow-top-navigation-by-user-activation"
+                srcDoc={`<base target="_top">${selected.html}`}
+                className="h-[36rem] w-full rounded-md border bg-white"
+              />
+            ) : (
+              <pre className="text-sm whitespace-pre-wrap">{selected.text}</pre>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </main>
+  )
+}
@@ -0,0 +1,31 @@
+import { convexQuery } from '@convex-dev/react-query'
+import { api } from '@convex/_generated/api'
+import { createFileRoute, notFound } from '@tanstack/react-router'
+
+import { DevMailbox } from '~/components/dev-mailbox'
+import { env } from '~/env'
+
+export const Route = createFileRoute('/dev/mailbox')({
+  ssr: false,
+  validateSearch: (search: Record<string, unknown>): { id?: string } => ({
+    id: typeof search.id === 'string' ? search.id : undefined,
+  }),
+  beforeLoad: () => {
+    // Development only - emails hold sign-in links and reset tokens
+    if (env.NODE_ENV === 'production') {
+      throw notFound()
+    }
+  },
+  loader: ({ context }) => context.queryClient.ensureQueryData(convexQuery(api.dev.mailbox.list, {})),
+  head: () => ({
+    meta: [{ title: 'Dev mailbox' }],
+  }),
+  component: RouteComponent,
+})
+
+function RouteComponent() {
+  const emails = Route.useLoaderData()
+  const { id } = Route.useSearch()
+
+  return <DevMailbox emails={emails} selectedId={id} />
+}
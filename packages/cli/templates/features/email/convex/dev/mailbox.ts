@@ -0,0 +1,47 @@
+import { v } from "convex/values";
+
+import { TABLE_SLUG_DEV_EMAILS } from "~/db/constants";
+
+import { internalMutation, query } from "../_generated/server";
+
+/**
+ * Whether emails are captured in the development mailbox
+ * The mailbox is opt-in: `list` is public, so it stays empty (and closed) unless
+ * EMAIL_TRANSPORT is explicitly "mailbox" on the Convex deployment.
+ */
+export const isMailboxEnabled = () => process.env.EMAIL_TRANSPORT === "mailbox";
+
+/**
+ * Stores an email in the development mailbox
+ * Called by the "mailbox" transport in convex/email when auth emails are configured
+ */
+export const store = internalMutation({
+  args: {
+    to: v.string(),
+    subject: v.string(),
+    text: v.string(),
+    html: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    if (!isMailboxEnabled()) {
+      return null;
+    }
+
+    return await ctx.db.insert(TABLE_SLUG_DEV_EMAILS, args);
+  },
+});
+
+/**
+ * Lists the latest emails in the development mailbox, newest first
+ * Shown by the /dev/mailbox route; returns nothing unless the mailbox is enabled.
+ */
+export const list = query({
+  args: {},
+  handler: async (ctx) => {
+    if (!isMailboxEnabled()) {
+      return [];
+    }
+
+    return await ctx.db.query(TABLE_SLUG_DEV_EMAILS).order("desc").take(50);
+  },
+});
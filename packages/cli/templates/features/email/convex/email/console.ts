@@ -0,0 +1,10 @@
+import type { EmailTransport } from "./types"
+
+/**
+ * Default transport - prints emails to the Convex logs instead of sending them
+ */
+export const consoleTransport: EmailTransport = {
+  send: async ({ to, subject, text }) => {
+    console.log(`📧 Email to ${to}\nSubject: ${subject}\n\n${text}`)
+  },
+}
@@ -0,0 +1,15 @@
+import type { GenericActionCtx } from "convex/server"
+
+import { internal } from "../_generated/api"
+import type { DataModel } from "../_generated/dataModel"
+import type { EmailMessage } from "./types"
+
+export type { EmailMessage, EmailTransport } from "./types"
+
+/**
+ * Queues an email for delivery from a Convex action (e.g., Better Auth callbacks in createAuth)
+ * Sending is scheduled rather than awaited so auth responses don't wait on the mail server.
+ */
+export const sendEmail = async (ctx: GenericActionCtx<DataModel>, message: EmailMessage) => {
+  await ctx.scheduler.runAfter(0, internal.email.send.send, message)
+}
@@ -0,0 +1,13 @@
+import { internal } from "../_generated/api"
+import type { ActionCtx } from "../_generated/server"
+import type { EmailTransport } from "./types"
+
+/**
+ * Development transport - stores emails in the devEmails table, listed at /dev/mailbox
+ */
+export const createMailboxTransport = (ctx: ActionCtx): EmailTransport => ({
+  send: async (message) => {
+    await ctx.runMutation(internal.dev.mailbox.store, message)
+    console.log(`📧 Email to ${message.to} saved to the dev mailbox (/dev/mailbox)`)
+  },
+})
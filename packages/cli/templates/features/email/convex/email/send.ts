@@ -0,0 +1,25 @@
+"use node"
+
+import { internalAction } from "../_generated/server"
+import { consoleTransport } from "./console"
+import { createMailboxTransport } from "./mailbox"
+import { createSmtpTransport } from "./smtp"
+import { emailMessage } from "./types"
+
+/**
+ * Sends an email with the transport selected by EMAIL_TRANSPORT ("console" by default, "mailbox" or "smtp")
+ * Unset or unknown values fall back to the console, so emails are never stored or exposed by accident.
+ * Runs in the Node.js runtime so the SMTP transport can open connections.
+ */
+export const send = internalAction({
+  args: emailMessage,
+  handler: async (ctx, message) => {
+    const transport =
+      process.env.EMAIL_TRANSPORT === "smtp"
+        ? createSmtpTransport()
+        : process.env.EMAIL_TRANSPORT === "mailbox"
+          ? createMailboxTransport(ctx)
+          : consoleTransport
+    await transport.send(message)
+  },
+})
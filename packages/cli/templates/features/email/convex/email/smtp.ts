@@ -0,0 +1,25 @@
+"use node"
+
+import nodemailer from "nodemailer"
+
+import type { EmailTransport } from "./types"
+
+/**
+ * SMTP transport - sends emails through the server configured by the SMTP_* env vars
+ */
+export const createSmtpTransport = (): EmailTransport => {
+  const transporter = nodemailer.createTransport({
+    host: process.env.SMTP_HOST,
+    port: Number(process.env.SMTP_PORT ?? 587),
+    secure: process.env.SMTP_PORT === "465",
+    auth: process.env.SMTP_USER
+      ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASSWORD }
+      : undefined,
+  })
+
+  return {
+    send: async (message) => {
+      await transporter.sendMail({ from: process.env.EMAIL_FROM, ...message })
+    },
+  }
+}
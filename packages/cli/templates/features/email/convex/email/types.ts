@@ -0,0 +1,19 @@
+import { type Infer, v } from "convex/values"
+
+/**
+ * An email sent through the configured transport
+ */
+export const emailMessage = v.object({
+  to: v.string(),
+  subject: v.string(),
+  text: v.string(),
+  html: v.optional(v.string()),
+})
+export type EmailMessage = Infer<typeof emailMessage>
+
+/**
+ * Delivers emails (console output or the dev mailbox in development, SMTP in production)
+ */
+export type EmailTransport = {
+  send: (message: EmailMessage) => Promise<void>
+}
@@ -0,0 +1,13 @@
+import OrganizationSettings from "./view";
+
+export const dynamic = 'force-dynamic';
+
+export default async function OrganizationPage({
+	params,
+}: {
+	params: Promise<{ pathname: string }>;
+}) {
+	const { pathname } = await params;
+
+	return <OrganizationSettings pathname={pathname} />;
+}
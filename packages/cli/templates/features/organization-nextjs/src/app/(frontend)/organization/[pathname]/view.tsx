@@ -0,0 +1,13 @@
+"use client";
+
+import { OrganizationInvitationsCard, OrganizationView } from "@daveyplate/better-auth-ui";
+
+export default function OrganizationSettings({ pathname }: { pathname: string }) {
+	return (
+		<main>
+			{pathname === "invitations"
+				? <OrganizationInvitationsCard />
+				: <OrganizationView pathname={pathname} />}
+		</main>
+	);
+}
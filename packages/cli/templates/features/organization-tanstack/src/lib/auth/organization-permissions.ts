@@ -0,0 +1,145 @@
+import type { Doc } from "@convex/_generated/dataModel";
+import type {
+  User,
+} from "~/db/types";
+
+import {
+  ORGANIZATION_ROLES,
+  type OrganizationRole,
+  TABLE_SLUG_INVITATIONS,
+  TABLE_SLUG_MEMBERS,
+  TABLE_SLUG_ORGANIZATIONS,
+} from "~/db/constants";
+
+import { hasPermission, type Permissions } from "./permissions";
+
+// The user's membership in the organization that owns the data (a row of the organization plugin's member table)
+export type OrganizationMember = {
+  organizationId: string;
+  role: string;
+  userId: string;
+};
+
+// The organization plugin's resources, with the actions of Better Auth's default access control
+// statements (better-auth/plugins/organization/access) that organization() enforces on its endpoints
+export type OrganizationPermissions = Permissions & {
+  [TABLE_SLUG_ORGANIZATIONS]: {
+    action: "delete" | "update";
+    dataType: Doc<typeof TABLE_SLUG_ORGANIZATIONS>;
+  };
+  [TABLE_SLUG_MEMBERS]: {
+    action: "create" | "delete" | "update";
+    dataType: Doc<typeof TABLE_SLUG_MEMBERS>;
+  };
+  [TABLE_SLUG_INVITATIONS]: {
+    action: "cancel" | "create";
+    dataType: Doc<typeof TABLE_SLUG_INVITATIONS>;
+  };
+};
+
+export type OrganizationRolesWithPermissions = Record<
+  OrganizationRole,
+  Partial<{
+    [TKey in keyof OrganizationPermissions]: Partial<
+      Record<OrganizationPermissions[TKey]["action"], OrganizationPermissionCheck<TKey>>
+    >;
+  }>
+>;
+
+type OrganizationPermissionCheck<TKey extends keyof OrganizationPermissions> =
+  | (({
+    data,
+    member,
+    user,
+  }: {
+    data: OrganizationPermissions[TKey]["dataType"];
+    member: OrganizationMember;
+    user: User;
+  }) => boolean)
+  | boolean;
+
+const isOwnOrganization = ({ data, member }: { data: Doc<typeof TABLE_SLUG_ORGANIZATIONS>; member: OrganizationMember }) =>
+  data._id === member.organizationId;
+const isInOwnOrganization = ({ data, member }: { data: { organizationId: string }; member: OrganizationMember }) =>
+  data.organizationId === member.organizationId;
+
+// Permissions granted through an organization role, on top of the user's own roles.
+// Mirrors Better Auth's default owner, admin and member roles, limited to the member's own organization;
+// add org-scoped resources of your own the same way.
+const ORGANIZATION_ROLES_WITH_PERMISSIONS = {
+  [ORGANIZATION_ROLES.admin]: {
+    [TABLE_SLUG_INVITATIONS]: {
+      cancel: isInOwnOrganization,
+      create: isInOwnOrganization,
+    },
+    [TABLE_SLUG_MEMBERS]: {
+      create: isInOwnOrganization,
+      delete: isInOwnOrganization,
+      update: isInOwnOrganization,
+    },
+    [TABLE_SLUG_ORGANIZATIONS]: {
+      delete: false,
+      update: isOwnOrganization,
+    },
+  },
+  [ORGANIZATION_ROLES.member]: {
+    [TABLE_SLUG_INVITATIONS]: {
+      cancel: false,
+      create: false,
+    },
+    [TABLE_SLUG_MEMBERS]: {
+      create: false,
+      delete: false,
+      update: false,
+    },
+    [TABLE_SLUG_ORGANIZATIONS]: {
+      delete: false,
+      update: false,
+    },
+  },
+  [ORGANIZATION_ROLES.owner]: {
+    [TABLE_SLUG_INVITATIONS]: {
+      cancel: isInOwnOrganization,
+      create: isInOwnOrganization,
+    },
+    [TABLE_SLUG_MEMBERS]: {
+      create: isInOwnOrganization,
+      delete: isInOwnOrganization,
+      update: isInOwnOrganization,
+    },
+    [TABLE_SLUG_ORGANIZATIONS]: {
+      delete: isOwnOrganization,
+      update: isOwnOrganization,
+    },
+  },
+} as const satisfies OrganizationRolesWithPermissions;
+
+export function hasOrganizationPermission<TResource extends keyof OrganizationPermissions>({
+  action,
+  data,
+  member,
+  resource,
+  user,
+}: {
+  action: OrganizationPermissions[TResource]["action"];
+  data?: OrganizationPermissions[TResource]["dataType"];
+  member?: null | OrganizationMember;
+  resource: TResource;
+  user?: null | User;
+}): boolean {
+  // User roles have no organization resources, so hasPermission denies those
+  if (hasPermission({ action, data, resource, user } as Parameters<typeof hasPermission>[0])) { return true }
+
+  if (!user || member?.userId !== user._id) { return false }
+
+  // Better Auth stores multiple organization roles as a comma-separated string
+  return member.role.split(",").some((role) => {
+    const permission = (ORGANIZATION_ROLES_WITH_PERMISSIONS as Partial<OrganizationRolesWithPermissions>)[role.trim() as OrganizationRole]?.[resource]?.[action]
+
+    if (!permission) { return false }
+
+    if (typeof permission === "boolean") { return permission }
+
+    return data != null && permission({ data, member, user })
+  })
+}
@@ -0,0 +1,17 @@
+import { createFileRoute } from '@tanstack/react-router'
+import { OrganizationInvitationsCard, OrganizationView } from '@daveyplate/better-auth-ui'
+
+export const Route = createFileRoute('/organization/$organizationView')({
+  component: RouteComponent,
+})
+
+function RouteComponent() {
+  const { organizationView } = Route.useParams()
+  return (
+    <main>
+      {organizationView === 'invitations'
+        ? <OrganizationInvitationsCard />
+        : <OrganizationView pathname={organizationView} />}
+    </main>
+  )
+}
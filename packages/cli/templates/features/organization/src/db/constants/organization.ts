@@ -0,0 +1,7 @@
+// Built-in Better Auth organization roles, stored on the member table
+export const ORGANIZATION_ROLES = {
+  owner: "owner",
+  admin: "admin",
+  member: "member",
+} as const;
+export type OrganizationRole = (typeof ORGANIZATION_ROLES)[keyof typeof ORGANIZATION_ROLES];
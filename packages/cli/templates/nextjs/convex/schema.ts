@@ -1,14 +1,11 @@
 import { defineSchema, defineTable } from "convex/server";
 import { v } from "convex/values"
 
-import { TABLE_SLUG_ACCOUNTS, TABLE_SLUG_API_KEYS, TABLE_SLUG_JWKS, TABLE_SLUG_SESSIONS, TABLE_SLUG_USERS, TABLE_SLUG_VERIFICATIONS } from "~/db/constants";
+import { TABLE_SLUG_ACCOUNTS, TABLE_SLUG_JWKS, TABLE_SLUG_SESSIONS, TABLE_SLUG_USERS, TABLE_SLUG_VERIFICATIONS } from "~/db/constants";
 
 export default defineSchema({
   // Better Auth component tables (type definitions only - actual tables are in component)
   [TABLE_SLUG_USERS]: defineTable({
-    banExpires: v.optional(v.number()), // admin plugin
-    banned: v.optional(v.boolean()), // admin plugin
-    banReason: v.optional(v.string()), // admin plugin
     displayUsername: v.optional(v.union(v.null(), v.string())),
     name: v.string(),
     username: v.optional(v.union(v.null(), v.string())),
@@ -19,7 +16,6 @@ export default defineSchema({
     isAnonymous: v.optional(v.union(v.null(), v.boolean())),
     phoneNumber: v.optional(v.union(v.null(), v.string())),
     phoneNumberVerified: v.optional(v.union(v.null(), v.boolean())),
-    role: v.optional(v.string()), // admin plugin — single string in BA 1.5
     roles: v.array(v.string()), // our multi-role field via additionalFields
     twoFactorEnabled: v.optional(v.union(v.null(), v.boolean())),
     updatedAt: v.number(),
@@ -47,7 +43,6 @@ export default defineSchema({
   [TABLE_SLUG_SESSIONS]: defineTable({
     createdAt: v.number(),
     expiresAt: v.number(),
-    impersonatedBy: v.optional(v.id(TABLE_SLUG_USERS)), // admin plugin
     ipAddress: v.optional(v.string()),
     token: v.string(),
     updatedAt: v.number(),
@@ -71,31 +66,4 @@ export default defineSchema({
     privateKey: v.optional(v.string()),
     publicKey: v.string(),
   }),
-
-  // Better Auth 1.5 — apiKey plugin (@better-auth/api-key)
-  [TABLE_SLUG_API_KEYS]: defineTable({
-    configId: v.string(),
-    name: v.optional(v.string()),
-    start: v.optional(v.string()),
-    referenceId: v.string(),
-    prefix: v.optional(v.string()),
-    key: v.string(),
-    refillInterval: v.optional(v.number()),
-    refillAmount: v.optional(v.number()),
-    lastRefillAt: v.optional(v.number()),
-    enabled: v.optional(v.boolean()),
-    rateLimitEnabled: v.optional(v.boolean()),
-    rateLimitTimeWindow: v.optional(v.number()),
-    rateLimitMax: v.optional(v.number()),
-    requestCount: v.optional(v.number()),
-    remaining: v.optional(v.number()),
-    lastRequest: v.optional(v.number()),
-    expiresAt: v.optional(v.number()),
-    createdAt: v.number(),
-    updatedAt: v.number(),
-    permissions: v.optional(v.string()),
-    metadata: v.optional(v.string()),
-  })
-    .index("by_referenceId", ["referenceId"])
-    .index("by_key", ["key"]),
 })
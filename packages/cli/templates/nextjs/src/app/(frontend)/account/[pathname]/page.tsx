@@ -0,0 +1,13 @@
+import AccountSettings from "./view";
+
+export const dynamic = 'force-dynamic';
+
+export default async function AccountPage({
+	params,
+}: {
+	params: Promise<{ pathname: string }>;
+}) {
+	const { pathname } = await params;
+
+	return <AccountSettings pathname={pathname} />;
+}
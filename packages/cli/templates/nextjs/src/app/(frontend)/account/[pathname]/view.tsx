@@ -0,0 +1,11 @@
+"use client";
+
+import { AccountView } from "@daveyplate/better-auth-ui";
+
+export default function AccountSettings({ pathname }: { pathname: string }) {
+	return (
+		<main>
+			<AccountView pathname={pathname} />
+		</main>
+	);
+}
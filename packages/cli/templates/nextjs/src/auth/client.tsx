@@ -2,8 +2,6 @@ import type { ReactNode } from "react";
 
 import { convexClient } from "@convex-dev/better-auth/client/plugins";
 import { AuthUIProvider } from "@daveyplate/better-auth-ui";
-import { apiKeyClient } from "@better-auth/api-key/client";
-import { adminClient } from "better-auth/client/plugins";
 import { createAuthClient } from 'better-auth/react'
 import Link from "next/link";
 import { useRouter } from "next/navigation";
@@ -14,8 +12,6 @@ export const authClient = createAuthClient({
   basePath: "/api/auth",
   baseURL: env.NEXT_PUBLIC_SITE_URL,
   plugins: [
-    adminClient(),
-    apiKeyClient(),
     convexClient()
   ]
 })
@@ -31,14 +27,12 @@ export default function BetterAuthClientProvider({ children }: { children: React
   return (
     <AuthUIProvider
       authClient={authClient}
-      /* {{EMAIL_PASSWORD_CREDENTIALS}} */
       Link={Link}
       navigate={router.push}
       onSessionChange={() => {
         router.refresh()
       }}
       replace={router.replace}
-    // {{OAUTH_UI_PROVIDERS}}
     >
       {children}
     </AuthUIProvider>
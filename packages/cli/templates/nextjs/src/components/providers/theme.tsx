@@ -3,9 +3,95 @@
 import { ThemeProvider as NextThemesProvider } from "next-themes"
 import * as React from "react"
 
+// Brand themes emitted as [data-theme] blocks in globals.css ("default" is the :root palette)
+export const brandThemes = ["default"] as const
+export type BrandTheme = (typeof brandThemes)[number]
+
+// Widened so checks against them stay meaningful while only "default" is registered
+export const brandThemeNames: ReadonlyArray<string> = brandThemes
+export const defaultBrandTheme: string = brandThemes[0]
+
+const brandStorageKey = "_preferred-brand-theme"
+
+function isBrandTheme(value: unknown): value is BrandTheme {
+  return brandThemes.includes(value as BrandTheme)
+}
+
+function handleBrandThemeChange(brandTheme: BrandTheme) {
+  const root = document.documentElement
+  if (brandTheme === defaultBrandTheme) {
+    delete root.dataset.theme
+  } else {
+    root.dataset.theme = brandTheme
+  }
+}
+
+type BrandThemeContextValue = { brandTheme: BrandTheme; setBrandTheme: (value: BrandTheme) => void }
+const BrandThemeContext = React.createContext<BrandThemeContextValue | null>(null)
+
+// The <html> data-theme attribute is the source of truth: the inline script sets it before hydration
+function subscribeBrandTheme(onChange: () => void) {
+  const observer = new MutationObserver(onChange)
+  observer.observe(document.documentElement, { attributes: true, attributeFilter: ["data-theme"] })
+  return () => observer.disconnect()
+}
+
+function getBrandThemeSnapshot(): BrandTheme {
+  const savedTheme = document.documentElement.dataset.theme
+  return isBrandTheme(savedTheme) ? savedTheme : "default"
+}
+
+function getServerBrandThemeSnapshot(): BrandTheme {
+  return "default"
+}
+
+function BrandThemeProvider({ children }: React.PropsWithChildren) {
+  const brandTheme = React.useSyncExternalStore(
+    subscribeBrandTheme,
+    getBrandThemeSnapshot,
+    getServerBrandThemeSnapshot,
+  )
+
+  function setBrandTheme(value: BrandTheme) {
+    handleBrandThemeChange(value)
+    document.cookie = `${brandStorageKey}=${value}; path=/; max-age=31536000; samesite=lax`
+  }
+
+  return (
+    <BrandThemeContext value={{ brandTheme, setBrandTheme }}>
+      <script
+        dangerouslySetInnerHTML={{ __html: brandThemeScript }}
+        suppressHydrationWarning
+      />
+      {children}
+    </BrandThemeContext>
+  )
+}
+
+export function useBrandTheme() {
+  const val = React.use(BrandThemeContext)
+  if (!val) throw new Error("useBrandTheme called outside of ThemeProvider!")
+  return val
+}
+
 export function ThemeProvider({
   children,
   ...props
 }: React.ComponentProps<typeof NextThemesProvider>) {
-  return <NextThemesProvider {...props}>{children}</NextThemesProvider>
+  return (
+    <NextThemesProvider {...props}>
+      <BrandThemeProvider>{children}</BrandThemeProvider>
+    </NextThemesProvider>
+  )
 }
+
+// Applies the saved brand theme before first paint to avoid a flash of the default palette
+const brandThemeScript = `(function () {
+  try {
+    var match = document.cookie.match(/(?:^|; )${brandStorageKey}=([^;]*)/);
+    var theme = match && match[1];
+    if (theme && theme !== "default" && ${JSON.stringify(brandThemes)}.indexOf(theme) !== -1) {
+      document.documentElement.dataset.theme = theme;
+    }
+  } catch (e) {}
+})();`
@@ -9,11 +9,15 @@ import {
   DropdownMenu,
   DropdownMenuCheckboxItem,
   DropdownMenuContent,
+  DropdownMenuSeparator,
   DropdownMenuTrigger
 } from "~/components/ui/dropdown-menu";
+import { brandThemeNames, brandThemes, useBrandTheme } from "~/components/providers/theme";
 
 export function ThemeToggle({ ...divProps }: ComponentPropsWithRef<"div">) {
   const { setTheme, theme, resolvedTheme } = useTheme()
+  const { brandTheme, setBrandTheme } = useBrandTheme()
+  const activeBrandTheme: string = brandTheme
 
   return (
     <div {...divProps}>
@@ -57,6 +61,21 @@ export function ThemeToggle({ ...divProps }: ComponentPropsWithRef<"div">) {
           >
             System
           </DropdownMenuCheckboxItem>
+          {brandThemeNames.length > 1 && <DropdownMenuSeparator />}
+          {brandThemeNames.length > 1 && brandThemes.map((name) => (
+            <DropdownMenuCheckboxItem
+              key={name}
+              checked={activeBrandTheme === name}
+              disabled={activeBrandTheme === name}
+              onCheckedChange={(val) => {
+                if (val) {
+                  setBrandTheme(name)
+                }
+              }}
+            >
+              <span className="capitalize">{name}</span>
+            </DropdownMenuCheckboxItem>
+          ))}
         </DropdownMenuContent>
       </DropdownMenu>
     </div >
@@ -6,7 +6,6 @@ export const TABLE_SLUG_ACCOUNTS = "account" as const;
 export const TABLE_SLUG_SESSIONS = "session" as const;
 export const TABLE_SLUG_VERIFICATIONS = "verification" as const;
 export const TABLE_SLUG_JWKS = "jwks" as const;
-export const TABLE_SLUG_API_KEYS = "apikey" as const;
 
 export const COLLECTION_SLUG_MEDIA = "media" as const;
 
@@ -8,9 +8,9 @@ export const env = createEnv({
    * `NEXT_PUBLIC_`.
    */
   client: {
-    NEXT_PUBLIC_SITE_URL: z.string(),
     NEXT_PUBLIC_CONVEX_SITE_URL: z.string(),
     NEXT_PUBLIC_CONVEX_URL: z.string(),
+    NEXT_PUBLIC_SITE_URL: z.string(),
   },
 
   /**
@@ -25,11 +25,10 @@ export const env = createEnv({
    */
   runtimeEnv: {
     BETTER_AUTH_SECRET: process.env.BETTER_AUTH_SECRET,
-    NEXT_PUBLIC_SITE_URL: process.env.NEXT_PUBLIC_SITE_URL,
     NEXT_PUBLIC_CONVEX_SITE_URL: process.env.NEXT_PUBLIC_CONVEX_SITE_URL,
     NEXT_PUBLIC_CONVEX_URL: process.env.NEXT_PUBLIC_CONVEX_URL,
+    NEXT_PUBLIC_SITE_URL: process.env.NEXT_PUBLIC_SITE_URL,
     NODE_ENV: process.env.NODE_ENV,
-    // {{OAUTH_ENV_RUNTIME_MAPPING}}
   },
   /**
    * Specify your server-side environment variables schema here. This way you can ensure the app
@@ -37,8 +36,13 @@ export const env = createEnv({
    */
   server: {
     BETTER_AUTH_SECRET: z.string(),
+  },
+  /**
+   * Specify environment variables available on both the server and the client here, e.g. NODE_ENV
+   * to hide the /dev routes in production.
+   */
+  shared: {
     NODE_ENV: z.enum(["development", "test", "production"]),
-    // {{OAUTH_ENV_SERVER_SCHEMA}}
   },
   /**
    * Run `build` or `dev` with `SKIP_ENV_VALIDATION` to skip env validation. This is especially
@@ -21,8 +21,6 @@ export const createAuth = (
   { optionsOnly } = { optionsOnly: false }
 ) => {
   return betterAuth({
-    // {{EMAIL_PASSWORD_AUTH}}
-    // {{OAUTH_PROVIDERS}}
     account: {
       modelName: TABLE_SLUG_ACCOUNTS
     },
@@ -3,7 +3,6 @@ import { v } from "convex/values"
 
 import {
   TABLE_SLUG_ACCOUNTS,
-  TABLE_SLUG_API_KEYS,
   TABLE_SLUG_JWKS,
   TABLE_SLUG_SESSIONS,
   TABLE_SLUG_USERS,
@@ -26,10 +25,6 @@ export default defineSchema({
     twoFactorEnabled: v.optional(v.union(v.null(), v.boolean())),
     updatedAt: v.number(),
     userId: v.optional(v.union(v.null(), v.string())),
-    banExpires: v.optional(v.number()), // admin plugin
-    banned: v.optional(v.boolean()), // admin plugin
-    banReason: v.optional(v.string()), // admin plugin
-    role: v.optional(v.string()), // admin plugin — single string in BA 1.5
     roles: v.array(v.string()), // our multi-role field via additionalFields
   })
     .index("by_email", ["email"]),
@@ -59,7 +54,6 @@ export default defineSchema({
     updatedAt: v.number(),
     userAgent: v.optional(v.string()),
     userId: v.id(TABLE_SLUG_USERS),
-    impersonatedBy: v.optional(v.id(TABLE_SLUG_USERS)), // admin plugin
   })
     .index("by_token", ["token"]),
 
@@ -78,31 +72,4 @@ export default defineSchema({
     privateKey: v.optional(v.string()),
     publicKey: v.string(),
   }),
-
-  // Better Auth 1.5 — apiKey plugin (@better-auth/api-key)
-  [TABLE_SLUG_API_KEYS]: defineTable({
-    configId: v.string(),           // new in 1.5, default "default"
-    name: v.optional(v.string()),
-    start: v.optional(v.string()),
-    referenceId: v.string(),        // replaces userId from 1.4
-    prefix: v.optional(v.string()),
-    key: v.string(),
-    refillInterval: v.optional(v.number()),
-    refillAmount: v.optional(v.number()),
-    lastRefillAt: v.optional(v.number()),
-    enabled: v.optional(v.boolean()),
-    rateLimitEnabled: v.optional(v.boolean()),
-    rateLimitTimeWindow: v.optional(v.number()),
-    rateLimitMax: v.optional(v.number()),
-    requestCount: v.optional(v.number()),
-    remaining: v.optional(v.number()),
-    lastRequest: v.optional(v.number()),
-    expiresAt: v.optional(v.number()),
-    createdAt: v.number(),
-    updatedAt: v.number(),
-    permissions: v.optional(v.string()),
-    metadata: v.optional(v.string()),
-  })
-    .index("by_referenceId", ["referenceId"])
-    .index("by_key", ["key"]),
 })
@@ -6,12 +6,14 @@ import {
   DropdownMenu,
   DropdownMenuCheckboxItem,
   DropdownMenuContent,
+  DropdownMenuSeparator,
   DropdownMenuTrigger
 } from "~/components/ui/dropdown-menu";
-import { useTheme } from "~/lib/theme";
+import { brandThemeNames, brandThemes, useTheme } from "~/lib/theme";
 
 export function ThemeToggle({ ...divProps }: ComponentPropsWithRef<"div">) {
-  const { setTheme, userTheme } = useTheme()
+  const { setTheme, userTheme, brandTheme, setBrandTheme } = useTheme()
+  const activeBrandTheme: string = brandTheme
 
   return (
     <div {...divProps}>
@@ -61,6 +63,21 @@ export function ThemeToggle({ ...divProps }: ComponentPropsWithRef<"div">) {
           >
             System
           </DropdownMenuCheckboxItem>
+          {brandThemeNames.length > 1 && <DropdownMenuSeparator />}
+          {brandThemeNames.length > 1 && brandThemes.map((name) => (
+            <DropdownMenuCheckboxItem
+              key={name}
+              checked={activeBrandTheme === name}
+              disabled={activeBrandTheme === name}
+              onCheckedChange={(val) => {
+                if (val) {
+                  setBrandTheme(name)
+                }
+              }}
+            >
+              <span className="capitalize">{name}</span>
+            </DropdownMenuCheckboxItem>
+          ))}
         </DropdownMenuContent>
       </DropdownMenu>
     </div >
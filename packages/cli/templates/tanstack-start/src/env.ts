@@ -21,8 +21,6 @@ export const env = createEnv({
    * These are only available on the server and are never sent to the client
    */
   server: {
-    NODE_ENV: z.enum(['development', 'test', 'production']).default('development'),
-
     SITE_URL: z.string().url().optional(),
     // OpenAI API Key (for AI agents in Lambda)
     OPENAI_API_KEY: z.string().min(1).optional(),
@@ -37,8 +35,14 @@ export const env = createEnv({
 
     // Convex deployment URL (server-side operations)
     CONVEX_URL: z.string().url().optional(),
+  },
 
-    // {{OAUTH_ENV_SERVER_SCHEMA}}
+  /**
+   * Shared environment variables
+   * Available on both the server and the client (e.g., to hide the /dev routes in production)
+   */
+  shared: {
+    NODE_ENV: z.enum(['development', 'test', 'production']).default('development'),
   },
 
   /**
@@ -63,6 +67,11 @@ export const env = createEnv({
     NODE_ENV: process.env.NODE_ENV,
     SITE_URL: process.env.SITE_URL,
 
+    // Client vars (Vite exposes these automatically to import.meta.env)
+    VITE_CONVEX_URL: process.env.VITE_CONVEX_URL,
+    VITE_CONVEX_SITE_URL: process.env.VITE_CONVEX_SITE_URL,
+    VITE_SITE_URL: process.env.VITE_SITE_URL,
+
     // Server vars
     OPENAI_API_KEY: process.env.OPENAI_API_KEY,
     BETTER_AUTH_SECRET: process.env.BETTER_AUTH_SECRET,
@@ -70,13 +79,6 @@ export const env = createEnv({
     AWS_ACCESS_KEY_ID: process.env.AWS_ACCESS_KEY_ID,
     AWS_SECRET_ACCESS_KEY: process.env.AWS_SECRET_ACCESS_KEY,
     CONVEX_URL: process.env.CONVEX_URL,
-
-    // {{OAUTH_ENV_RUNTIME_MAPPING}}
-
-    // Client vars (Vite exposes these automatically to import.meta.env)
-    VITE_CONVEX_URL: process.env.VITE_CONVEX_URL,
-    VITE_CONVEX_SITE_URL: process.env.VITE_CONVEX_SITE_URL,
-    VITE_SITE_URL: process.env.VITE_SITE_URL,
   },
 
   /**
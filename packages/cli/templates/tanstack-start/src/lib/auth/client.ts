@@ -1,15 +1,10 @@
 import { createAuthClient } from "better-auth/react"
-import { adminClient } from "better-auth/client/plugins"
-import { apiKeyClient } from "@better-auth/api-key/client"
 import { env } from '~/env';
 
 export const authClient = createAuthClient({
   basePath: "/api/auth",
   baseURL: env.VITE_SITE_URL, // Point to TanStack Start, which proxies to Convex
-  plugins: [
-    adminClient(),
-    apiKeyClient()
-  ]
+  plugins: []
 })
 
 export const { signIn, signOut, useSession } = authClient
@@ -7,6 +7,14 @@ import { ComponentPropsWithRef, createContext, use, useEffect } from "react";
 export type UserTheme = "light" | "dark" | "system"
 export type AppTheme = Exclude<UserTheme, "system">
 
+// Brand themes emitted as [data-theme] blocks in styles.css ("default" is the :root palette)
+export const brandThemes = ["default"] as const
+export type BrandTheme = (typeof brandThemes)[number]
+
+// Widened so checks against them stay meaningful while only "default" is registered
+export const brandThemeNames: ReadonlyArray<string> = brandThemes
+export const defaultBrandTheme: string = brandThemes[0]
+
 function getSystemTheme(): AppTheme {
   if (typeof window === 'undefined') return "light"
   return window.matchMedia("(prefers-color-scheme: dark)").matches ? "dark" : "light"
@@ -22,6 +30,15 @@ function handleThemeChange(userTheme: UserTheme) {
   }
 }
 
+function handleBrandThemeChange(brandTheme: BrandTheme) {
+  const root = document.documentElement
+  if (brandTheme === defaultBrandTheme) {
+    delete root.dataset.theme
+  } else {
+    root.dataset.theme = brandTheme
+  }
+}
+
 function setupPreferredThemeListener() {
   const mediaQuery = window.matchMedia("(prefers-color-scheme: dark)")
   const handler = () => handleThemeChange("system")
@@ -29,29 +46,55 @@ function setupPreferredThemeListener() {
   return () => mediaQuery.removeEventListener("change", handler)
 }
 
-const postThemeValidator = z.union([z.literal("light"), z.literal("dark"), z.literal("system")])
-type SavedTheme = z.infer<typeof postThemeValidator>
+const userThemeValidator = z.union([z.literal("light"), z.literal("dark"), z.literal("system")])
+const brandThemeValidator = z.enum(brandThemes)
+const postThemeValidator = z.object({
+  userTheme: userThemeValidator.optional(),
+  brandTheme: brandThemeValidator.optional(),
+})
 const storageKey = "_preffered-theme"
+const brandStorageKey = "_preferred-brand-theme"
 
-export const getThemeServerFn = createServerFn().handler(
-  async () => (getCookie(storageKey) || "system") as SavedTheme
-)
+export const getThemeServerFn = createServerFn().handler(async () => {
+  const userTheme = userThemeValidator.safeParse(getCookie(storageKey))
+  const brandTheme = brandThemeValidator.safeParse(getCookie(brandStorageKey))
+  return {
+    userTheme: userTheme.success ? userTheme.data : "system",
+    brandTheme: brandTheme.success ? brandTheme.data : "default",
+  } satisfies { userTheme: UserTheme; brandTheme: BrandTheme }
+})
 
 export const setThemeServerFn = createServerFn({ method: "POST" })
   .inputValidator(postThemeValidator)
-  .handler(
-    async ({ data }) => (setCookie(storageKey, data))
-  )
-
-type ThemeContextValue = { appTheme: AppTheme; userTheme: UserTheme; setTheme: (value: UserTheme) => void }
+  .handler(async ({ data }) => {
+    if (data.userTheme) setCookie(storageKey, data.userTheme)
+    if (data.brandTheme) setCookie(brandStorageKey, data.brandTheme)
+  })
+
+type ThemeContextValue = {
+  appTheme: AppTheme
+  userTheme: UserTheme
+  setTheme: (value: UserTheme) => void
+  brandTheme: BrandTheme
+  setBrandTheme: (value: BrandTheme) => void
+}
 const ThemeContext = createContext<ThemeContextValue | null>(null)
 
-export function ThemeProvider({ children, theme: userTheme }: { theme: UserTheme } & ComponentPropsWithRef<"div">) {
+export function ThemeProvider({
+  children,
+  theme: userTheme,
+  brandTheme,
+}: { theme: UserTheme; brandTheme: BrandTheme } & ComponentPropsWithRef<"div">) {
   const router = useRouter()
 
   function setTheme(value: UserTheme) {
     handleThemeChange(value)
-    setThemeServerFn({ data: value }).then(() => router.invalidate())
+    setThemeServerFn({ data: { userTheme: value } }).then(() => router.invalidate())
+  }
+
+  function setBrandTheme(value: BrandTheme) {
+    handleBrandThemeChange(value)
+    setThemeServerFn({ data: { brandTheme: value } }).then(() => router.invalidate())
   }
 
   useEffect(() => {
@@ -60,7 +103,15 @@ export function ThemeProvider({ children, theme: userTheme }: { theme: UserTheme
   }, [userTheme])
 
   return (
-    <ThemeContext value={{ appTheme: userTheme === "system" ? getSystemTheme() : userTheme, userTheme, setTheme }}>
+    <ThemeContext
+      value={{
+        appTheme: userTheme === "system" ? getSystemTheme() : userTheme,
+        userTheme,
+        setTheme,
+        brandTheme,
+        setBrandTheme,
+      }}
+    >
       <ScriptOnce children={themeScript} />
       {children}
     </ThemeContext>
@@ -93,7 +144,7 @@ const themeScript: string = (function () {
       } else {
         document.documentElement.classList.add(validTheme);
       }
-    } catch (e) {
+    } catch {
       // Fallback to light theme on error
       document.documentElement.classList.add('light');
     }
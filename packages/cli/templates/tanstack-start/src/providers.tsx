@@ -23,12 +23,9 @@ export function Providers({ children }: { children: ReactNode }) {
       <AuthQueryProvider>
         <AuthUIProviderTanstack
           authClient={authClient}
-          classNames={{ card: "border border-border" }}
-          /* {{EMAIL_PASSWORD_CREDENTIALS}} */
           navigate={(href) => router.navigate({ href })}
           replace={(href) => router.navigate({ href, replace: true })}
           Link={({ href, ...props }) => <Link to={href} {...props} />}
-          // {{OAUTH_UI_PROVIDERS}}
         >
           {children}
         </AuthUIProviderTanstack>
@@ -56,9 +56,17 @@ export interface FileRoutesById {
 }
 export interface FileRouteTypes {
   fileRoutesByFullPath: FileRoutesByFullPath
-  fullPaths: '/' | '/account/$accountView' | '/auth/$authView' | '/api/auth/$'
+  fullPaths:
+    | '/'
+    | '/account/$accountView'
+    | '/auth/$authView'
+    | '/api/auth/$'
   fileRoutesByTo: FileRoutesByTo
-  to: '/' | '/account/$accountView' | '/auth/$authView' | '/api/auth/$'
+  to:
+    | '/'
+    | '/account/$accountView'
+    | '/auth/$authView'
+    | '/api/auth/$'
   id:
     | '__root__'
     | '/'
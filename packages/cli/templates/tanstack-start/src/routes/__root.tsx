@@ -1,11 +1,10 @@
 import { QueryClient } from "@tanstack/react-query"
-import { createRootRouteWithContext, Outlet } from "@tanstack/react-router"
+import { createRootRouteWithContext, HeadContent, Outlet, Scripts } from "@tanstack/react-router"
 import { TanStackDevtools } from '@tanstack/react-devtools'
-import { HeadContent, Scripts } from '@tanstack/react-router'
 import { TanStackRouterDevtoolsPanel } from '@tanstack/react-router-devtools'
 import type { ConvexQueryClient } from "@convex-dev/react-query"
 import { Providers } from "~/providers"
-import { ThemeProvider, getThemeServerFn } from "~/lib/theme"
+import { ThemeProvider, defaultBrandTheme, getThemeServerFn } from "~/lib/theme"
 
 import appCss from '../styles.css?url'
 import { createServerFn } from "@tanstack/react-start"
@@ -61,14 +60,18 @@ function RootComponent() {
 }
 
 function RootDocument({ children }: { children: React.ReactNode }) {
-  const theme = Route.useLoaderData()
+  const { userTheme, brandTheme } = Route.useLoaderData()
   return (
-    <html lang="en" suppressHydrationWarning>
+    <html
+      lang="en"
+      data-theme={brandTheme === defaultBrandTheme ? undefined : brandTheme}
+      suppressHydrationWarning
+    >
       <head>
         <HeadContent />
       </head>
       <body>
-        <ThemeProvider theme={theme}>
+        <ThemeProvider theme={userTheme} brandTheme={brandTheme}>
           <Providers>
             {children}
           </Providers>